@@ -276,6 +276,18 @@ export class TFile {
   }
 }
 
+// Mock TFolder class
+export class TFolder {
+  path: string;
+  name: string;
+  children: Array<TFile | TFolder> = [];
+
+  constructor(path: string) {
+    this.path = path;
+    this.name = path.split('/').pop() || '';
+  }
+}
+
 // Mock Vault class
 export class Vault {
   adapter: any;
@@ -9,10 +9,11 @@
  * This implementation handles token counting and context window management.
  */
 
-import { Message, CompletionOptions, ConnectionTestResult } from '../src/types';
+import { Message, CompletionOptions, ConnectionTestResult, NativeToolCall, TokenUsage } from '../src/types';
 import { BaseProvider, ProviderError, ProviderErrorType } from './base';
 import Anthropic from '@anthropic-ai/sdk';
 import { debugLog } from '../src/utils/logger'; // Import debugLog
+import { describeContentPart, getMessageParts, hasAttachments } from '../src/utils/messageParts';
 
 /**
  * Anthropic API response types
@@ -20,9 +21,13 @@ import { debugLog } from '../src/utils/logger'; // Import debugLog
  */
 interface AnthropicMessage {
     role: 'user' | 'assistant';
-    content: string;
+    content: string | AnthropicContentBlock[];
 }
 
+type AnthropicContentBlock =
+    | { type: 'text'; text: string }
+    | { type: 'image' | 'document'; source: { type: 'base64'; media_type: string; data: string } };
+
 interface AnthropicStreamEvent {
     type: string;
     delta?: {
@@ -172,6 +177,20 @@ export class AnthropicProvider extends BaseProvider {
             if (systemPrompt) {
                 requestParams.system = systemPrompt;
             }
+
+            // Offer tools through native tool use when requested
+            const useNativeTools = !!options.tools?.length;
+            if (useNativeTools) {
+                requestParams.tools = options.tools!.map(tool => ({
+                    name: tool.name,
+                    description: tool.description,
+                    input_schema: tool.parameters
+                }));
+            }
+            // tool_use blocks stream their input as partial JSON, keyed by block index
+            const toolBlocks = new Map<number, { id: string; name: string; inputJson: string }>();
+            // Input tokens arrive with message_start, output tokens with message_delta
+            let usage: TokenUsage | undefined;
             
             // Create the stream with proper message format
             // Use type assertion to bypass TypeScript errors
@@ -200,6 +219,27 @@ export class AnthropicProvider extends BaseProvider {
                                 chunk.delta?.type === 'text_delta' && 
                                 options.streamCallback) {
                                 options.streamCallback(chunk.delta.text);
+                            } else if (chunk.type === 'content_block_start' && chunk.content_block?.type === 'tool_use') {
+                                toolBlocks.set(chunk.index, {
+                                    id: chunk.content_block.id,
+                                    name: chunk.content_block.name,
+                                    inputJson: ''
+                                });
+                            } else if (chunk.type === 'content_block_delta' && chunk.delta?.type === 'input_json_delta') {
+                                const block = toolBlocks.get(chunk.index);
+                                if (block) {
+                                    block.inputJson += chunk.delta.partial_json || '';
+                                }
+                            } else if (chunk.type === 'message_start' && chunk.message?.usage) {
+                                const messageUsage = chunk.message.usage;
+                                usage = {
+                                    inputTokens: (messageUsage.input_tokens ?? 0) +
+                                        (messageUsage.cache_creation_input_tokens ?? 0) +
+                                        (messageUsage.cache_read_input_tokens ?? 0),
+                                    outputTokens: messageUsage.output_tokens ?? 0
+                                };
+                            } else if (chunk.type === 'message_delta' && chunk.usage && usage) {
+                                usage.outputTokens = chunk.usage.output_tokens ?? usage.outputTokens;
                             }
                         }
                     } else if (options.streamCallback) {
@@ -214,6 +254,13 @@ export class AnthropicProvider extends BaseProvider {
                 debugLog(this.debugMode, 'error', 'Error processing Anthropic stream:', streamError); // Use debugLog
                 throw streamError;
             }
+
+            if (useNativeTools && options.toolCallCallback) {
+                options.toolCallCallback(this.assembleToolCalls(toolBlocks));
+            }
+            if (usage && options.usageCallback) {
+                options.usageCallback(usage);
+            }
         } catch (error) {
             if (error instanceof ProviderError) {
                 throw error;
@@ -227,6 +274,30 @@ export class AnthropicProvider extends BaseProvider {
         }
     }
 
+    /**
+     * Turns streamed tool_use blocks into complete tool calls.
+     * Blocks whose input is not valid JSON are skipped.
+     * 
+     * @param blocks - tool_use blocks keyed by content block index
+     * @returns Parsed tool calls in the order the model made them
+     */
+    private assembleToolCalls(blocks: Map<number, { id: string; name: string; inputJson: string }>): NativeToolCall[] {
+        const calls: NativeToolCall[] = [];
+        const ordered = Array.from(blocks.entries()).sort(([a], [b]) => a - b);
+        for (const [, block] of ordered) {
+            try {
+                calls.push({
+                    id: block.id,
+                    name: block.name,
+                    arguments: block.inputJson ? JSON.parse(block.inputJson) : {}
+                });
+            } catch (e) {
+                debugLog(this.debugMode, 'warn', 'Error parsing Anthropic tool input:', { name: block.name, error: e }); // Use debugLog
+            }
+        }
+        return calls;
+    }
+
     /**
      * Get available Anthropic models
      * 
@@ -252,6 +323,7 @@ export class AnthropicProvider extends BaseProvider {
      * 
      * Converts from the plugin's Message format to Anthropic's expected format.
      * Handles system messages specially as Anthropic has a different format.
+     * Attachments become base64 `image` blocks, and PDFs `document` blocks.
      * 
      * @param messages - Array of messages to format
      * @returns Formatted messages and system prompt for Anthropic API
@@ -277,12 +349,27 @@ export class AnthropicProvider extends BaseProvider {
                 ? msg.role as 'user' | 'assistant'  // Type assertion to help TypeScript
                 : 'user' as const;
             
-            return { role, content: msg.content };
+            return { role, content: hasAttachments(msg) ? this.formatContentBlocks(msg) : msg.content };
         });
         
         return { systemPrompt, anthropicMessages };
     }
 
+    /**
+     * Converts a message's text and attachments to Anthropic content blocks.
+     */
+    private formatContentBlocks(message: Message): AnthropicContentBlock[] {
+        return getMessageParts(message).map((part): AnthropicContentBlock => {
+            if (part.type === 'image') {
+                return { type: 'image', source: { type: 'base64', media_type: part.mimeType, data: part.data } };
+            }
+            if (part.type === 'file' && part.mimeType === 'application/pdf') {
+                return { type: 'document', source: { type: 'base64', media_type: part.mimeType, data: part.data } };
+            }
+            return { type: 'text', text: describeContentPart(part) };
+        });
+    }
+
     /**
      * Test connection to Anthropic
      * 
@@ -5,25 +5,44 @@
  * which allows the plugin to interact with Google's Gemini API.
  */
 
-import { Message, CompletionOptions, ConnectionTestResult } from '../src/types';
+import { Message, CompletionOptions, ConnectionTestResult, NativeToolCall, ToolDefinition, TokenUsage } from '../src/types';
 import { BaseProvider, ProviderError, ProviderErrorType } from './base';
 import { debugLog } from '../src/utils/logger'; // Import debugLog
+import { getMessageParts } from '../src/utils/messageParts';
 
 interface GeminiResponse {
     candidates: Array<{
         content: {
             parts: Array<{
-                text: string;
+                text?: string;
+                functionCall?: {
+                    name: string;
+                    args?: Record<string, any>;
+                };
             }>;
             role: string;
         };
-        finishReason: string;
+        finishReason?: string;
         index: number;
         safetyRatings: Array<any>;
     }>;
-    promptFeedback: {
+    promptFeedback?: {
+        blockReason?: string;
         safetyRatings: Array<any>;
     };
+    usageMetadata?: {
+        promptTokenCount?: number;
+        candidatesTokenCount?: number;
+        totalTokenCount?: number;
+    };
+}
+
+/**
+ * What has been collected from the stream so far
+ */
+interface GeminiStreamState {
+    toolCalls: NativeToolCall[];
+    usage?: TokenUsage;
 }
 
 /**
@@ -68,7 +87,8 @@ export class GeminiProvider extends BaseProvider {
     /**
      * Get a completion from Google Gemini
      * 
-     * Sends the conversation to Gemini and streams back the response.
+     * Sends the conversation to Gemini's streamGenerateContent endpoint and
+     * streams back the response as server-sent events.
      * 
      * @param messages - The conversation history
      * @param options - Settings for this completion
@@ -80,39 +100,78 @@ export class GeminiProvider extends BaseProvider {
 
             // Dynamically select the correct base URL for the model
             const baseUrl = this.getBaseUrlForModel(this.model);
-            const url = `${baseUrl}/models/${this.model}:generateContent?key=${this.apiKey}`;
+            // alt=sse makes the endpoint emit "data: {...}" lines instead of one JSON array
+            const url = `${baseUrl}/models/${this.model}:streamGenerateContent?alt=sse&key=${this.apiKey}`;
+
+            const requestBody: any = {
+                contents: formattedMessages,
+                generationConfig: {
+                    temperature: options.temperature ?? 0.0,
+                }
+            };
+
+            // Constrain the response to the requested JSON schema
+            if (options.responseSchema) {
+                requestBody.generationConfig.responseMimeType = 'application/json';
+                requestBody.generationConfig.responseSchema = this.toGeminiSchema(options.responseSchema.schema);
+            }
+
+            // Offer tools through native function calling when requested
+            const useNativeTools = !!options.tools?.length;
+            if (useNativeTools) {
+                requestBody.tools = [{
+                    functionDeclarations: options.tools!.map(tool => this.toFunctionDeclaration(tool))
+                }];
+            }
+            const state: GeminiStreamState = { toolCalls: [] };
 
-            // Use non-streaming version for chat completions
             const response = await fetch(url, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json'
                 },
-                body: JSON.stringify({
-                    contents: formattedMessages,
-                    generationConfig: {
-                        temperature: options.temperature ?? 0.0,                    }
-                }),
+                body: JSON.stringify(requestBody),
                 signal: options.abortController?.signal
             });
 
             if (!response.ok) {
-                throw this.handleHttpError(response);
+                throw await this.handleHttpError(response);
             }
 
-            // For non-streaming response, parse the JSON directly
-            const data = await response.json();
-            debugLog(this.debugMode, 'debug', 'Gemini response:', JSON.stringify(data)); // Use debugLog
-            
-            // Extract the text from the response
-            const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-            
-            if (text && options.streamCallback) {
-                // Even though it's not streaming, we use the streamCallback
-                // to maintain compatibility with the existing interface
-                options.streamCallback(text);
-            } else {
-                debugLog(this.debugMode, 'warn', 'No text found in Gemini response:', JSON.stringify(data)); // Use debugLog
+            const reader = response.body?.getReader();
+            const decoder = new TextDecoder('utf-8');
+            let buffer = '';
+
+            while (true) {
+                // Stop reading as soon as the caller aborts, even if the server keeps sending
+                if (options.abortController?.signal.aborted) {
+                    await reader?.cancel();
+                    debugLog(this.debugMode, 'info', 'Gemini stream was aborted'); // Use debugLog
+                    break;
+                }
+
+                const { done, value } = await reader?.read() || { done: true, value: undefined };
+                if (done) break;
+
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+
+                for (const line of lines) {
+                    this.processEventLine(line, options, state);
+                }
+            }
+
+            // Flush a final event that was not newline-terminated
+            if (buffer.trim()) {
+                this.processEventLine(buffer, options, state);
+            }
+
+            if (useNativeTools && options.toolCallCallback && !options.abortController?.signal.aborted) {
+                options.toolCallCallback(state.toolCalls);
+            }
+            if (state.usage && options.usageCallback) {
+                options.usageCallback(state.usage);
             }
         } catch (error) {
             if (error instanceof ProviderError) {
@@ -127,6 +186,110 @@ export class GeminiProvider extends BaseProvider {
         }
     }
 
+    /**
+     * Parses one SSE line from the Gemini stream, forwards any text parts
+     * and collects function calls and token usage.
+     * 
+     * @param line - Raw line from the response body
+     * @param options - Completion options holding the stream callback
+     * @param state - Accumulator for function calls and usage seen so far
+     */
+    private processEventLine(line: string, options: CompletionOptions, state: GeminiStreamState): void {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) return;
+
+        let data: GeminiResponse;
+        try {
+            data = JSON.parse(trimmed.slice(5).trim());
+        } catch (e) {
+            debugLog(this.debugMode, 'warn', 'Error parsing Gemini response chunk:', e); // Use debugLog
+            return;
+        }
+
+        // Each event repeats the running usage totals, so the last one wins
+        if (data.usageMetadata) {
+            state.usage = {
+                inputTokens: data.usageMetadata.promptTokenCount ?? 0,
+                outputTokens: data.usageMetadata.candidatesTokenCount ?? 0
+            };
+        }
+
+        const candidate = data.candidates?.[0];
+        if (!candidate) {
+            // Prompt-level blocks arrive without candidates
+            if (data.promptFeedback?.blockReason) {
+                throw new ProviderError(
+                    ProviderErrorType.InvalidRequest,
+                    `Gemini blocked the prompt: ${data.promptFeedback.blockReason}`
+                );
+            }
+            return;
+        }
+
+        const parts = candidate.content?.parts || [];
+        for (const part of parts) {
+            if (part.functionCall?.name) {
+                state.toolCalls.push({
+                    name: part.functionCall.name,
+                    arguments: part.functionCall.args || {}
+                });
+            }
+        }
+
+        const text = parts
+            .map(part => part.text || '')
+            .join('');
+        if (text && options.streamCallback) {
+            options.streamCallback(text);
+        }
+
+        if (candidate.finishReason && candidate.finishReason !== 'STOP') {
+            debugLog(this.debugMode, 'warn', 'Gemini stream finished early:', candidate.finishReason); // Use debugLog
+        }
+    }
+
+    /**
+     * Converts a tool definition to a Gemini function declaration.
+     * Gemini accepts an OpenAPI subset, so schema types are upper-cased and
+     * keywords it rejects (such as "default") are dropped.
+     * 
+     * @param tool - Provider-neutral tool definition
+     * @returns Gemini function declaration
+     */
+    private toFunctionDeclaration(tool: ToolDefinition): Record<string, any> {
+        const declaration: Record<string, any> = {
+            name: tool.name,
+            description: tool.description
+        };
+        // Gemini rejects OBJECT schemas without properties
+        if (Object.keys(tool.parameters.properties).length > 0) {
+            declaration.parameters = this.toGeminiSchema(tool.parameters);
+        }
+        return declaration;
+    }
+
+    /**
+     * Converts a JSON schema to the OpenAPI subset Gemini accepts for parameters and responses.
+     *
+     * @param schema - JSON schema
+     * @returns Gemini schema with upper-case types and unsupported keywords left out
+     */
+    private toGeminiSchema(schema: any): Record<string, any> {
+        const converted: any = {};
+        if (schema.type) converted.type = String(schema.type).toUpperCase();
+        if (schema.description) converted.description = schema.description;
+        if (schema.enum) converted.enum = schema.enum;
+        if (schema.items) converted.items = this.toGeminiSchema(schema.items);
+        if (schema.properties) {
+            converted.properties = {};
+            for (const [key, value] of Object.entries(schema.properties)) {
+                converted.properties[key] = this.toGeminiSchema(value);
+            }
+        }
+        if (schema.required?.length) converted.required = schema.required;
+        return converted;
+    }
+
     /**
      * Get available Gemini models from both v1 and v1beta endpoints by default
      *
@@ -140,7 +303,7 @@ export class GeminiProvider extends BaseProvider {
                 method: 'GET',
                 headers: { 'Content-Type': 'application/json' }
             });
-            if (!response.ok) throw this.handleHttpError(response);
+            if (!response.ok) throw await this.handleHttpError(response);
             const data = await response.json();
             return data.models?.map((model: any) => model.name.split('/').pop()) || [];
         };
@@ -182,6 +345,7 @@ export class GeminiProvider extends BaseProvider {
      * Format messages for Gemini API
      * 
      * Converts from the plugin's Message format to Gemini's expected format.
+     * Attachments (images and PDFs) are sent as `inlineData` parts.
      * 
      * @param messages - Array of messages to format
      * @returns Formatted messages for Gemini API
@@ -212,7 +376,11 @@ export class GeminiProvider extends BaseProvider {
             
             geminiMessages.push({
                 role: role,
-                parts: [{ text: message.content }]
+                parts: message.parts?.length
+                    ? getMessageParts(message).map(part => part.type === 'text'
+                        ? { text: part.text }
+                        : { inlineData: { mimeType: part.mimeType, data: part.data } })
+                    : [{ text: message.content }]
             });
         }
         
@@ -10,11 +10,13 @@ import { BaseProvider, ProviderError, ProviderErrorType } from './base';
 import { AnthropicProvider } from './anthropic';
 import { OpenAIProvider } from './openai';
 import { GeminiProvider } from './gemini';
+import { OllamaProvider } from './ollama';
 
 export { BaseProvider, ProviderError, ProviderErrorType };
 export { AnthropicProvider };
 export { OpenAIProvider };
 export { GeminiProvider };
+export { OllamaProvider };
 
 /**
  * Creates an AI provider instance based on the plugin settings
@@ -45,6 +47,12 @@ export function createProvider(settings: MyPluginSettings): BaseProvider {
                 undefined, // apiVersion is optional, so pass undefined if not explicitly set
                 settings.debugMode ?? false // Pass debugMode
             );
+        case 'ollama':
+            return new OllamaProvider(
+                settings.ollamaSettings.serverUrl,
+                settings.ollamaSettings.model,
+                settings.debugMode ?? false // Pass debugMode
+            );
         default:
             throw new Error(`Invalid provider type: ${settings.provider}`);
     }
@@ -58,7 +66,8 @@ export function createProvider(settings: MyPluginSettings): BaseProvider {
  * @returns The appropriate provider instance
  */
 export function createProviderFromUnifiedModel(settings: MyPluginSettings, unifiedModelId: string): BaseProvider {
-    const [providerType, modelId] = unifiedModelId.split(':', 2);
+    const providerType = getProviderFromUnifiedModel(unifiedModelId);
+    const modelId = getModelIdFromUnifiedModel(unifiedModelId);
     
     switch (providerType) {
         case 'openai':
@@ -67,6 +76,8 @@ export function createProviderFromUnifiedModel(settings: MyPluginSettings, unifi
             return new AnthropicProvider(settings.anthropicSettings.apiKey, modelId, settings.debugMode ?? false); // Pass debugMode
         case 'gemini':
             return new GeminiProvider(settings.geminiSettings.apiKey, modelId, undefined, settings.debugMode ?? false); // Pass debugMode
+        case 'ollama':
+            return new OllamaProvider(settings.ollamaSettings.serverUrl, modelId, settings.debugMode ?? false); // Pass debugMode
         default:
             throw new Error(`Invalid provider type: ${providerType}`);
     }
@@ -87,6 +98,7 @@ export async function getAllAvailableModels(settings: MyPluginSettings): Promise
             case 'openai': return 'OpenAI';
             case 'anthropic': return 'Anthropic';
             case 'gemini': return 'Google';
+            case 'ollama': return 'Ollama';
             default: return provider;
         }
     };
@@ -127,6 +139,18 @@ export async function getAllAvailableModels(settings: MyPluginSettings): Promise
         });
     }
     
+    // Ollama models (local server, no API key required)
+    if (settings.ollamaSettings.serverUrl && settings.ollamaSettings.availableModels.length > 0) {
+        settings.ollamaSettings.availableModels.forEach(model => {
+            allModels.push({
+                id: `ollama:${model}`,
+                name: `${model} (${getProviderDisplayName('ollama')})`,
+                provider: 'ollama',
+                modelId: model
+            });
+        });
+    }
+    
     return allModels;
 }
 
@@ -136,18 +160,21 @@ export async function getAllAvailableModels(settings: MyPluginSettings): Promise
  * @param unifiedModelId The unified model ID (e.g., "openai:gpt-4")
  * @returns The provider type
  */
-export function getProviderFromUnifiedModel(unifiedModelId: string): 'openai' | 'anthropic' | 'gemini' {
+export function getProviderFromUnifiedModel(unifiedModelId: string): 'openai' | 'anthropic' | 'gemini' | 'ollama' {
     const [providerType] = unifiedModelId.split(':', 2);
-    return providerType as 'openai' | 'anthropic' | 'gemini';
+    return providerType as 'openai' | 'anthropic' | 'gemini' | 'ollama';
 }
 
 /**
  * Gets the model ID from a unified model ID
  * 
+ * Only the first colon separates the provider, since Ollama model IDs
+ * carry their own tag (e.g., "ollama:llama3:8b" -> "llama3:8b").
+ * 
  * @param unifiedModelId The unified model ID (e.g., "openai:gpt-4")
  * @returns The model ID for the provider
  */
 export function getModelIdFromUnifiedModel(unifiedModelId: string): string {
-    const [, modelId] = unifiedModelId.split(':', 2);
-    return modelId;
+    const separatorIndex = unifiedModelId.indexOf(':');
+    return separatorIndex === -1 ? '' : unifiedModelId.slice(separatorIndex + 1);
 }
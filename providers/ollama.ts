@@ -0,0 +1,259 @@
+/**
+ * Ollama Provider Implementation
+ *
+ * This file contains the implementation of the Ollama provider,
+ * which allows the plugin to interact with a local (or self-hosted)
+ * Ollama server running open-weight models.
+ *
+ * No API key is required; requests go straight to the configured server URL.
+ */
+
+import { Message, CompletionOptions, ConnectionTestResult } from '../src/types';
+import { BaseProvider, ProviderError, ProviderErrorType } from './base';
+import { debugLog } from '../src/utils/logger'; // Import debugLog
+import { describeContentPart } from '../src/utils/messageParts';
+
+/**
+ * A single line of Ollama's newline-delimited JSON stream from /api/chat
+ */
+interface OllamaChatChunk {
+    model: string;
+    created_at: string;
+    message?: {
+        role: string;
+        content: string;
+    };
+    done: boolean;
+    error?: string;
+    /** Prompt token count, sent on the final chunk */
+    prompt_eval_count?: number;
+    /** Generated token count, sent on the final chunk */
+    eval_count?: number;
+}
+
+/**
+ * Response shape of Ollama's /api/tags endpoint
+ */
+interface OllamaTagsResponse {
+    models: Array<{
+        name: string;
+        model?: string;
+        modified_at?: string;
+        size?: number;
+    }>;
+}
+
+/**
+ * Implements the Ollama provider functionality
+ *
+ * Handles communication with an Ollama server, including:
+ * - Chat completions
+ * - Model listing
+ * - Connection testing
+ * - Streaming responses
+ */
+export class OllamaProvider extends BaseProvider {
+    protected apiKey = '';
+    protected baseUrl: string;
+    protected model: string;
+    private debugMode: boolean; // Add debugMode property
+
+    constructor(serverUrl: string = 'http://localhost:11434', model: string = 'llama2', debugMode: boolean = false) {
+        super();
+        // Strip trailing slashes so endpoint paths can be appended safely
+        this.baseUrl = (serverUrl || 'http://localhost:11434').replace(/\/+$/, '');
+        this.model = model;
+        this.debugMode = debugMode; // Initialize debugMode
+
+        debugLog(true, 'debug', '[Ollama Provider] Initializing Ollama API', { config: { serverUrl: this.baseUrl, model, debugMode } }); // Log initialization
+    }
+
+    /**
+     * Get a completion from Ollama
+     *
+     * Sends the conversation to the Ollama /api/chat endpoint and streams back
+     * the response. Ollama streams newline-delimited JSON objects rather than SSE.
+     *
+     * @param messages - The conversation history
+     * @param options - Settings for this completion
+     */
+    async getCompletion(messages: Message[], options: CompletionOptions): Promise<void> {
+        try {
+            const response = await fetch(`${this.baseUrl}/api/chat`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    model: this.model,
+                    messages: this.formatMessages(messages),
+                    stream: true,
+                    // Ollama takes the JSON schema of a structured response as its format
+                    format: options.responseSchema?.schema,
+                    options: {
+                        temperature: options.temperature ?? 0.0
+                    }
+                }),
+                signal: options.abortController?.signal
+            });
+
+            if (!response.ok) {
+                throw await this.handleHttpError(response);
+            }
+
+            const reader = response.body?.getReader();
+            const decoder = new TextDecoder('utf-8');
+            let buffer = '';
+
+            while (true) {
+                const { done, value } = await reader?.read() || { done: true, value: undefined };
+                if (done) break;
+
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+
+                for (const line of lines) {
+                    this.processChunkLine(line, options);
+                }
+            }
+
+            // Flush whatever is left once the stream closes
+            if (buffer.trim()) {
+                this.processChunkLine(buffer, options);
+            }
+        } catch (error) {
+            if (error instanceof ProviderError) {
+                throw error;
+            }
+            if (error.name === 'AbortError') {
+                debugLog(this.debugMode, 'info', 'Ollama stream was aborted'); // Use debugLog
+            } else {
+                debugLog(this.debugMode, 'error', 'Error calling Ollama:', error); // Use debugLog
+                throw error;
+            }
+        }
+    }
+
+    /**
+     * Parses a single NDJSON line from the Ollama stream and forwards its content
+     * and, on the final line, its token counts.
+     *
+     * @param line - Raw line from the response body
+     * @param options - Completion options holding the stream and usage callbacks
+     */
+    private processChunkLine(line: string, options: CompletionOptions): void {
+        const trimmed = line.trim();
+        if (!trimmed) return;
+
+        let data: OllamaChatChunk;
+        try {
+            data = JSON.parse(trimmed);
+        } catch (e) {
+            debugLog(this.debugMode, 'warn', 'Error parsing Ollama response chunk:', e); // Use debugLog
+            return;
+        }
+
+        if (data.error) {
+            throw new ProviderError(ProviderErrorType.ServerError, `Ollama error: ${data.error}`);
+        }
+
+        const content = data.message?.content;
+        if (content && options.streamCallback) {
+            options.streamCallback(content);
+        }
+
+        if (data.done && options.usageCallback && (data.prompt_eval_count !== undefined || data.eval_count !== undefined)) {
+            options.usageCallback({
+                inputTokens: data.prompt_eval_count ?? 0,
+                outputTokens: data.eval_count ?? 0
+            });
+        }
+    }
+
+    /**
+     * Get available Ollama models
+     *
+     * Fetches the list of locally pulled models from the /api/tags endpoint.
+     *
+     * @returns List of available model names (e.g. "llama3:8b")
+     */
+    async getAvailableModels(): Promise<string[]> {
+        try {
+            const response = await fetch(`${this.baseUrl}/api/tags`, {
+                method: 'GET',
+                headers: {
+                    'Content-Type': 'application/json'
+                }
+            });
+
+            if (!response.ok) {
+                throw await this.handleHttpError(response);
+            }
+
+            const data: OllamaTagsResponse = await response.json();
+            return (data.models || []).map(model => model.name);
+        } catch (error) {
+            debugLog(this.debugMode, 'error', 'Error fetching Ollama models:', error); // Use debugLog
+            throw error;
+        }
+    }
+
+    /**
+     * Test connection to Ollama
+     *
+     * Verifies the server is reachable by listing its models.
+     *
+     * @returns Test results including success/failure and available models
+     */
+    async testConnection(): Promise<ConnectionTestResult> {
+        try {
+            const models = await this.getAvailableModels();
+            if (models.length === 0) {
+                return {
+                    success: true,
+                    message: 'Connected to Ollama, but no models are installed. Pull one with "ollama pull <model>".',
+                    models
+                };
+            }
+            return {
+                success: true,
+                message: `Successfully connected to Ollama! Found ${models.length} available models.`,
+                models
+            };
+        } catch (error) {
+            if (!(error instanceof ProviderError)) {
+                return {
+                    success: false,
+                    message: `Could not reach Ollama server at ${this.baseUrl}. Is it running?`
+                };
+            }
+            return this.createErrorResponse(error);
+        }
+    }
+
+    /**
+     * Format messages for Ollama API
+     *
+     * Ollama accepts OpenAI-style role/content pairs, so only the
+     * fields it understands are passed through. Images go in the message's
+     * `images` array as raw base64; other attachments are described in the text.
+     *
+     * @param messages - Array of messages to format
+     * @returns Formatted messages for Ollama API
+     */
+    private formatMessages(messages: Message[]): Array<{ role: string; content: string; images?: string[] }> {
+        return messages.map(msg => {
+            if (!msg.parts?.length) {
+                return { role: msg.role, content: msg.content };
+            }
+            const images = msg.parts.filter(part => part.type === 'image').map(part => part.data);
+            const text = msg.parts.filter(part => part.type !== 'image').map(describeContentPart);
+            return {
+                role: msg.role,
+                content: [msg.content, ...text].filter(Boolean).join('\n\n'),
+                ...(images.length > 0 && { images })
+            };
+        });
+    }
+}
@@ -5,9 +5,10 @@
  * which allows the plugin to interact with OpenAI's API (GPT-3.5, GPT-4, etc.)
  */
 
-import { Message, CompletionOptions, ConnectionTestResult } from '../src/types';
+import { Message, CompletionOptions, ConnectionTestResult, NativeToolCall } from '../src/types';
 import { BaseProvider, ProviderError, ProviderErrorType } from './base';
 import { debugLog } from '../src/utils/logger'; // Import debugLog
+import { describeContentPart, getMessageParts, hasAttachments } from '../src/utils/messageParts';
 
 interface OpenAIResponse {
     id: string;
@@ -65,18 +66,46 @@ export class OpenAIProvider extends BaseProvider {
      */
     async getCompletion(messages: Message[], options: CompletionOptions): Promise<void> {
         try {
+            const requestBody: any = {
+                model: this.model,
+                messages: this.formatMessages(messages),
+                temperature: options.temperature ?? 0.0,
+                stream: true
+            };
+
+            // Ask for a final chunk carrying the token usage of the request
+            if (options.usageCallback) {
+                requestBody.stream_options = { include_usage: true };
+            }
+
+            // Constrain the response to the requested JSON schema
+            if (options.responseSchema) {
+                requestBody.response_format = {
+                    type: 'json_schema',
+                    json_schema: { name: options.responseSchema.name, schema: options.responseSchema.schema, strict: true }
+                };
+            }
+
+            // Offer tools through native function calling when requested
+            const useNativeTools = !!options.tools?.length;
+            if (useNativeTools) {
+                requestBody.tools = options.tools!.map(tool => ({
+                    type: 'function',
+                    function: {
+                        name: tool.name,
+                        description: tool.description,
+                        parameters: tool.parameters
+                    }
+                }));
+            }
+
             const response = await fetch(`${this.baseUrl}/chat/completions`, {
                 method: 'POST',
                 headers: {
                     'Authorization': `Bearer ${this.apiKey}`,
                     'Content-Type': 'application/json'
                 },
-                body: JSON.stringify({
-                    model: this.model,
-                    messages,
-                    temperature: options.temperature ?? 0.0,
-                    stream: true
-                }),
+                body: JSON.stringify(requestBody),
                 signal: options.abortController?.signal
             });
 
@@ -87,6 +116,8 @@ export class OpenAIProvider extends BaseProvider {
             const reader = response.body?.getReader();
             const decoder = new TextDecoder('utf-8');
             let buffer = '';
+            // Tool call fragments arrive spread over many chunks, keyed by index
+            const toolCallParts = new Map<number, { id?: string; name: string; arguments: string }>();
 
             while (true) {
                 const { done, value } = await reader?.read() || { done: true, value: undefined };
@@ -100,16 +131,34 @@ export class OpenAIProvider extends BaseProvider {
                     if (line.startsWith('data: ') && line !== 'data: [DONE]') {
                         try {
                             const data = JSON.parse(line.slice(6));
-                            const content = data.choices[0]?.delta?.content;
+                            const delta = data.choices?.[0]?.delta;
+                            const content = delta?.content;
                             if (content && options.streamCallback) {
                                 options.streamCallback(content);
                             }
+                            if (data.usage && options.usageCallback) {
+                                options.usageCallback({
+                                    inputTokens: data.usage.prompt_tokens ?? 0,
+                                    outputTokens: data.usage.completion_tokens ?? 0
+                                });
+                            }
+                            for (const toolCall of delta?.tool_calls || []) {
+                                const part = toolCallParts.get(toolCall.index) || { name: '', arguments: '' };
+                                if (toolCall.id) part.id = toolCall.id;
+                                if (toolCall.function?.name) part.name += toolCall.function.name;
+                                if (toolCall.function?.arguments) part.arguments += toolCall.function.arguments;
+                                toolCallParts.set(toolCall.index, part);
+                            }
                         } catch (e) {
                             debugLog(this.debugMode, 'warn', 'Error parsing OpenAI response chunk:', e); // Use debugLog
                         }
                     }
                 }
             }
+
+            if (useNativeTools && options.toolCallCallback) {
+                options.toolCallCallback(this.assembleToolCalls(toolCallParts));
+            }
         } catch (error) {
             if (error instanceof ProviderError) {
                 throw error;
@@ -123,6 +172,58 @@ export class OpenAIProvider extends BaseProvider {
         }
     }
 
+    /**
+     * Format messages for OpenAI API
+     * 
+     * Messages with attachments use content arrays: images as `image_url` parts
+     * and PDFs as `file` parts, both carrying data URLs.
+     * 
+     * @param messages - Messages to format
+     * @returns Formatted messages for OpenAI API
+     */
+    private formatMessages(messages: Message[]): any[] {
+        return messages.map(msg => {
+            if (!hasAttachments(msg)) {
+                return { role: msg.role, content: msg.content };
+            }
+            const content = getMessageParts(msg).map(part => {
+                if (part.type === 'image') {
+                    return { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } };
+                }
+                if (part.type === 'file' && part.mimeType === 'application/pdf') {
+                    return { type: 'file', file: { filename: part.name, file_data: `data:${part.mimeType};base64,${part.data}` } };
+                }
+                return { type: 'text', text: describeContentPart(part) };
+            });
+            return { role: msg.role, content };
+        });
+    }
+
+    /**
+     * Turns accumulated streaming tool call fragments into complete tool calls.
+     * Calls whose arguments are not valid JSON are skipped.
+     * 
+     * @param parts - Tool call fragments keyed by their stream index
+     * @returns Parsed tool calls in the order the model made them
+     */
+    private assembleToolCalls(parts: Map<number, { id?: string; name: string; arguments: string }>): NativeToolCall[] {
+        const calls: NativeToolCall[] = [];
+        const ordered = Array.from(parts.entries()).sort(([a], [b]) => a - b);
+        for (const [, part] of ordered) {
+            if (!part.name) continue;
+            try {
+                calls.push({
+                    id: part.id,
+                    name: part.name,
+                    arguments: part.arguments ? JSON.parse(part.arguments) : {}
+                });
+            } catch (e) {
+                debugLog(this.debugMode, 'warn', 'Error parsing OpenAI tool call arguments:', { name: part.name, error: e }); // Use debugLog
+            }
+        }
+        return calls;
+    }
+
     /**
      * Get available OpenAI models
      * 
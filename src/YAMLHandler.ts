@@ -1,11 +1,11 @@
 import { Notice, TFile, App, Plugin } from "obsidian";
 import { AIDispatcher } from "./utils/aiDispatcher";
-import { Message, MyPluginSettings } from "./types";
-import { DEFAULT_TITLE_PROMPT, DEFAULT_SUMMARY_PROMPT, DEFAULT_YAML_SYSTEM_MESSAGE } from "./promptConstants";
+import { Message, MessageProcessingOptions, MyPluginSettings, ResponseSchema, YamlAttributeGenerator, YamlExistingValuePolicy } from "./types";
+import { DEFAULT_TITLE_PROMPT, DEFAULT_SUMMARY_PROMPT, DEFAULT_YAML_SYSTEM_MESSAGE, STRUCTURED_YAML_SYSTEM_MESSAGE } from "./promptConstants";
 import { registerCommand } from "./utils/pluginUtils";
 import * as yaml from "js-yaml";
 import { debugLog } from "./utils/logger";
-import { withTemporarySetting } from "./utils/typeGuards";
+import { buildGeneratorSchema, getGeneratorFields, isStructuredGenerator, parseStructuredResponse, resolveFieldValue } from "./utils/yamlGeneratorSchema";
 
 /**
  * Generates a Table of Contents from all headers in the note content.
@@ -49,7 +49,7 @@ const DEBUG = true;
 export async function generateNoteTitle(
     app: App,
     settings: MyPluginSettings,
-    processMessages: (messages: Message[]) => Promise<Message[]>,
+    processMessages: (messages: Message[], options?: MessageProcessingOptions) => Promise<Message[]>,
     dispatcher?: AIDispatcher
 ) {
     debugLog(DEBUG, 'debug', "Starting generateNoteTitle");
@@ -62,64 +62,10 @@ export async function generateNoteTitle(
     let noteContent = await app.vault.cachedRead(activeFile);
     noteContent = noteContent.slice(0, 15000);
 
-    // Generate Table of Contents from the note content
-    const toc = generateTableOfContents(noteContent);
-
-    // Define the prompt and user content for the AI model
-    const prompt = DEFAULT_TITLE_PROMPT;
-    // Include TOC in user content if it exists
-    const userContent = (toc && toc.trim().length > 0 ? "Table of Contents:\n" + toc + "\n\n" : "") + noteContent;
-    
     try {
-        debugLog(DEBUG, 'debug', "Provider:", settings.provider);
-        
         // Use dispatcher for all completions
         const aiDispatcher = dispatcher ?? new AIDispatcher(app.vault, { settings, saveSettings: async () => {} });
-        
-        // Construct the initial messages array for the AI model
-        const messages: Message[] = [
-            { role: "system", content: prompt },
-            { role: "user", content: userContent }
-        ];
-
-        debugLog(DEBUG, 'debug', "Original messages:", JSON.stringify(messages));
-        
-        // Temporarily disable context notes processing to ensure only the note content is used for title generation
-        const processedMessages = await withTemporarySetting(
-            settings,
-            'enableContextNotes',
-            false,
-            async () => {
-                debugLog(DEBUG, 'debug', "Context notes temporarily disabled for title generation");
-                return await processMessages(messages);
-            }
-        );
-        debugLog(DEBUG, 'debug', "Processed messages:", JSON.stringify(processedMessages));
-
-        if (!processedMessages || processedMessages.length === 0) {
-            debugLog(DEBUG, 'debug', "No processed messages!");
-            new Notice("No valid messages to send to the model. Please check your note content.");
-            return;
-        }
-
-        debugLog(DEBUG, 'debug', "Calling dispatcher.getCompletion");
-        let resultBuffer = "";
-        // Use dispatcher to get completion, streaming the response
-        await aiDispatcher.getCompletion(processedMessages, {
-            temperature: 0,
-            streamCallback: (chunk: string) => {
-                resultBuffer += chunk; // Accumulate streamed chunks
-            }
-        });
-        debugLog(DEBUG, 'debug', "Result from dispatcher (buffered):", resultBuffer);
-
-        // Extract and trim the generated title
-        let title = resultBuffer.trim();
-        debugLog(DEBUG, 'debug', "Extracted title before sanitization:", title);
-
-        // Sanitize the title by removing characters invalid for filenames or YAML keys
-        title = title.replace(/[\\/:]/g, "").trim();
-        debugLog(DEBUG, 'debug', "Sanitized title:", title);
+        const title = await generateTitleForContent(settings, processMessages, noteContent, aiDispatcher);
 
         // Handle the generated title based on the configured output mode
         if (title && typeof title === "string" && title.length > 0) {
@@ -166,26 +112,154 @@ export async function generateNoteTitle(
 }
 
 /**
- * Generic function to generate and insert/update a YAML attribute in the active note
+ * Asks the AI model for a title for a note.
+ * The prompt includes a Table of Contents of the note's headers when it has any.
+ *
+ * @param settings The plugin settings, including AI provider and model configuration.
+ * @param processMessages A function to process messages before sending to the AI provider.
+ * @param noteContent The content of the note.
+ * @param dispatcher The dispatcher to send the request through.
+ * @returns The title without characters invalid in file names, or an empty string if none was generated.
+ */
+export async function generateTitleForContent(
+    settings: MyPluginSettings,
+    processMessages: (messages: Message[], options?: MessageProcessingOptions) => Promise<Message[]>,
+    noteContent: string,
+    dispatcher: AIDispatcher
+): Promise<string> {
+    // Slice to a maximum length to avoid hitting model token limits
+    const content = noteContent.slice(0, 15000);
+    // Include TOC in user content if it exists
+    const toc = generateTableOfContents(content);
+    const userContent = (toc && toc.trim().length > 0 ? "Table of Contents:\n" + toc + "\n\n" : "") + content;
+
+    const result = await completeForNote(settings, processMessages, [
+        { role: "system", content: DEFAULT_TITLE_PROMPT },
+        { role: "user", content: userContent }
+    ], dispatcher);
+
+    // Sanitize the title by removing characters invalid for filenames or YAML keys
+    const title = result.trim().replace(/[\\/:]/g, "").trim();
+    debugLog(DEBUG, 'debug', "Sanitized title:", title);
+    return title;
+}
+
+/**
+ * Asks the AI model for the value of a YAML attribute of a note.
+ *
+ * @param settings The plugin settings, including AI provider and model configuration.
+ * @param processMessages A function to process messages before sending to the AI provider.
+ * @param prompt The prompt describing the value to generate.
+ * @param noteContent The content of the note.
+ * @param dispatcher The dispatcher to send the request through.
+ * @returns The value without slashes, or an empty string if none was generated.
+ */
+export async function generateYamlValueForContent(
+    settings: MyPluginSettings,
+    processMessages: (messages: Message[], options?: MessageProcessingOptions) => Promise<Message[]>,
+    prompt: string,
+    noteContent: string,
+    dispatcher: AIDispatcher
+): Promise<string> {
+    const result = await completeForNote(settings, processMessages, [
+        { role: "system", content: DEFAULT_YAML_SYSTEM_MESSAGE },
+        { role: "user", content: prompt + "\n\n" + noteContent.slice(0, 15000) }
+    ], dispatcher);
+
+    const value = result.trim().replace(/[\\/]/g, "").trim();
+    debugLog(DEBUG, 'debug', "Sanitized value:", value);
+    return value;
+}
+
+/**
+ * Asks the AI model for the values of all fields of a generator in one request.
+ * The response is constrained to a JSON schema where the provider supports it,
+ * and every value is validated against its field's type.
+ *
+ * @param settings The plugin settings, including AI provider and model configuration.
+ * @param processMessages A function to process messages before sending to the AI provider.
+ * @param generator The generator whose fields to fill.
+ * @param noteContent The content of the note.
+ * @param dispatcher The dispatcher to send the request through.
+ * @param linkExists Checks that the target of a generated link is an existing note.
+ * @returns The validated values by field name; fields the model left empty are omitted.
+ */
+export async function generateStructuredYamlForContent(
+    settings: MyPluginSettings,
+    processMessages: (messages: Message[], options?: MessageProcessingOptions) => Promise<Message[]>,
+    generator: YamlAttributeGenerator,
+    noteContent: string,
+    dispatcher: AIDispatcher,
+    linkExists?: (target: string) => boolean
+): Promise<Record<string, unknown>> {
+    const fields = getGeneratorFields(generator);
+    const responseSchema = buildGeneratorSchema(fields);
+    // The schema is also part of the prompt for providers without constrained output
+    const result = await completeForNote(settings, processMessages, [
+        { role: "system", content: STRUCTURED_YAML_SYSTEM_MESSAGE },
+        {
+            role: "user",
+            content: generator.prompt + "\n\nJSON schema:\n" + JSON.stringify(responseSchema.schema) +
+                "\n\n" + noteContent.slice(0, 15000)
+        }
+    ], dispatcher, responseSchema);
+
+    const values = parseStructuredResponse(result, fields, linkExists);
+    debugLog(DEBUG, 'debug', "Validated values:", values);
+    return values;
+}
+
+/**
+ * Sends messages about a single note to the AI model at temperature 0 and returns the buffered response.
+ * Context notes are left out so that only the note itself is used.
+ */
+async function completeForNote(
+    settings: MyPluginSettings,
+    processMessages: (messages: Message[], options?: MessageProcessingOptions) => Promise<Message[]>,
+    messages: Message[],
+    dispatcher: AIDispatcher,
+    responseSchema?: ResponseSchema
+): Promise<string> {
+    debugLog(DEBUG, 'debug', "Original messages:", JSON.stringify(messages));
+    // Context notes are left out through an option rather than by changing the shared settings,
+    // since batch runs process several notes at once
+    const processedMessages = await processMessages(messages, { includeContextNotes: false });
+    debugLog(DEBUG, 'debug', "Processed messages:", JSON.stringify(processedMessages));
+    if (!processedMessages || processedMessages.length === 0) {
+        throw new Error("No valid messages to send to the model. Please check your note content.");
+    }
+
+    let resultBuffer = "";
+    await dispatcher.getCompletion(processedMessages, {
+        temperature: 0, // Always use temperature 0 for predictable output
+        responseSchema,
+        streamCallback: (chunk: string) => {
+            resultBuffer += chunk; // Accumulate streamed chunks
+        }
+    });
+    debugLog(DEBUG, 'debug', "Result from dispatcher (buffered):", resultBuffer);
+    return resultBuffer;
+}
+
+/**
+ * Generic function to generate and insert/update the YAML attributes of a generator in the active note
  * using an AI model. It uses a default system message and temperature 0.
- * The generated value can be inserted into the note's YAML frontmatter or copied to the clipboard.
+ * The generated values can be inserted into the note's YAML frontmatter, following the generator's
+ * policy for existing values, or copied to the clipboard.
  *
  * @param app The Obsidian App instance.
  * @param settings The plugin settings, including AI provider and model configuration.
  * @param processMessages A function to process messages before sending to the AI provider.
- * @param attributeName The name of the YAML attribute to generate and insert/update.
- * @param prompt The prompt to send to the AI model for generating the attribute value.
- * @param outputMode The desired output mode ('metadata' to insert into YAML, or 'clipboard' to copy). Defaults to 'metadata'.
+ * @param generator The generator with the attribute, its prompt, output type and output mode.
  */
 export async function generateYamlAttribute(
     app: App,
     settings: MyPluginSettings,
-    processMessages: (messages: Message[]) => Promise<Message[]>,
-    attributeName: string,
-    prompt: string,
-    outputMode: string = "metadata",
+    processMessages: (messages: Message[], options?: MessageProcessingOptions) => Promise<Message[]>,
+    generator: YamlAttributeGenerator,
     dispatcher?: AIDispatcher
 ) {
+    const { attributeName, outputMode = "metadata" } = generator;
     debugLog(DEBUG, 'debug', `Starting generateYamlAttribute for ${attributeName}`);
     const activeFile = app.workspace.getActiveFile();
     if (!activeFile) {
@@ -196,68 +270,38 @@ export async function generateYamlAttribute(
     let noteContent = await app.vault.cachedRead(activeFile);
     noteContent = noteContent.slice(0, 15000);
 
-    // Construct the messages array with a default system message and the user prompt + note content
-    const messages: Message[] = [
-        { role: "system", content: DEFAULT_YAML_SYSTEM_MESSAGE },
-        { role: "user", content: prompt + "\n\n" + noteContent }
-    ];
-
-    // Temporarily disable context notes processing
-    debugLog(DEBUG, 'debug', "Original messages:", JSON.stringify(messages));
-    
     try {
-        // Temporarily disable context notes processing to ensure only the note content is used
-        const processedMessages = await withTemporarySetting(
-            settings,
-            'enableContextNotes',
-            false,
-            async () => {
-                debugLog(DEBUG, 'debug', "Context notes temporarily disabled for YAML attribute generation");
-                return await processMessages(messages);
-            }
-        );
-        debugLog(DEBUG, 'debug', "Processed messages:", JSON.stringify(processedMessages));
-
-        if (!processedMessages || processedMessages.length === 0) {
-            debugLog(DEBUG, 'debug', "No processed messages!");
-            new Notice("No valid messages to send to the model. Please check your note content.");
-            return;
-        }
-        debugLog(DEBUG, 'debug', "Calling dispatcher.getCompletion");
-        
         // Use dispatcher for all completions
         const aiDispatcher = dispatcher ?? new AIDispatcher(app.vault, { settings, saveSettings: async () => {} });
-        let resultBuffer = "";
-        // Use dispatcher to get completion, streaming the response
-        await aiDispatcher.getCompletion(processedMessages, {
-            temperature: 0, // Always use temperature 0 for predictable YAML output
-            streamCallback: (chunk: string) => {
-                resultBuffer += chunk; // Accumulate streamed chunks
-            }
-        });
-        debugLog(DEBUG, 'debug', "Result from dispatcher (buffered):", resultBuffer);
-
-        // Extract and trim the generated value
-        let value = resultBuffer.trim();
-        debugLog(DEBUG, 'debug', "Extracted value before sanitization:", value);
-        // Sanitize the value
-        value = value.replace(/[\\/]/g, "").trim();
-        debugLog(DEBUG, 'debug', "Sanitized value:", value);
+        let values: Record<string, unknown>;
+        if (isStructuredGenerator(generator)) {
+            const linkExists = (target: string) => !!app.metadataCache.getFirstLinkpathDest(target, activeFile.path);
+            values = await generateStructuredYamlForContent(settings, processMessages, generator, noteContent, aiDispatcher, linkExists);
+        } else {
+            const value = await generateYamlValueForContent(settings, processMessages, generator.prompt, noteContent, aiDispatcher);
+            values = value ? { [attributeName]: value } : {};
+        }
 
-        // Handle the generated value based on the configured output mode
-        if (value && typeof value === "string" && value.length > 0) {
+        // Handle the generated values based on the configured output mode
+        if (Object.keys(values).length > 0) {
             debugLog(DEBUG, 'debug', "Output mode:", outputMode);
+            const text = Object.keys(values).length === 1 && typeof values[attributeName] === "string"
+                ? values[attributeName] as string
+                : yaml.dump(values, { lineWidth: -1 }).trim();
             if (outputMode === "metadata") {
-                // Insert the value into the note's YAML frontmatter
-                await upsertYamlField(app, activeFile, attributeName, value);
-                new Notice(`Inserted ${attributeName} into metadata: ${value}`);
+                // Insert the values into the note's YAML frontmatter
+                const written = await upsertYamlFields(app, activeFile, values, generator.existingValuePolicy);
+                const kept = Object.keys(values).filter(field => !written.includes(field));
+                new Notice(written.length > 0
+                    ? `Inserted ${written.join(", ")} into metadata` + (kept.length > 0 ? ` (kept existing ${kept.join(", ")})` : `: ${text}`)
+                    : `Kept existing ${kept.join(", ")}.`);
             } else {
-                // Copy the value to the clipboard
+                // Copy the values to the clipboard
                 try {
-                    await navigator.clipboard.writeText(value);
-                    new Notice(`Generated ${attributeName} (copied): ${value}`);
+                    await navigator.clipboard.writeText(text);
+                    new Notice(`Generated ${attributeName} (copied): ${text}`);
                 } catch (e) {
-                    new Notice(`Generated ${attributeName}: ${value}`);
+                    new Notice(`Generated ${attributeName}: ${text}`);
                 }
             }
         } else {
@@ -274,39 +318,103 @@ export async function generateYamlAttribute(
  * Inserts or updates a field in the YAML frontmatter of a given note file.
  * If the frontmatter exists, the field is updated or added. If not, new frontmatter is created
  * with the specified field and value.
+ * Frontmatter that is not valid YAML is left untouched and an error is thrown.
  *
  * @param app The Obsidian App instance.
  * @param file The TFile object representing the note file.
  * @param field The name of the YAML field to upsert.
- * @param value The value to set for the YAML field.
+ * @param value The value to set for the YAML field (a string, number, boolean, list or mapping).
  */
-export async function upsertYamlField(app: App, file: TFile, field: string, value: string) {
-    let content = await app.vault.read(file);
-    let newContent = content;
+export async function upsertYamlField(app: App, file: TFile, field: string, value: unknown) {
+    await updateYamlFrontmatter(app, file, yamlObj => {
+        yamlObj[field] = value; // Add or update the specified field
+        return true;
+    });
+}
+
+/**
+ * Writes several fields to the YAML frontmatter of a note in one change.
+ *
+ * @param app The Obsidian App instance.
+ * @param file The note file.
+ * @param values The values to write by field name.
+ * @param policy How fields that already have a value are handled. Defaults to 'replace'.
+ * @returns The names of the fields that were written; the others kept their existing value.
+ */
+export async function upsertYamlFields(
+    app: App,
+    file: TFile,
+    values: Record<string, unknown>,
+    policy: YamlExistingValuePolicy = "replace"
+): Promise<string[]> {
+    const written: string[] = [];
+    await updateYamlFrontmatter(app, file, yamlObj => {
+        for (const [field, generated] of Object.entries(values)) {
+            const value = resolveFieldValue(policy, yamlObj[field], generated);
+            if (value === undefined) continue;
+            yamlObj[field] = value;
+            written.push(field);
+        }
+        return written.length > 0;
+    });
+    return written;
+}
+
+/**
+ * Removes a field from the YAML frontmatter of a given note file.
+ * The frontmatter block is removed once it has no fields left.
+ *
+ * @param app The Obsidian App instance.
+ * @param file The TFile object representing the note file.
+ * @param field The name of the YAML field to remove.
+ * @returns True if the field existed and was removed.
+ */
+export async function removeYamlField(app: App, file: TFile, field: string): Promise<boolean> {
+    return updateYamlFrontmatter(app, file, yamlObj => {
+        if (!(field in yamlObj)) return false;
+        delete yamlObj[field];
+        return true;
+    });
+}
+
+/**
+ * Applies a change to the parsed YAML frontmatter of a note and writes the note back.
+ *
+ * @param app The Obsidian App instance.
+ * @param file The note file.
+ * @param update Changes the frontmatter object in place; returns false if nothing changed.
+ * @returns Whether the note was changed.
+ */
+async function updateYamlFrontmatter(app: App, file: TFile, update: (yamlObj: Record<string, any>) => boolean): Promise<boolean> {
+    const content = await app.vault.read(file);
     // Regex to find the YAML frontmatter block
-    const frontmatterRegex = /^---\n([\s\S]*?)\n---/;
+    const frontmatterRegex = /^---\n([\s\S]*?)\n---\n?/;
     const match = content.match(frontmatterRegex);
+    let yamlObj: Record<string, any> = {};
     if (match) {
         // Frontmatter exists, parse it
-        let yamlObj: any = {};
+        let loaded: unknown;
         try {
-            yamlObj = yaml.load(match[1]) || {}; // Load existing YAML, handle potential errors or empty frontmatter
+            loaded = yaml.load(match[1]);
         } catch (e) {
-            yamlObj = {}; // If parsing fails, start with an empty object
+            throw new Error(`Frontmatter of ${file.path} is not valid YAML: ${e?.message ?? e}`);
         }
-        yamlObj[field] = value; // Add or update the specified field
-        // Dump the updated object back to YAML format
-        const newYaml = yaml.dump(yamlObj, { lineWidth: -1 }).trim();
-        // Replace the old frontmatter with the new one
-        newContent = content.replace(frontmatterRegex, `---\n${newYaml}\n---`);
-    } else {
-        // No frontmatter exists, create a new one
-        const newYaml = yaml.dump({ [field]: value }, { lineWidth: -1 }).trim();
-        // Prepend the new frontmatter to the original content
-        newContent = `---\n${newYaml}\n---\n` + content;
+        if (loaded !== null && loaded !== undefined && (typeof loaded !== "object" || Array.isArray(loaded))) {
+            throw new Error(`Frontmatter of ${file.path} is not a set of fields`);
+        }
+        yamlObj = (loaded as Record<string, any>) || {}; // Empty frontmatter loads as undefined
     }
+
+    if (!update(yamlObj)) return false;
+
+    const body = match ? content.slice(match[0].length) : content;
+    // Dump the updated object back to YAML format, dropping the block once it is empty
+    const newContent = Object.keys(yamlObj).length > 0
+        ? `---\n${yaml.dump(yamlObj, { lineWidth: -1 }).trim()}\n---\n` + body
+        : body;
     // Write the modified content back to the file
     await app.vault.modify(file, newContent);
+    return true;
 }
 
 /**
@@ -323,7 +431,7 @@ export async function upsertYamlField(app: App, file: TFile, field: string, valu
 export function registerYamlAttributeCommands(
     plugin: Plugin,
     settings: MyPluginSettings,
-    processMessages: (messages: Message[]) => Promise<Message[]>,
+    processMessages: (messages: Message[], options?: MessageProcessingOptions) => Promise<Message[]>,
     yamlAttributeCommandIds: string[],
     debugLog: (level: 'debug' | 'info' | 'warn' | 'error', ...args: any[]) => void
 ): string[] {
@@ -358,9 +466,7 @@ export function registerYamlAttributeCommands(
                         plugin.app,
                         settings,
                         processMessages,
-                        gen.attributeName,
-                        gen.prompt,
-                        gen.outputMode
+                        gen
                     );
                 }
             });
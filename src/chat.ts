@@ -11,21 +11,26 @@
  * - Rendering and updating the chat UI
  * - Handling user input and assistant responses (including streaming)
  * - Integrating with tools/agents for advanced AI actions
- * - Persisting and restoring chat history
+ * - Persisting and restoring chat history, one history per chat session
  * - Managing context (system prompt, reference note, etc.)
+ * - Attaching pasted or dropped images and PDFs to messages
  * - Supporting message regeneration and error handling
  */
 
 import { ItemView, WorkspaceLeaf, Notice } from 'obsidian';
 import MyPlugin from './main';
-import { Message, ToolCommand, ToolResult } from './types';
+import { ChatSession, CompletionOptions, ContextBudgetReport, Message, ToolCommand, ToolResult } from './types';
 import { ChatHistoryManager, ChatMessage } from './components/chat/ChatHistoryManager';
 import { createMessageElement } from './components/chat/Message';
-import { createChatUI, ChatUIElements } from './components/chat/ui';
+import { createChatUI, ChatUIElements, renderContextBudgetDisplay, renderSessionSelect } from './components/chat/ui';
 import { handleCopyAll, handleSaveNote, handleClearChat, handleSettings, handleHelp } from './components/chat/eventHandlers';
 import { loadChatYamlAndApplySettings } from './components/chat/chatPersistence';
 import { renderChatHistory } from './components/chat/chatHistoryUtils';
 import { AgentResponseHandler } from './components/agent/AgentResponseHandler';
+import { ConfirmationModal } from './components/chat/ConfirmationModal';
+import { SessionNameModal, SessionSearchModal } from './components/chat/ChatSessionModals';
+import { setupAttachmentInput } from './components/chat/attachmentInput';
+import { openAgentRunHistory } from './components/commands/agentRunCommands';
 import { buildContextMessages } from './utils/contextBuilder';
 import { MessageRegenerator } from './components/chat/MessageRegenerator';
 import { ResponseStreamer } from './components/chat/ResponseStreamer';
@@ -44,10 +49,14 @@ export class ChatView extends ItemView {
     private activeStream: AbortController | null = null;
     private referenceNoteIndicator: HTMLElement;
     private modelNameDisplay: HTMLElement;
+    private contextBudgetDisplay: HTMLElement;
+    private sessionSelect: HTMLSelectElement;
     private agentResponseHandler: AgentResponseHandler | null = null;
     private messageRegenerator: MessageRegenerator | null = null;
     private responseStreamer: ResponseStreamer | null = null;
     private messageRenderer: MessageRenderer;
+    // Model and temperature of the prompt library prompt about to be sent
+    private pendingCompletionOverrides: Pick<CompletionOptions, 'model' | 'temperature'> | undefined;
     private messagePool: MessageContextPool;
     private domCache: WeakCache<HTMLElement, any>;
     private arrayManager: PreAllocatedArrays;
@@ -119,6 +128,8 @@ export class ChatView extends ItemView {
     async onOpen() {
         const { contentEl } = this;
         this.prepareChatView(contentEl);
+        const session = await this.plugin.chatSessionManager.initialize();
+        this.plugin.chatSessionManager.bindHistoryManager(this.chatHistoryManager, session.id);
         const loadedHistory = await this.loadChatHistory();
         const ui: ChatUIElements = createChatUI(this.app, contentEl);
         this.initializeUIElements(ui);
@@ -126,8 +137,10 @@ export class ChatView extends ItemView {
         this.setupAgentResponseHandler();
         this.setupResponseStreamerAndRegenerator();
         this.setupAgentModeButton();
+        this.addEventListenerWithCleanup(ui.agentRunHistoryButton, 'click', () => openAgentRunHistory(this.plugin));
         this.setupSendAndStopButtons();
         this.setupInputHandler(ui);
+        this.setupSessionControls(ui);
         await this.loadAndRenderHistory(loadedHistory);
         this.updateReferenceNoteIndicator();
         this.registerWorkspaceAndSettingsEvents();
@@ -152,6 +165,8 @@ export class ChatView extends ItemView {
         this.inputContainer = ui.inputContainer;
         this.referenceNoteIndicator = ui.referenceNoteIndicator;
         this.modelNameDisplay = ui.modelNameDisplay;
+        this.contextBudgetDisplay = ui.contextBudgetDisplay;
+        this.sessionSelect = ui.sessionSelect;
         this.cacheUIElements(ui);
         this.updateReferenceNoteIndicator();
         this.updateModelNameDisplay();
@@ -159,7 +174,11 @@ export class ChatView extends ItemView {
 
     private setupEventHandlers(ui: ChatUIElements) {
         this.addEventListenerWithCleanup(this.domElementCache.copyAllButton!, 'click', handleCopyAll(this.messagesContainer, this.plugin));
-        this.addEventListenerWithCleanup(this.domElementCache.clearButton!, 'click', handleClearChat(this.messagesContainer, this.chatHistoryManager));
+        const clearChat = handleClearChat(this.messagesContainer, this.chatHistoryManager);
+        this.addEventListenerWithCleanup(this.domElementCache.clearButton!, 'click', async () => {
+            this.abortResponses();
+            await clearChat();
+        });
         this.addEventListenerWithCleanup(this.domElementCache.settingsButton!, 'click', handleSettings(this.app, this.plugin));
         this.addEventListenerWithCleanup(this.domElementCache.helpButton!, 'click', handleHelp(this.app));
         this.addEventListenerWithCleanup(this.domElementCache.referenceNoteButton!, 'click', () => {
@@ -213,7 +232,9 @@ export class ChatView extends ItemView {
             this.inputContainer,
             this.chatHistoryManager,
             this.agentResponseHandler,
-            this.activeStream
+            this.activeStream,
+            this,
+            () => this.renderActiveBranch()
         );
     }
 
@@ -252,6 +273,8 @@ export class ChatView extends ItemView {
         const sendMessage = async () => {
             const content = textarea.value.trim();
             if (!content) return;
+            const overrides = this.pendingCompletionOverrides ?? {};
+            this.pendingCompletionOverrides = undefined;
             if (this.agentResponseHandler) {
                 this.agentResponseHandler.resetExecutionCount();
             }
@@ -262,7 +285,7 @@ export class ChatView extends ItemView {
             this.messagesContainer.appendChild(userMessageEl);
             this.debouncedScrollToBottom();
             textarea.value = '';
-            await withErrorHandling(
+            const storedUserMessage = await withErrorHandling(
                 () => this.chatHistoryManager.addMessage({
                     timestamp: userMessageEl.dataset.timestamp || new Date().toISOString(),
                     sender: 'user',
@@ -273,15 +296,17 @@ export class ChatView extends ItemView {
                 'saveUserMessage',
                 { fallbackMessage: 'Failed to save user message' }
             );
+            if (storedUserMessage?.id) userMessageEl.dataset.messageId = storedUserMessage.id;
             try {
-                const messages = await this.buildContextMessages();
-                this.addVisibleMessagesToContext(messages);
+                const history: Message[] = [];
+                this.addVisibleMessagesToContext(history);
+                const messages = await this.buildContextMessages(history);
                 const tempContainer = document.createElement('div');
                 tempContainer.addClass('ai-chat-message', 'assistant');
                 tempContainer.createDiv('message-content');
                 this.messagesContainer.appendChild(tempContainer);
                 this.debouncedScrollToBottom();
-                const responseContent = await this.streamAssistantResponse(messages, tempContainer);
+                const responseContent = await this.streamAssistantResponse(messages, tempContainer, undefined, undefined, overrides);
                 let enhancedMessageData: any = undefined;
                 this.plugin.debugLog('debug', '[chat.ts] tempContainer.dataset.messageData exists:', !!tempContainer.dataset.messageData);
                 if (tempContainer.dataset.messageData) {
@@ -307,9 +332,10 @@ export class ChatView extends ItemView {
                     );
                     this.messagesContainer.appendChild(messageEl);
                     this.plugin.debugLog('debug', '[chat.ts] About to save message to history with toolResults:', !!enhancedMessageData?.toolResults);
-                    await this.chatHistoryManager.addMessage({
+                    const storedMessage = await this.chatHistoryManager.addMessage({
                         timestamp: messageEl.dataset.timestamp || new Date().toISOString(),
                         sender: 'assistant',
+                        role: 'assistant',
                         content: responseContent,
                         ...(enhancedMessageData && {
                             toolResults: enhancedMessageData.toolResults,
@@ -317,6 +343,7 @@ export class ChatView extends ItemView {
                             taskStatus: enhancedMessageData.taskStatus
                         })
                     });
+                    if (storedMessage.id) messageEl.dataset.messageId = storedMessage.id;
                     this.plugin.debugLog('debug', '[chat.ts] Message saved to history successfully');
                 } else {
                     this.plugin.debugLog('debug', '[chat.ts] responseContent is empty and no toolResults, not saving message');
@@ -347,6 +374,7 @@ export class ChatView extends ItemView {
                 this.activeStream.abort();
                 this.activeStream = null;
             }
+            this.abortResponses();
             textarea.disabled = false;
             textarea.focus();
             stopButton.classList.add('hidden');
@@ -383,6 +411,14 @@ export class ChatView extends ItemView {
                         case '/ref':
                             ui.referenceNoteButton.click();
                             break;
+                        case '/new':
+                            ui.newSessionButton.click();
+                            break;
+                        case '/sessions':
+                            ui.searchSessionsButton.click();
+                            break;
+                        default:
+                            await this.runPromptCommand(cmd);
                     }
                 },
                 this.app,
@@ -391,6 +427,135 @@ export class ChatView extends ItemView {
                 stopButton
             );
         });
+        setupAttachmentInput(this.app, textarea);
+    }
+
+    /**
+     * Runs a prompt library command: fills in the prompt and sends it with the prompt's model
+     * and temperature. The typed command stays in the input if the user cancels.
+     * @param commandText The slash command and any text typed after it
+     */
+    private async runPromptCommand(commandText: string) {
+        const [, command, extraText = ''] = commandText.match(/^\/(\S+)\s*([\s\S]*)$/) ?? [];
+        const prompt = command ? this.plugin.promptLibrary?.findPrompt(command) : undefined;
+        if (!prompt) return;
+        const message = await withErrorHandling(
+            () => this.plugin.promptLibrary.buildMessage(prompt, extraText),
+            'ChatView',
+            'runPromptCommand',
+            { fallbackMessage: 'Failed to fill in the prompt' }
+        );
+        if (!message) return;
+        this.pendingCompletionOverrides = { model: prompt.model, temperature: prompt.temperature };
+        this.domElementCache.textarea!.value = message;
+        this.domElementCache.sendButton!.click();
+    }
+
+    private setupSessionControls(ui: ChatUIElements) {
+        const sessions = this.plugin.chatSessionManager;
+        this.addEventListenerWithCleanup(ui.sessionSelect, 'change', () => {
+            this.runSessionAction(() => sessions.switchSession(ui.sessionSelect.value));
+        });
+        this.addEventListenerWithCleanup(ui.newSessionButton, 'click', () => {
+            this.runSessionAction(() => sessions.createSession());
+        });
+        this.addEventListenerWithCleanup(ui.renameSessionButton, 'click', () => {
+            const active = sessions.getActiveSession();
+            if (!active) return;
+            new SessionNameModal(this.app, 'Rename chat session', active.name, (name) => {
+                sessions.renameSession(active.id, name).then(() => this.refreshSessionSelect());
+            }).open();
+        });
+        this.addEventListenerWithCleanup(ui.duplicateSessionButton, 'click', () => {
+            const active = sessions.getActiveSession();
+            if (active) this.runSessionAction(() => sessions.duplicateSession(active.id));
+        });
+        this.addEventListenerWithCleanup(ui.deleteSessionButton, 'click', () => {
+            const active = sessions.getActiveSession();
+            if (!active) return;
+            new ConfirmationModal(this.app, 'Delete chat session', `Delete "${active.name}" and its history?`, (confirmed) => {
+                if (confirmed) this.runSessionAction(() => sessions.deleteSession(active.id));
+            }).open();
+        });
+        this.addEventListenerWithCleanup(ui.searchSessionsButton, 'click', () => {
+            new SessionSearchModal(this.app, (query) => sessions.searchSessions(query), (session) => {
+                this.runSessionAction(() => sessions.switchSession(session.id));
+            }).open();
+        });
+        this.refreshSessionSelect();
+    }
+
+    /**
+     * Runs a session action that may change the active session, then shows that session.
+     * Refused while a response is being generated, since it would be saved to the wrong session.
+     */
+    private async runSessionAction(action: () => Promise<ChatSession>) {
+        if (!this.domElementCache.stopButton?.classList.contains('hidden')) {
+            new Notice('Stop the current response before switching chat sessions.');
+            this.refreshSessionSelect();
+            return;
+        }
+        const session = await withErrorHandling(action, 'ChatView', 'sessionAction', { fallbackMessage: 'Chat session action failed' });
+        if (session) {
+            await this.showSession(session);
+        } else {
+            this.refreshSessionSelect();
+        }
+    }
+
+    /**
+     * Binds the chat history to a session and renders its messages.
+     */
+    private async showSession(session: ChatSession) {
+        this.plugin.chatSessionManager.bindHistoryManager(this.chatHistoryManager, session.id);
+        this.abortResponses();
+        this.messagesContainer.empty();
+        this.cachedMessageElements.length = 0;
+        this.lastScrollHeight = 0;
+        this.contextBudgetDisplay.style.display = 'none';
+        this.agentResponseHandler?.resetExecutionCount();
+        await this.renderActiveBranch();
+        this.refreshSessionSelect();
+        this.updateModelNameDisplay();
+    }
+
+    /**
+     * Renders the active branch of the chat history, replacing the displayed messages.
+     */
+    private async renderActiveBranch() {
+        const history = await this.loadChatHistory();
+        this.cachedMessageElements.length = 0;
+        await renderChatHistory({
+            messagesContainer: this.messagesContainer,
+            loadedHistory: history,
+            chatHistoryManager: this.chatHistoryManager,
+            plugin: this.plugin,
+            regenerateResponse: (el: HTMLElement) => this.regenerateResponse(el),
+            scrollToBottom: true,
+            onSwitchBranch: (messageId: string) => this.switchBranch(messageId)
+        });
+    }
+
+    /**
+     * Shows another version of a message, with the replies that follow it.
+     */
+    private async switchBranch(messageId: string) {
+        if (!this.domElementCache.stopButton?.classList.contains('hidden')) {
+            new Notice('Stop the current response before switching branches.');
+            return;
+        }
+        await withErrorHandling(
+            () => this.chatHistoryManager.switchBranch(messageId),
+            'ChatView',
+            'switchBranch',
+            { fallbackMessage: 'Failed to switch branch' }
+        );
+        await this.renderActiveBranch();
+    }
+
+    private refreshSessionSelect() {
+        if (!this.sessionSelect) return;
+        renderSessionSelect(this.sessionSelect, this.plugin.chatSessionManager.getSessions(), this.plugin.settings.activeSessionId);
     }
 
     private async loadAndRenderHistory(loadedHistory: ChatMessage[]) {
@@ -411,7 +576,8 @@ export class ChatView extends ItemView {
                 chatHistoryManager: this.chatHistoryManager,
                 plugin: this.plugin,
                 regenerateResponse: (el: HTMLElement) => this.regenerateResponse(el),
-                scrollToBottom: true
+                scrollToBottom: true,
+                onSwitchBranch: (messageId: string) => this.switchBranch(messageId)
             });
         }
     }
@@ -423,6 +589,7 @@ export class ChatView extends ItemView {
         this.plugin.onSettingsChange(() => {
             this.updateReferenceNoteIndicator();
             this.updateModelNameDisplay();
+            this.refreshSessionSelect();
         });
     }
     private async addMessage(role: 'user' | 'assistant', content: string, isError: boolean = false, enhancedData?: Partial<Pick<Message, 'reasoning' | 'taskStatus' | 'toolResults'>>): Promise<void> {
@@ -430,7 +597,7 @@ export class ChatView extends ItemView {
         const uiTimestamp = messageEl.dataset.timestamp || new Date().toISOString();
         this.messagesContainer.appendChild(messageEl);
         this.debouncedScrollToBottom();
-        await withErrorHandling(
+        const storedMessage = await withErrorHandling(
             () => this.chatHistoryManager.addMessage({
                 timestamp: uiTimestamp,
                 sender: role,
@@ -442,12 +609,14 @@ export class ChatView extends ItemView {
             'addMessage',
             { fallbackMessage: 'Failed to save chat message' }
         );
+        if (storedMessage?.id) messageEl.dataset.messageId = storedMessage.id;
     }
     async onClose() {
         if (this.activeStream) {
             this.activeStream.abort();
             this.activeStream = null;
         }
+        this.abortResponses();
         this.cleanupEventListeners();
         this.cleanupMemoryResources();
     }
@@ -504,8 +673,17 @@ export class ChatView extends ItemView {
         }
         this.modelNameDisplay.textContent = `Model: ${modelName}`;
     }
-    private async buildContextMessages(): Promise<Message[]> {
-        return await buildContextMessages({ app: this.app, plugin: this.plugin });
+    private async buildContextMessages(chatHistory?: Message[]): Promise<Message[]> {
+        return await buildContextMessages({
+            app: this.app,
+            plugin: this.plugin,
+            chatHistory,
+            budgetCallback: (report) => this.updateContextBudgetDisplay(report)
+        });
+    }
+    private updateContextBudgetDisplay(report: ContextBudgetReport) {
+        if (!this.contextBudgetDisplay) return;
+        renderContextBudgetDisplay(this.contextBudgetDisplay, report);
     }
     private addVisibleMessagesToContext(messages: Message[]): void {
         const currentScrollHeight = this.messagesContainer.scrollHeight;
@@ -532,7 +710,8 @@ export class ChatView extends ItemView {
         messages: Message[],
         container: HTMLElement,
         originalTimestamp?: string,
-        originalContent?: string
+        originalContent?: string,
+        overrides?: Pick<CompletionOptions, 'model' | 'temperature'>
     ): Promise<string> {
         if (!this.responseStreamer) {
             throw new Error("ResponseStreamer not initialized");
@@ -543,7 +722,8 @@ export class ChatView extends ItemView {
             container,
             originalTimestamp,
             originalContent,
-            chatHistory
+            chatHistory,
+            overrides
         );
         if (originalTimestamp && responseContent.trim() !== "") {
             let messageData: any = undefined;
@@ -563,11 +743,16 @@ export class ChatView extends ItemView {
         return responseContent;
     }
     public clearMessages() {
+        this.abortResponses();
         this.messagesContainer.empty();
         if (this.agentResponseHandler) {
             this.agentResponseHandler.resetExecutionCount();
         }
     }
+    private abortResponses(): void {
+        this.responseStreamer?.abort();
+        this.messageRegenerator?.abort();
+    }
     public scrollMessagesToBottom() {
         this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
     }
@@ -576,6 +761,7 @@ export class ChatView extends ItemView {
             this.activeStream.abort();
             this.activeStream = null;
         }
+        this.abortResponses();
         const myPlugin = this.plugin as any;
         if (myPlugin.aiDispatcher && typeof myPlugin.aiDispatcher.abortAllStreams === 'function') {
             myPlugin.aiDispatcher.abortAllStreams();
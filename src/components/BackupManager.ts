@@ -1,27 +1,57 @@
-import { App, TFile } from 'obsidian';
-import { FileBackup, BackupData } from '../types';
+import { App } from 'obsidian';
+import { FileBackup, BackupData, BackupIndex, BackupIndexEntry, BackupLimits } from '../types';
 import { isTFile } from '../utils/typeGuards';
+import { applyTextDelta, createTextDelta, TextDelta } from '../utils/textDelta';
+
+/** Limits used when none are configured. */
+export const DEFAULT_BACKUP_LIMITS: BackupLimits = {
+    maxDays: 30,
+    maxCount: 1000,
+    maxTotalSize: 100 * 1024 * 1024
+};
+
+/** Longest chain of deltas before a text version is stored in full again. */
+const MAX_DELTA_CHAIN = 20;
+
+/**
+ * A text blob on disk: the full text, or a delta against another blob.
+ */
+type StoredTextBlob = { content: string } | { base: string; delta: TextDelta };
 
 /**
  * Manages file backups stored in the plugin's data folder.
- * Supports both text and binary file backups, with configurable limits and cleanup.
+ *
+ * Backup contents are stored as content-addressed blobs named by their SHA-256, so identical
+ * versions are stored once. A text version is stored as a line delta against the previous
+ * version of the same file when that is substantially smaller. Metadata lives in a small
+ * index file, loaded on first use and kept in memory. Backups in the old `backups.json`
+ * format are migrated when the index is first loaded.
  */
 export class BackupManager {
     private app: App;
-    private backupFilePath: string;
-    private binaryBackupFolder: string;
+    private legacyBackupFilePath: string;
+    private legacyBinaryBackupFolder: string;
+    private backupFolder: string;
+    private indexFilePath: string;
+    private blobFolder: string;
     private maxBackupsPerFile: number = 10; // Maximum number of backups to keep per file
+    private index?: Promise<BackupIndex>;
+    /** Serializes operations so cleanup never removes a blob another operation is using */
+    private queue: Promise<unknown> = Promise.resolve();
 
     /**
      * @param app The Obsidian App instance.
      * @param pluginDataPath The absolute path to the plugin's data folder.
+     * @param getLimits Optional accessor for the configured limits; defaults apply otherwise.
      */
-    constructor(app: App, pluginDataPath: string) {
+    constructor(app: App, pluginDataPath: string, private getLimits: () => Partial<BackupLimits> = () => ({})) {
         this.app = app;
-        // Path to the JSON file storing metadata about backups
-        this.backupFilePath = `${pluginDataPath}/backups.json`;
-        // Folder for storing actual binary file contents
-        this.binaryBackupFolder = `${pluginDataPath}/binary-backups`;
+        // Files of the pre-index format, migrated on first load
+        this.legacyBackupFilePath = `${pluginDataPath}/backups.json`;
+        this.legacyBinaryBackupFolder = `${pluginDataPath}/binary-backups`;
+        this.backupFolder = `${pluginDataPath}/backups`;
+        this.indexFilePath = `${this.backupFolder}/index.json`;
+        this.blobFolder = `${this.backupFolder}/blobs`;
     }
 
     /**
@@ -54,114 +84,60 @@ export class BackupManager {
         return !textExtensions.includes(extension);
     }
 
-    /**
-     * Generates a unique backup file path for binary files.
-     * Replaces slashes in the original file path to create a flat name.
-     * @param filePath The original file path.
-     * @param timestamp The timestamp for the backup.
-     * @returns The generated backup file path.
-     */
-    private generateBinaryBackupPath(filePath: string, timestamp: number): string {
-        const fileName = filePath.replace(/[\/\\]/g, '_'); // Replace slashes with underscores
-        const extension = filePath.substring(filePath.lastIndexOf('.'));
-        const nameWithoutExt = fileName.substring(0, fileName.lastIndexOf('.'));
-        return `${this.binaryBackupFolder}/${nameWithoutExt}_${timestamp}${extension}`;
-    }
-
     /**
      * Creates a backup of a file's current content.
-     * For text files, content is stored directly in JSON. For binary files, content is saved to a separate file.
+     * Text is stored as a delta against the file's previous backup when possible; binary content is stored as-is.
+     * Afterwards the per-file limit and the configured limits are enforced.
      * @param filePath The path of the file to backup.
      * @param currentContent Optional: The content of the file if already read (for text files).
      */
     async createBackup(filePath: string, currentContent?: string): Promise<void> {
         try {
-            const backupData = await this.loadBackupData();
-
-            if (!backupData.backups[filePath]) {
-                backupData.backups[filePath] = [];
-            }
-
-            const timestamp = Date.now();
-            const readableTimestamp = new Date(timestamp).toLocaleString();
-            const isBinary = this.isBinaryFile(filePath);
-
-            let backup: FileBackup;
-
-            if (isBinary) {
-                // Handle binary file backup
-                const file = this.app.vault.getAbstractFileByPath(filePath);
-                if (file && isTFile(file)) {
-                    const fileBuffer = await this.app.vault.readBinary(file);
-                    const backupFilePath = this.generateBinaryBackupPath(filePath, timestamp);
-
-                    // Ensure binary backup folder exists
-                    const adapter = this.app.vault.adapter;
-                    if (!await adapter.exists(this.binaryBackupFolder)) {
-                        await adapter.mkdir(this.binaryBackupFolder);
+            await this.exclusive(async () => {
+                const index = await this.loadIndex();
+                const isBinary = this.isBinaryFile(filePath);
+                const previous = index.files[filePath]?.[0];
+                let entry: BackupIndexEntry;
+
+                if (isBinary) {
+                    // Handle binary file backup
+                    const file = this.app.vault.getAbstractFileByPath(filePath);
+                    if (!file || !isTFile(file)) {
+                        console.error('Binary file not found or not accessible:', filePath);
+                        return;
                     }
-
-                    // Write binary content to a separate file
-                    await adapter.writeBinary(backupFilePath, fileBuffer);
-
-                    backup = {
-                        filePath,
-                        timestamp,
-                        readableTimestamp,
+                    const fileBuffer = await this.app.vault.readBinary(file);
+                    entry = {
+                        timestamp: Date.now(),
                         isBinary: true,
                         fileSize: fileBuffer.byteLength,
-                        backupFilePath
+                        hash: await this.storeBinary(index, fileBuffer)
                     };
                 } else {
-                    console.error('Binary file not found or not accessible:', filePath);
-                    return;
-                }
-            } else {
-                // Handle text file backup
-                if (currentContent === undefined) {
-                    const file = this.app.vault.getAbstractFileByPath(filePath);
-                    if (file && isTFile(file)) {
-                        currentContent = await this.app.vault.read(file);
-                    } else {
-                        console.error('Text file not found or not accessible:', filePath);
-                        return;
-                    }
-                }
-
-                backup = {
-                    filePath,
-                    content: currentContent,
-                    timestamp,
-                    readableTimestamp,
-                    isBinary: false,
-                    fileSize: currentContent.length
-                };
-            }
-
-            // Add the new backup to the beginning of the list for this file
-            backupData.backups[filePath].unshift(backup);
-
-            // Enforce maxBackupsPerFile limit
-            if (backupData.backups[filePath].length > this.maxBackupsPerFile) {
-                const removedBackups = backupData.backups[filePath].slice(this.maxBackupsPerFile);
-                backupData.backups[filePath] = backupData.backups[filePath].slice(0, this.maxBackupsPerFile);
-
-                // Clean up physical binary backup files that are removed
-                for (const removedBackup of removedBackups) {
-                    if (removedBackup.isBinary && removedBackup.backupFilePath) {
-                        try {
-                            const adapter = this.app.vault.adapter;
-                            if (await adapter.exists(removedBackup.backupFilePath)) {
-                                await adapter.remove(removedBackup.backupFilePath);
-                            }
-                        } catch (error) {
-                            console.error('Failed to clean up old binary backup:', error);
+                    // Handle text file backup
+                    if (currentContent === undefined) {
+                        const file = this.app.vault.getAbstractFileByPath(filePath);
+                        if (file && isTFile(file)) {
+                            currentContent = await this.app.vault.read(file);
+                        } else {
+                            console.error('Text file not found or not accessible:', filePath);
+                            return;
                         }
                     }
+                    entry = {
+                        timestamp: Date.now(),
+                        isBinary: false,
+                        fileSize: currentContent.length,
+                        hash: await this.storeText(index, currentContent, previous && !previous.isBinary ? previous.hash : undefined)
+                    };
                 }
-            }
 
-            await this.saveBackupData(backupData);
+                // Add the new backup to the beginning of the list for this file, enforcing maxBackupsPerFile
+                index.files[filePath] = [entry, ...(index.files[filePath] ?? [])].slice(0, this.maxBackupsPerFile);
+                await this.collectGarbage(index);
+                await this.applyLimits(index, this.limits.maxDays);
+                await this.saveIndex(index);
+            });
         } catch (error) {
             console.error('Failed to create backup:', error);
             // Do not re-throw, backup failures should not block main operations
@@ -169,14 +145,15 @@ export class BackupManager {
     }
 
     /**
-     * Gets all backups for a specific file.
+     * Gets all backups for a specific file, most recent first.
+     * Contents are not included; load them with {@link getBackupContent}.
      * @param filePath The path of the file.
      * @returns An array of FileBackup objects for the specified file.
      */
     async getBackupsForFile(filePath: string): Promise<FileBackup[]> {
         try {
-            const backupData = await this.loadBackupData();
-            return backupData.backups[filePath] || [];
+            const index = await this.loadIndex();
+            return (index.files[filePath] || []).map(entry => this.toFileBackup(filePath, entry));
         } catch (error) {
             console.error('Failed to get backups for file:', error);
             return [];
@@ -189,16 +166,30 @@ export class BackupManager {
      */
     async getAllBackupFiles(): Promise<string[]> {
         try {
-            const backupData = await this.loadBackupData();
-            return Object.keys(backupData.backups).filter(path =>
-                backupData.backups[path] && backupData.backups[path].length > 0
-            );
+            const index = await this.loadIndex();
+            return Object.keys(index.files).filter(path => index.files[path].length > 0);
         } catch (error) {
             console.error('Failed to get backup files:', error);
             return [];
         }
     }
 
+    /**
+     * Reads the content of a text backup.
+     * @param backup The backup to read.
+     * @returns The backed-up text, or undefined for binary backups and missing content.
+     */
+    async getBackupContent(backup: FileBackup): Promise<string | undefined> {
+        if (backup.isBinary) return undefined;
+        if (!backup.hash) return backup.content;
+        try {
+            return await this.exclusive(async () => this.readText(await this.loadIndex(), backup.hash!));
+        } catch (error) {
+            console.error('Failed to read backup content:', error);
+            return undefined;
+        }
+    }
+
     /**
      * Restores a specific backup to the vault, overwriting the current file.
      * Creates the file if it doesn't exist.
@@ -208,53 +199,38 @@ export class BackupManager {
     async restoreBackup(backup: FileBackup): Promise<{ success: boolean; error?: string }> {
         try {
             const file = this.app.vault.getAbstractFileByPath(backup.filePath);
+            if (file && !isTFile(file)) {
+                return { success: false, error: `Path is not a file: ${backup.filePath}` };
+            }
+            if (!backup.hash) {
+                return { success: false, error: 'Backup content is missing' };
+            }
+
+            const index = await this.loadIndex();
+            if (!index.blobs[backup.hash]) {
+                return { success: false, error: `Backup content not found: ${backup.hash}` };
+            }
 
             if (backup.isBinary) {
                 // Restore binary file
-                if (!backup.backupFilePath) {
-                    return { success: false, error: 'Binary backup file path is missing' };
-                }
-
-                const adapter = this.app.vault.adapter;
-                if (!await adapter.exists(backup.backupFilePath)) {
-                    return { success: false, error: `Backup file not found: ${backup.backupFilePath}` };
-                }
-
-                const binaryData = await adapter.readBinary(backup.backupFilePath);
-
+                const binaryData = await this.exclusive(() => this.readBinary(index, backup.hash!));
                 if (!file) {
                     // Create new file if it doesn't exist
                     await this.app.vault.createBinary(backup.filePath, binaryData);
-                    return { success: true };
-                }
-
-                if (!isTFile(file)) {
-                    return { success: false, error: `Path is not a file: ${backup.filePath}` };
+                } else {
+                    await this.app.vault.modifyBinary(file, binaryData);
                 }
-
-                // Modify existing binary file
-                await this.app.vault.modifyBinary(file, binaryData);
-                return { success: true };
             } else {
                 // Restore text file
-                if (!backup.content) {
-                    return { success: false, error: 'Text backup content is missing' };
-                }
-
+                const content = await this.exclusive(() => this.readText(index, backup.hash!));
                 if (!file) {
                     // Create new file if it doesn't exist
-                    await this.app.vault.create(backup.filePath, backup.content);
-                    return { success: true };
-                }
-
-                if (!isTFile(file)) {
-                    return { success: false, error: `Path is not a file: ${backup.filePath}` };
+                    await this.app.vault.create(backup.filePath, content);
+                } else {
+                    await this.app.vault.modify(file, content);
                 }
-
-                // Modify existing text file
-                await this.app.vault.modify(file, backup.content);
-                return { success: true };
             }
+            return { success: true };
         } catch (error: any) {
             return { success: false, error: error.message };
         }
@@ -262,33 +238,18 @@ export class BackupManager {
 
     /**
      * Deletes all backups associated with a specific file.
-     * Also removes physical binary backup files.
+     * Blobs no longer used by any backup are removed.
      * @param filePath The path of the file whose backups are to be deleted.
      */
     async deleteBackupsForFile(filePath: string): Promise<void> {
         try {
-            const backupData = await this.loadBackupData();
-            const backups = backupData.backups[filePath];
-
-            if (backups) {
-                // Remove associated binary files
-                for (const backup of backups) {
-                    if (backup.isBinary && backup.backupFilePath) {
-                        try {
-                            const adapter = this.app.vault.adapter;
-                            if (await adapter.exists(backup.backupFilePath)) {
-                                await adapter.remove(backup.backupFilePath);
-                            }
-                        } catch (error) {
-                            console.error('Failed to clean up binary backup file:', error);
-                        }
-                    }
-                }
-            }
-
-            // Remove entry from metadata
-            delete backupData.backups[filePath];
-            await this.saveBackupData(backupData);
+            await this.exclusive(async () => {
+                const index = await this.loadIndex();
+                if (!index.files[filePath]) return;
+                delete index.files[filePath];
+                await this.collectGarbage(index);
+                await this.saveIndex(index);
+            });
         } catch (error) {
             console.error('Failed to delete backups for file:', error);
         }
@@ -296,74 +257,39 @@ export class BackupManager {
 
     /**
      * Deletes a specific backup entry by file path and timestamp.
-     * Also removes the physical binary backup file if applicable.
+     * Blobs no longer used by any backup are removed.
      * @param filePath The path of the file.
      * @param timestamp The timestamp of the specific backup to delete.
      */
     async deleteSpecificBackup(filePath: string, timestamp: number): Promise<void> {
         try {
-            const backupData = await this.loadBackupData();
-            if (backupData.backups[filePath]) {
-                const backupToDelete = backupData.backups[filePath].find(b => b.timestamp === timestamp);
-
-                // Remove associated binary file if it's a binary backup
-                if (backupToDelete && backupToDelete.isBinary && backupToDelete.backupFilePath) {
-                    try {
-                        const adapter = this.app.vault.adapter;
-                        if (await adapter.exists(backupToDelete.backupFilePath)) {
-                            await adapter.remove(backupToDelete.backupFilePath);
-                        }
-                    } catch (error) {
-                        console.error('Failed to clean up binary backup file:', error);
-                    }
-                }
-
-                // Filter out the specific backup from the list
-                backupData.backups[filePath] = backupData.backups[filePath].filter(
-                    backup => backup.timestamp !== timestamp
-                );
-
-                // If no backups remain for this file, remove the file entry
-                if (backupData.backups[filePath].length === 0) {
-                    delete backupData.backups[filePath];
-                }
-
-                await this.saveBackupData(backupData);
-            }
+            await this.exclusive(async () => {
+                const index = await this.loadIndex();
+                if (!index.files[filePath]) return;
+                this.removeEntries(index, [{ filePath, timestamp }]);
+                await this.collectGarbage(index);
+                await this.saveIndex(index);
+            });
         } catch (error) {
             console.error('Failed to delete specific backup:', error);
         }
     }
 
     /**
-     * Deletes all backups for all files.
-     * Removes all metadata and all physical binary backup files.
+     * Deletes all backups for all files, including all stored blobs.
      */
     async deleteAllBackups(): Promise<void> {
         try {
-            const backupData = await this.loadBackupData();
-
-            // Iterate through all backups and remove associated binary files
-            for (const filePath in backupData.backups) {
-                const backups = backupData.backups[filePath];
-                if (backups) {
-                    for (const backup of backups) {
-                        if (backup.isBinary && backup.backupFilePath) {
-                            try {
-                                const adapter = this.app.vault.adapter;
-                                if (await adapter.exists(backup.backupFilePath)) {
-                                    await adapter.remove(backup.backupFilePath);
-                                }
-                            } catch (error) {
-                                console.error('Failed to clean up binary backup file:', error);
-                            }
-                        }
-                    }
+            await this.exclusive(async () => {
+                const index = await this.loadIndex();
+                const adapter = this.app.vault.adapter;
+                if (await adapter.exists(this.blobFolder)) {
+                    await adapter.rmdir(this.blobFolder, true);
                 }
-            }
-
-            // Save empty backup data to clear all records
-            await this.saveBackupData({ backups: {} });
+                index.files = {};
+                index.blobs = {};
+                await this.saveIndex(index);
+            });
         } catch (error) {
             console.error('Failed to delete all backups:', error);
             throw error;
@@ -373,35 +299,29 @@ export class BackupManager {
     /**
      * Checks if a new backup should be created for a file.
      * A backup is created if there are no existing backups, or if the new content differs from the most recent backup.
-     * For binary files, it always returns true as content comparison is complex.
+     * For binary files, it always returns true as the content is not read up front.
      * @param filePath The path of the file.
      * @param newContent Optional: The new content of the file (for text files).
      * @returns True if a backup should be created, false otherwise.
      */
     async shouldCreateBackup(filePath: string, newContent?: string): Promise<boolean> {
         try {
-            const backups = await this.getBackupsForFile(filePath);
-            if (backups.length === 0) {
-                return true; // Always create a backup if none exist
+            const index = await this.loadIndex();
+            const mostRecentBackup = index.files[filePath]?.[0];
+            if (!mostRecentBackup || mostRecentBackup.isBinary) {
+                return true;
             }
 
-            const mostRecentBackup = backups[0];
-
-            if (mostRecentBackup.isBinary) {
-                // For binary files, always create a new backup as content comparison is not trivial
-                return true;
-            } else {
-                // For text files, compare content
-                if (newContent === undefined) {
-                    const file = this.app.vault.getAbstractFileByPath(filePath);
-                    if (file && isTFile(file)) {
-                        newContent = await this.app.vault.read(file);
-                    } else {
-                        return true; // If file not found, assume content is different
-                    }
+            // For text files, compare content hashes
+            if (newContent === undefined) {
+                const file = this.app.vault.getAbstractFileByPath(filePath);
+                if (file && isTFile(file)) {
+                    newContent = await this.app.vault.read(file);
+                } else {
+                    return true; // If file not found, assume content is different
                 }
-                return mostRecentBackup.content !== newContent;
             }
+            return mostRecentBackup.hash !== await this.hash(newContent);
         } catch (error) {
             console.error('Failed to check if backup should be created:', error);
             return true; // Default to true on error to be safe
@@ -409,178 +329,372 @@ export class BackupManager {
     }
 
     /**
-     * Loads backup data from the JSON file.
-     * @returns A Promise resolving to the BackupData object.
+     * Gets the total number of backups across all files.
+     * @returns A Promise resolving to the total count.
      */
-    private async loadBackupData(): Promise<BackupData> {
+    async getTotalBackupCount(): Promise<number> {
         try {
-            const adapter = this.app.vault.adapter;
-            if (await adapter.exists(this.backupFilePath)) {
-                const content = await adapter.read(this.backupFilePath);
-                const parsed = JSON.parse(content);
+            const index = await this.loadIndex();
+            return Object.values(index.files).reduce((total, entries) => total + entries.length, 0);
+        } catch (error) {
+            console.error('Failed to get total backup count:', error);
+            return 0;
+        }
+    }
 
-                // Basic validation of loaded data structure
-                if (parsed && typeof parsed === 'object' && parsed.backups) {
-                    return parsed;
-                }
-            }
+    /**
+     * Gets the disk space used by all backups in bytes (approximate).
+     * Shared and delta-compressed content is counted once, as stored.
+     * @returns A Promise resolving to the total size in bytes.
+     */
+    async getTotalBackupSize(): Promise<number> {
+        try {
+            return this.getStoredSize(await this.loadIndex());
         } catch (error) {
-            console.error('Failed to load backup data:', error);
+            console.error('Failed to get total backup size:', error);
+            return 0;
         }
+    }
 
-        // Return empty data if file doesn't exist or parsing fails
-        return { backups: {} };
+    /**
+     * Initializes the backup system by ensuring the backup folders exist.
+     * The index itself is loaded (and old backups migrated) on first use.
+     */
+    async initialize(): Promise<void> {
+        try {
+            await this.ensureFolders();
+        } catch (error) {
+            console.error('Failed to initialize backup system:', error);
+        }
     }
 
     /**
-     * Saves backup data to the JSON file.
-     * Ensures the backup directory exists before writing.
-     * @param backupData The BackupData object to save.
+     * Cleans up old backups to prevent unlimited growth.
+     * Removes backups older than a specified number of days, then the oldest backups
+     * beyond the configured count and total size limits.
+     * @param maxDays The maximum number of days to keep backups (default: the configured retention).
      */
-    private async saveBackupData(backupData: BackupData): Promise<void> {
+    async cleanupOldBackups(maxDays: number = this.limits.maxDays): Promise<void> {
         try {
-            const adapter = this.app.vault.adapter;
+            await this.exclusive(async () => {
+                const index = await this.loadIndex();
+                if (await this.applyLimits(index, maxDays)) {
+                    await this.saveIndex(index);
+                }
+            });
+        } catch (error) {
+            console.error('Failed to cleanup old backups:', error);
+        }
+    }
+
+    private get limits(): BackupLimits {
+        const { maxDays, maxCount, maxTotalSize } = this.getLimits();
+        return {
+            maxDays: maxDays ?? DEFAULT_BACKUP_LIMITS.maxDays,
+            maxCount: maxCount ?? DEFAULT_BACKUP_LIMITS.maxCount,
+            maxTotalSize: maxTotalSize ?? DEFAULT_BACKUP_LIMITS.maxTotalSize
+        };
+    }
+
+    /**
+     * Removes backups older than `maxDays` and the oldest backups beyond the count and size limits.
+     * @returns True if any backup was removed
+     */
+    private async applyLimits(index: BackupIndex, maxDays: number): Promise<boolean> {
+        const { maxCount, maxTotalSize } = this.limits;
+        const cutoffTime = Date.now() - (maxDays * 24 * 60 * 60 * 1000);
+        const oldestFirst = Object.entries(index.files)
+            .flatMap(([filePath, entries]) => entries.map(entry => ({ filePath, timestamp: entry.timestamp })))
+            .sort((a, b) => a.timestamp - b.timestamp);
+
+        const expired = oldestFirst.filter(backup => backup.timestamp <= cutoffTime).length;
+        const removeCount = Math.max(expired, oldestFirst.length - maxCount);
+        const remaining = oldestFirst.slice(removeCount);
+        if (removeCount > 0) {
+            this.removeEntries(index, oldestFirst.slice(0, removeCount));
+            await this.collectGarbage(index);
+        }
+
+        // Removing a version can turn the next one into a full copy, so re-measure after each removal
+        let removedForSize = 0;
+        while (remaining.length > 0 && this.getStoredSize(index) > maxTotalSize) {
+            this.removeEntries(index, [remaining.shift()!]);
+            await this.collectGarbage(index);
+            removedForSize++;
+        }
+        return removeCount + removedForSize > 0;
+    }
+
+    private removeEntries(index: BackupIndex, backups: Array<{ filePath: string; timestamp: number }>): void {
+        for (const { filePath, timestamp } of backups) {
+            const entries = index.files[filePath]?.filter(entry => entry.timestamp !== timestamp) ?? [];
+            if (entries.length > 0) {
+                index.files[filePath] = entries;
+            } else {
+                // If no backups remain for this file, remove the file entry
+                delete index.files[filePath];
+            }
+        }
+    }
 
-            // Ensure backup directory exists
-            const backupDir = this.backupFilePath.substring(0, this.backupFilePath.lastIndexOf('/'));
+    /**
+     * Deletes blobs no longer used by any backup. Text blobs that are deltas against
+     * a deleted blob are rewritten as full text first.
+     */
+    private async collectGarbage(index: BackupIndex): Promise<void> {
+        const live = new Set(Object.values(index.files).flatMap(entries => entries.map(entry => entry.hash)));
+        const orphaned = Object.keys(index.blobs).filter(hash => !live.has(hash));
+        if (orphaned.length === 0) return;
+
+        // Read everything that needs a new base before deleting anything
+        const rebased = new Map<string, string>();
+        for (const hash of live) {
+            if (this.getDeltaChain(index, hash).some(link => !live.has(link))) {
+                rebased.set(hash, await this.readText(index, hash));
+            }
+        }
+        for (const [hash, content] of rebased) {
+            await this.writeTextBlob(index, hash, { content });
+        }
+
+        const adapter = this.app.vault.adapter;
+        for (const hash of orphaned) {
             try {
-                if (!await adapter.exists(backupDir)) {
-                    await adapter.mkdir(backupDir);
+                if (await adapter.exists(this.getBlobPath(hash))) {
+                    await adapter.remove(this.getBlobPath(hash));
                 }
-            } catch (mkdirError) {
-                // Ignore "already exists" errors in case of race conditions
+            } catch (error) {
+                console.error('Failed to clean up backup blob:', error);
             }
+            delete index.blobs[hash];
+        }
+    }
 
-            // Stringify with pretty print in debug mode
-            const debug = (window as any)?.aiAssistantPlugin?.debugMode;
-            const json = debug ? JSON.stringify(backupData, null, 2) : JSON.stringify(backupData);
-            await adapter.write(this.backupFilePath, json);
-        } catch (error) {
-            console.error('Failed to save backup data:', error);
-            throw error;
+    /**
+     * Stores a text version, as a delta against `baseHash` when that is worthwhile.
+     * @returns The content hash
+     */
+    private async storeText(index: BackupIndex, content: string, baseHash?: string): Promise<string> {
+        const hash = await this.hash(content);
+        if (index.blobs[hash]) return hash;
+
+        let blob: StoredTextBlob = { content };
+        const base = baseHash ? index.blobs[baseHash] : undefined;
+        if (base && !base.binary && this.getDeltaChain(index, baseHash!).length < MAX_DELTA_CHAIN) {
+            const delta = createTextDelta(await this.readText(index, baseHash!), content);
+            if (JSON.stringify(delta).length < content.length / 2) {
+                blob = { base: baseHash!, delta };
+            }
         }
+        await this.writeTextBlob(index, hash, blob);
+        return hash;
     }
 
     /**
-     * Gets the total number of backups across all files.
-     * @returns A Promise resolving to the total count.
+     * Stores binary content.
+     * @returns The content hash
      */
-    async getTotalBackupCount(): Promise<number> {
-        try {
-            const backupData = await this.loadBackupData();
-            return Object.values(backupData.backups).reduce((total, backups) => total + backups.length, 0);
-        } catch (error) {
-            console.error('Failed to get total backup count:', error);
-            return 0;
+    private async storeBinary(index: BackupIndex, data: ArrayBuffer): Promise<string> {
+        const hash = await this.hash(data);
+        if (!index.blobs[hash]) {
+            await this.ensureFolders();
+            await this.app.vault.adapter.writeBinary(this.getBlobPath(hash), data);
+            index.blobs[hash] = { binary: true, storedSize: data.byteLength };
         }
+        return hash;
+    }
+
+    private async writeTextBlob(index: BackupIndex, hash: string, blob: StoredTextBlob): Promise<void> {
+        await this.ensureFolders();
+        const json = JSON.stringify(blob);
+        await this.app.vault.adapter.write(this.getBlobPath(hash), json);
+        index.blobs[hash] = { binary: false, storedSize: json.length, ...('base' in blob && { base: blob.base }) };
     }
 
     /**
-     * Gets the total size of all backups in bytes (approximate).
-     * For text files, it's content length. For binary, it's file size.
-     * @returns A Promise resolving to the total size in bytes.
+     * Reads a text blob, applying its chain of deltas.
+     * A binary blob with the same content hash is decoded as text.
      */
-    async getTotalBackupSize(): Promise<number> {
-        try {
-            const backupData = await this.loadBackupData();
-            let totalSize = 0;
-
-            Object.values(backupData.backups).forEach(backups => {
-                backups.forEach(backup => {
-                    if (backup.fileSize) {
-                        totalSize += backup.fileSize;
-                    } else if (backup.content) {
-                        totalSize += backup.content.length;
-                    }
-                });
-            });
+    private async readText(index: BackupIndex, hash: string): Promise<string> {
+        const adapter = this.app.vault.adapter;
+        const chain = [hash, ...this.getDeltaChain(index, hash)].reverse();
+        if (index.blobs[chain[0]]?.binary) {
+            return new TextDecoder().decode(await adapter.readBinary(this.getBlobPath(chain[0])));
+        }
+        let content = '';
+        for (const link of chain) {
+            const blob: StoredTextBlob = JSON.parse(await adapter.read(this.getBlobPath(link)));
+            content = 'content' in blob ? blob.content : applyTextDelta(content, blob.delta);
+        }
+        return content;
+    }
 
-            return totalSize;
-        } catch (error) {
-            console.error('Failed to get total backup size:', error);
-            return 0;
+    /**
+     * Reads a binary blob. A text blob with the same content hash is encoded as UTF-8.
+     */
+    private async readBinary(index: BackupIndex, hash: string): Promise<ArrayBuffer> {
+        if (index.blobs[hash]?.binary) {
+            return this.app.vault.adapter.readBinary(this.getBlobPath(hash));
         }
+        const bytes = new TextEncoder().encode(await this.readText(index, hash));
+        return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
     }
 
     /**
-     * Initializes the backup system by ensuring necessary directories and files exist.
+     * The bases a text blob depends on, nearest first.
      */
-    async initialize(): Promise<void> {
-        try {
-            const adapter = this.app.vault.adapter;
-            const backupDir = this.backupFilePath.substring(0, this.backupFilePath.lastIndexOf('/'));
+    private getDeltaChain(index: BackupIndex, hash: string): string[] {
+        const chain: string[] = [];
+        let base = index.blobs[hash]?.base;
+        while (base && !chain.includes(base)) {
+            chain.push(base);
+            base = index.blobs[base]?.base;
+        }
+        return chain;
+    }
 
-            // Ensure main backup metadata directory exists
-            if (!await adapter.exists(backupDir)) {
-                await adapter.mkdir(backupDir);
-            }
+    private getStoredSize(index: BackupIndex): number {
+        return Object.values(index.blobs).reduce((total, blob) => total + blob.storedSize, 0);
+    }
+
+    private getBlobPath(hash: string): string {
+        return `${this.blobFolder}/${hash}`;
+    }
+
+    private toFileBackup(filePath: string, entry: BackupIndexEntry): FileBackup {
+        return {
+            filePath,
+            timestamp: entry.timestamp,
+            readableTimestamp: new Date(entry.timestamp).toLocaleString(),
+            isBinary: entry.isBinary,
+            fileSize: entry.fileSize,
+            hash: entry.hash
+        };
+    }
+
+    /**
+     * SHA-256 of text (as UTF-8) or binary content, in hex.
+     */
+    private async hash(data: string | ArrayBuffer): Promise<string> {
+        const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+        const digest = await crypto.subtle.digest('SHA-256', bytes);
+        return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    }
 
-            // Ensure binary backup content directory exists
-            if (!await adapter.exists(this.binaryBackupFolder)) {
-                await adapter.mkdir(this.binaryBackupFolder);
+    private exclusive<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task, task);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private async ensureFolders(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        for (const folder of [this.backupFolder, this.blobFolder]) {
+            if (!await adapter.exists(folder)) {
+                await adapter.mkdir(folder);
             }
+        }
+    }
+
+    /**
+     * Loads the backup index once, migrating legacy backups if there is no index yet.
+     */
+    private loadIndex(): Promise<BackupIndex> {
+        if (!this.index) {
+            this.index = this.readIndex();
+            // Retry on the next call if loading failed
+            this.index.catch(() => { this.index = undefined; });
+        }
+        return this.index;
+    }
 
-            // Create empty backups.json if it doesn't exist
-            if (!await adapter.exists(this.backupFilePath)) {
-                await this.saveBackupData({ backups: {} });
+    private async readIndex(): Promise<BackupIndex> {
+        const adapter = this.app.vault.adapter;
+        if (await adapter.exists(this.indexFilePath)) {
+            try {
+                const parsed = JSON.parse(await adapter.read(this.indexFilePath));
+                // Basic validation of loaded data structure
+                if (parsed && parsed.version === 2 && parsed.files && parsed.blobs) {
+                    return parsed;
+                }
+            } catch (error) {
+                console.error('Failed to load backup index:', error);
             }
-        } catch (error) {
-            console.error('Failed to initialize backup system:', error);
         }
+        const index: BackupIndex = { version: 2, files: {}, blobs: {} };
+        if (await adapter.exists(this.legacyBackupFilePath)) {
+            await this.migrateLegacyBackups(index);
+        }
+        return index;
     }
 
     /**
-     * Cleans up old backups to prevent unlimited growth.
-     * Removes backups older than a specified number of days.
-     * @param maxDays The maximum number of days to keep backups (default: 30 days).
+     * Moves backups from the legacy `backups.json` and `binary-backups` folder into the blob store,
+     * then removes the legacy files.
      */
-    async cleanupOldBackups(maxDays: number = 30): Promise<void> {
+    private async migrateLegacyBackups(index: BackupIndex): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        let legacy: BackupData;
         try {
-            const backupData = await this.loadBackupData();
-            const cutoffTime = Date.now() - (maxDays * 24 * 60 * 60 * 1000);
-            let cleaned = false;
-
-            for (const filePath in backupData.backups) {
-                const originalLength = backupData.backups[filePath].length;
-                // Identify backups to remove
-                const removedBackups = backupData.backups[filePath].filter(
-                    backup => backup.timestamp <= cutoffTime
-                );
-
-                // Keep only backups newer than cutoff
-                backupData.backups[filePath] = backupData.backups[filePath].filter(
-                    backup => backup.timestamp > cutoffTime
-                );
-
-                if (backupData.backups[filePath].length < originalLength) {
-                    cleaned = true;
-
-                    // Clean up physical binary backup files
-                    for (const removedBackup of removedBackups) {
-                        if (removedBackup.isBinary && removedBackup.backupFilePath) {
-                            try {
-                                const adapter = this.app.vault.adapter;
-                                if (await adapter.exists(removedBackup.backupFilePath)) {
-                                    await adapter.remove(removedBackup.backupFilePath);
-                                }
-                            } catch (error) {
-                                console.error('Failed to clean up old binary backup:', error);
-                            }
-                        }
-                    }
-                }
+            legacy = JSON.parse(await adapter.read(this.legacyBackupFilePath));
+        } catch (error) {
+            console.error('Failed to read legacy backups for migration:', error);
+            return;
+        }
 
-                // If no backups remain for this file, remove the file entry
-                if (backupData.backups[filePath].length === 0) {
-                    delete backupData.backups[filePath];
+        const migratedBinaryFiles: string[] = [];
+        for (const [filePath, backups] of Object.entries(legacy.backups ?? {})) {
+            const entries: BackupIndexEntry[] = [];
+            let previousTextHash: string | undefined;
+            // Store oldest first so each version can be a delta against the one before it
+            for (const backup of [...backups].sort((a, b) => a.timestamp - b.timestamp)) {
+                try {
+                    if (backup.isBinary) {
+                        if (!backup.backupFilePath || !await adapter.exists(backup.backupFilePath)) continue;
+                        const data = await adapter.readBinary(backup.backupFilePath);
+                        entries.unshift({ timestamp: backup.timestamp, isBinary: true, fileSize: data.byteLength, hash: await this.storeBinary(index, data) });
+                        migratedBinaryFiles.push(backup.backupFilePath);
+                    } else if (backup.content !== undefined) {
+                        previousTextHash = await this.storeText(index, backup.content, previousTextHash);
+                        entries.unshift({ timestamp: backup.timestamp, isBinary: false, fileSize: backup.content.length, hash: previousTextHash });
+                    }
+                } catch (error) {
+                    console.error('Failed to migrate backup:', filePath, error);
                 }
             }
+            if (entries.length > 0) {
+                index.files[filePath] = entries.slice(0, this.maxBackupsPerFile);
+            }
+        }
 
-            if (cleaned) {
-                await this.saveBackupData(backupData);
+        await this.collectGarbage(index);
+        await this.saveIndex(index);
+        await adapter.remove(this.legacyBackupFilePath);
+        for (const path of migratedBinaryFiles) {
+            try {
+                await adapter.remove(path);
+            } catch (error) {
+                console.error('Failed to remove migrated binary backup:', error);
+            }
+        }
+        try {
+            if (await adapter.exists(this.legacyBinaryBackupFolder)) {
+                await adapter.rmdir(this.legacyBinaryBackupFolder, false);
             }
         } catch (error) {
-            console.error('Failed to cleanup old backups:', error);
+            // Leave the folder if it still holds files that were not migrated
         }
     }
+
+    /**
+     * Saves the backup index.
+     * @param index The BackupIndex object to save.
+     */
+    private async saveIndex(index: BackupIndex): Promise<void> {
+        await this.ensureFolders();
+        // Stringify with pretty print in debug mode
+        const debug = (window as any)?.aiAssistantPlugin?.debugMode;
+        const json = debug ? JSON.stringify(index, null, 2) : JSON.stringify(index);
+        await this.app.vault.adapter.write(this.indexFilePath, json);
+    }
 }
@@ -0,0 +1,403 @@
+import { App, ItemView, Notice, TFile, ViewStateResult, WorkspaceLeaf } from 'obsidian';
+import MyPlugin from '../main';
+import { FileBackup } from '../types';
+import { ChangedSegment, DiffSegment, applyHunks, diffSegments, splitLines } from '../utils/diffHunks';
+import { DialogHelpers } from '../settings/components/DialogHelpers';
+import { activateView } from '../utils/viewManager';
+
+export const VIEW_TYPE_BACKUP_TIMELINE = 'backup-timeline-view';
+
+/** Unchanged lines shown around each hunk; longer unchanged runs are collapsed */
+const CONTEXT_LINES = 3;
+
+/** Value of the compare dropdown for the current file */
+const COMPARE_CURRENT = 'current';
+
+type DiffLayout = 'inline' | 'side-by-side';
+
+/**
+ * Opens the backup timeline for a file.
+ * @param app The Obsidian app instance
+ * @param filePath Vault path of the file; defaults to the active note
+ */
+export async function openBackupTimeline(app: App, filePath?: string): Promise<void> {
+    const path = filePath ?? app.workspace.getActiveFile()?.path;
+    await activateView(app, VIEW_TYPE_BACKUP_TIMELINE);
+    const view = app.workspace.getLeavesOfType(VIEW_TYPE_BACKUP_TIMELINE)[0]?.view;
+    if (path && view instanceof BackupTimelineView) {
+        await view.setFile(path);
+    }
+}
+
+/**
+ * Backup Timeline View
+ *
+ * Shows every backup of a note on a timeline and the differences between a backup and
+ * the current file or another backup, inline or side by side. Selected hunks of a backup
+ * can be restored into the current file, or the whole backup restored.
+ * The view follows the active note.
+ */
+export class BackupTimelineView extends ItemView {
+    plugin: MyPlugin;
+    private filePath: string | null = null;
+    private backups: FileBackup[] = [];
+    /** Backup whose changes are shown */
+    private selectedBackup: FileBackup | null = null;
+    /** What the selected backup is compared with: the current file, or another backup's timestamp */
+    private compareWith: string = COMPARE_CURRENT;
+    private layout: DiffLayout = 'inline';
+    private selectedHunks = new Set<number>();
+    /** Incremented per render so results of an older, slower render are discarded */
+    private renderGeneration = 0;
+
+    constructor(leaf: WorkspaceLeaf, plugin: MyPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_BACKUP_TIMELINE;
+    }
+
+    getDisplayText(): string {
+        return this.filePath ? `Backups: ${this.filePath.split('/').pop()}` : 'Backup Timeline';
+    }
+
+    getIcon(): string {
+        return 'history';
+    }
+
+    getState(): Record<string, unknown> {
+        return { ...super.getState(), filePath: this.filePath };
+    }
+
+    async setState(state: any, result: ViewStateResult): Promise<void> {
+        if (typeof state?.filePath === 'string') {
+            await this.setFile(state.filePath);
+        }
+        await super.setState(state, result);
+    }
+
+    async onOpen() {
+        this.contentEl.addClass('backup-timeline-view');
+        // Follow the active note
+        this.registerEvent(this.app.workspace.on('file-open', (file) => {
+            if (file && file.path !== this.filePath) {
+                this.setFile(file.path);
+            }
+        }));
+        if (!this.filePath) {
+            const activeFile = this.app.workspace.getActiveFile();
+            if (activeFile) {
+                await this.setFile(activeFile.path);
+                return;
+            }
+        }
+        await this.render();
+    }
+
+    async onClose() {
+        this.renderGeneration++;
+        this.contentEl.empty();
+    }
+
+    /**
+     * Shows the backups of a file, selecting the most recent one.
+     * @param filePath Vault path of the file
+     */
+    async setFile(filePath: string): Promise<void> {
+        this.filePath = filePath;
+        this.backups = await this.plugin.backupManager.getBackupsForFile(filePath);
+        this.selectBackup(this.backups[0] ?? null);
+        await this.render();
+    }
+
+    private selectBackup(backup: FileBackup | null) {
+        this.selectedBackup = backup;
+        this.compareWith = COMPARE_CURRENT;
+        this.selectedHunks.clear();
+    }
+
+    /**
+     * Renders the timeline, the diff and the restore actions.
+     */
+    private async render(): Promise<void> {
+        const generation = ++this.renderGeneration;
+        const { contentEl } = this;
+
+        // Load everything first so the view is replaced in one go
+        const comparison = await this.loadComparison();
+        if (generation !== this.renderGeneration) return;
+
+        contentEl.empty();
+        const header = contentEl.createDiv('backup-timeline-header');
+        header.createEl('h4', { text: this.filePath ?? 'Backup Timeline' });
+        if (this.filePath) {
+            const refreshButton = header.createEl('button', { text: 'Refresh' });
+            refreshButton.onclick = () => this.setFile(this.filePath!);
+        }
+
+        if (!this.filePath) {
+            contentEl.createDiv({ text: 'Open a note to see its backups.', cls: 'backup-timeline-empty' });
+            return;
+        }
+        if (this.backups.length === 0) {
+            contentEl.createDiv({ text: 'This note has no backups yet.', cls: 'backup-timeline-empty' });
+            return;
+        }
+
+        this.renderTimeline(contentEl);
+        this.renderControls(contentEl);
+        if (!this.selectedBackup || !comparison) return;
+
+        if (this.selectedBackup.isBinary) {
+            const sizeKB = this.selectedBackup.fileSize ? Math.round(this.selectedBackup.fileSize / 1024) : 0;
+            contentEl.createDiv({ text: `Binary backup (${sizeKB} KB) cannot be compared.`, cls: 'backup-timeline-empty' });
+        } else if (comparison.backupContent === undefined) {
+            contentEl.createDiv({ text: 'Backup content could not be read.', cls: 'backup-timeline-empty' });
+        } else {
+            const segments = diffSegments(comparison.baseContent ?? '', comparison.backupContent);
+            this.renderDiff(contentEl, segments, comparison.baseLabel);
+            this.renderActions(contentEl, segments);
+            return;
+        }
+        this.renderActions(contentEl, []);
+    }
+
+    /**
+     * Loads the selected backup and what it is compared with.
+     */
+    private async loadComparison(): Promise<{ backupContent?: string; baseContent?: string; baseLabel: string } | null> {
+        if (!this.filePath || !this.selectedBackup) return null;
+        if (this.selectedBackup.isBinary) return { baseLabel: '' };
+        const backupManager = this.plugin.backupManager;
+        const backupContent = await backupManager.getBackupContent(this.selectedBackup);
+
+        if (this.compareWith === COMPARE_CURRENT) {
+            const file = this.app.vault.getAbstractFileByPath(this.filePath);
+            const baseContent = file instanceof TFile ? await this.app.vault.read(file) : '';
+            return { backupContent, baseContent, baseLabel: 'current file' };
+        }
+        const other = this.backups.find(backup => String(backup.timestamp) === this.compareWith);
+        const baseContent = other ? await backupManager.getBackupContent(other) : undefined;
+        return { backupContent, baseContent, baseLabel: other?.readableTimestamp ?? 'Backup' };
+    }
+
+    /**
+     * Renders the list of backups, most recent first.
+     */
+    private renderTimeline(container: HTMLElement) {
+        const timeline = container.createDiv('backup-timeline');
+        for (const backup of this.backups) {
+            const item = timeline.createDiv('backup-timeline-item');
+            if (backup === this.selectedBackup) item.addClass('is-selected');
+            item.createDiv({ text: backup.readableTimestamp || new Date(backup.timestamp).toLocaleString(), cls: 'backup-timeline-time' });
+            const sizeKB = backup.fileSize ? (backup.fileSize / 1024).toFixed(1) : '0';
+            item.createDiv({ text: `${sizeKB} KB${backup.isBinary ? ' · binary' : ''}`, cls: 'backup-timeline-details' });
+            item.onclick = () => {
+                this.selectBackup(backup);
+                this.render();
+            };
+        }
+    }
+
+    /**
+     * Renders the compare target and layout pickers.
+     */
+    private renderControls(container: HTMLElement) {
+        if (!this.selectedBackup || this.selectedBackup.isBinary) return;
+        const controls = container.createDiv('backup-timeline-controls');
+
+        controls.createSpan({ text: 'Compare with ' });
+        const compareSelect = controls.createEl('select', { cls: 'dropdown' });
+        compareSelect.createEl('option', { text: 'Current file', value: COMPARE_CURRENT });
+        for (const backup of this.backups) {
+            if (backup === this.selectedBackup || backup.isBinary) continue;
+            compareSelect.createEl('option', { text: backup.readableTimestamp, value: String(backup.timestamp) });
+        }
+        compareSelect.value = this.compareWith;
+        compareSelect.onchange = () => {
+            this.compareWith = compareSelect.value;
+            this.selectedHunks.clear();
+            this.render();
+        };
+
+        const layoutSelect = controls.createEl('select', { cls: 'dropdown' });
+        layoutSelect.createEl('option', { text: 'Inline', value: 'inline' });
+        layoutSelect.createEl('option', { text: 'Side by side', value: 'side-by-side' });
+        layoutSelect.value = this.layout;
+        layoutSelect.onchange = () => {
+            this.layout = layoutSelect.value as DiffLayout;
+            this.render();
+        };
+    }
+
+    /**
+     * Renders the differences between the compare target and the selected backup.
+     * @param segments Segments from the compare target to the selected backup
+     * @param baseLabel Label of the compare target
+     */
+    private renderDiff(container: HTMLElement, segments: DiffSegment[], baseLabel: string) {
+        const diff = container.createDiv(`backup-diff backup-diff-${this.layout}`);
+        if (!segments.some(segment => segment.type === 'changed')) {
+            diff.createDiv({ text: `No differences from ${baseLabel}.`, cls: 'backup-timeline-empty' });
+            return;
+        }
+        if (this.layout === 'side-by-side') {
+            const legend = diff.createDiv('backup-diff-row backup-diff-legend');
+            legend.createDiv({ text: baseLabel.charAt(0).toUpperCase() + baseLabel.slice(1), cls: 'backup-diff-side' });
+            legend.createDiv({ text: this.selectedBackup!.readableTimestamp, cls: 'backup-diff-side' });
+        }
+
+        segments.forEach((segment, index) => {
+            if (segment.type === 'unchanged') {
+                this.renderUnchanged(diff, splitLines(segment.text), index === 0, index === segments.length - 1);
+            } else {
+                this.renderHunk(diff, segment);
+            }
+        });
+    }
+
+    /**
+     * Renders unchanged lines, collapsing all but the context around hunks.
+     */
+    private renderUnchanged(container: HTMLElement, lines: string[], isFirst: boolean, isLast: boolean) {
+        const head = isFirst ? 0 : CONTEXT_LINES;
+        const tail = isLast ? 0 : CONTEXT_LINES;
+        if (lines.length <= head + tail + 1) {
+            lines.forEach(line => this.renderLine(container, line, line));
+            return;
+        }
+        lines.slice(0, head).forEach(line => this.renderLine(container, line, line));
+        container.createDiv({ text: `⋯ ${lines.length - head - tail} unchanged lines`, cls: 'backup-diff-collapsed' });
+        lines.slice(lines.length - tail).forEach(line => this.renderLine(container, line, line));
+    }
+
+    /**
+     * Renders a hunk with its selection checkbox when it can be restored.
+     */
+    private renderHunk(container: HTMLElement, segment: ChangedSegment) {
+        const hunk = container.createDiv('backup-diff-hunk');
+        const hunkHeader = hunk.createEl('label', { cls: 'backup-diff-hunk-header' });
+        if (this.compareWith === COMPARE_CURRENT) {
+            const checkbox = hunkHeader.createEl('input', { type: 'checkbox' });
+            checkbox.checked = this.selectedHunks.has(segment.hunk);
+            checkbox.onchange = () => {
+                if (checkbox.checked) {
+                    this.selectedHunks.add(segment.hunk);
+                } else {
+                    this.selectedHunks.delete(segment.hunk);
+                }
+                this.updateRestoreSelectedButton();
+            };
+        }
+        hunkHeader.createSpan({ text: `Line ${segment.fromLine}` });
+
+        const removed = splitLines(segment.removed);
+        const added = splitLines(segment.added);
+        if (this.layout === 'side-by-side') {
+            for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+                this.renderLine(hunk, removed[i], added[i]);
+            }
+        } else {
+            removed.forEach(line => this.renderLine(hunk, line, undefined));
+            added.forEach(line => this.renderLine(hunk, undefined, line));
+        }
+    }
+
+    /**
+     * Renders one diff line. In the inline layout, a line only on one side is shown as removed or added.
+     * @param base The line in the compare target, if any
+     * @param backup The line in the selected backup, if any
+     */
+    private renderLine(container: HTMLElement, base: string | undefined, backup: string | undefined) {
+        const row = container.createDiv('backup-diff-row');
+        if (this.layout === 'side-by-side') {
+            row.createDiv({ text: base ?? '', cls: `backup-diff-side${base !== backup && base !== undefined ? ' is-removed' : ''}` });
+            row.createDiv({ text: backup ?? '', cls: `backup-diff-side${base !== backup && backup !== undefined ? ' is-added' : ''}` });
+        } else if (base === backup) {
+            row.setText(`  ${base}`);
+        } else if (backup === undefined) {
+            row.setText(`- ${base}`);
+            row.addClass('is-removed');
+        } else {
+            row.setText(`+ ${backup}`);
+            row.addClass('is-added');
+        }
+    }
+
+    /**
+     * Renders the restore buttons.
+     */
+    private renderActions(container: HTMLElement, segments: DiffSegment[]) {
+        const backup = this.selectedBackup!;
+        const actions = container.createDiv('backup-timeline-actions');
+
+        if (this.compareWith === COMPARE_CURRENT && segments.some(segment => segment.type === 'changed')) {
+            const restoreSelectedButton = actions.createEl('button', { text: 'Restore selected hunks', cls: 'backup-restore-selected' });
+            restoreSelectedButton.onclick = () => this.restoreContent(applyHunks(segments, this.selectedHunks), 'Restored selected changes');
+        }
+
+        const restoreButton = actions.createEl('button', { text: 'Restore this version', cls: 'mod-cta' });
+        restoreButton.onclick = async () => {
+            const confirmed = await DialogHelpers.showConfirmationDialog(
+                'Restore Backup',
+                `Are you sure you want to restore the backup from ${backup.readableTimestamp}? The current content is backed up first.`
+            );
+            if (!confirmed) return;
+            if (backup.isBinary) {
+                // Binary files get no safety backup, so nothing can prune this version first
+                const result = await this.plugin.backupManager.restoreBackup(backup);
+                new Notice(result.success ? `Restored backup for ${backup.filePath}` : `Failed to restore backup: ${result.error}`);
+                await this.setFile(backup.filePath);
+                return;
+            }
+            // Read the version before the safety backup, which may prune it when it is the oldest one kept
+            const content = await this.plugin.backupManager.getBackupContent(backup);
+            if (content === undefined) {
+                new Notice(`Failed to restore backup: content not found for ${backup.filePath}`);
+                return;
+            }
+            await this.restoreContent(content, 'Restored backup');
+        };
+        this.updateRestoreSelectedButton();
+    }
+
+    private updateRestoreSelectedButton() {
+        const button = this.contentEl.querySelector<HTMLButtonElement>('.backup-restore-selected');
+        if (button) {
+            button.disabled = this.selectedHunks.size === 0;
+            button.setText(`Restore selected hunks (${this.selectedHunks.size})`);
+        }
+    }
+
+    /**
+     * Writes partially restored content to the file, backing up the current content first.
+     */
+    private async restoreContent(content: string, message: string): Promise<void> {
+        if (!this.filePath) return;
+        try {
+            await this.backupCurrentFile();
+            const file = this.app.vault.getAbstractFileByPath(this.filePath);
+            if (file instanceof TFile) {
+                await this.app.vault.modify(file, content);
+            } else {
+                await this.app.vault.create(this.filePath, content);
+            }
+            new Notice(`${message} to ${this.filePath}`);
+        } catch (error: any) {
+            new Notice(`Failed to restore backup: ${error.message}`);
+        }
+        await this.setFile(this.filePath);
+    }
+
+    /**
+     * Backs up the current text of the file so a restore can itself be reverted.
+     */
+    private async backupCurrentFile(): Promise<void> {
+        const file = this.filePath ? this.app.vault.getAbstractFileByPath(this.filePath) : null;
+        if (file instanceof TFile && !this.selectedBackup?.isBinary) {
+            await this.plugin.backupManager.createBackup(file.path, await this.app.vault.read(file));
+        }
+    }
+}
@@ -0,0 +1,273 @@
+import { App, Modal, Setting } from 'obsidian';
+import { YamlAttributeGenerator, YamlBatchGenerator, YamlBatchItem, YamlBatchTarget } from '../types';
+import { showNotice } from '../utils/generalUtils';
+import { isStructuredGenerator } from '../utils/yamlGeneratorSchema';
+import { YamlBatchRunner } from './YamlBatchRunner';
+
+/** Text shown for each item status in the review table */
+const STATUS_LABELS: Record<YamlBatchItem['status'], string> = {
+    pending: 'Pending',
+    generated: 'Ready',
+    written: 'Written',
+    failed: 'Failed'
+};
+
+/** Placeholder of the target value field for each target type */
+const TARGET_PLACEHOLDERS: Record<YamlBatchTarget['type'], string> = {
+    folder: 'Folder path, empty for the whole vault',
+    tag: '#tag',
+    search: 'Text in the note name or content'
+};
+
+/**
+ * YamlBatchModal sets up a batch run of a YAML attribute generator or of title generation,
+ * shows the proposed values in a review table and writes the approved ones.
+ * An unfinished run is shown when the modal opens, so it can be resumed.
+ */
+export class YamlBatchModal extends Modal {
+    private generatorIndex = 0;
+    private target: YamlBatchTarget = { type: 'folder', value: '' };
+    private rows = new Map<string, { el: HTMLElement; status: YamlBatchItem['status'] }>();
+    private summaryEl: HTMLElement | null = null;
+    private wasGenerating = false;
+    private unsubscribe: (() => void) | null = null;
+
+    /**
+     * @param app Obsidian App instance
+     * @param runner The batch runner holding the current run
+     * @param generators The configured YAML attribute generators
+     * @param initialTarget Notes preselected for a new run, e.g. the folder the modal was opened from
+     */
+    constructor(app: App, private runner: YamlBatchRunner, private generators: YamlAttributeGenerator[], initialTarget?: YamlBatchTarget) {
+        super(app);
+        this.titleEl.setText('Batch generate YAML');
+        if (initialTarget) this.target = { ...initialTarget };
+    }
+
+    onOpen() {
+        this.contentEl.addClass('ai-assistant-modal');
+        this.contentEl.addClass('yaml-batch-modal');
+        this.unsubscribe = this.runner.onProgress(() => this.onProgress());
+        this.render();
+    }
+
+    onClose() {
+        // Generation carries on in the background; the run can be reviewed by opening the modal again
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        this.rows.clear();
+        this.summaryEl = null;
+        this.contentEl.empty();
+    }
+
+    private render() {
+        this.contentEl.empty();
+        this.rows.clear();
+        this.summaryEl = null;
+        this.wasGenerating = this.runner.isGenerating();
+        if (this.runner.getRun()) {
+            this.renderReview();
+        } else {
+            this.renderSetup();
+        }
+    }
+
+    /**
+     * Renders the choice of generator and target notes.
+     */
+    private renderSetup() {
+        const { contentEl } = this;
+        const choices = this.getGeneratorChoices();
+
+        new Setting(contentEl)
+            .setName('Generate')
+            .addDropdown(dropdown => {
+                choices.forEach((choice, index) => dropdown.addOption(String(index), choice.label));
+                dropdown.setValue(String(this.generatorIndex));
+                dropdown.onChange(value => { this.generatorIndex = Number(value); });
+            });
+
+        let valueInput: HTMLInputElement | null = null;
+        new Setting(contentEl)
+            .setName('Notes')
+            .setDesc('Generate for the notes in a folder, with a tag, or matching a search.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({ folder: 'Folder', tag: 'Tag', search: 'Search' })
+                .setValue(this.target.type)
+                .onChange(value => {
+                    this.target.type = value as YamlBatchTarget['type'];
+                    if (valueInput) valueInput.placeholder = TARGET_PLACEHOLDERS[this.target.type];
+                }))
+            .addText(text => {
+                valueInput = text.inputEl;
+                text.setPlaceholder(TARGET_PLACEHOLDERS[this.target.type])
+                    .setValue(this.target.value)
+                    .onChange(value => { this.target.value = value; });
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Find notes and generate')
+                .setCta()
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    try {
+                        const run = await this.runner.start(choices[this.generatorIndex].generator, { ...this.target });
+                        if (run.items.length === 0) {
+                            showNotice('No notes match.');
+                            await this.runner.discard();
+                            button.setDisabled(false);
+                            return;
+                        }
+                        this.generate();
+                    } catch (error: any) {
+                        showNotice(`Failed to start batch run: ${error.message}`);
+                        button.setDisabled(false);
+                    }
+                }));
+    }
+
+    /**
+     * Renders the run summary, its controls and the review table.
+     */
+    private renderReview() {
+        const run = this.runner.getRun()!;
+        const { contentEl } = this;
+
+        const header = contentEl.createDiv('yaml-batch-header');
+        this.summaryEl = header.createDiv('yaml-batch-summary');
+        const controls = header.createDiv('yaml-batch-controls');
+
+        if (this.runner.isGenerating()) {
+            controls.createEl('button', { text: 'Stop' }).addEventListener('click', () => {
+                this.runner.stop();
+                showNotice('Stopping after the requests already sent. Open the batch run again to resume.');
+            });
+        } else if (run.items.some(item => item.status === 'pending' || (item.status === 'failed' && item.value === undefined))) {
+            controls.createEl('button', { text: 'Resume generating' }).addEventListener('click', () => this.generate());
+        }
+        controls.createEl('button', { text: 'Approve all' }).addEventListener('click', () => {
+            for (const item of run.items) {
+                if (item.value !== undefined && item.status !== 'written') this.runner.updateItem(item.path, { approved: true });
+            }
+            this.render();
+        });
+        const writeButton = controls.createEl('button', { text: 'Write approved', cls: 'mod-cta' });
+        writeButton.addEventListener('click', async () => {
+            writeButton.disabled = true;
+            const result = await this.runner.apply();
+            showNotice(`Wrote ${result.written} value${result.written !== 1 ? 's' : ''}` +
+                (result.failed > 0 ? `, ${result.failed} failed.` : '.'));
+            this.render();
+        });
+        controls.createEl('button', { text: 'Discard run' }).addEventListener('click', async () => {
+            await this.runner.discard();
+            this.render();
+        });
+
+        const table = contentEl.createEl('table', { cls: 'yaml-batch-table' });
+        const headRow = table.createEl('thead').createEl('tr');
+        for (const title of ['', 'Note', `Current ${run.field}`, `Proposed ${run.field}`, 'Status']) {
+            headRow.createEl('th', { text: title });
+        }
+        const body = table.createEl('tbody');
+        for (const item of run.items) {
+            const row = body.createEl('tr');
+            this.rows.set(item.path, { el: row, status: item.status });
+            this.renderRow(row, item);
+        }
+        this.updateSummary();
+    }
+
+    /**
+     * Renders one note of the review table.
+     */
+    private renderRow(row: HTMLElement, item: YamlBatchItem) {
+        row.empty();
+        const reviewable = item.value !== undefined && item.status !== 'written';
+
+        const checkbox = row.createEl('td').createEl('input', { type: 'checkbox' });
+        checkbox.checked = item.approved && item.value !== undefined;
+        checkbox.disabled = !reviewable;
+        checkbox.addEventListener('change', () => this.runner.updateItem(item.path, { approved: checkbox.checked }));
+
+        const link = row.createEl('td').createEl('a', { text: item.path, cls: 'yaml-batch-note' });
+        link.addEventListener('click', () => this.app.workspace.openLinkText(item.path, '', true));
+
+        row.createEl('td', { text: item.currentValue ?? '', cls: 'yaml-batch-current' });
+
+        const valueCell = row.createEl('td');
+        if (reviewable) {
+            const input = valueCell.createEl('input', { type: 'text', cls: 'yaml-batch-value' });
+            input.value = item.value ?? '';
+            input.addEventListener('change', () => this.runner.updateItem(item.path, { value: input.value }));
+        } else {
+            valueCell.setText(item.value ?? '');
+        }
+
+        const status = row.createEl('td', { text: STATUS_LABELS[item.status], cls: `yaml-batch-status is-${item.status}` });
+        if (item.error) status.setAttr('title', item.error);
+    }
+
+    /**
+     * Counts the notes per status in the summary line.
+     */
+    private updateSummary() {
+        const run = this.runner.getRun();
+        if (!run || !this.summaryEl) return;
+        const counts = Object.keys(STATUS_LABELS)
+            .map(status => [status, run.items.filter(item => item.status === status).length] as const)
+            .filter(([, count]) => count > 0)
+            .map(([status, count]) => `${count} ${STATUS_LABELS[status as YamlBatchItem['status']].toLowerCase()}`);
+        const target = run.target.type === 'folder' && !run.target.value.trim() ? 'whole vault' : `${run.target.type} "${run.target.value}"`;
+        this.summaryEl.setText(`Field "${run.field}" for ${run.items.length} notes (${target}): ${counts.join(', ')}`);
+    }
+
+    /**
+     * Generates the missing values; progress is shown through `onProgress`.
+     */
+    private generate() {
+        this.runner.generate().catch(error => showNotice(`Batch generation failed: ${error.message}`));
+        // Show the Stop button while generating
+        this.render();
+    }
+
+    /**
+     * Updates only the rows whose status changed, so edits in progress are kept,
+     * and renders the final controls once generation ends.
+     */
+    private onProgress() {
+        const run = this.runner.getRun();
+        if (!run || !this.summaryEl) return;
+        if (this.wasGenerating && !this.runner.isGenerating()) {
+            this.render();
+            return;
+        }
+        for (const item of run.items) {
+            const row = this.rows.get(item.path);
+            if (row && row.status !== item.status) {
+                row.status = item.status;
+                this.renderRow(row.el, item);
+            }
+        }
+        this.updateSummary();
+    }
+
+    /**
+     * Lists title generation and every YAML attribute generator with a prompt that writes a single text field;
+     * structured generators are run per note from their command.
+     */
+    private getGeneratorChoices(): Array<{ label: string; generator: YamlBatchGenerator }> {
+        const choices: Array<{ label: string; generator: YamlBatchGenerator }> = [
+            { label: 'Note title (title field)', generator: { type: 'title' } }
+        ];
+        for (const generator of this.generators) {
+            if (!generator.attributeName || !generator.prompt || isStructuredGenerator(generator)) continue;
+            choices.push({
+                label: `${generator.commandName || generator.attributeName} (${generator.attributeName} field)`,
+                generator: { type: 'attribute', attributeName: generator.attributeName, prompt: generator.prompt }
+            });
+        }
+        return choices;
+    }
+}
@@ -0,0 +1,296 @@
+import { App, TFile } from 'obsidian';
+import type MyPlugin from '../main';
+import { Message, MessageProcessingOptions, YamlBatchGenerator, YamlBatchItem, YamlBatchRun, YamlBatchTarget } from '../types';
+import { generateTitleForContent, generateYamlValueForContent, upsertYamlField } from '../YAMLHandler';
+import { AIDispatcher } from '../utils/aiDispatcher';
+import { debugLog } from '../utils/logger';
+
+/**
+ * Formats a frontmatter value for the review table; undefined if the field is missing or empty.
+ */
+function formatFrontmatterValue(value: unknown): string | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (Array.isArray(value)) return value.join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+/**
+ * Collects the tags of a note from its frontmatter and body, lowercased and without '#'.
+ */
+function getNoteTags(app: App, file: TFile): string[] {
+    const cache = app.metadataCache.getFileCache(file);
+    const frontmatter = (cache?.frontmatter ?? {}) as Record<string, any>;
+    const frontmatterTags = [frontmatter.tags ?? frontmatter.tag ?? []]
+        .flat()
+        .flatMap((tag: unknown) => typeof tag === 'string' ? tag.split(/[,\s]+/) : []);
+    return [...frontmatterTags, ...(cache?.tags ?? []).map(tag => tag.tag)]
+        .map(tag => tag.replace(/^#/, '').toLowerCase())
+        .filter(tag => tag !== '');
+}
+
+/**
+ * YamlBatchRunner generates a frontmatter field (a YAML attribute generator's field or the note title)
+ * for every note in a folder, with a tag or matching a search, and writes the values the user approved.
+ *
+ * A run goes through three steps: `start` selects the notes, `generate` proposes a value per note and
+ * `apply` writes the approved values through `upsertYamlField`. Requests go through the dispatcher's
+ * batch runner, which limits concurrency and applies rate limiting. The run is saved to a JSON file
+ * in the plugin's data folder after every change, so generation and review can be resumed after
+ * stopping or restarting Obsidian.
+ */
+export class YamlBatchRunner {
+    private app: App;
+    private run: YamlBatchRun | null = null;
+    private generating = false;
+    private stopRequested = false;
+    private listeners = new Set<() => void>();
+    private saveQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * @param plugin The plugin instance, for settings and the AI dispatcher
+     * @param runFilePath Path of the JSON file storing the current run
+     * @param processMessages Processes messages before they are sent to the AI provider
+     */
+    constructor(
+        private plugin: MyPlugin,
+        private runFilePath: string,
+        private processMessages: (messages: Message[], options?: MessageProcessingOptions) => Promise<Message[]>
+    ) {
+        this.app = plugin.app;
+    }
+
+    private get debugMode(): boolean {
+        return this.plugin.settings.debugMode ?? false;
+    }
+
+    /**
+     * Loads the persisted run, if any.
+     */
+    async initialize(): Promise<void> {
+        try {
+            if (await this.app.vault.adapter.exists(this.runFilePath)) {
+                const data = JSON.parse(await this.app.vault.adapter.read(this.runFilePath));
+                this.run = Array.isArray(data?.run?.items) ? data.run : null;
+            }
+        } catch (error) {
+            debugLog(this.debugMode, 'error', '[YamlBatchRunner] Failed to load batch run:', error);
+            this.run = null;
+        }
+    }
+
+    /**
+     * Returns the current run, or null if there is none.
+     */
+    getRun(): YamlBatchRun | null {
+        return this.run;
+    }
+
+    /**
+     * Whether values are being generated right now.
+     */
+    isGenerating(): boolean {
+        return this.generating;
+    }
+
+    /**
+     * Registers a listener called after each generated note and when generation ends.
+     * @returns A function that removes the listener
+     */
+    onProgress(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Lists the markdown notes a target covers, sorted by path.
+     * @param target A folder (empty for the whole vault), a tag or a search query
+     */
+    async selectNotes(target: YamlBatchTarget): Promise<TFile[]> {
+        const files = this.app.vault.getMarkdownFiles();
+        let selected: TFile[];
+        switch (target.type) {
+            case 'folder': {
+                const folder = target.value.trim().replace(/^\/+|\/+$/g, '');
+                selected = folder ? files.filter(file => file.path.startsWith(`${folder}/`)) : files;
+                break;
+            }
+            case 'tag': {
+                const tag = target.value.trim().replace(/^#/, '').toLowerCase();
+                if (!tag) return [];
+                selected = files.filter(file => getNoteTags(this.app, file)
+                    .some(noteTag => noteTag === tag || noteTag.startsWith(`${tag}/`)));
+                break;
+            }
+            case 'search': {
+                const query = target.value.trim().toLowerCase();
+                if (!query) return [];
+                selected = [];
+                for (const file of files) {
+                    if (file.path.toLowerCase().includes(query)
+                        || (await this.app.vault.cachedRead(file)).toLowerCase().includes(query)) {
+                        selected.push(file);
+                    }
+                }
+                break;
+            }
+        }
+        return selected.sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    /**
+     * Starts a new run, replacing the current one. Values are generated by `generate`.
+     * @param generator What to generate
+     * @param target Which notes to generate it for
+     * @returns The new run
+     */
+    async start(generator: YamlBatchGenerator, target: YamlBatchTarget): Promise<YamlBatchRun> {
+        if (this.generating) {
+            throw new Error('A batch run is still generating values');
+        }
+        const files = await this.selectNotes(target);
+        this.run = {
+            id: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            generator,
+            target,
+            field: generator.type === 'title' ? 'title' : generator.attributeName,
+            startedAt: Date.now(),
+            items: files.map(file => ({ path: file.path, status: 'pending', approved: false }))
+        };
+        this.save();
+        debugLog(this.debugMode, 'info', '[YamlBatchRunner] Started batch run', { field: this.run.field, notes: files.length });
+        return this.run;
+    }
+
+    /**
+     * Generates values for the notes that have none yet, including those that failed before.
+     * Values for notes without the field are approved by default; values that would replace
+     * an existing one have to be approved in the review.
+     */
+    async generate(): Promise<void> {
+        const run = this.run;
+        if (!run || this.generating) return;
+        this.generating = true;
+        this.stopRequested = false;
+
+        const dispatcher = this.plugin.aiDispatcher || new AIDispatcher(this.app.vault, this.plugin);
+        const items = run.items.filter(item => item.status === 'pending' || (item.status === 'failed' && item.value === undefined));
+        try {
+            await dispatcher.runBatch(items.map(item => async () => {
+                if (this.stopRequested || this.run !== run) return;
+                await this.generateItem(run, item, dispatcher);
+                this.save();
+                this.notify();
+            }));
+        } finally {
+            this.generating = false;
+            this.notify();
+        }
+    }
+
+    /**
+     * Stops generating after the requests already sent. The remaining notes stay pending.
+     */
+    stop(): void {
+        this.stopRequested = true;
+    }
+
+    /**
+     * Changes the proposed value or the approval of a note during review.
+     * @param path Path of the note
+     * @param changes The new value and/or approval
+     */
+    updateItem(path: string, changes: Partial<Pick<YamlBatchItem, 'value' | 'approved'>>): void {
+        const item = this.run?.items.find(candidate => candidate.path === path);
+        if (!item) return;
+        Object.assign(item, changes);
+        this.save();
+    }
+
+    /**
+     * Writes the approved values to the notes' frontmatter.
+     * Values already written are skipped, so a partly applied run can be applied again.
+     * @returns How many values were written and how many failed
+     */
+    async apply(): Promise<{ written: number; failed: number }> {
+        const run = this.run;
+        if (!run) return { written: 0, failed: 0 };
+
+        let written = 0;
+        let failed = 0;
+        for (const item of run.items) {
+            const value = item.value?.trim();
+            if (!item.approved || !value || item.status === 'written' || item.status === 'pending') continue;
+            try {
+                const file = this.app.vault.getAbstractFileByPath(item.path);
+                if (!(file instanceof TFile)) {
+                    throw new Error('Note not found');
+                }
+                await upsertYamlField(this.app, file, run.field, value);
+                item.status = 'written';
+                item.error = undefined;
+                written++;
+            } catch (error: any) {
+                item.status = 'failed';
+                item.error = error.message;
+                failed++;
+                debugLog(this.debugMode, 'error', '[YamlBatchRunner] Failed to write value', { path: item.path, error });
+            }
+        }
+        this.save();
+        debugLog(this.debugMode, 'info', '[YamlBatchRunner] Applied batch run', { written, failed });
+        return { written, failed };
+    }
+
+    /**
+     * Discards the current run without writing anything further.
+     */
+    async discard(): Promise<void> {
+        this.stop();
+        this.run = null;
+        this.save();
+        await this.saveQueue;
+    }
+
+    /**
+     * Generates the value of one note and records it, or the error, in the item.
+     */
+    private async generateItem(run: YamlBatchRun, item: YamlBatchItem, dispatcher: AIDispatcher): Promise<void> {
+        try {
+            const file = this.app.vault.getAbstractFileByPath(item.path);
+            if (!(file instanceof TFile)) {
+                throw new Error('Note not found');
+            }
+            const content = await this.app.vault.cachedRead(file);
+            const value = run.generator.type === 'title'
+                ? await generateTitleForContent(this.plugin.settings, this.processMessages, content, dispatcher)
+                : await generateYamlValueForContent(this.plugin.settings, this.processMessages, run.generator.prompt, content, dispatcher);
+            if (!value) {
+                throw new Error('No value generated');
+            }
+
+            const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+            item.currentValue = formatFrontmatterValue(frontmatter?.[run.field]);
+            item.value = value;
+            item.status = 'generated';
+            item.approved = item.currentValue === undefined;
+            item.error = undefined;
+        } catch (error: any) {
+            item.status = 'failed';
+            item.error = error.message;
+            debugLog(this.debugMode, 'error', '[YamlBatchRunner] Failed to generate value', { path: item.path, error });
+        }
+    }
+
+    private notify(): void {
+        for (const listener of this.listeners) listener();
+    }
+
+    private save(): void {
+        const path = this.runFilePath;
+        const data = JSON.stringify({ run: this.run }, null, 2);
+        this.saveQueue = this.saveQueue
+            .then(() => this.app.vault.adapter.write(path, data))
+            .catch(error => debugLog(this.debugMode, 'error', '[YamlBatchRunner] Failed to save batch run:', error));
+    }
+}
@@ -0,0 +1,118 @@
+import { AgentPlan, AgentPlanStep, TaskStatus, ToolCommand, ToolResult } from '../../types';
+
+/**
+ * Converts a value to a list of non-empty strings.
+ */
+function toStringList(value: unknown): string[] {
+    if (!Array.isArray(value)) return [];
+    return value.filter(item => typeof item === 'string' && item.trim() !== '').map(item => item.trim());
+}
+
+/**
+ * Parses the plan the agent produced in its planning response.
+ * Accepts a bare JSON object or one wrapped in a code block; steps may also be plain strings.
+ * @param response The planning response
+ * @returns The plan, or null if the response holds no plan with at least one step
+ */
+export function parseAgentPlan(response: string): AgentPlan | null {
+    const start = response.indexOf('{');
+    const end = response.lastIndexOf('}');
+    if (start === -1 || end <= start) return null;
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(response.slice(start, end + 1));
+    } catch {
+        return null;
+    }
+    if (!parsed || !Array.isArray(parsed.steps)) return null;
+
+    const steps: AgentPlanStep[] = [];
+    for (const step of parsed.steps) {
+        if (typeof step === 'string' && step.trim()) {
+            steps.push({ description: step.trim() });
+        } else if (step && typeof step.description === 'string' && step.description.trim()) {
+            steps.push({ description: step.description.trim(), files: toStringList(step.files), tools: toStringList(step.tools) });
+        }
+    }
+    if (steps.length === 0) return null;
+
+    return { goal: typeof parsed.goal === 'string' ? parsed.goal.trim() : '', steps };
+}
+
+/**
+ * Formats an approved plan as the instruction the agent executes.
+ * @param plan The plan as approved by the user
+ */
+export function formatApprovedPlan(plan: AgentPlan): string {
+    const steps = plan.steps.map((step, index) => {
+        const details = [
+            step.files?.length ? `files: ${step.files.join(', ')}` : '',
+            step.tools?.length ? `tools: ${step.tools.join(', ')}` : ''
+        ].filter(Boolean).join('; ');
+        return `${index + 1}. ${step.description}${details ? ` (${details})` : ''}`;
+    }).join('\n');
+
+    return `The user approved this plan${plan.goal ? ` to ${plan.goal}` : ''}. Carry it out step by step:\n${steps}\n\n` +
+        `When you start a step, use the 'thought' tool with "step" set to its number and "totalSteps" set to ${plan.steps.length}. ` +
+        `Do not do work outside the plan. Set nextTool to "finished" after the last step.`;
+}
+
+/**
+ * Tracks how far the agent got through an approved plan, based on the steps it reports
+ * with the thought tool.
+ */
+export class AgentPlanProgress {
+    private currentStep = 0;
+    private finished = false;
+
+    /**
+     * @param plan The approved plan
+     */
+    constructor(readonly plan: AgentPlan) {}
+
+    /**
+     * Updates the progress from executed tool commands.
+     * @param toolResults Tool commands and their results, in execution order
+     */
+    update(toolResults: Array<{ command: ToolCommand; result: ToolResult }>): void {
+        for (const { command, result } of toolResults) {
+            if (command.action !== 'thought' || !result.success || !result.data) continue;
+            const step = result.data.step;
+            if (typeof step === 'number' && step >= 1) {
+                this.currentStep = Math.min(Math.max(this.currentStep, Math.floor(step)), this.plan.steps.length);
+            }
+            if (result.data.finished === true || result.data.nextTool === 'finished') {
+                this.finished = true;
+            }
+        }
+    }
+
+    /**
+     * Number of the step in progress (1-based), or 0 before the first step.
+     */
+    getCurrentStep(): number {
+        return this.currentStep;
+    }
+
+    /**
+     * Whether the agent finished the plan.
+     */
+    isFinished(): boolean {
+        return this.finished;
+    }
+
+    /**
+     * Returns the progress in the form stored on the task status.
+     * Steps before the current one count as done, all of them once the agent finished.
+     */
+    toTaskProgress(): NonNullable<TaskStatus['progress']> {
+        const total = this.plan.steps.length;
+        if (this.finished) {
+            return { current: total, total, description: 'Plan completed' };
+        }
+        const current = Math.max(this.currentStep - 1, 0);
+        const step = this.plan.steps[this.currentStep - 1];
+        return { current, total, description: step ? `Step ${this.currentStep}: ${step.description}` : 'Starting plan' };
+    }
+}
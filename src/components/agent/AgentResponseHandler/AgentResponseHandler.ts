@@ -1,8 +1,10 @@
-import { ToolCommand, ToolResult, Message, ReasoningData, TaskStatus, ToolExecutionResult } from "../../../types";
+import { AgentPlan, ToolCommand, ToolResult, Message, ReasoningData, TaskStatus, ToolExecutionResult } from "../../../types";
 import { CommandParser } from "../CommandParser";
 import { ToolRegistry } from "../ToolRegistry";
 import { ToolRichDisplay } from "../ToolRichDisplay";
-import { createToolInstances } from "../tools/toolcollect";
+import { createToolInstances, getToolDefinitions } from "../tools/toolcollect";
+import { NativeToolCapture } from "../NativeToolCapture";
+import { AgentPlanProgress } from "../AgentPlan";
 import { CONSTANTS } from "./constants";
 import {
     AgentContext,
@@ -14,6 +16,8 @@ import { ToolResultFormatter } from "./ToolResultFormatter";
 import { ToolExecutor } from "./ToolExecutor";
 import { ReasoningProcessor } from "./ReasoningProcessor";
 import { ToolLimitWarningUI } from "./ToolLimitWarningUI";
+import { ToolApprovalUI } from "./ToolApprovalUI";
+import { PlanApprovalUI } from "./PlanApprovalUI";
 
 /**
  * Main AgentResponseHandler class.
@@ -43,6 +47,14 @@ export class AgentResponseHandler {
     private reasoningProcessor: ReasoningProcessor;
     // UI for tool limit warnings
     private toolLimitWarningUI: ToolLimitWarningUI;
+    // UI for approving tools that need the user's permission
+    private toolApprovalUI: ToolApprovalUI;
+    // UI for reviewing the agent's plan and showing progress through it
+    private planApprovalUI: PlanApprovalUI;
+    // Progress through the approved plan of the current request, if planning is on
+    private planProgress?: AgentPlanProgress;
+    // Abort signal of the response being processed; stopping it cancels pending approvals
+    private abortSignal?: AbortSignal;
 
     /**
      * Constructs a new AgentResponseHandler.
@@ -61,9 +73,21 @@ export class AgentResponseHandler {
         );
         this.reasoningProcessor = new ReasoningProcessor(context);
         this.toolLimitWarningUI = new ToolLimitWarningUI(this as any);
+        this.toolApprovalUI = new ToolApprovalUI(context);
+        this.planApprovalUI = new PlanApprovalUI(context);
+        this.toolRegistry.setApprovalHandler(command => this.toolApprovalUI.requestApproval(command, this.abortSignal));
         this.initializeTools();
     }
 
+    /**
+     * Sets the abort signal of the response being processed.
+     * Approval cards still waiting for the user are cancelled when it fires.
+     * @param signal The signal of the current response's AbortController.
+     */
+    setAbortSignal(signal: AbortSignal | undefined): void {
+        this.abortSignal = signal;
+    }
+
     /**
      * Returns the agent context.
      */
@@ -94,17 +118,32 @@ export class AgentResponseHandler {
         }
     }
 
+    /**
+     * Creates a capture for native tool calls if the native tool transport is enabled.
+     * Returns undefined when agent mode is off or the text transport is selected.
+     */
+    createNativeToolCapture(): NativeToolCapture | undefined {
+        const agentSettings = this.context.plugin.agentModeManager.getAgentModeSettings();
+        if (!agentSettings.enabled || agentSettings.toolTransport !== 'native') {
+            return undefined;
+        }
+        return new NativeToolCapture(this.commandParser, getToolDefinitions(this.context.plugin.settings.enabledTools));
+    }
+
     /**
      * Processes a response string, parses tool commands, executes them if needed,
      * and returns processed text and tool results.
      * @param response The response string from the agent.
      * @param contextLabel Optional label for logging context.
      * @param chatHistory Optional chat history for deduplication.
+     * @param nativeCommands Commands received through native function calling. When
+     *        there are any, the text is not scraped for JSON commands.
      */
     async processResponse(
         response: string,
         contextLabel: string = "main",
-        chatHistory?: any[]
+        chatHistory?: any[],
+        nativeCommands?: ToolCommand[]
     ): Promise<{
         processedText: string;
         toolResults: Array<{ command: ToolCommand; result: ToolResult }>;
@@ -117,8 +156,10 @@ export class AgentResponseHandler {
             return this.createProcessResponseResult(response, [], false);
         }
 
-        // Parse the response for tool commands.
-        const { text, commands } = this.commandParser.parseResponse(response);
+        // Use native tool calls when the model made any; otherwise it may have written them as JSON.
+        const { text, commands } = nativeCommands && nativeCommands.length > 0
+            ? this.separateNativeCommands(response, nativeCommands)
+            : this.commandParser.parseResponse(response);
 
         // If no commands found, return the text as-is.
         if (commands.length === 0) {
@@ -155,6 +196,19 @@ export class AgentResponseHandler {
         return await this.executeToolCommands(commandsToExecute, text, contextLabel);
     }
 
+    /**
+     * Strips the recorded JSON form of native commands from the response text.
+     * @param response The response text, possibly ending with the recorded commands.
+     * @param commands The native commands.
+     */
+    private separateNativeCommands(response: string, commands: ToolCommand[]): { text: string; commands: ToolCommand[] } {
+        let text = response;
+        for (const command of commands) {
+            text = text.replace(CommandParser.formatCommand(command), '');
+        }
+        return { text: text.trim(), commands };
+    }
+
     /**
      * Helper to create the result object for processResponse.
      */
@@ -239,9 +293,37 @@ export class AgentResponseHandler {
             }
         }
 
+        // Advance the approved plan's checklist to the steps the agent reported
+        if (this.planProgress) {
+            this.planProgress.update(toolResults);
+            this.planApprovalUI.updateProgress(this.planProgress);
+        }
+
         return this.createProcessResponseResult(text, toolResults, true);
     }
 
+    /**
+     * Shows the agent's plan for review and waits for the user's decision.
+     * Progress through an approved plan is tracked until {@link clearPlan} is called.
+     * @param plan The plan proposed by the agent.
+     * @returns The plan as edited and approved by the user, or null if cancelled or the response was stopped.
+     */
+    async requestPlanApproval(plan: AgentPlan): Promise<AgentPlan | null> {
+        this.planProgress = undefined;
+        const approved = await this.planApprovalUI.requestApproval(plan, this.abortSignal);
+        if (approved) {
+            this.planProgress = new AgentPlanProgress(approved);
+        }
+        return approved;
+    }
+
+    /**
+     * Stops tracking progress through the current plan.
+     */
+    clearPlan(): void {
+        this.planProgress = undefined;
+    }
+
     /**
      * Returns the current execution count.
      */
@@ -562,11 +644,13 @@ ${resultData}
      * @param response The response string.
      * @param contextLabel Optional context label.
      * @param chatHistory Optional chat history.
+     * @param nativeCommands Optional commands received through native function calling.
      */
     processResponseWithUI(
         response: string,
         contextLabel: string = "ui",
-        chatHistory?: any[]
+        chatHistory?: any[],
+        nativeCommands?: ToolCommand[]
     ): Promise<{
         processedText: string;
         toolResults: Array<{ command: ToolCommand; result: ToolResult }>;
@@ -576,7 +660,7 @@ ${resultData}
         shouldShowLimitWarning: boolean;
     }> {
         return (async () => {
-            const result = await this.processResponse(response, contextLabel, chatHistory);
+            const result = await this.processResponse(response, contextLabel, chatHistory, nativeCommands);
             let status: TaskStatus["status"] = "completed";
             if (result.hasTools) {
                 // Check if any tools are pending user feedback
@@ -608,13 +692,15 @@ ${resultData}
 
     /**
      * Creates a TaskStatus object with the given status and current execution state.
+     * Progress is set from the approved plan, if there is one.
      * @param status The task status
      * @returns TaskStatus object
      */
-    private createTaskStatus(status: TaskStatus["status"]): TaskStatus {
+    createTaskStatus(status: TaskStatus["status"]): TaskStatus {
         const agentSettings = this.context.plugin.agentModeManager.getAgentModeSettings();
         return {
             status,
+            progress: this.planProgress?.toTaskProgress(),
             toolExecutionCount: this.executionCount,
             maxToolExecutions: this.getEffectiveToolLimit(),
             canContinue: status === "running" || status === "waiting_for_user",
@@ -0,0 +1,136 @@
+import { AgentPlan, AgentPlanStep } from "../../../types";
+import { AgentPlanProgress } from "../AgentPlan";
+import { AgentContext } from "./types";
+
+/**
+ * Splits a comma-separated input into a list.
+ */
+function parseList(value: string): string[] {
+    return value.split(",").map(item => item.trim()).filter(item => item !== "");
+}
+
+/**
+ * UI handler for plan cards: an editable checklist of the agent's plan, shown in the chat before
+ * any tool runs. Once approved, the card tracks progress through the plan steps.
+ */
+export class PlanApprovalUI {
+    // Context containing the chat's messages container.
+    private context: AgentContext;
+    // Checklist items of the approved plan, one per step.
+    private progressItems: HTMLElement[] = [];
+
+    /**
+     * Constructs the PlanApprovalUI with the given context.
+     * @param context The agent context with UI references.
+     */
+    constructor(context: AgentContext) {
+        this.context = context;
+    }
+
+    /**
+     * Shows the plan as an editable checklist and waits for the user to approve or cancel it.
+     * Unchecked steps are left out of the approved plan.
+     * If the response is stopped first, the card is removed and the plan counts as cancelled.
+     * @param plan The plan proposed by the agent.
+     * @param signal Abort signal of the response the plan belongs to.
+     * @returns The plan as edited by the user, or null if the user cancelled.
+     */
+    requestApproval(plan: AgentPlan, signal?: AbortSignal): Promise<AgentPlan | null> {
+        if (signal?.aborted) return Promise.resolve(null);
+        return new Promise(resolve => {
+            const card = document.createElement("div");
+            card.className = "agent-plan-card";
+            this.progressItems = [];
+
+            const header = card.createDiv({ cls: "agent-plan-header" });
+            header.createEl("strong", { text: "📋 Proposed plan" });
+            const goalInput = card.createEl("input", { cls: "agent-plan-goal", attr: { type: "text", placeholder: "Goal" } });
+            goalInput.value = plan.goal;
+
+            const list = card.createDiv({ cls: "agent-plan-steps" });
+            const rows: Array<{ include: HTMLInputElement; description: HTMLInputElement; files: HTMLInputElement; tools: HTMLInputElement }> = [];
+            const addRow = (step: AgentPlanStep) => {
+                const row = list.createDiv({ cls: "agent-plan-step" });
+                const include = row.createEl("input", { attr: { type: "checkbox" } });
+                include.checked = true;
+                const fields = row.createDiv({ cls: "agent-plan-step-fields" });
+                const description = fields.createEl("input", { cls: "agent-plan-step-description", attr: { type: "text", placeholder: "What this step does" } });
+                description.value = step.description;
+                const meta = fields.createDiv({ cls: "agent-plan-step-meta" });
+                const files = meta.createEl("input", { attr: { type: "text", placeholder: "Files (comma-separated)" } });
+                files.value = (step.files ?? []).join(", ");
+                const tools = meta.createEl("input", { attr: { type: "text", placeholder: "Tools (comma-separated)" } });
+                tools.value = (step.tools ?? []).join(", ");
+                include.onchange = () => row.toggleClass("excluded", !include.checked);
+                rows.push({ include, description, files, tools });
+            };
+            plan.steps.forEach(addRow);
+
+            const actions = card.createDiv({ cls: "agent-plan-actions" });
+            const addButton = actions.createEl("button", { text: "Add step" });
+            addButton.onclick = () => addRow({ description: "" });
+            const executeButton = actions.createEl("button", { text: "Execute plan", cls: "mod-cta" });
+            const cancelButton = actions.createEl("button", { text: "Cancel" });
+
+            executeButton.onclick = () => {
+                const approved: AgentPlan = {
+                    goal: goalInput.value.trim(),
+                    steps: rows
+                        .filter(row => row.include.checked && row.description.value.trim() !== "")
+                        .map(row => ({
+                            description: row.description.value.trim(),
+                            files: parseList(row.files.value),
+                            tools: parseList(row.tools.value)
+                        }))
+                };
+                if (approved.steps.length === 0) return;
+                signal?.removeEventListener("abort", onAbort);
+                this.renderProgressChecklist(card, approved);
+                resolve(approved);
+            };
+            cancelButton.onclick = () => {
+                signal?.removeEventListener("abort", onAbort);
+                card.empty();
+                card.addClass("decided");
+                card.createDiv({ cls: "agent-plan-header", text: "✗ Plan cancelled" });
+                resolve(null);
+            };
+            const onAbort = () => {
+                card.remove();
+                resolve(null);
+            };
+            signal?.addEventListener("abort", onAbort, { once: true });
+
+            this.context.messagesContainer.appendChild(card);
+            card.scrollIntoView({ block: "nearest" });
+        });
+    }
+
+    /**
+     * Replaces the editable plan with a read-only checklist used to show progress.
+     * @param card The plan card element.
+     * @param plan The approved plan.
+     */
+    private renderProgressChecklist(card: HTMLElement, plan: AgentPlan): void {
+        card.empty();
+        card.addClass("decided");
+        const header = card.createDiv({ cls: "agent-plan-header" });
+        header.createEl("strong", { text: `📋 ${plan.goal || "Plan"}` });
+        const list = card.createEl("ol", { cls: "agent-plan-checklist" });
+        this.progressItems = plan.steps.map(step => list.createEl("li", { text: step.description }));
+    }
+
+    /**
+     * Marks finished and active steps on the approved plan's checklist.
+     * @param progress The progress of the running plan.
+     */
+    updateProgress(progress: AgentPlanProgress): void {
+        const current = progress.getCurrentStep();
+        const finished = progress.isFinished();
+        this.progressItems.forEach((item, index) => {
+            const done = finished || index + 1 < current;
+            item.toggleClass("done", done);
+            item.toggleClass("active", !done && index + 1 === current);
+        });
+    }
+}
@@ -0,0 +1,80 @@
+import { ToolCommand } from "../../../types";
+import { ToolApprovalDecision } from "../ToolPermissionPolicy";
+import { AgentContext } from "./types";
+
+/**
+ * UI handler for approval cards, shown in the chat before a tool that needs approval runs.
+ */
+export class ToolApprovalUI {
+    // Context containing the chat's messages container.
+    private context: AgentContext;
+
+    /**
+     * Constructs the ToolApprovalUI with the given context.
+     * @param context The agent context with UI references.
+     */
+    constructor(context: AgentContext) {
+        this.context = context;
+    }
+
+    /**
+     * Shows an approval card for a tool command and waits for the user's decision.
+     * The card is replaced by a one-line summary once the user decides.
+     * If the response is stopped first, the card is removed and the command is denied.
+     * @param command The tool command awaiting approval.
+     * @param signal Abort signal of the response the command belongs to.
+     * @returns The user's decision.
+     */
+    requestApproval(command: ToolCommand, signal?: AbortSignal): Promise<ToolApprovalDecision> {
+        if (signal?.aborted) return Promise.resolve("deny");
+        return new Promise(resolve => {
+            const onAbort = () => {
+                card.remove();
+                resolve("deny");
+            };
+            const card = this.createApprovalCard(command, decision => {
+                signal?.removeEventListener("abort", onAbort);
+                card.empty();
+                card.addClass("decided");
+                card.createDiv({
+                    cls: "tool-approval-text",
+                    text: decision === "deny"
+                        ? `✗ Denied ${command.action}`
+                        : `✓ Allowed ${command.action}${decision === "session" ? " for this session" : ""}`
+                });
+                resolve(decision);
+            });
+            signal?.addEventListener("abort", onAbort, { once: true });
+            this.context.messagesContainer.appendChild(card);
+            card.scrollIntoView({ block: "nearest" });
+        });
+    }
+
+    /**
+     * Creates the approval card with the tool's exact parameters and the decision buttons.
+     * @param command The tool command awaiting approval.
+     * @param onDecide Called once with the user's decision.
+     * @returns The card HTMLElement.
+     */
+    private createApprovalCard(command: ToolCommand, onDecide: (decision: ToolApprovalDecision) => void): HTMLElement {
+        const card = document.createElement("div");
+        card.className = "tool-approval-card";
+
+        const text = card.createDiv({ cls: "tool-approval-text" });
+        text.createEl("strong", { text: `🔐 Approve ${command.action}?` });
+        text.createDiv({ text: "The agent wants to run this tool with the following parameters:" });
+        card.createEl("pre", { cls: "tool-approval-parameters", text: JSON.stringify(command.parameters ?? {}, null, 2) });
+
+        const actions = card.createDiv({ cls: "tool-approval-actions" });
+        const buttons: Array<[string, ToolApprovalDecision, string]> = [
+            ["Allow once", "once", "mod-cta"],
+            ["Allow for this session", "session", ""],
+            ["Deny", "deny", "mod-warning"]
+        ];
+        for (const [label, decision, cls] of buttons) {
+            const button = actions.createEl("button", { text: label, cls });
+            button.onclick = () => onDecide(decision);
+        }
+        return card;
+    }
+}
@@ -58,11 +58,15 @@ export class ToolExecutor {
 
     /**
      * Executes a tool with a timeout.
+     * Permissions are checked first, so time spent waiting for the user's approval does not count.
      * @param command The tool command to execute.
      * @param timeoutMs Timeout in milliseconds.
      * @returns A promise resolving to the tool result.
      */
     async executeToolWithTimeout(command: ToolCommand, timeoutMs: number): Promise<ToolResult> {
+        const denied = await this.toolRegistry.authorize(command);
+        if (denied) return denied;
+
         return new Promise((resolve, reject) => {
             // Set up a timeout to reject if tool takes too long.
             const timeout = setTimeout(() => {
@@ -70,7 +74,7 @@ export class ToolExecutor {
             }, timeoutMs);
 
             // Execute the tool and clear timeout on completion.
-            this.toolRegistry.execute(command)
+            this.toolRegistry.run(command)
                 .then(result => {
                     clearTimeout(timeout);
                     resolve(result);
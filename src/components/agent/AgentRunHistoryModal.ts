@@ -0,0 +1,95 @@
+import { App, Modal } from 'obsidian';
+import { AgentFileOperation, AgentRun } from '../../types';
+
+/** Short verb shown for each kind of file operation */
+const OPERATION_LABELS: Record<AgentFileOperation['type'], string> = {
+    create: 'Created',
+    edit: 'Edited',
+    move: 'Moved',
+    delete: 'Deleted'
+};
+
+/**
+ * Describes a file operation for display, e.g. "Moved a.md → b.md".
+ */
+export function describeAgentOperation(operation: AgentFileOperation): string {
+    const target = operation.type === 'move' ? `${operation.fromPath} → ${operation.path}` : operation.path;
+    return `${OPERATION_LABELS[operation.type]} ${target}`;
+}
+
+/**
+ * AgentRunHistoryModal lists past agent runs with their file operations and lets the user undo a run.
+ */
+export class AgentRunHistoryModal extends Modal {
+    private getRuns: () => AgentRun[];
+    private onUndo: (run: AgentRun) => Promise<void>;
+
+    /**
+     * @param app Obsidian App instance
+     * @param getRuns Returns the journaled runs, most recent first
+     * @param onUndo Callback that undoes a run
+     */
+    constructor(app: App, getRuns: () => AgentRun[], onUndo: (run: AgentRun) => Promise<void>) {
+        super(app);
+        this.titleEl.setText('Agent run history');
+        this.getRuns = getRuns;
+        this.onUndo = onUndo;
+    }
+
+    /**
+     * Renders the list of runs.
+     */
+    onOpen() {
+        this.contentEl.addClass('ai-assistant-modal');
+        this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        const runs = this.getRuns();
+        if (runs.length === 0) {
+            contentEl.createDiv({ text: 'No agent runs have changed files yet.' }).style.opacity = '0.6';
+            return;
+        }
+
+        for (const run of runs) {
+            const item = contentEl.createDiv('ai-agent-run');
+            item.style.padding = '0.4em 0';
+            item.style.borderBottom = '1px solid var(--background-modifier-border)';
+
+            const header = item.createDiv();
+            header.style.display = 'flex';
+            header.style.justifyContent = 'space-between';
+            header.style.alignItems = 'center';
+            header.style.gap = '0.5em';
+            header.createDiv({ text: run.label }).style.fontWeight = 'bold';
+
+            const undoButton = header.createEl('button', { text: run.undoneAt ? 'Undone' : 'Undo' });
+            undoButton.disabled = !!run.undoneAt;
+            undoButton.addEventListener('click', async () => {
+                undoButton.disabled = true;
+                await this.onUndo(run);
+                this.render();
+            });
+
+            const details = item.createDiv({
+                text: `${run.operations.length} file operation${run.operations.length !== 1 ? 's' : ''} · ${new Date(run.startedAt).toLocaleString()}`
+            });
+            details.style.fontSize = '0.85em';
+            details.style.opacity = '0.7';
+
+            const operationList = item.createEl('ul');
+            operationList.style.fontSize = '0.85em';
+            operationList.style.margin = '0.2em 0';
+            for (const operation of run.operations) {
+                operationList.createEl('li', { text: describeAgentOperation(operation) });
+            }
+        }
+    }
+}
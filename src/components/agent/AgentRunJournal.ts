@@ -0,0 +1,308 @@
+import { App, TAbstractFile, TFile } from 'obsidian';
+import { AgentFileOperation, AgentRun, AgentRunUndoResult } from '../../types';
+import { ensureFolderExists } from '../../utils/fileUtils';
+import { debugLog } from '../../utils/logger';
+
+/** Number of past runs kept in the journal */
+export const MAX_AGENT_RUNS = 20;
+
+/**
+ * What file tools use to journal their changes: the run they are working in, and a way to record into it.
+ * The journal itself records into its active run; {@link AgentRunJournal.createRecorder} binds other runs.
+ */
+export interface AgentRunRecorder {
+    getActiveRun(): AgentRun | null;
+    record(operation: Omit<AgentFileOperation, 'timestamp'>, run?: AgentRun | null): void;
+}
+
+/**
+ * Journal of the file operations performed by agent runs, so a whole run can be undone.
+ *
+ * A run spans one agent response including its task continuation. The file tools record
+ * each create, edit, move and delete into the active run; runs without file operations
+ * are discarded. When given an app and file path, the journal is persisted to a JSON file
+ * in the plugin's data folder; otherwise it is kept in memory only.
+ */
+export class AgentRunJournal implements AgentRunRecorder {
+    private runs: AgentRun[] = [];
+    private activeRun: AgentRun | null = null;
+    private depth = 0;
+    private saveQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * @param app Obsidian App instance, used to revert operations and for persistence.
+     * @param journalFilePath Optional path of the JSON file storing the journal.
+     * @param debugMode Whether to log debug output.
+     */
+    constructor(
+        private app: App,
+        private journalFilePath?: string,
+        private debugMode: boolean = false
+    ) {}
+
+    /**
+     * Loads the persisted journal, if any.
+     */
+    async initialize(): Promise<void> {
+        if (!this.journalFilePath) return;
+        try {
+            if (await this.app.vault.adapter.exists(this.journalFilePath)) {
+                const data = JSON.parse(await this.app.vault.adapter.read(this.journalFilePath));
+                this.runs = Array.isArray(data?.runs) ? data.runs : [];
+            }
+        } catch (error) {
+            debugLog(this.debugMode, 'error', '[AgentRunJournal] Failed to load agent run journal:', error);
+            this.runs = [];
+        }
+    }
+
+    /**
+     * Starts a run, or joins the active one when runs are nested
+     * (e.g. a task continuation inside an agent response).
+     * @param label Short description of the run
+     * @returns The active run
+     */
+    beginRun(label: string): AgentRun {
+        if (!this.activeRun) {
+            this.activeRun = this.createRun(label);
+        }
+        this.depth++;
+        return this.activeRun;
+    }
+
+    /**
+     * Ends the innermost run. The run is closed once the outermost run ends.
+     */
+    endRun(): void {
+        if (!this.activeRun) return;
+        this.depth--;
+        if (this.depth > 0) return;
+
+        this.finishRun(this.activeRun);
+        this.activeRun = null;
+        this.depth = 0;
+    }
+
+    /**
+     * Creates a run that is not the active one, for work that runs alongside chat responses
+     * (e.g. background agent tasks). Record into it through {@link createRecorder}.
+     * @param label Short description of the run
+     */
+    createRun(label: string): AgentRun {
+        return {
+            id: `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            label: label.trim().slice(0, 100) || 'Agent run',
+            startedAt: Date.now(),
+            operations: []
+        };
+    }
+
+    /**
+     * Closes a run. Runs without file operations are discarded.
+     * @param run The run to close
+     */
+    finishRun(run: AgentRun): void {
+        if (run.operations.length > 0) {
+            run.endedAt = Date.now();
+            this.save();
+        }
+    }
+
+    /**
+     * Returns a recorder that journals into the given run instead of the active one.
+     * @param getRun Returns the run to record into, or null when nothing should be journaled
+     */
+    createRecorder(getRun: () => AgentRun | null): AgentRunRecorder {
+        return {
+            getActiveRun: getRun,
+            record: (operation, run = getRun()) => this.record(operation, run)
+        };
+    }
+
+    /**
+     * Runs a task inside a run, ending the run even if the task fails.
+     * @param label Short description of the run
+     * @param task The agent work to group
+     */
+    async track<T>(label: string, task: () => Promise<T>): Promise<T> {
+        this.beginRun(label);
+        try {
+            return await task();
+        } finally {
+            this.endRun();
+        }
+    }
+
+    /**
+     * Returns the run file operations are currently recorded into, if any.
+     */
+    getActiveRun(): AgentRun | null {
+        return this.activeRun;
+    }
+
+    /**
+     * Records a file operation. Operations outside a run (e.g. manual tool re-runs) are not journaled.
+     * @param operation The operation, without timestamp
+     * @param run The run to record into; defaults to the active run. Tools that apply changes
+     *            after the run ended (e.g. accepted diff suggestions) pass the run they started in.
+     */
+    record(operation: Omit<AgentFileOperation, 'timestamp'>, run: AgentRun | null = this.activeRun): void {
+        if (!run || run.undoneAt) return;
+
+        run.operations.push({ ...operation, timestamp: Date.now() });
+        if (!this.runs.includes(run)) {
+            this.runs.unshift(run);
+            this.runs = this.runs.slice(0, MAX_AGENT_RUNS);
+        }
+        debugLog(this.debugMode, 'debug', '[AgentRunJournal] Recorded operation', { runId: run.id, operation });
+        this.save();
+    }
+
+    /**
+     * Returns the journaled runs, most recent first.
+     */
+    getRuns(): AgentRun[] {
+        return [...this.runs];
+    }
+
+    /**
+     * Returns the most recent run that has not been undone.
+     */
+    getLastUndoableRun(): AgentRun | undefined {
+        return this.runs.find(run => !run.undoneAt);
+    }
+
+    /**
+     * Reverts the operations of a run in reverse order.
+     * Operations whose files changed since the run are skipped and reported as failures.
+     * @param runId Id of the run; defaults to the most recent run that has not been undone
+     * @throws Error if there is no such run, or it has already been undone
+     */
+    async undoRun(runId?: string): Promise<AgentRunUndoResult> {
+        const run = runId ? this.runs.find(candidate => candidate.id === runId) : this.getLastUndoableRun();
+        if (!run) {
+            throw new Error(runId ? `Agent run not found: ${runId}` : 'No agent run to undo');
+        }
+        if (run.undoneAt) {
+            throw new Error('This agent run has already been undone');
+        }
+
+        const result: AgentRunUndoResult = { reverted: 0, failures: [] };
+        for (const operation of [...run.operations].reverse()) {
+            try {
+                await this.revert(operation);
+                result.reverted++;
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                debugLog(this.debugMode, 'warn', '[AgentRunJournal] Failed to revert operation', { operation, message });
+                result.failures.push({ operation, error: message });
+            }
+        }
+
+        run.undoneAt = Date.now();
+        this.save();
+        return result;
+    }
+
+    /**
+     * Reverts a single operation.
+     * @throws Error if the operation can no longer be reverted
+     */
+    private async revert(operation: AgentFileOperation): Promise<void> {
+        const vault = this.app.vault;
+        switch (operation.type) {
+            case 'create': {
+                const file = vault.getAbstractFileByPath(operation.path);
+                if (!file) return; // Already gone
+                if (file instanceof TFile && operation.content !== undefined && await vault.read(file) !== operation.content) {
+                    throw new Error(`${operation.path} was changed after the run`);
+                }
+                await vault.trash(file, false);
+                return;
+            }
+            case 'edit': {
+                const file = this.getFile(operation.path);
+                if (operation.content !== undefined && await vault.read(file) !== operation.content) {
+                    throw new Error(`${operation.path} was changed after the run`);
+                }
+                await vault.modify(file, operation.previousContent ?? '');
+                return;
+            }
+            case 'move': {
+                const file = vault.getAbstractFileByPath(operation.path);
+                if (!file) {
+                    throw new Error(`${operation.path} no longer exists`);
+                }
+                await this.restoreTo(file, operation.fromPath!);
+                return;
+            }
+            case 'delete': {
+                if (operation.trashPath) {
+                    // Obsidian does not index the .trash folder, so restore through the adapter
+                    if (!await vault.adapter.exists(operation.trashPath)) {
+                        throw new Error(`${operation.trashPath} is no longer in the trash`);
+                    }
+                    if (vault.getAbstractFileByPath(operation.path)) {
+                        throw new Error(`${operation.path} already exists`);
+                    }
+                    await this.ensureParentFolder(operation.path);
+                    await vault.adapter.rename(operation.trashPath, operation.path);
+                    return;
+                }
+                if (operation.content === undefined) {
+                    throw new Error(`${operation.path} was permanently deleted and cannot be restored`);
+                }
+                if (vault.getAbstractFileByPath(operation.path)) {
+                    throw new Error(`${operation.path} already exists`);
+                }
+                await this.ensureParentFolder(operation.path);
+                await vault.create(operation.path, operation.content);
+                return;
+            }
+        }
+    }
+
+    /**
+     * Moves a file or folder back to its original path.
+     */
+    private async restoreTo(file: TAbstractFile, path: string): Promise<void> {
+        if (this.app.vault.getAbstractFileByPath(path)) {
+            throw new Error(`${path} already exists`);
+        }
+        await this.ensureParentFolder(path);
+        await this.app.fileManager.renameFile(file, path);
+    }
+
+    /**
+     * Creates the parent folder of a path if it is missing.
+     */
+    private async ensureParentFolder(path: string): Promise<void> {
+        const parentPath = path.substring(0, path.lastIndexOf('/'));
+        if (parentPath && !await ensureFolderExists(this.app, parentPath, this.debugMode)) {
+            throw new Error(`Could not create folder ${parentPath}`);
+        }
+    }
+
+    /**
+     * Returns the file at a path.
+     * @throws Error if there is no file at the path
+     */
+    private getFile(path: string): TFile {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            throw new Error(`${path} no longer exists`);
+        }
+        return file;
+    }
+
+    /**
+     * Writes the journal to disk. Writes are serialized so they never interleave.
+     */
+    private save(): void {
+        if (!this.journalFilePath) return;
+        const path = this.journalFilePath;
+        this.saveQueue = this.saveQueue
+            .then(() => this.app.vault.adapter.write(path, JSON.stringify({ runs: this.runs }, null, 2)))
+            .catch(error => debugLog(this.debugMode, 'error', '[AgentRunJournal] Failed to save agent run journal:', error));
+    }
+}
@@ -0,0 +1,515 @@
+import { App, Plugin, TAbstractFile, TFile } from 'obsidian';
+import * as yaml from 'js-yaml';
+import type MyPlugin from '../../main';
+import { AgentRun, AgentTask, AgentTaskRun, AgentTaskSettings, AgentTaskTrigger, Message, ToolCommand, ToolResult } from '../../types';
+import { DEFAULT_SETTINGS } from '../../types/settings';
+import { buildAgentSystemPrompt } from '../../promptConstants';
+import { EventBus } from '../../utils/eventBus';
+import { debugLog } from '../../utils/logger';
+import { ensureFolderExists } from '../../utils/fileUtils';
+import { AgentOrchestrator } from '../../services/agent/AgentOrchestrator';
+import { CommandProcessor } from '../../services/agent/CommandProcessor';
+import { ExecutionLimitManager } from '../../services/agent/ExecutionLimitManager';
+import { ToolDisplayManager } from '../../services/agent/ToolDisplayManager';
+import { IToolPipelineStage, PipelineContext, ToolExecutionEngine } from '../../services/agent/ToolExecutionEngine';
+import { ToolResultFormatter } from './AgentResponseHandler/ToolResultFormatter';
+import { getToolMetadata } from './tools/toolcollect';
+
+/** Milliseconds after which the background tool call limit resets */
+const LIMIT_RESET_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Reads the trigger of a task from its frontmatter.
+ * Missing or incomplete triggers make the task manual.
+ */
+function parseTrigger(frontmatter: Record<string, any>): AgentTaskTrigger {
+    switch (frontmatter.trigger) {
+        case 'startup':
+            return { type: 'startup' };
+        case 'interval': {
+            const minutes = Number(frontmatter.interval);
+            return minutes >= 1 ? { type: 'interval', minutes } : { type: 'manual' };
+        }
+        case 'file-created': {
+            const folder = typeof frontmatter.folder === 'string' ? frontmatter.folder.replace(/^\/+|\/+$/g, '') : '';
+            return folder ? { type: 'file-created', folder } : { type: 'manual' };
+        }
+        default:
+            return { type: 'manual' };
+    }
+}
+
+/**
+ * Parses an agent task note.
+ * Frontmatter fields: `prompt`, `tools` (list or comma-separated), `model` (provider:model),
+ * `trigger` ("manual", "startup", "interval" or "file-created"), `interval` (minutes),
+ * `folder` (watched by "file-created") and `enabled`.
+ * @param path Path of the note
+ * @param content Content of the note
+ * @returns The task, or null if the note has no prompt
+ */
+export function parseAgentTask(path: string, content: string): AgentTask | null {
+    const match = content.match(/^---\n([\s\S]*?)\n---\n?/);
+    let frontmatter: Record<string, any> = {};
+    if (match) {
+        try {
+            frontmatter = (yaml.load(match[1]) as Record<string, any>) || {};
+        } catch {
+            return null;
+        }
+    }
+
+    const body = (match ? content.slice(match[0].length) : content).trim();
+    const prompt = typeof frontmatter.prompt === 'string' && frontmatter.prompt.trim() ? frontmatter.prompt.trim() : body;
+    if (!prompt) return null;
+
+    const tools = Array.isArray(frontmatter.tools)
+        ? frontmatter.tools.map(String)
+        : typeof frontmatter.tools === 'string' ? frontmatter.tools.split(',') : undefined;
+
+    return {
+        path,
+        name: path.split('/').pop()!.replace(/\.md$/, ''),
+        prompt,
+        tools: tools?.map((tool: string) => tool.trim()).filter((tool: string) => tool !== ''),
+        model: typeof frontmatter.model === 'string' && frontmatter.model.trim() ? frontmatter.model.trim() : undefined,
+        trigger: parseTrigger(frontmatter),
+        enabled: frontmatter.enabled !== false
+    };
+}
+
+/**
+ * Formats a task run as the markdown of its log note.
+ */
+export function formatAgentTaskLog(run: AgentTaskRun): string {
+    const toolCallCount = run.steps.reduce((count, step) => count + step.toolCalls.length, 0);
+    const lines = [
+        '---',
+        `agent-task: "[[${run.taskPath.replace(/\.md$/, '')}]]"`,
+        `reason: ${JSON.stringify(run.reason)}`,
+        `status: ${run.status}`,
+        `started: ${new Date(run.startedAt).toISOString()}`,
+        `duration-seconds: ${Math.round((run.endedAt - run.startedAt) / 1000)}`,
+        `tool-calls: ${toolCallCount}`,
+        '---',
+        '',
+        `# ${run.taskName}`,
+        ''
+    ];
+
+    run.steps.forEach((step, index) => {
+        lines.push(`## Step ${index + 1}`, '', step.response.trim() || '*(empty response)*', '');
+        for (const call of step.toolCalls) {
+            const outcome = call.success ? '✅' : `❌ ${call.error ?? 'failed'}`;
+            lines.push(`- \`${call.action}\` ${JSON.stringify(call.parameters)} ${outcome}`);
+        }
+        if (step.toolCalls.length > 0) lines.push('');
+    });
+
+    if (run.status === 'limit-reached') {
+        lines.push('## Stopped', '', 'The tool call limit for background agent tasks was reached.', '');
+    }
+    if (run.error) {
+        lines.push('## Error', '', run.error, '');
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Checks whether the agent marked its task as finished.
+ */
+function isTaskFinished(results: Array<{ command: ToolCommand; result: ToolResult }>): boolean {
+    return results.some(({ command, result }) =>
+        command.finished === true ||
+        (command.action === 'thought' && result.success && (result.data?.nextTool === 'finished' || result.data?.finished === true))
+    );
+}
+
+/**
+ * Pipeline stage that stops tools the running task may not use.
+ */
+class AllowedToolsStage implements IToolPipelineStage {
+    name = 'allowed-tools';
+
+    constructor(private isAllowed: (tool: string) => boolean) {}
+
+    async process(context: PipelineContext): Promise<PipelineContext> {
+        const { command } = context;
+        const metadata = { ...context.metadata, stage: this.name };
+        if (this.isAllowed(command.action)) {
+            return { ...context, metadata };
+        }
+        return {
+            ...context,
+            result: {
+                success: false,
+                error: `Tool ${command.action} is not allowed for this agent task`,
+                requestId: command.requestId
+            },
+            metadata
+        };
+    }
+}
+
+/**
+ * AgentTaskRunner runs agent tasks defined as notes in the background.
+ * Tasks run one at a time through an AgentOrchestrator. Tool calls of all runs count against an
+ * hourly ExecutionLimitManager limit; when it is reached, queued runs wait for the next reset.
+ * Each run writes a log note and is journaled as one undoable agent run.
+ * Tools set to ask for approval are denied, since nobody is there to approve them.
+ */
+export class AgentTaskRunner {
+    private app: App;
+    private tasks: AgentTask[] = [];
+    private queue: Array<{ task: AgentTask; reason: string; triggerFile?: string }> = [];
+    private processing = false;
+    private waitingForReset = false;
+    private intervalIds: number[] = [];
+    private eventBus = new EventBus();
+    private limitManager?: ExecutionLimitManager;
+    private orchestrator?: AgentOrchestrator;
+    private runningTask?: AgentTask;
+    // Journal run of the running task; its tools record here, apart from the chat's active run
+    private runningJournalRun?: AgentRun;
+    private started = false;
+
+    /**
+     * @param plugin The plugin instance, for settings, the AI dispatcher and the agent run journal
+     */
+    constructor(private plugin: MyPlugin) {
+        this.app = plugin.app;
+    }
+
+    private get settings(): AgentTaskSettings {
+        return this.plugin.settings.agentTasks ?? DEFAULT_SETTINGS.agentTasks!;
+    }
+
+    private get debugMode(): boolean {
+        return this.plugin.settings.debugMode ?? false;
+    }
+
+    /**
+     * Registers vault listeners for file-created triggers and changes to task notes.
+     * @param plugin Plugin used to register the listeners so they are removed on unload
+     */
+    registerEvents(plugin: Plugin): void {
+        plugin.registerEvent(this.app.vault.on('create', file => this.onCreate(file)));
+        plugin.registerEvent(this.app.vault.on('modify', file => this.onTaskNoteChange(file.path)));
+        plugin.registerEvent(this.app.vault.on('delete', file => this.onTaskNoteChange(file.path)));
+        plugin.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            this.onTaskNoteChange(file.path) || this.onTaskNoteChange(oldPath);
+        }));
+    }
+
+    /**
+     * Loads the tasks, schedules interval tasks and queues startup tasks.
+     * Call once the workspace layout is ready.
+     */
+    async start(): Promise<void> {
+        this.started = true;
+        await this.reload();
+        for (const task of this.tasks) {
+            if (task.trigger.type === 'startup') this.enqueue(task, 'startup');
+        }
+    }
+
+    /**
+     * Reloads the task notes and reschedules interval tasks, e.g. after settings changed.
+     */
+    async reload(): Promise<void> {
+        this.clearIntervals();
+        this.limitManager?.setLimit(this.settings.maxToolCallsPerHour);
+        if (!this.settings.enabled) {
+            this.tasks = [];
+            return;
+        }
+
+        this.tasks = await this.loadTasks();
+        for (const task of this.tasks) {
+            if (task.trigger.type !== 'interval') continue;
+            const id = window.setInterval(() => this.enqueue(task, 'interval'), task.trigger.minutes * 60 * 1000);
+            this.intervalIds.push(id);
+        }
+        debugLog(this.debugMode, 'info', '[AgentTaskRunner] Loaded agent tasks', { count: this.tasks.length });
+    }
+
+    /**
+     * Returns the loaded tasks.
+     */
+    getTasks(): AgentTask[] {
+        return [...this.tasks];
+    }
+
+    /**
+     * Reads every enabled task note in the tasks folder, skipping the log folder.
+     */
+    private async loadTasks(): Promise<AgentTask[]> {
+        const tasks: AgentTask[] = [];
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (!this.isInFolder(file.path, this.settings.folder) || this.isInFolder(file.path, this.settings.logFolder)) continue;
+            try {
+                const task = parseAgentTask(file.path, await this.app.vault.read(file));
+                if (task?.enabled) tasks.push(task);
+            } catch (error) {
+                debugLog(this.debugMode, 'error', '[AgentTaskRunner] Failed to read agent task', { path: file.path, error });
+            }
+        }
+        return tasks;
+    }
+
+    /**
+     * Queues a task run. Runs are executed one at a time in the order they were queued.
+     * @param task The task to run
+     * @param reason What triggered the run, shown in the log note
+     * @param triggerFile The created file for file-created triggers
+     */
+    enqueue(task: AgentTask, reason: string, triggerFile?: string): void {
+        this.queue.push({ task, reason, triggerFile });
+        this.processQueue().catch(error =>
+            debugLog(this.debugMode, 'error', '[AgentTaskRunner] Failed to process agent task queue', error));
+    }
+
+    /**
+     * Runs queued tasks until the queue is empty or the tool call limit is reached.
+     */
+    private async processQueue(): Promise<void> {
+        if (this.processing || this.waitingForReset) return;
+        this.processing = true;
+        try {
+            while (this.queue.length > 0) {
+                this.getOrchestrator();
+                if (this.limitManager!.isLimitReached()) {
+                    // Resume once the hourly limit resets
+                    this.waitingForReset = true;
+                    this.eventBus.subscribeOnce('execution_limit.reset', () => {
+                        this.waitingForReset = false;
+                        this.processQueue();
+                    });
+                    debugLog(this.debugMode, 'info', '[AgentTaskRunner] Tool call limit reached, waiting for reset', { queued: this.queue.length });
+                    return;
+                }
+                const job = this.queue.shift()!;
+                await this.runTask(job.task, job.reason, job.triggerFile);
+            }
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    /**
+     * Runs a task and writes its log note.
+     * @param task The task to run
+     * @param reason What triggered the run
+     * @param triggerFile The created file for file-created triggers
+     * @returns The outcome of the run
+     */
+    async runTask(task: AgentTask, reason: string, triggerFile?: string): Promise<AgentTaskRun> {
+        const run: AgentTaskRun = {
+            taskPath: task.path,
+            taskName: task.name,
+            reason: triggerFile ? `${reason}: ${triggerFile}` : reason,
+            startedAt: Date.now(),
+            endedAt: 0,
+            status: 'completed',
+            steps: []
+        };
+
+        const journalRun = this.plugin.agentRunJournal.createRun(`Agent task: ${task.name}`);
+        this.runningTask = task;
+        this.runningJournalRun = journalRun;
+        try {
+            await this.runSteps(task, run, triggerFile);
+        } catch (error: any) {
+            run.status = 'failed';
+            run.error = error.message || String(error);
+            debugLog(this.debugMode, 'error', '[AgentTaskRunner] Agent task failed', { task: task.path, error });
+        } finally {
+            this.runningTask = undefined;
+            this.runningJournalRun = undefined;
+            this.plugin.agentRunJournal.finishRun(journalRun);
+        }
+        run.endedAt = Date.now();
+
+        try {
+            await this.writeLog(run);
+        } catch (error) {
+            debugLog(this.debugMode, 'error', '[AgentTaskRunner] Failed to write agent task log', { task: task.path, error });
+        }
+        return run;
+    }
+
+    /**
+     * Alternates model responses and tool executions until the task is finished,
+     * the model stops calling tools, or a limit is reached.
+     */
+    private async runSteps(task: AgentTask, run: AgentTaskRun, triggerFile?: string): Promise<void> {
+        const orchestrator = this.getOrchestrator();
+        const agentMode = this.plugin.settings.agentMode;
+        let request = `${task.prompt}\n\nThe current time is ${new Date(run.startedAt).toISOString()}.`;
+        if (triggerFile) {
+            request += `\nThis task was triggered by the new file: ${triggerFile}`;
+        }
+        const messages: Message[] = [
+            { role: 'system', content: buildAgentSystemPrompt(this.getEnabledTools(task), this.plugin.settings.customAgentSystemMessage) },
+            { role: 'user', content: request }
+        ];
+        const formatter = new ToolResultFormatter();
+
+        for (let iteration = 0; iteration < (agentMode?.maxIterations ?? 10); iteration++) {
+            const response = await this.getResponse(messages, task.model);
+            const { results, limitReached } = await orchestrator.processAgentResponse(response, {
+                maxExecutions: agentMode?.maxToolCalls ?? 10,
+                timeoutMs: agentMode?.timeoutMs ?? 30000,
+                displayResults: false
+            });
+            run.steps.push({
+                response,
+                toolCalls: results.map(({ command, result }) => ({
+                    action: command.action,
+                    parameters: command.parameters,
+                    success: result.success,
+                    error: result.error
+                }))
+            });
+
+            if (limitReached) {
+                run.status = 'limit-reached';
+                return;
+            }
+            if (results.length === 0 || isTaskFinished(results)) {
+                return;
+            }
+            messages.push({ role: 'assistant', content: response }, formatter.createToolResultMessage(results)!);
+        }
+    }
+
+    /**
+     * Gets a complete (non-streamed) model response.
+     */
+    private async getResponse(messages: Message[], model?: string): Promise<string> {
+        const dispatcher = this.plugin.aiDispatcher;
+        if (!dispatcher) {
+            throw new Error('The AI dispatcher is not initialized');
+        }
+        let content = '';
+        await dispatcher.getCompletion(messages, {
+            temperature: this.plugin.settings.temperature,
+            streamCallback: (chunk: string) => { content += chunk; },
+            model
+        });
+        return content;
+    }
+
+    /**
+     * Writes the log note of a run into the log folder.
+     */
+    private async writeLog(run: AgentTaskRun): Promise<void> {
+        const folder = this.settings.logFolder.replace(/^\/+|\/+$/g, '');
+        await ensureFolderExists(this.app, folder, this.debugMode);
+
+        const stamp = new Date(run.startedAt).toISOString().replace('T', ' ').replace(/:/g, '-').slice(0, 19);
+        const base = `${folder ? folder + '/' : ''}${run.taskName} ${stamp}`;
+        let path = `${base}.md`;
+        for (let n = 2; this.app.vault.getAbstractFileByPath(path); n++) {
+            path = `${base} ${n}.md`;
+        }
+        await this.app.vault.create(path, formatAgentTaskLog(run));
+    }
+
+    /**
+     * Maps the task's tools onto the enabled tools setting used to build the system prompt.
+     */
+    private getEnabledTools(task: AgentTask): Record<string, boolean> | undefined {
+        const enabledTools = this.plugin.settings.enabledTools;
+        if (!task.tools) return enabledTools;
+        return Object.fromEntries(getToolMetadata().map(tool =>
+            [tool.name, task.tools!.includes(tool.name) && enabledTools?.[tool.name] !== false]
+        ));
+    }
+
+    /**
+     * Checks whether the running task may use a tool.
+     */
+    private isToolAllowed(tool: string): boolean {
+        if (tool === 'thought') return true;
+        if (this.plugin.settings.enabledTools?.[tool] === false) return false;
+        const allowed = this.runningTask?.tools;
+        return !allowed || allowed.includes(tool);
+    }
+
+    /**
+     * Creates the orchestrator and its services on first use.
+     */
+    private getOrchestrator(): AgentOrchestrator {
+        if (!this.orchestrator) {
+            this.limitManager = new ExecutionLimitManager(this.eventBus, {
+                maxExecutions: this.settings.maxToolCallsPerHour,
+                resetIntervalMs: LIMIT_RESET_INTERVAL_MS
+            });
+            // Tools journal into the running task's own run, so concurrent chat responses never mix in
+            const runRecorder = this.plugin.agentRunJournal.createRecorder(() => this.runningJournalRun ?? null);
+            const executionEngine = new ToolExecutionEngine(this.app, this.plugin, this.eventBus, runRecorder);
+            executionEngine.addPipelineStage(new AllowedToolsStage(tool => this.isToolAllowed(tool)), 'execution');
+            this.orchestrator = new AgentOrchestrator(
+                this.app,
+                new CommandProcessor(this.plugin),
+                executionEngine,
+                this.limitManager,
+                new ToolDisplayManager(this.eventBus),
+                this.eventBus
+            );
+        }
+        return this.orchestrator;
+    }
+
+    /**
+     * Queues file-created tasks watching the folder of a new file.
+     * Files created by a task do not trigger that same task again.
+     */
+    private onCreate(file: TAbstractFile): void {
+        if (this.onTaskNoteChange(file.path)) return;
+        if (!this.started || !this.settings.enabled || !(file instanceof TFile)) return;
+        if (this.isInFolder(file.path, this.settings.logFolder)) return;
+
+        for (const task of this.tasks) {
+            if (task.trigger.type !== 'file-created' || task.path === this.runningTask?.path) continue;
+            if (this.isInFolder(file.path, task.trigger.folder)) {
+                this.enqueue(task, 'file-created', file.path);
+            }
+        }
+    }
+
+    /**
+     * Reloads the tasks when a task note changed.
+     * @returns True if the path is in the tasks folder
+     */
+    private onTaskNoteChange(path: string): boolean {
+        if (!this.isInFolder(path, this.settings.folder) || this.isInFolder(path, this.settings.logFolder)) return false;
+        if (this.started && this.settings.enabled) {
+            this.reload().catch(error =>
+                debugLog(this.debugMode, 'error', '[AgentTaskRunner] Failed to reload agent tasks', error));
+        }
+        return true;
+    }
+
+    private isInFolder(path: string, folder: string): boolean {
+        const normalized = folder.replace(/^\/+|\/+$/g, '');
+        return normalized === '' || path.startsWith(`${normalized}/`);
+    }
+
+    private clearIntervals(): void {
+        this.intervalIds.forEach(id => window.clearInterval(id));
+        this.intervalIds = [];
+    }
+
+    /**
+     * Stops scheduled runs and the limit reset timer. Queued runs are dropped.
+     */
+    dispose(): void {
+        this.clearIntervals();
+        this.queue = [];
+        this.orchestrator?.destroy();
+        this.orchestrator = undefined;
+        this.limitManager = undefined;
+    }
+}
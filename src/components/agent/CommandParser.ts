@@ -1,4 +1,4 @@
-import { ToolCommand } from '../../types';
+import { ToolCommand, NativeToolCall } from '../../types';
 import { getAllToolNames } from './tools/toolcollect';
 import MyPlugin from '../../main';
 
@@ -74,6 +74,48 @@ export class CommandParser {
         };
     }
 
+    /**
+     * Convert structured tool calls from a provider's native function-calling API
+     * into tool commands. No text scraping is involved, so invalid or unknown
+     * calls are simply dropped.
+     * @param calls The native tool calls returned by the provider.
+     * @returns Valid tool commands, in call order.
+     */
+    parseNativeToolCalls(calls: NativeToolCall[]): ToolCommand[] {
+        const commands: ToolCommand[] = [];
+        for (const call of calls) {
+            const parameters = call.arguments && typeof call.arguments === 'object' ? call.arguments : {};
+            const command: ToolCommand = {
+                action: call.name,
+                parameters,
+                requestId: call.id || this.generateRequestId(),
+                finished: call.name === 'thought' && typeof parameters.nextTool === 'string'
+                    ? parameters.nextTool.toLowerCase() === 'finished'
+                    : false
+            };
+            if (this.validateCommand(command)) {
+                commands.push(command);
+            } else if (this.plugin) {
+                this.plugin.debugLog('debug', '[CommandParser] Dropping invalid native tool call:', call);
+            }
+        }
+        return commands;
+    }
+
+    /**
+     * Format a tool command in the same JSON form the text transport uses.
+     * Used to record native tool calls in the conversation history.
+     * @param command The command to format.
+     * @returns Single-line JSON representation of the command.
+     */
+    static formatCommand(command: ToolCommand): string {
+        return JSON.stringify({
+            action: command.action,
+            parameters: command.parameters,
+            requestId: command.requestId
+        });
+    }
+
     /**
      * Validate that a command has the required structure and is a known action.
      * @param command The command to validate.
@@ -170,6 +170,14 @@ export class MessageRenderer {
             </div>
         `;
 
+        if (taskStatus.progress?.total) {
+            const progressInfo = document.createElement('div');
+            progressInfo.className = 'task-progress-info';
+            const { current, total, description } = taskStatus.progress;
+            progressInfo.textContent = `Plan: ${current}/${total} steps done${description ? ` · ${description}` : ''}`;
+            statusContainer.appendChild(progressInfo);
+        }
+
         if (taskStatus.toolExecutionCount > 0) {
             const toolInfo = document.createElement('div');
             toolInfo.className = 'task-tool-info';
@@ -0,0 +1,59 @@
+import { CompletionOptions, NativeToolCall, ToolCommand, ToolDefinition } from '../../types';
+import { CommandParser } from './CommandParser';
+
+/**
+ * Captures the tool calls of a single completion request when the native
+ * function-calling transport is in use.
+ *
+ * Providers that support native tools report their calls through
+ * `toolCallCallback`; providers that do not simply never call it, in which
+ * case `getCommands()` returns undefined and callers fall back to parsing
+ * JSON commands out of the response text.
+ */
+export class NativeToolCapture {
+    private commands?: ToolCommand[];
+
+    /**
+     * @param commandParser Parser used to validate and convert native tool calls
+     * @param tools Tool schemas to offer to the model
+     */
+    constructor(
+        private commandParser: CommandParser,
+        private tools: ToolDefinition[]
+    ) {}
+
+    /**
+     * Returns the completion options that offer the tools and record the calls.
+     * Spread these into the options passed to AIDispatcher.getCompletion.
+     */
+    getCompletionOptions(): Pick<CompletionOptions, 'tools' | 'toolCallCallback'> {
+        return {
+            tools: this.tools,
+            toolCallCallback: (calls: NativeToolCall[]) => {
+                this.commands = this.commandParser.parseNativeToolCalls(calls);
+            }
+        };
+    }
+
+    /**
+     * Returns the commands the model issued natively, or undefined if the
+     * provider did not honour the native transport.
+     */
+    getCommands(): ToolCommand[] | undefined {
+        return this.commands;
+    }
+
+    /**
+     * Appends the captured commands to the response text in the JSON form the
+     * text transport uses, so the conversation history shows what the model did.
+     * @param text The streamed response text
+     * @returns The text followed by one JSON command per line
+     */
+    appendToResponse(text: string): string {
+        if (!this.commands || this.commands.length === 0) {
+            return text;
+        }
+        const commandText = this.commands.map(command => CommandParser.formatCommand(command)).join('\n');
+        return text.trim() ? `${text.trim()}\n\n${commandText}` : commandText;
+    }
+}
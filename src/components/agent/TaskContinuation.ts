@@ -40,6 +40,24 @@ export class TaskContinuation {
         currentContent: string,
         initialToolResults: Array<{ command: ToolCommand; result: ToolResult }>,
         chatHistory?: any[]
+    ): Promise<{ content: string; limitReachedDuringContinuation: boolean; }> {
+        // File changes join the caller's agent run, or form a run of their own
+        const request = [...messages].reverse().find(message => message.role === 'user');
+        return this.plugin.agentRunJournal.track(request?.content ?? '', () =>
+            this.runUntilFinished(messages, container, initialResponseContent, currentContent, initialToolResults, chatHistory)
+        );
+    }
+
+    /**
+     * The continuation loop behind {@link continueTaskUntilFinished}.
+     */
+    private async runUntilFinished(
+        messages: Message[],
+        container: HTMLElement,
+        initialResponseContent: string,
+        currentContent: string,
+        initialToolResults: Array<{ command: ToolCommand; result: ToolResult }>,
+        chatHistory?: any[]
     ): Promise<{ content: string; limitReachedDuringContinuation: boolean; }> {
         let responseContent = currentContent;
         let maxIterations = this.plugin.settings.agentMode?.maxIterations ?? 10; 
@@ -87,12 +105,12 @@ export class TaskContinuation {
                 ];
 
                 // Get the agent's continuation response
-                const continuationContent = await this.getContinuationResponse(continuationMessages, container, allToolResults);
+                const { content: continuationContent, nativeCommands } = await this.getContinuationResponse(continuationMessages, container, allToolResults);
                 if (continuationContent.trim()) {
                     let processingResult;
                     if (this.agentResponseHandler) {
                         // Process the agent's response and extract tool results
-                        processingResult = await this.agentResponseHandler.processResponse(continuationContent, "task-continuation", chatHistory);
+                        processingResult = await this.agentResponseHandler.processResponse(continuationContent, "task-continuation", chatHistory, nativeCommands);
                         if (processingResult.toolResults && processingResult.toolResults.length > 0) {
                             allToolResults = [...allToolResults, ...processingResult.toolResults];
                         }
@@ -174,10 +192,10 @@ export class TaskContinuation {
             const allToolResults = initialToolResults;
             const updatedContent = responseContent + '\n\n' + cleanContinuationContent;
 
-            // Create enhanced message data for UI
+            // Create enhanced message data for UI, with the progress through the plan so far
             const enhancedMessageData = this.createEnhancedMessageData(
                 updatedContent,
-                continuationResult,
+                { ...continuationResult, taskStatus: this.agentResponseHandler?.createTaskStatus(isFinished ? 'completed' : 'running') },
                 allToolResults
             );
 
@@ -251,20 +269,20 @@ export class TaskContinuation {
      * @param messages The conversation history/messages
      * @param container The chat message container element
      * @param toolResults Optional tool results to extract requested tool from
-     * @returns The agent's response content as a string
+     * @returns The agent's response content, plus any commands received through native function calling
      */
     private async getContinuationResponse(
         messages: Message[],
         container: HTMLElement,
         toolResults?: Array<{ command: ToolCommand; result: ToolResult }>
-    ): Promise<string> {
+    ): Promise<{ content: string; nativeCommands?: ToolCommand[] }> {
         try {
             if (this.plugin.settings.debugMode) {
                 this.plugin.debugLog('debug', '[TaskContinuation] getContinuationResponse', { messages, toolResults });
             }
 
             if (this.agentResponseHandler?.isToolLimitReached()) {
-                return '*[Tool execution limit reached - no continuation response]*';
+                return { content: '*[Tool execution limit reached - no continuation response]*' };
             }
 
             // Extract requested tool from thought tool results
@@ -280,6 +298,9 @@ export class TaskContinuation {
             // Select the provider based on settings
             let continuationContent = '';
 
+            // Offer tools natively when the native tool transport is enabled
+            const nativeToolCapture = this.agentResponseHandler?.createNativeToolCapture();
+
             // Stream the completion result
             await aiDispatcher.getCompletion(
                 messages,
@@ -289,22 +310,28 @@ export class TaskContinuation {
                         continuationContent += chunk;
                         // (Optional: update UI with streaming chunk)
                     },
+                    ...nativeToolCapture?.getCompletionOptions()
                 }
             );
 
+            const nativeCommands = nativeToolCapture?.getCommands();
+            if (nativeToolCapture && nativeCommands) {
+                continuationContent = nativeToolCapture.appendToResponse(continuationContent);
+            }
+
             if (this.plugin.settings.debugMode) {
-                this.plugin.debugLog('debug', '[TaskContinuation] Continuation response received', { continuationContent });
+                this.plugin.debugLog('debug', '[TaskContinuation] Continuation response received', { continuationContent, nativeCommands });
             }
-            return continuationContent;
+            return { content: continuationContent, nativeCommands };
         } catch (error) {
             if (this.plugin.settings.debugMode) {
                 this.plugin.debugLog('debug', '[TaskContinuation] Error getting continuation response', { error });
             }
             console.error('TaskContinuation: Error getting continuation response:', error);
             if (error.name !== 'AbortError') {
-                return `*[Error getting continuation: ${error.message}]*`;
+                return { content: `*[Error getting continuation: ${error.message}]*` };
             }
-            return '';
+            return { content: '' };
         }
     }
 
@@ -344,7 +371,8 @@ export class TaskContinuation {
         const systemPrompt = buildAgentSystemPrompt(
             this.plugin.settings.enabledTools,
             this.plugin.settings.customAgentSystemMessage,
-            requestedTool
+            requestedTool,
+            this.plugin.agentModeManager.getAgentModeSettings().toolTransport
         );
         
         // Remove ALL existing system messages to avoid duplication
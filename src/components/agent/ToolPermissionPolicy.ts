@@ -0,0 +1,124 @@
+import { ToolCommand, ToolPermission, ToolPermissionRule } from '../../types';
+import { matchesPathOrFolderGlob } from '../../utils/pathGlob';
+import { PathValidator } from './tools/pathValidation';
+
+/** Tool parameters that hold vault paths, checked against rule path globs */
+const PATH_PARAMETERS = ['path', 'filePath', 'sourcePath', 'destinationPath'];
+
+/** Strictness of each permission, used when a command touches several paths */
+const STRICTNESS: Record<ToolPermission, number> = { allow: 0, ask: 1, deny: 2 };
+
+/**
+ * How the user answered an approval card.
+ * - "once": run this call only.
+ * - "session": run it and stop asking for this tool in the current chat session.
+ * - "deny": do not run it.
+ */
+export type ToolApprovalDecision = 'once' | 'session' | 'deny';
+
+/**
+ * Returns the vault paths a tool command operates on.
+ * With a validator, paths are normalized the way the tools resolve them, so "./Journal/a.md"
+ * or an absolute vault path matches the same rules as "Journal/a.md".
+ * Paths the validator rejects are kept as given; the tool refuses them when it runs.
+ * @param command The tool command
+ * @param pathValidator Normalizes the paths before they are returned
+ */
+export function getToolCommandPaths(command: ToolCommand, pathValidator?: PathValidator): string[] {
+    return PATH_PARAMETERS
+        .map(name => command.parameters?.[name])
+        .filter((value): value is string => typeof value === 'string' && value.trim() !== '')
+        .map(value => {
+            if (!pathValidator) return value;
+            try {
+                return pathValidator.validateAndNormalizePath(value);
+            } catch {
+                return value;
+            }
+        });
+}
+
+/**
+ * Picks the most specific rule for a tool and path.
+ * A rule for the tool by name beats a "*" rule, and a rule with a path glob beats one without.
+ * Among equally specific rules, the first one listed wins.
+ */
+function findRule(rules: ToolPermissionRule[], tool: string, path?: string): ToolPermissionRule | undefined {
+    let best: ToolPermissionRule | undefined;
+    let bestScore = -1;
+    for (const rule of rules) {
+        if (rule.tool !== tool && rule.tool !== '*') continue;
+        if (rule.pathGlob) {
+            if (path === undefined || !matchesPathOrFolderGlob(path, rule.pathGlob)) continue;
+        }
+        const score = (rule.pathGlob ? 2 : 0) + (rule.tool === tool ? 1 : 0);
+        if (score > bestScore) {
+            best = rule;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+/**
+ * Resolves the permission for a tool command from the configured rules.
+ * When the command touches several paths, the strictest permission applies.
+ * Commands without a matching rule are allowed.
+ * @param rules The configured permission rules
+ * @param command The tool command about to run
+ * @param pathValidator Normalizes the command's paths before they are matched
+ */
+export function resolveToolPermission(rules: ToolPermissionRule[], command: ToolCommand, pathValidator?: PathValidator): ToolPermission {
+    const paths = getToolCommandPaths(command, pathValidator);
+    const permissions = (paths.length > 0 ? paths : [undefined])
+        .map(path => findRule(rules, command.action, path)?.permission ?? 'allow');
+    return permissions.reduce((strictest, permission) =>
+        STRICTNESS[permission] > STRICTNESS[strictest] ? permission : strictest
+    );
+}
+
+/**
+ * ToolPermissionPolicy decides whether a tool command may run, ask first, or is denied.
+ * It applies the configured rules and remembers tools the user allowed for a chat session.
+ * Session allowances are kept in memory only.
+ */
+export class ToolPermissionPolicy {
+    private getRules: () => ToolPermissionRule[];
+    private getSessionId: () => string | undefined;
+    private pathValidator?: PathValidator;
+    private sessionAllowances = new Set<string>();
+
+    /**
+     * @param getRules Returns the current permission rules
+     * @param getSessionId Returns the id of the active chat session
+     * @param pathValidator Normalizes command paths before they are matched against rule globs
+     */
+    constructor(getRules: () => ToolPermissionRule[], getSessionId: () => string | undefined, pathValidator?: PathValidator) {
+        this.getRules = getRules;
+        this.getSessionId = getSessionId;
+        this.pathValidator = pathValidator;
+    }
+
+    /**
+     * Returns the permission for a tool command.
+     * Tools allowed for the current session are no longer asked about; denied ones stay denied.
+     */
+    check(command: ToolCommand): ToolPermission {
+        const permission = resolveToolPermission(this.getRules(), command, this.pathValidator);
+        if (permission === 'ask' && this.sessionAllowances.has(this.sessionKey(command.action))) {
+            return 'allow';
+        }
+        return permission;
+    }
+
+    /**
+     * Stops asking for a tool for the rest of the current chat session.
+     */
+    allowForSession(tool: string): void {
+        this.sessionAllowances.add(this.sessionKey(tool));
+    }
+
+    private sessionKey(tool: string): string {
+        return `${this.getSessionId() ?? ''}:${tool}`;
+    }
+}
@@ -1,5 +1,6 @@
 import { ToolCommand, ToolResult } from '../../types';
 import { debugLog } from '../../utils/logger'; // Import debugLog
+import { ToolApprovalDecision } from './ToolPermissionPolicy';
 
 /**
  * Interface for a Tool.
@@ -22,6 +23,11 @@ export interface ToolContext {
 
 export type { ToolResult };
 
+/**
+ * Asks the user whether a tool command may run. Shown for tools whose permission is "ask".
+ */
+export type ToolApprovalHandler = (command: ToolCommand) => Promise<ToolApprovalDecision>;
+
 /**
  * ToolRegistry manages registration and execution of all available tools.
  * It also injects context (such as editor) for certain tools if needed.
@@ -29,6 +35,7 @@ export type { ToolResult };
 export class ToolRegistry {
     private tools: Map<string, Tool> = new Map();
     private plugin: any;
+    private approvalHandler?: ToolApprovalHandler;
 
     /**
      * @param plugin The plugin instance (for settings, logging, and app access)
@@ -48,13 +55,83 @@ export class ToolRegistry {
         }
     }
 
+    /**
+     * Sets the handler that asks the user to approve tool commands.
+     * Without a handler, commands that need approval are denied.
+     * @param handler The approval handler, or undefined to remove it
+     */
+    setApprovalHandler(handler: ToolApprovalHandler | undefined): void {
+        this.approvalHandler = handler;
+    }
+
+    /**
+     * Applies the plugin's tool permission policy to a command, asking for approval if needed.
+     * @param command The ToolCommand about to run
+     * @returns An error result if the command may not run, otherwise undefined
+     */
+    async authorize(command: ToolCommand): Promise<ToolResult | undefined> {
+        const error = await this.checkPermission(command);
+        if (!error) return undefined;
+        if (this.plugin && this.plugin.settings) {
+            debugLog(this.plugin.settings.debugMode ?? false, 'debug', '[ToolRegistry] Tool not permitted', { action: command.action, error });
+        }
+        return {
+            success: false,
+            error,
+            requestId: command.requestId,
+        };
+    }
+
+    /**
+     * Resolves the permission for a command, returning why it may not run.
+     */
+    private async checkPermission(command: ToolCommand): Promise<string | undefined> {
+        const policy = this.plugin?.toolPermissionPolicy;
+        if (!policy) return undefined;
+
+        const permission = policy.check(command);
+        if (permission === 'allow') return undefined;
+        if (permission === 'deny') {
+            return `Tool ${command.action} is not permitted by the tool permission settings`;
+        }
+        if (!this.approvalHandler) {
+            return `Tool ${command.action} requires approval, but approval cannot be requested here`;
+        }
+
+        let decision: ToolApprovalDecision;
+        try {
+            decision = await this.approvalHandler(command);
+        } catch (error: any) {
+            debugLog(this.plugin.settings?.debugMode ?? false, 'error', '[ToolRegistry] Approval request failed', { command, error });
+            decision = 'deny';
+        }
+        if (decision === 'deny') {
+            return `The user denied running ${command.action}`;
+        }
+        if (decision === 'session') {
+            policy.allowForSession(command.action);
+        }
+        return undefined;
+    }
+
     /**
      * Executes a tool command by looking up the tool and calling its execute method.
-     * Handles special context injection for certain tools (e.g., file_diff/editor).
+     * The tool permission policy is checked first; denied commands return an error result.
      * @param command The ToolCommand to execute
      * @returns ToolResult with the result or error
      */
     async execute(command: ToolCommand): Promise<ToolResult> {
+        return (await this.authorize(command)) ?? this.run(command);
+    }
+
+    /**
+     * Executes a tool command without checking permissions; callers must {@link authorize} it first.
+     * Used to time a tool apart from the wait for approval.
+     * Handles special context injection for certain tools (e.g., file_diff/editor).
+     * @param command The ToolCommand to execute
+     * @returns ToolResult with the result or error
+     */
+    async run(command: ToolCommand): Promise<ToolResult> {
         const tool = this.tools.get(command.action);
         if (!tool) {
             if (this.plugin && this.plugin.settings) {
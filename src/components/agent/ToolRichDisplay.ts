@@ -60,6 +60,7 @@ export class ToolRichDisplay extends Component {
     private getToolIcon(): string {
         const iconMap: Record<string, string> = {
             'file_search': '🔍',
+            'semantic_search': '🧭',
             'file_read': '📖',
             'file_write': '✍️',
             'file_diff': '🔄',
@@ -67,7 +68,11 @@ export class ToolRichDisplay extends Component {
             'file_rename': '🏷️',
             'file_list': '📋',
             'thought': '🧠',
-            'get_user_feedback': '❓'
+            'get_user_feedback': '❓',
+            'get_backlinks': '🔗',
+            'get_outgoing_links': '🔗',
+            'find_orphans': '🏝️',
+            'find_unresolved_links': '⛓️'
         };
         return iconMap[this.options.command.action] || '🔧';
     }
@@ -78,6 +83,7 @@ export class ToolRichDisplay extends Component {
     private getToolDisplayName(): string {
         const nameMap: Record<string, string> = {
             'file_search': 'File Search',
+            'semantic_search': 'Semantic Search',
             'file_read': 'File Read',
             'file_write': 'File Write',
             'file_diff': 'File Diff',
@@ -85,7 +91,11 @@ export class ToolRichDisplay extends Component {
             'file_rename': 'File Rename',
             'file_list': 'File List',
             'thought': 'Thought Process',
-            'get_user_feedback': 'User Feedback'
+            'get_user_feedback': 'User Feedback',
+            'get_backlinks': 'Backlinks',
+            'get_outgoing_links': 'Outgoing Links',
+            'find_orphans': 'Orphaned Notes',
+            'find_unresolved_links': 'Unresolved Links'
         };
         return nameMap[this.options.command.action] || this.options.command.action;
     }
@@ -131,6 +141,10 @@ export class ToolRichDisplay extends Component {
             const count = data.count || (Array.isArray(data.files) ? data.files.length : 0);
             return `<span class="tool-success">🔍 Found ${count} file${count !== 1 ? 's' : ''}</span>`;
         }
+        if (this.options.command.action === 'semantic_search' && data) {
+            const count = data.count || (Array.isArray(data.results) ? data.results.length : 0);
+            return `<span class="tool-success">🧭 Found ${count} related passage${count !== 1 ? 's' : ''}</span>`;
+        }
         if (this.options.command.action === 'file_list' && data) {
             const count = data.count || (Array.isArray(data.files) ? data.files.length : 0);
             const path = data.path || this.options.command.parameters.path;
@@ -146,6 +160,23 @@ export class ToolRichDisplay extends Component {
             const newName = this.options.command.parameters.newName;
             return `<span class="tool-success">🏷️ Renamed <strong>${oldName}</strong> → <strong>${newName}</strong></span>`;
         }
+        if (this.options.command.action === 'get_backlinks' && data) {
+            const count = data.count || 0;
+            return `<span class="tool-success">🔗 ${count} note${count !== 1 ? 's' : ''} link to <strong>${data.filePath}</strong></span>`;
+        }
+        if (this.options.command.action === 'get_outgoing_links' && data) {
+            const count = Array.isArray(data.links) ? data.links.length : 0;
+            const unresolved = Array.isArray(data.unresolved) && data.unresolved.length > 0 ? ` (${data.unresolved.length} unresolved)` : '';
+            return `<span class="tool-success">🔗 <strong>${data.filePath}</strong> links to ${count} file${count !== 1 ? 's' : ''}${unresolved}</span>`;
+        }
+        if (this.options.command.action === 'find_orphans' && data) {
+            const count = data.count || 0;
+            return `<span class="tool-success">🏝️ Found ${count} orphaned file${count !== 1 ? 's' : ''}</span>`;
+        }
+        if (this.options.command.action === 'find_unresolved_links' && data) {
+            const count = data.count || 0;
+            return `<span class="tool-success">⛓️ Found ${count} unresolved link${count !== 1 ? 's' : ''}</span>`;
+        }
         if (this.options.command.action === 'thought' && data) {
             const thought = data.thought || data.reasoning || '';
             return `<span class="tool-success">🧠 ${thought}</span>`;
@@ -394,6 +425,7 @@ export class ToolRichDisplay extends Component {
     private static getStaticToolIcon(action: string): string {
         const iconMap: Record<string, string> = {
             'file_search': '🔍',
+            'semantic_search': '🧭',
             'file_read': '📖',
             'file_write': '✍️',
             'file_diff': '🔄',
@@ -401,7 +433,11 @@ export class ToolRichDisplay extends Component {
             'file_rename': '🏷️',
             'file_list': '📋',
             'thought': '🧠',
-            'get_user_feedback': '❓'
+            'get_user_feedback': '❓',
+            'get_backlinks': '🔗',
+            'get_outgoing_links': '🔗',
+            'find_orphans': '🏝️',
+            'find_unresolved_links': '⛓️'
         };
         return iconMap[action] || '🔧';
     }
@@ -412,6 +448,7 @@ export class ToolRichDisplay extends Component {
     private static getStaticToolDisplayName(action: string): string {
         const nameMap: Record<string, string> = {
             'file_search': 'File Search',
+            'semantic_search': 'Semantic Search',
             'file_read': 'File Read',
             'file_write': 'File Write',
             'file_diff': 'File Diff',
@@ -419,7 +456,11 @@ export class ToolRichDisplay extends Component {
             'file_rename': 'File Rename',
             'file_list': 'File List',
             'thought': 'Thought Process',
-            'get_user_feedback': 'User Feedback'
+            'get_user_feedback': 'User Feedback',
+            'get_backlinks': 'Backlinks',
+            'get_outgoing_links': 'Outgoing Links',
+            'find_orphans': 'Orphaned Notes',
+            'find_unresolved_links': 'Unresolved Links'
         };
         return nameMap[action] || action;
     }
@@ -464,6 +505,10 @@ export class ToolRichDisplay extends Component {
             const count = data.count || (Array.isArray(data.files) ? data.files.length : 0);
             return `<span class="tool-success">🔍 Found ${count} file${count !== 1 ? 's' : ''}</span>`;
         }
+        if (command.action === 'semantic_search' && data) {
+            const count = data.count || (Array.isArray(data.results) ? data.results.length : 0);
+            return `<span class="tool-success">🧭 Found ${count} related passage${count !== 1 ? 's' : ''}</span>`;
+        }
         if (command.action === 'file_list' && data) {
             const count = data.count || (Array.isArray(data.files) ? data.files.length : 0);
             const path = data.path || command.parameters.path;
@@ -479,6 +524,23 @@ export class ToolRichDisplay extends Component {
             const newName = command.parameters.newName;
             return `<span class="tool-success">🏷️ Renamed <strong>${oldName}</strong> → <strong>${newName}</strong></span>`;
         }
+        if (command.action === 'get_backlinks' && data) {
+            const count = data.count || 0;
+            return `<span class="tool-success">🔗 ${count} note${count !== 1 ? 's' : ''} link to <strong>${data.filePath}</strong></span>`;
+        }
+        if (command.action === 'get_outgoing_links' && data) {
+            const count = Array.isArray(data.links) ? data.links.length : 0;
+            const unresolved = Array.isArray(data.unresolved) && data.unresolved.length > 0 ? ` (${data.unresolved.length} unresolved)` : '';
+            return `<span class="tool-success">🔗 <strong>${data.filePath}</strong> links to ${count} file${count !== 1 ? 's' : ''}${unresolved}</span>`;
+        }
+        if (command.action === 'find_orphans' && data) {
+            const count = data.count || 0;
+            return `<span class="tool-success">🏝️ Found ${count} orphaned file${count !== 1 ? 's' : ''}</span>`;
+        }
+        if (command.action === 'find_unresolved_links' && data) {
+            const count = data.count || 0;
+            return `<span class="tool-success">⛓️ Found ${count} unresolved link${count !== 1 ? 's' : ''}</span>`;
+        }
         if (command.action === 'thought' && data) {
             const thought = data.thought || data.reasoning || '';
             return `<span class="tool-success">🧠 ${thought}</span>`;
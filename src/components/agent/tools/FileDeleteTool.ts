@@ -5,6 +5,7 @@ import { PathValidator } from './pathValidation';
 import { isTFile, isTFolder } from '../../../utils/typeGuards';
 import { getTFileByPath, getTFolderByPath, ensureFolderExists } from '../../../utils/fileUtils';
 import { debugLog } from '../../../utils/logger';
+import { AgentRunRecorder } from '../AgentRunJournal';
 
 /**
  * Parameters for file/folder deletion.
@@ -54,8 +55,9 @@ export class FileDeleteTool implements Tool {
      * Constructor for FileDeleteTool.
      * @param app Obsidian App instance
      * @param backupManager Optional custom BackupManager
+     * @param runJournal Optional journal that records deletions so agent runs can be undone
      */
-    constructor(private app: App, backupManager?: BackupManager) {
+    constructor(private app: App, backupManager?: BackupManager, private runJournal?: AgentRunRecorder) {
         // Default backup location is the plugin's config directory
         const defaultPath = app.vault.configDir + '/plugins/ai-assistant-for-obsidian';
         this.backupManager = backupManager || new BackupManager(app, defaultPath);
@@ -87,6 +89,7 @@ export class FileDeleteTool implements Tool {
         let filePath: string;
         try {
             filePath = this.pathValidator.validateAndNormalizePath(inputPath);
+            this.pathValidator.assertTreeWritable(filePath);
             debugLog(debugMode, 'debug', '[FileDeleteTool] Normalized filePath:', filePath);
         } catch (error: any) {
             debugLog(debugMode, 'error', '[FileDeleteTool] Path validation failed:', error);
@@ -153,6 +156,7 @@ export class FileDeleteTool implements Tool {
 
                 let actionTaken = '';
                 let trashPath = '';
+                let deletedContent: string | undefined;
                 
                 if (useTrash) {
                     // Move file to .trash folder
@@ -168,7 +172,10 @@ export class FileDeleteTool implements Tool {
                         };
                     }
                 } else {
-                    // Permanently delete the file
+                    // Permanently delete the file, keeping its text so the agent run can be undone
+                    if (this.runJournal) {
+                        deletedContent = backup ? originalContent : await this.app.vault.read(target as TFile);
+                    }
                     try {
                         await this.app.vault.delete(target as TFile);
                         actionTaken = 'permanently deleted';
@@ -198,6 +205,13 @@ export class FileDeleteTool implements Tool {
                 }
 
                 totalSize = originalContent.length;
+                this.runJournal?.record({
+                    type: 'delete',
+                    path: filePath,
+                    trashPath: useTrash ? trashPath : undefined,
+                    content: deletedContent,
+                    tool: this.name
+                });
 
                 // Return success result for file deletion
                 return {
@@ -289,6 +303,9 @@ export class FileDeleteTool implements Tool {
                     }
                 }
 
+                // Permanently deleted folders cannot be restored from the journal
+                this.runJournal?.record({ type: 'delete', path: filePath, trashPath: useTrash ? trashPath : undefined, tool: this.name });
+
                 // Return success result for folder deletion
                 return {
                     success: true,
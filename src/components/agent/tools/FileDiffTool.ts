@@ -7,6 +7,7 @@ import { debugLog } from '../../../utils/logger';
 import { isTFile } from '../../../utils/typeGuards';
 import { getOrOpenFileEditor } from '../../../utils/editorUtils';
 import { getTFileByPath } from '../../../utils/fileUtils'; // Import the new utility
+import { AgentRunRecorder } from '../AgentRunJournal';
 
 /**
  * Interface for a file change suggestion, including file details and callbacks.
@@ -244,6 +245,20 @@ export function getLineChanges(oldText: string, newText: string): LineChange[] {
   return changes;
 }
 
+/**
+ * Formats the added and removed lines between two texts for a suggestions panel,
+ * prefixing them with '+' and '-' and leaving out unchanged lines.
+ * @param oldText The original text.
+ * @param newText The new (suggested) text.
+ * @returns The changed lines, one per line.
+ */
+export function formatChangedLines(oldText: string, newText: string): string {
+  return getLineChanges(oldText, newText)
+    .filter(change => change.type !== 'context')
+    .map(change => `${change.type === 'add' ? '+' : '-'}${change.value}`)
+    .join('\n');
+}
+
 /**
  * Parameters for the file diff tool.
  */
@@ -289,7 +304,7 @@ export class FileDiffTool implements Tool {
 
     private pathValidator: PathValidator;
 
-    constructor(private app: App) {
+    constructor(private app: App, private runJournal?: AgentRunRecorder) {
         this.pathValidator = new PathValidator(app);
     }
 
@@ -321,6 +336,7 @@ export class FileDiffTool implements Tool {
         let filePath: string;
         try {
             filePath = this.pathValidator.validateAndNormalizePath(inputPath);
+            this.pathValidator.assertWritable(filePath);
             debugLog(debugMode, 'debug', '[FileDiffTool] Normalized filePath:', filePath);
         } catch (error: any) {
             debugLog(debugMode, 'error', '[FileDiffTool] Path validation failed:', error);
@@ -429,14 +445,17 @@ export class FileDiffTool implements Tool {
             };
         }
 
-        // Show modal with suggestion
+        // Show modal with suggestion; the change may be accepted after the agent run has ended
         debugLog(debugMode, 'debug', '[FileDiffTool] Showing file change suggestion modal');
+        const run = this.runJournal?.getActiveRun() ?? null;
         const suggestion: FileChangeSuggestion = {
             file: file,
             suggestionText: diff,
             onAccept: async () => {
                 debugLog(debugMode, 'debug', '[FileDiffTool] User accepted suggestion');
+                const previousContent = await this.app.vault.read(file);
                 await this.app.vault.modify(file, suggestedContent);
+                this.runJournal?.record({ type: 'edit', path: file.path, previousContent, content: suggestedContent, tool: this.name }, run);
                 new Notice(`Applied changes to ${file.path}`);
             },
             onReject: async () => {
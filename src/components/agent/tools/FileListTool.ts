@@ -59,8 +59,8 @@ export class FileListTool implements Tool {
         const vault: Vault = this.app.vault;
         let folder: TFolder | undefined;
 
-        // Use the new utility function to get the folder
-        folder = getTFolderByPath(this.app, folderPath, debugMode);
+        // Use the new utility function to get the folder; hidden folders are reported as missing
+        folder = this.pathValidator.isHidden(folderPath) ? undefined : getTFolderByPath(this.app, folderPath, debugMode);
 
         // If folder not found or not a TFolder, return error
         if (!folder) {
@@ -84,9 +84,10 @@ export class FileListTool implements Tool {
                 return;
             }
 
-            // Separate files and folders
-            const files = currentFolder.children.filter(child => child instanceof TFile);
-            const folders = currentFolder.children.filter(child => child instanceof TFolder);
+            // Separate files and folders, leaving out hidden ones
+            const visibleChildren = currentFolder.children.filter(child => !this.pathValidator.isHidden(child.path));
+            const files = visibleChildren.filter(child => child instanceof TFile);
+            const folders = visibleChildren.filter(child => child instanceof TFolder);
 
             // Calculate how many slots to allocate to files/folders
             const folderCount = recursive ? folders.length : 0;
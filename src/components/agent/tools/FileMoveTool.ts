@@ -4,6 +4,7 @@ import { PathValidator } from './pathValidation';
 import { isTFile } from '../../../utils/typeGuards';
 import { getTFileByPath, getTFolderByPath } from '../../../utils/fileUtils'; // Import the new utilities
 import { debugLog } from '../../../utils/logger';
+import { AgentRunRecorder } from '../AgentRunJournal';
 
 /**
  * Parameters for moving or renaming a file.
@@ -59,7 +60,7 @@ export class FileMoveTool implements Tool {
 
     private pathValidator: PathValidator;
 
-    constructor(private app: App) {
+    constructor(private app: App, private runJournal?: AgentRunRecorder) {
         this.pathValidator = new PathValidator(app);
     }
 
@@ -88,6 +89,7 @@ export class FileMoveTool implements Tool {
         let sourcePath: string;
         try {
             sourcePath = this.pathValidator.validateAndNormalizePath(inputSourcePath);
+            this.pathValidator.assertTreeWritable(sourcePath);
         } catch (error: any) {
             return {
                 success: false,
@@ -129,6 +131,15 @@ export class FileMoveTool implements Tool {
             };
         }
 
+        try {
+            this.pathValidator.assertWritable(finalDestinationPath);
+        } catch (error: any) {
+            return {
+                success: false,
+                error: `Path validation failed for destinationPath: ${error.message}`
+            };
+        }
+
         try {
             const sourceFile = getTFileByPath(this.app, sourcePath, debugMode); // Use utility
             if (!sourceFile) {
@@ -164,6 +175,7 @@ export class FileMoveTool implements Tool {
             }
 
             await this.app.fileManager.renameFile(sourceFile, finalDestinationPath);
+            this.runJournal?.record({ type: 'move', path: finalDestinationPath, fromPath: sourcePath, tool: this.name });
 
             return {
                 success: true,
@@ -75,8 +75,8 @@ export class FileReadTool implements Tool {
         }
 
         try {
-            // Check file existence and size before reading
-            const file = getTFileByPath(this.app, filePath, debugMode);
+            // Check file existence and size before reading; hidden files are reported as missing
+            const file = this.pathValidator.isHidden(filePath) ? null : getTFileByPath(this.app, filePath, debugMode);
             if (!file) {
                 debugLog(debugMode, 'warn', '[FileReadTool] File not found:', filePath);
                 return {
@@ -2,6 +2,7 @@
 import { App, TFile } from 'obsidian';
 // Import base Tool and ToolResult types for plugin tool integration
 import { Tool, ToolResult } from '../ToolRegistry';
+import { PathValidator } from './pathValidation';
 
 /**
  * Interface for the parameters you can pass to the file search tool.
@@ -63,11 +64,16 @@ export class FileSearchTool implements Tool {
         }
     };
 
+    // Hides files excluded from agent tools
+    private pathValidator: PathValidator;
+
     /**
      * The constructor takes the Obsidian app instance so we can access the vault.
      * @param app The main Obsidian app object
      */
-    constructor(private app: App) {}
+    constructor(private app: App) {
+        this.pathValidator = new PathValidator(app);
+    }
 
     /**
      * Main function to execute the file search.
@@ -84,11 +90,13 @@ export class FileSearchTool implements Tool {
             // - markdown: only .md files
             // - image: only image files (png, jpg, etc)
             // - all: every file in the vault
-            const allFiles = filterType === 'markdown' ? 
+            // Files hidden from agent tools are left out
+            const allFiles = (filterType === 'markdown' ? 
                 this.app.vault.getMarkdownFiles() : 
                 filterType === 'image' ? 
                     this.app.vault.getFiles().filter(f => ['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp'].includes(f.extension?.toLowerCase())) :
-                    this.app.vault.getFiles();
+                    this.app.vault.getFiles()
+            ).filter(file => !this.pathValidator.isHidden(file.path));
 
             // This array will hold files that match the search
             let matchingFiles: TFile[] = [];
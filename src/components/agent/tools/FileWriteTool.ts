@@ -1,6 +1,7 @@
 import { App, TFile } from 'obsidian';
 import { Tool, ToolResult } from '../ToolRegistry';
 import { BackupManager } from '../../BackupManager';
+import { AgentRunRecorder } from '../AgentRunJournal';
 import { PathValidator } from './pathValidation';
 import { getTFileByPath, ensureFolderExists } from '../../../utils/fileUtils';
 import { debugLog } from '../../../utils/logger';
@@ -55,7 +56,7 @@ export class FileWriteTool implements Tool {
     private backupManager: BackupManager;
     private pathValidator: PathValidator;
 
-    constructor(private app: App, backupManager?: BackupManager) {
+    constructor(private app: App, backupManager?: BackupManager, private runJournal?: AgentRunRecorder) {
         // Use plugin config directory for default backup location
         const defaultPath = app.vault.configDir + '/plugins/ai-assistant-for-obsidian';
         this.backupManager = backupManager || new BackupManager(app, defaultPath);
@@ -88,6 +89,7 @@ export class FileWriteTool implements Tool {
         let filePath: string;
         try {
             filePath = this.pathValidator.validateAndNormalizePath(inputPath);
+            this.pathValidator.assertWritable(filePath);
             debugLog(debugMode, 'debug', '[FileWriteTool] Normalized filePath:', filePath);
         } catch (error: any) {
             debugLog(debugMode, 'error', '[FileWriteTool] Path validation failed:', error);
@@ -141,6 +143,7 @@ export class FileWriteTool implements Tool {
                 // Create the file
                 try {
                     file = await this.app.vault.create(filePath, content);
+                    this.runJournal?.record({ type: 'create', path: filePath, content, tool: this.name });
                     debugLog(debugMode, 'info', '[FileWriteTool] Created file', { filePath });
                     return {
                         success: true,
@@ -195,7 +198,9 @@ export class FileWriteTool implements Tool {
 
             // Write new content to file
             try {
+                const previousContent = originalContent ?? await this.app.vault.read(file);
                 await this.app.vault.modify(file, content);
+                this.runJournal?.record({ type: 'edit', path: filePath, previousContent, content, tool: this.name });
                 debugLog(debugMode, 'info', '[FileWriteTool] Modified file', { filePath });
                 return {
                     success: true,
@@ -0,0 +1,103 @@
+import { App } from 'obsidian';
+import { Tool, ToolResult } from '../ToolRegistry';
+import { PathValidator } from './pathValidation';
+import { debugLog } from '../../../utils/logger';
+
+/**
+ * Parameters for finding orphaned files.
+ */
+export interface FindOrphansParams {
+    path?: string;                 // Folder to search in (empty for the whole vault)
+    includeAttachments?: boolean;  // Also report attachments that no note embeds or links
+    noOutgoingLinks?: boolean;     // Only report notes that also link to nothing
+    maxResults?: number;           // Maximum number of files to return
+}
+
+/**
+ * Tool for finding orphaned files: notes (and optionally attachments) that no other file
+ * links to, from Obsidian's resolved link graph.
+ */
+export class FindOrphansTool implements Tool {
+    name = 'find_orphans';
+    description = 'Find orphaned notes that no other note links to, optionally only those with no links of their own, or unused attachments. Useful for vault cleanup and linking suggestions.';
+    parameters = {
+        path: {
+            type: 'string',
+            description: 'Folder to search in, relative to vault root (empty for whole vault)',
+            required: false
+        },
+        includeAttachments: {
+            type: 'boolean',
+            description: 'Also report attachments (images, PDFs...) that no note embeds or links',
+            default: false
+        },
+        noOutgoingLinks: {
+            type: 'boolean',
+            description: 'Only report notes that have no links of their own either',
+            default: false
+        },
+        maxResults: {
+            type: 'number',
+            description: 'Maximum files to return',
+            default: 100
+        }
+    };
+
+    private pathValidator: PathValidator;
+
+    constructor(private app: App) {
+        this.pathValidator = new PathValidator(app);
+    }
+
+    /**
+     * Executes the orphan search.
+     * @param params FindOrphansParams
+     * @param context Execution context (may include debugMode)
+     * @returns ToolResult with the orphaned file paths
+     */
+    async execute(params: FindOrphansParams, context: any): Promise<ToolResult> {
+        const debugMode = context?.plugin?.settings?.debugMode ?? true;
+        const { includeAttachments = false, noOutgoingLinks = false, maxResults = 100 } = params;
+
+        let folderPath: string;
+        try {
+            folderPath = this.pathValidator.validateAndNormalizePath(params.path || '');
+        } catch (error: any) {
+            return { success: false, error: `Path validation failed: ${error.message}` };
+        }
+        if (folderPath && this.pathValidator.isHidden(folderPath)) {
+            return { success: false, error: `Folder not found: ${folderPath}` };
+        }
+
+        // Every file that some other file links to or embeds
+        const resolvedLinks = this.app.metadataCache.resolvedLinks ?? {};
+        const linked = new Set<string>();
+        for (const [source, targets] of Object.entries(resolvedLinks)) {
+            for (const target of Object.keys(targets ?? {})) {
+                if (target !== source) linked.add(target);
+            }
+        }
+        const unresolvedLinks = this.app.metadataCache.unresolvedLinks ?? {};
+        const hasOutgoingLinks = (path: string) =>
+            Object.keys(resolvedLinks[path] ?? {}).length > 0 || Object.keys(unresolvedLinks[path] ?? {}).length > 0;
+
+        const files = includeAttachments ? this.app.vault.getFiles() : this.app.vault.getMarkdownFiles();
+        const orphans = files
+            .filter(file => !folderPath || file.path.startsWith(folderPath + '/'))
+            .filter(file => !this.pathValidator.isHidden(file.path) && !linked.has(file.path))
+            .filter(file => !noOutgoingLinks || file.extension !== 'md' || !hasOutgoingLinks(file.path))
+            .map(file => file.path)
+            .sort();
+
+        debugLog(debugMode, 'debug', '[FindOrphansTool] Orphans found', { folderPath, count: orphans.length });
+        return {
+            success: true,
+            data: {
+                path: folderPath,
+                orphans: orphans.slice(0, maxResults),
+                count: orphans.length,
+                truncated: orphans.length > maxResults
+            }
+        };
+    }
+}
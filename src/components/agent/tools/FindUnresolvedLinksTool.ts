@@ -0,0 +1,86 @@
+import { App } from 'obsidian';
+import { Tool, ToolResult } from '../ToolRegistry';
+import { PathValidator } from './pathValidation';
+import { debugLog } from '../../../utils/logger';
+
+/**
+ * Parameters for finding unresolved links.
+ */
+export interface FindUnresolvedLinksParams {
+    path?: string;         // Folder of the linking notes (empty for the whole vault)
+    maxResults?: number;   // Maximum number of link targets to return
+}
+
+/**
+ * Tool for finding links to notes that do not exist, grouped by link target with the notes
+ * that contain them, from Obsidian's unresolved link graph.
+ */
+export class FindUnresolvedLinksTool implements Tool {
+    name = 'find_unresolved_links';
+    description = 'Find links to notes that do not exist, with the notes containing them, most used first. Useful for fixing broken links or creating missing notes.';
+    parameters = {
+        path: {
+            type: 'string',
+            description: 'Only look at notes in this folder, relative to vault root (empty for whole vault)',
+            required: false
+        },
+        maxResults: {
+            type: 'number',
+            description: 'Maximum link targets to return',
+            default: 100
+        }
+    };
+
+    private pathValidator: PathValidator;
+
+    constructor(private app: App) {
+        this.pathValidator = new PathValidator(app);
+    }
+
+    /**
+     * Executes the unresolved link search.
+     * @param params FindUnresolvedLinksParams
+     * @param context Execution context (may include debugMode)
+     * @returns ToolResult with the unresolved link targets and their sources
+     */
+    async execute(params: FindUnresolvedLinksParams, context: any): Promise<ToolResult> {
+        const debugMode = context?.plugin?.settings?.debugMode ?? true;
+        const { maxResults = 100 } = params;
+
+        let folderPath: string;
+        try {
+            folderPath = this.pathValidator.validateAndNormalizePath(params.path || '');
+        } catch (error: any) {
+            return { success: false, error: `Path validation failed: ${error.message}` };
+        }
+        if (folderPath && this.pathValidator.isHidden(folderPath)) {
+            return { success: false, error: `Folder not found: ${folderPath}` };
+        }
+
+        // Group by link target, counting every occurrence
+        const targets = new Map<string, { link: string; count: number; sources: string[] }>();
+        for (const [source, links] of Object.entries(this.app.metadataCache.unresolvedLinks ?? {})) {
+            if (folderPath && !source.startsWith(folderPath + '/')) continue;
+            if (this.pathValidator.isHidden(source)) continue;
+            for (const [link, count] of Object.entries(links ?? {})) {
+                const entry = targets.get(link) ?? { link, count: 0, sources: [] };
+                entry.count += count;
+                entry.sources.push(source);
+                targets.set(link, entry);
+            }
+        }
+        const links = Array.from(targets.values())
+            .sort((a, b) => b.count - a.count || a.link.localeCompare(b.link));
+
+        debugLog(debugMode, 'debug', '[FindUnresolvedLinksTool] Unresolved links found', { folderPath, count: links.length });
+        return {
+            success: true,
+            data: {
+                path: folderPath,
+                links: links.slice(0, maxResults),
+                count: links.length,
+                truncated: links.length > maxResults
+            }
+        };
+    }
+}
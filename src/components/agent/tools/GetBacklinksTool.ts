@@ -0,0 +1,74 @@
+import { App } from 'obsidian';
+import { Tool, ToolResult } from '../ToolRegistry';
+import { PathValidator } from './pathValidation';
+import { getTFileByPath } from '../../../utils/fileUtils';
+import { debugLog } from '../../../utils/logger';
+
+/**
+ * Parameters for listing the notes that link to a note.
+ */
+export interface GetBacklinksParams {
+    path: string;         // Path to the note (required)
+    filePath?: string;    // Alternate/legacy path parameter
+}
+
+/**
+ * Tool for listing the notes that link to a note, from Obsidian's resolved link graph.
+ */
+export class GetBacklinksTool implements Tool {
+    name = 'get_backlinks';
+    description = 'List notes that link to a note, with how many links each has. Use to find related notes and context before editing or moving a note.';
+    parameters = {
+        path: {
+            type: 'string',
+            description: 'Note path relative to vault root',
+            required: true
+        }
+    };
+
+    private pathValidator: PathValidator;
+
+    constructor(private app: App) {
+        this.pathValidator = new PathValidator(app);
+    }
+
+    /**
+     * Executes the backlink lookup.
+     * @param params GetBacklinksParams
+     * @param context Execution context (may include debugMode)
+     * @returns ToolResult with the linking notes, most links first
+     */
+    async execute(params: GetBacklinksParams, context: any): Promise<ToolResult> {
+        const debugMode = context?.plugin?.settings?.debugMode ?? true;
+        const inputPath = params.path || params.filePath;
+
+        if (inputPath === undefined || inputPath === null) {
+            return { success: false, error: 'path parameter is required' };
+        }
+
+        let filePath: string;
+        try {
+            filePath = this.pathValidator.validateAndNormalizePath(inputPath);
+        } catch (error: any) {
+            return { success: false, error: `Path validation failed: ${error.message}` };
+        }
+
+        const file = this.pathValidator.isHidden(filePath) ? null : getTFileByPath(this.app, filePath, debugMode);
+        if (!file) {
+            return { success: false, error: `File not found: ${filePath}` };
+        }
+
+        // Links from hidden notes are left out
+        const resolvedLinks = this.app.metadataCache.resolvedLinks ?? {};
+        const backlinks = Object.entries(resolvedLinks)
+            .filter(([source, targets]) => source !== file.path && targets?.[file.path] > 0 && !this.pathValidator.isHidden(source))
+            .map(([source, targets]) => ({ path: source, count: targets[file.path] }))
+            .sort((a, b) => b.count - a.count || a.path.localeCompare(b.path));
+
+        debugLog(debugMode, 'debug', '[GetBacklinksTool] Backlinks found', { filePath: file.path, count: backlinks.length });
+        return {
+            success: true,
+            data: { filePath: file.path, backlinks, count: backlinks.length }
+        };
+    }
+}
@@ -0,0 +1,75 @@
+import { App } from 'obsidian';
+import { Tool, ToolResult } from '../ToolRegistry';
+import { PathValidator } from './pathValidation';
+import { getTFileByPath } from '../../../utils/fileUtils';
+import { debugLog } from '../../../utils/logger';
+
+/**
+ * Parameters for listing the links of a note.
+ */
+export interface GetOutgoingLinksParams {
+    path: string;         // Path to the note (required)
+    filePath?: string;    // Alternate/legacy path parameter
+}
+
+/**
+ * Tool for listing the links and embeds of a note, as resolved by Obsidian: the files they
+ * point to, and the link targets that do not exist yet.
+ */
+export class GetOutgoingLinksTool implements Tool {
+    name = 'get_outgoing_links';
+    description = 'List the files a note links to (resolved paths) and its unresolved links to notes that do not exist.';
+    parameters = {
+        path: {
+            type: 'string',
+            description: 'Note path relative to vault root',
+            required: true
+        }
+    };
+
+    private pathValidator: PathValidator;
+
+    constructor(private app: App) {
+        this.pathValidator = new PathValidator(app);
+    }
+
+    /**
+     * Executes the outgoing link lookup.
+     * @param params GetOutgoingLinksParams
+     * @param context Execution context (may include debugMode)
+     * @returns ToolResult with resolved and unresolved links
+     */
+    async execute(params: GetOutgoingLinksParams, context: any): Promise<ToolResult> {
+        const debugMode = context?.plugin?.settings?.debugMode ?? true;
+        const inputPath = params.path || params.filePath;
+
+        if (inputPath === undefined || inputPath === null) {
+            return { success: false, error: 'path parameter is required' };
+        }
+
+        let filePath: string;
+        try {
+            filePath = this.pathValidator.validateAndNormalizePath(inputPath);
+        } catch (error: any) {
+            return { success: false, error: `Path validation failed: ${error.message}` };
+        }
+
+        const file = this.pathValidator.isHidden(filePath) ? null : getTFileByPath(this.app, filePath, debugMode);
+        if (!file) {
+            return { success: false, error: `File not found: ${filePath}` };
+        }
+
+        // Links into hidden folders are left out
+        const links = Object.entries(this.app.metadataCache.resolvedLinks?.[file.path] ?? {})
+            .filter(([target]) => !this.pathValidator.isHidden(target))
+            .map(([target, count]) => ({ path: target, count }));
+        const unresolved = Object.entries(this.app.metadataCache.unresolvedLinks?.[file.path] ?? {})
+            .map(([link, count]) => ({ link, count }));
+
+        debugLog(debugMode, 'debug', '[GetOutgoingLinksTool] Links found', { filePath: file.path, links: links.length, unresolved: unresolved.length });
+        return {
+            success: true,
+            data: { filePath: file.path, links, unresolved, count: links.length + unresolved.length }
+        };
+    }
+}
@@ -0,0 +1,354 @@
+import { App, TFile } from 'obsidian';
+import { Tool, ToolResult } from '../ToolRegistry';
+import { PathValidator } from './pathValidation';
+import { formatChangedLines, showFileChangeSuggestionsModal } from './FileDiffTool';
+import { BackupManager } from '../../BackupManager';
+import { AgentRunRecorder } from '../AgentRunJournal';
+import { getTFileByPath } from '../../../utils/fileUtils';
+import { extractContentUnderHeader } from '../../../utils/generalUtils';
+import { debugLog } from '../../../utils/logger';
+
+/**
+ * Where content goes relative to the target.
+ * For headings, "append" and "prepend" add to the section body, "replace" replaces the body
+ * (keeping the heading line), and "insert_before"/"insert_after" add around the whole section.
+ */
+export type NoteEditOperation = 'append' | 'prepend' | 'replace' | 'insert_before' | 'insert_after';
+
+/**
+ * The part of a note an edit applies to. Without a target, the edit applies to the whole note
+ * (after the frontmatter).
+ */
+export interface NoteEditTarget {
+    heading?: string;     // Heading path, e.g. "Projects#Ideas" for "Ideas" under "Projects"
+    block?: string;       // Block id, with or without the leading '^'
+    listItem?: string;    // Text of the list item (its nested items are included)
+    startLine?: number;   // First line, 1-based
+    endLine?: number;     // Last line, inclusive; defaults to startLine
+}
+
+/**
+ * Parameters for editing part of a note.
+ */
+export interface NoteEditParams extends NoteEditTarget {
+    path: string;         // Path to the note (required)
+    filePath?: string;    // Alternate/legacy path parameter
+    operation: NoteEditOperation;
+    content: string;
+    preview?: boolean;    // Show the change for review instead of applying it (default true)
+}
+
+/**
+ * Lines of a target: [start, end), and where the body starts (after the heading line for headings).
+ */
+interface LineRange {
+    start: number;
+    end: number;
+    bodyStart: number;
+}
+
+const LIST_ITEM_REGEX = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?(.*)$/;
+const HEADING_REGEX = /^#{1,6}\s/;
+
+/**
+ * Finds the lines of a section by its heading path, narrowing down one heading at a time.
+ */
+function findHeadingRange(content: string, headingPath: string): LineRange {
+    const headings = headingPath.split('#').map(part => part.trim()).filter(part => part !== '');
+    if (headings.length === 0) {
+        throw new Error('heading must name at least one heading');
+    }
+
+    let scope = content;
+    let offset = 0;
+    for (const heading of headings) {
+        const section = extractContentUnderHeader(scope, heading);
+        if (!section) {
+            throw new Error(`Heading not found: ${heading}`);
+        }
+        // The section starts at the first line that begins with it
+        let index = scope.indexOf(section);
+        while (index > 0 && scope[index - 1] !== '\n') {
+            index = scope.indexOf(section, index + 1);
+        }
+        offset += index;
+        scope = section;
+    }
+
+    const start = content.slice(0, offset).split('\n').length - 1;
+    return { start, end: start + scope.split('\n').length, bodyStart: start + 1 };
+}
+
+/**
+ * Finds the lines of a block by its id: the list item, or the paragraph, ending with "^id".
+ */
+function findBlockRange(lines: string[], blockId: string): LineRange {
+    const id = blockId.replace(/^\^/, '');
+    const idRegex = new RegExp(`(^|\\s)\\^${id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`);
+    const last = lines.findIndex(line => idRegex.test(line));
+    if (last === -1) {
+        throw new Error(`Block not found: ^${id}`);
+    }
+
+    let start = last;
+    if (!LIST_ITEM_REGEX.test(lines[last])) {
+        while (start > 0 && lines[start - 1].trim() !== '' && !HEADING_REGEX.test(lines[start - 1]) && !LIST_ITEM_REGEX.test(lines[start - 1])) {
+            start--;
+        }
+    }
+    return { start, end: last + 1, bodyStart: start };
+}
+
+/**
+ * Finds the first list item containing the text, with its nested items.
+ */
+function findListItemRange(lines: string[], text: string): LineRange {
+    const needle = text.trim().toLowerCase();
+    const start = lines.findIndex(line => {
+        const match = line.match(LIST_ITEM_REGEX);
+        return !!match && match[2].toLowerCase().includes(needle);
+    });
+    if (start === -1) {
+        throw new Error(`List item not found: ${text}`);
+    }
+
+    const indent = lines[start].match(LIST_ITEM_REGEX)![1].length;
+    let end = start + 1;
+    while (end < lines.length && lines[end].trim() !== '' && lines[end].length - lines[end].trimStart().length > indent) {
+        end++;
+    }
+    return { start, end, bodyStart: start };
+}
+
+/**
+ * Finds the lines of the edit's target.
+ */
+function findTargetRange(content: string, lines: string[], target: NoteEditTarget): LineRange {
+    if (target.heading) return findHeadingRange(content, target.heading);
+    if (target.block) return findBlockRange(lines, target.block);
+    if (target.listItem) return findListItemRange(lines, target.listItem);
+
+    if (target.startLine !== undefined) {
+        const startLine = Number(target.startLine);
+        const endLine = Number(target.endLine ?? target.startLine);
+        if (!Number.isInteger(startLine) || !Number.isInteger(endLine) || startLine < 1 || endLine < startLine || endLine > lines.length) {
+            throw new Error(`Invalid line range ${target.startLine}-${target.endLine ?? target.startLine}; the note has ${lines.length} lines`);
+        }
+        return { start: startLine - 1, end: endLine, bodyStart: startLine - 1 };
+    }
+
+    // Whole note, after the frontmatter
+    const frontmatter = content.match(/^---\n[\s\S]*?\n---(\n|$)/);
+    const start = frontmatter ? frontmatter[0].split('\n').length - 1 : 0;
+    return { start, end: lines.length, bodyStart: start };
+}
+
+/**
+ * Applies an edit to part of a note.
+ * @param content The note content
+ * @param operation Where the new content goes relative to the target
+ * @param target The part of the note to edit
+ * @param text The content to add or replace with
+ * @returns The edited note content
+ * @throws If the target is not found
+ */
+export function applyNoteEdit(content: string, operation: NoteEditOperation, target: NoteEditTarget, text: string): string {
+    const lines = content.split('\n');
+    const range = findTargetRange(content, lines, target);
+    let newLines = text.replace(/\n$/, '').split('\n');
+
+    // Keep the block id on a replaced block so links to it still resolve
+    if (operation === 'replace' && target.block && !target.heading) {
+        const id = target.block.replace(/^\^/, '');
+        if (!text.includes(`^${id}`)) {
+            newLines[newLines.length - 1] += ` ^${id}`;
+        }
+    }
+
+    let from: number;
+    let to: number;
+    switch (operation) {
+        case 'replace':
+            from = range.bodyStart;
+            to = range.end;
+            break;
+        case 'prepend':
+            from = to = range.bodyStart;
+            break;
+        case 'append': {
+            // Add after the last non-blank line of the target
+            let end = range.end;
+            while (end > range.bodyStart && lines[end - 1].trim() === '') end--;
+            from = to = end;
+            break;
+        }
+        case 'insert_before':
+            from = to = range.start;
+            break;
+        case 'insert_after':
+            from = to = range.end;
+            break;
+        default:
+            throw new Error(`Unknown operation: ${operation}`);
+    }
+
+    // Keep a blank line between a replaced section and the next heading
+    if (target.heading && operation === 'replace' && to < lines.length && newLines[newLines.length - 1].trim() !== '') {
+        newLines = [...newLines, ''];
+    }
+    return [...lines.slice(0, from), ...newLines, ...lines.slice(to)].join('\n');
+}
+
+/**
+ * Tool for editing part of a note (a section under a heading, a block, a list item or a line range)
+ * without reproducing the rest of it. Changes are previewed for the user's approval by default.
+ */
+export class NoteEditTool implements Tool {
+    name = 'note_edit';
+    description = 'Edit part of a note: append, prepend, replace or insert content at a heading, ^block-id, list item or line range. No need to repeat unchanged content. Shows a preview for approval by default.';
+    parameters = {
+        path: {
+            type: 'string',
+            description: 'Note path relative to vault root',
+            required: true
+        },
+        operation: {
+            type: 'string',
+            enum: ['append', 'prepend', 'replace', 'insert_before', 'insert_after'],
+            description: 'append/prepend/replace the target\'s content, or insert_before/insert_after the whole target',
+            required: true
+        },
+        content: {
+            type: 'string',
+            description: 'Content to add or replace with',
+            required: true
+        },
+        heading: {
+            type: 'string',
+            description: 'Heading path, nested headings separated by # (e.g. "Projects#Ideas")',
+            required: false
+        },
+        block: {
+            type: 'string',
+            description: 'Block id, e.g. "^summary"',
+            required: false
+        },
+        listItem: {
+            type: 'string',
+            description: 'Text of the list item to target',
+            required: false
+        },
+        startLine: {
+            type: 'number',
+            description: 'First line of a line range (1-based)',
+            required: false
+        },
+        endLine: {
+            type: 'number',
+            description: 'Last line of a line range (inclusive)',
+            required: false
+        },
+        preview: {
+            type: 'boolean',
+            description: 'Show the change for approval instead of applying it (default true)',
+            required: false
+        }
+    };
+
+    private pathValidator: PathValidator;
+    private backupManager: BackupManager;
+
+    constructor(private app: App, backupManager?: BackupManager, private runJournal?: AgentRunRecorder) {
+        // Use plugin config directory for default backup location
+        const defaultPath = app.vault.configDir + '/plugins/ai-assistant-for-obsidian';
+        this.backupManager = backupManager || new BackupManager(app, defaultPath);
+        this.pathValidator = new PathValidator(app);
+    }
+
+    /**
+     * Executes the note edit.
+     * Computes the edited note, then previews or applies it.
+     * @param params NoteEditParams
+     * @param context Execution context (may include debugMode)
+     * @returns ToolResult with the diff of the change
+     */
+    async execute(params: NoteEditParams, context: any): Promise<ToolResult> {
+        const debugMode = context?.plugin?.settings?.debugMode ?? true;
+        const inputPath = params.path || params.filePath;
+        const { operation, content, preview = true } = params;
+
+        if (inputPath === undefined || inputPath === null) {
+            return { success: false, error: 'path parameter is required' };
+        }
+        if (typeof content !== 'string') {
+            return { success: false, error: 'content parameter is required' };
+        }
+
+        // Validate and normalize the note path
+        let filePath: string;
+        try {
+            filePath = this.pathValidator.validateAndNormalizePath(inputPath);
+            this.pathValidator.assertWritable(filePath);
+        } catch (error: any) {
+            debugLog(debugMode, 'error', '[NoteEditTool] Path validation failed:', error);
+            return { success: false, error: `Path validation failed: ${error.message}` };
+        }
+
+        const file = this.pathValidator.isHidden(filePath) ? null : getTFileByPath(this.app, filePath, debugMode);
+        if (!file) {
+            return { success: false, error: `File not found: ${filePath}` };
+        }
+
+        try {
+            const currentContent = await this.app.vault.read(file);
+            let newContent: string;
+            try {
+                newContent = applyNoteEdit(currentContent, operation, params, content);
+            } catch (error: any) {
+                return { success: false, error: error.message };
+            }
+
+            const diff = formatChangedLines(currentContent, newContent);
+            if (newContent === currentContent) {
+                return { success: true, data: { action: 'unchanged', filePath } };
+            }
+
+            if (!preview) {
+                await this.applyChange(file, currentContent, newContent, this.runJournal?.getActiveRun() ?? null);
+                debugLog(debugMode, 'info', '[NoteEditTool] Applied note edit', { filePath, operation });
+                return { success: true, data: { action: 'applied', filePath, diff } };
+            }
+
+            // The change may be accepted after the agent run has ended
+            const run = this.runJournal?.getActiveRun() ?? null;
+            showFileChangeSuggestionsModal(this.app, [{
+                file,
+                suggestionText: diff,
+                onAccept: async () => {
+                    if (await this.app.vault.read(file) !== currentContent) {
+                        throw new Error(`${filePath} changed since the edit was suggested`);
+                    }
+                    await this.applyChange(file, currentContent, newContent, run);
+                }
+            }]);
+            return {
+                success: true,
+                data: { action: 'preview', filePath, diff, message: `Showing the edit to ${filePath} for approval` }
+            };
+        } catch (error: any) {
+            debugLog(debugMode, 'error', '[NoteEditTool] Failed to edit note:', error);
+            return { success: false, error: `Failed to edit note: ${error.message}` };
+        }
+    }
+
+    /**
+     * Writes the edited note, backing up and journaling the previous content.
+     */
+    private async applyChange(file: TFile, previousContent: string, content: string, run: ReturnType<AgentRunRecorder['getActiveRun']>): Promise<void> {
+        if (await this.backupManager.shouldCreateBackup(file.path, content)) {
+            await this.backupManager.createBackup(file.path, previousContent);
+        }
+        await this.app.vault.modify(file, content);
+        this.runJournal?.record({ type: 'edit', path: file.path, previousContent, content, tool: this.name }, run);
+    }
+}
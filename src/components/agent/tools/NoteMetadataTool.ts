@@ -0,0 +1,208 @@
+import { App, TFile } from 'obsidian';
+import { Tool, ToolResult } from '../ToolRegistry';
+import { PathValidator } from './pathValidation';
+import { BackupManager } from '../../BackupManager';
+import { AgentRunRecorder } from '../AgentRunJournal';
+import { getTFileByPath } from '../../../utils/fileUtils';
+import { debugLog } from '../../../utils/logger';
+
+/**
+ * Parameters for reading or changing note metadata.
+ */
+export interface NoteMetadataParams {
+    path: string;                          // Path to the note (required)
+    filePath?: string;                     // Alternate/legacy path parameter
+    action?: 'read' | 'set' | 'remove';   // Defaults to 'read'
+    field?: string;                        // Frontmatter field to set or remove
+    value?: unknown;                       // Value to set
+}
+
+/**
+ * Tool for reading a note's metadata from Obsidian's metadata cache (frontmatter, tags,
+ * headings, links and backlinks) and for setting or removing single frontmatter fields
+ * without rewriting the rest of the note.
+ */
+export class NoteMetadataTool implements Tool {
+    name = 'note_metadata';
+    description = 'Read note metadata (frontmatter, tags, headings, links, backlinks) or set/remove one frontmatter field without rewriting the note. Prefer over file_write for YAML changes.';
+    parameters = {
+        path: {
+            type: 'string',
+            description: 'Note path relative to vault root',
+            required: true
+        },
+        action: {
+            type: 'string',
+            enum: ['read', 'set', 'remove'],
+            description: '"read" (default), "set" a frontmatter field or "remove" one',
+            required: false
+        },
+        field: {
+            type: 'string',
+            description: 'Frontmatter field to set or remove',
+            required: false
+        },
+        value: {
+            type: 'string',
+            description: 'Value to set: text, or JSON for numbers, booleans and lists (e.g. ["a", "b"])',
+            required: false
+        }
+    };
+
+    private pathValidator: PathValidator;
+    private backupManager: BackupManager;
+
+    constructor(private app: App, backupManager?: BackupManager, private runJournal?: AgentRunRecorder) {
+        // Use plugin config directory for default backup location
+        const defaultPath = app.vault.configDir + '/plugins/ai-assistant-for-obsidian';
+        this.backupManager = backupManager || new BackupManager(app, defaultPath);
+        this.pathValidator = new PathValidator(app);
+    }
+
+    /**
+     * Executes the metadata operation.
+     * @param params NoteMetadataParams
+     * @param context Execution context (unused)
+     * @returns ToolResult with the note's metadata, or the outcome of the change
+     */
+    async execute(params: NoteMetadataParams, context: any): Promise<ToolResult> {
+        const debugMode = context?.plugin?.settings?.debugMode ?? true;
+        const inputPath = params.path || params.filePath;
+        const action = params.action ?? 'read';
+
+        if (inputPath === undefined || inputPath === null) {
+            return { success: false, error: 'path parameter is required' };
+        }
+        if (!['read', 'set', 'remove'].includes(action)) {
+            return { success: false, error: `Unknown action: ${action}. Use "read", "set" or "remove"` };
+        }
+
+        // Validate and normalize the note path; changes also need write access
+        let filePath: string;
+        try {
+            filePath = this.pathValidator.validateAndNormalizePath(inputPath);
+            if (action !== 'read') {
+                this.pathValidator.assertWritable(filePath);
+            }
+        } catch (error: any) {
+            debugLog(debugMode, 'error', '[NoteMetadataTool] Path validation failed:', error);
+            return { success: false, error: `Path validation failed: ${error.message}` };
+        }
+
+        const file = this.pathValidator.isHidden(filePath) ? null : getTFileByPath(this.app, filePath, debugMode);
+        if (!file) {
+            return { success: false, error: `File not found: ${filePath}` };
+        }
+
+        try {
+            if (action === 'read') {
+                return { success: true, data: this.readMetadata(file) };
+            }
+
+            const field = typeof params.field === 'string' ? params.field.trim() : '';
+            if (!field) {
+                return { success: false, error: `field parameter is required for action "${action}"` };
+            }
+            if (action === 'set' && params.value === undefined) {
+                return { success: false, error: 'value parameter is required for action "set"' };
+            }
+            return await this.changeField(file, action, field, params.value, debugMode);
+        } catch (error: any) {
+            debugLog(debugMode, 'error', '[NoteMetadataTool] Metadata operation failed:', error);
+            return { success: false, error: `Failed to ${action} metadata: ${error.message}` };
+        }
+    }
+
+    /**
+     * Collects the cached metadata of a note.
+     * Backlinks are the notes whose resolved links point to this note.
+     */
+    private readMetadata(file: TFile) {
+        const cache = this.app.metadataCache.getFileCache(file);
+        const { position, ...frontmatter } = (cache?.frontmatter ?? {}) as Record<string, any>;
+
+        // Tags from the frontmatter and the body, with a leading '#'
+        const frontmatterTags = [frontmatter.tags ?? frontmatter.tag ?? []]
+            .flat()
+            .flatMap((tag: unknown) => typeof tag === 'string' ? tag.split(/[,\s]+/) : [])
+            .filter(tag => tag !== '')
+            .map(tag => tag.startsWith('#') ? tag : `#${tag}`);
+        const tags = Array.from(new Set([...frontmatterTags, ...(cache?.tags ?? []).map(tag => tag.tag)]));
+
+        const links = [...(cache?.links ?? []), ...(cache?.embeds ?? [])].map(link => ({
+            link: link.link,
+            displayText: link.displayText,
+            resolvedPath: this.app.metadataCache.getFirstLinkpathDest(link.link.split('#')[0], file.path)?.path ?? null
+        }));
+
+        const resolvedLinks = this.app.metadataCache.resolvedLinks ?? {};
+        const backlinks = Object.keys(resolvedLinks)
+            .filter(source => source !== file.path && resolvedLinks[source]?.[file.path] > 0 && !this.pathValidator.isHidden(source))
+            .sort();
+
+        return {
+            filePath: file.path,
+            frontmatter,
+            tags,
+            headings: (cache?.headings ?? []).map(heading => ({ heading: heading.heading, level: heading.level })),
+            links,
+            backlinks
+        };
+    }
+
+    /**
+     * Sets or removes one frontmatter field, backing up and journaling the note.
+     */
+    private async changeField(file: TFile, action: 'set' | 'remove', field: string, rawValue: unknown, debugMode: boolean): Promise<ToolResult> {
+        // Imported lazily: YAMLHandler depends on the prompt constants, which list the tools
+        const { removeYamlField, upsertYamlField } = await import('../../../YAMLHandler');
+        const previousContent = await this.app.vault.read(file);
+
+        let changed = true;
+        let value: unknown;
+        if (action === 'set') {
+            value = this.parseValue(rawValue);
+            await upsertYamlField(this.app, file, field, value);
+        } else {
+            changed = await removeYamlField(this.app, file, field);
+        }
+
+        if (changed) {
+            const content = await this.app.vault.read(file);
+            if (content !== previousContent) {
+                if (await this.backupManager.shouldCreateBackup(file.path, content)) {
+                    await this.backupManager.createBackup(file.path, previousContent);
+                }
+                this.runJournal?.record({ type: 'edit', path: file.path, previousContent, content, tool: this.name });
+            }
+        }
+        debugLog(debugMode, 'info', '[NoteMetadataTool] Frontmatter field changed', { filePath: file.path, action, field, changed });
+
+        return {
+            success: true,
+            data: {
+                action: changed ? (action === 'set' ? 'field_set' : 'field_removed') : 'unchanged',
+                filePath: file.path,
+                field,
+                ...(action === 'set' ? { value } : {})
+            }
+        };
+    }
+
+    /**
+     * Interprets a value given as JSON text (numbers, booleans, lists, objects);
+     * anything else is kept as given.
+     */
+    private parseValue(value: unknown): unknown {
+        if (typeof value !== 'string') return value;
+        const trimmed = value.trim();
+        if (/^(\[|\{|-?\d|true$|false$|null$)/.test(trimmed)) {
+            try {
+                return JSON.parse(trimmed);
+            } catch {
+                // Not JSON; keep the text
+            }
+        }
+        return value;
+    }
+}
@@ -0,0 +1,122 @@
+// Import necessary types from Obsidian API
+import { App } from 'obsidian';
+// Import base Tool and ToolResult types for plugin tool integration
+import { Tool, ToolResult } from '../ToolRegistry';
+import type { SemanticIndex } from '../../semantic/SemanticIndex';
+import { PathValidator } from './pathValidation';
+
+/**
+ * Interface for the parameters you can pass to the semantic search tool.
+ * - query: Natural-language description of what to find.
+ * - maxResults: The maximum number of passages to return.
+ * - threshold: Minimum similarity score (0-1) for a passage to be included.
+ * - folder: Only search notes inside this folder.
+ */
+export interface SemanticSearchParams {
+    query: string;
+    maxResults?: number;
+    threshold?: number;
+    folder?: string;
+}
+
+/**
+ * SemanticSearchTool finds passages in the vault by meaning rather than exact words,
+ * using the plugin's local semantic index of note embeddings.
+ *
+ * Example usage:
+ *   - Find notes discussing "how we decided on the pricing model"
+ *   - Find passages related to a concept when the exact wording is unknown
+ */
+export class SemanticSearchTool implements Tool {
+    name = 'semantic_search';
+    description = 'Find note passages by meaning using the semantic index. Use when exact words are unknown; use file_search for names or exact text.';
+    parameters = {
+        query: {
+            type: 'string',
+            description: 'What to look for, in natural language',
+            required: true
+        },
+        maxResults: {
+            type: 'number',
+            description: 'Maximum passages to return (default from settings)',
+            required: false
+        },
+        threshold: {
+            type: 'number',
+            description: 'Minimum similarity 0-1 (default from settings)',
+            required: false
+        },
+        folder: {
+            type: 'string',
+            description: 'Only search notes in this folder',
+            required: false
+        }
+    };
+
+    // Hides passages from notes excluded from agent tools
+    private pathValidator: PathValidator;
+
+    /**
+     * @param app The main Obsidian app object
+     * @param semanticIndex The plugin's semantic index, if available
+     */
+    constructor(private app: App, private semanticIndex?: SemanticIndex) {
+        this.pathValidator = new PathValidator(app);
+    }
+
+    /**
+     * Runs a semantic search over the indexed notes.
+     * @param params The search parameters
+     * @param context (Unused, but required by Tool interface)
+     * @returns ToolResult with the best matching passages or an error message
+     */
+    async execute(params: SemanticSearchParams, context: any): Promise<ToolResult> {
+        const { query, maxResults, threshold, folder } = params;
+
+        if (!query || !query.trim()) {
+            return { success: false, error: 'Query parameter is required' };
+        }
+        if (!this.semanticIndex || !this.semanticIndex.isEnabled()) {
+            return {
+                success: false,
+                error: 'Semantic search is disabled. Enable it in settings under Semantic Search, or use file_search instead.'
+            };
+        }
+
+        try {
+            const pathPrefix = folder ? folder.replace(/^\/+|\/+$/g, '') + '/' : undefined;
+            const results = await this.semanticIndex.search(query, {
+                maxResults,
+                threshold,
+                pathPrefix,
+                includePath: path => !this.pathValidator.isHidden(path)
+            });
+
+            if (results.length === 0) {
+                return {
+                    success: false,
+                    error: `No passages found related to: "${query}". Try a lower threshold or file_search.`
+                };
+            }
+
+            return {
+                success: true,
+                data: {
+                    query,
+                    count: results.length,
+                    results: results.map(result => ({
+                        path: result.path,
+                        heading: result.heading,
+                        score: Math.round(result.score * 1000) / 1000,
+                        text: result.text
+                    }))
+                }
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                error: `Failed to run semantic search: ${error.message}`
+            };
+        }
+    }
+}
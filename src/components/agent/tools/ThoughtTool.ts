@@ -55,6 +55,16 @@ export class ThoughtTool implements Tool {
             type: 'string',
             description: 'Brief description of next step or completion status',
             required: true
+        },
+        step: {
+            type: 'number',
+            description: 'Number of the plan step being worked on',
+            required: false
+        },
+        totalSteps: {
+            type: 'number',
+            description: 'Total number of plan steps',
+            required: false
         }
     };
 
@@ -66,7 +66,7 @@ export class VaultTreeTool implements Tool {
         if (startPath === '' || startPath === '/') {
             startFolder = vault.getRoot();
         } else {
-            startFolder = vault.getAbstractFileByPath(startPath);
+            startFolder = this.pathValidator.getVisibleAbstractFile(startPath);
         }
 
         if (!startFolder || !(startFolder instanceof TFolder)) {
@@ -86,6 +86,9 @@ export class VaultTreeTool implements Tool {
          * @param prefix Indentation prefix for visual tree
          * @param depth Current depth in the tree
          */
+        const visibleChildren = (folder: TFolder) =>
+            folder.children.filter(child => !this.pathValidator.isHidden(child.path));
+
         const buildTree = (
             folder: TFolder,
             prefix: string = '',
@@ -101,7 +104,7 @@ export class VaultTreeTool implements Tool {
 
             // Add folder line (except for root if depth==0)
             if (depth > 0 && showFolders) {
-                const itemCount = folder.children.length;
+                const itemCount = visibleChildren(folder).length;
                 treeLines.push(`${prefix}📁${folder.name}/(${itemCount} items)`);
                 totalItems++;
                 if (totalItems >= maxItems) {
@@ -111,7 +114,7 @@ export class VaultTreeTool implements Tool {
             }
 
             // Sort children: folders first, then files, then by name
-            const children = [...folder.children];
+            const children = visibleChildren(folder);
             children.sort((a, b) => {
                 if (isTFolder(a) && isTFile(b)) return -1;
                 if (isTFile(a) && isTFolder(b)) return 1;
@@ -146,7 +149,7 @@ export class VaultTreeTool implements Tool {
         try {
             // Add root folder line if starting at root
             if (startPath === '' || startPath === '/') {
-                const rootItemCount = startFolder.children.length;
+                const rootItemCount = visibleChildren(startFolder).length;
                 treeLines.push(`📁Vault Root/(${rootItemCount} items)`);
                 totalItems++;
             }
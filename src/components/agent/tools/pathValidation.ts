@@ -1,21 +1,54 @@
-import { App } from 'obsidian';
+import { App, TAbstractFile, TFolder } from 'obsidian';
 import { join, normalize, isAbsolute, relative } from 'path';
 import { getVaultBasePath } from '../../../utils/typeGuards';
+import { matchesPathOrFolderGlob } from '../../../utils/pathGlob';
+import { VaultAccessSettings } from '../../../types';
+
+/** Returns the folder and file globs agent tools are limited to */
+type VaultAccessProvider = () => VaultAccessSettings | undefined;
+
+// Shared by every PathValidator that is not given its own provider; set by the plugin on load.
+let defaultVaultAccessProvider: VaultAccessProvider = () => undefined;
+
+/**
+ * Sets where PathValidators read the include, exclude and read-only globs from.
+ * @param provider Returns the current vault access settings.
+ */
+export function setVaultAccessProvider(provider: VaultAccessProvider): void {
+    defaultVaultAccessProvider = provider;
+}
+
+/**
+ * Checks whether a folder has to stay visible so that paths matching an include glob can be reached.
+ */
+function isAncestorOfGlob(folderPath: string, glob: string): boolean {
+    const trimmed = glob.trim().replace(/^\/+|\/+$/g, '');
+    const wildcard = trimmed.search(/[*?]/);
+    // Folders above the first wildcard, e.g. "Projects/" for "Projects/Work/*.md"
+    const literal = wildcard === -1 ? `${trimmed}/` : trimmed.slice(0, trimmed.lastIndexOf('/', wildcard) + 1);
+    if (literal.startsWith(`${folderPath}/`)) return true;
+    // "**" can match any depth below its literal folder
+    return trimmed.includes('**') && `${folderPath}/`.startsWith(literal);
+}
 
 /**
  * Utility class for validating and normalizing file paths within the vault.
- * Ensures all file operations are restricted to the vault directory.
+ * Ensures all file operations are restricted to the vault directory,
+ * and applies the configured include, exclude and read-only globs.
  */
 export class PathValidator {
     private vaultPath: string;
+    private getVaultAccess: VaultAccessProvider;
 
     /**
      * Constructs a PathValidator for the given Obsidian app.
      * @param app The Obsidian App instance.
+     * @param getVaultAccess Returns the access globs; defaults to the provider set with {@link setVaultAccessProvider}.
      */
-    constructor(private app: App) {
+    constructor(private app: App, getVaultAccess?: VaultAccessProvider) {
         // The vault's absolute path on disk using type-safe helper
         this.vaultPath = getVaultBasePath(this.app);
+        this.getVaultAccess = getVaultAccess ?? (() => defaultVaultAccessProvider());
     }
 
     /**
@@ -90,6 +123,79 @@ export class PathValidator {
         }
     }
 
+    /**
+     * Checks whether a normalized path is hidden from agent tools.
+     * Excluded paths are hidden; when include globs are set, everything else outside them is hidden too.
+     * @param path The normalized vault-relative path.
+     * @returns True if tools must behave as if the path did not exist.
+     */
+    isHidden(path: string): boolean {
+        if (path === '') return false;
+        const access = this.getVaultAccess();
+        if (!access) return false;
+
+        if (access.excludePaths.some(glob => matchesPathOrFolderGlob(path, glob))) {
+            return true;
+        }
+        const includePaths = access.includePaths.filter(glob => glob.trim() !== '');
+        if (includePaths.length === 0) return false;
+        return !includePaths.some(glob => matchesPathOrFolderGlob(path, glob) || isAncestorOfGlob(path, glob));
+    }
+
+    /**
+     * Checks whether a normalized path may be read but not changed by agent tools.
+     * @param path The normalized vault-relative path.
+     */
+    isReadOnly(path: string): boolean {
+        const access = this.getVaultAccess();
+        return !!access && access.readOnlyPaths.some(glob => matchesPathOrFolderGlob(path, glob));
+    }
+
+    /**
+     * Looks up a file or folder, treating hidden paths as missing.
+     * @param path The normalized vault-relative path.
+     * @returns The file or folder, or null if it does not exist or is hidden.
+     */
+    getVisibleAbstractFile(path: string): TAbstractFile | null {
+        if (this.isHidden(path)) return null;
+        return this.app.vault.getAbstractFileByPath(path);
+    }
+
+    /**
+     * Ensures agent tools may create, change, move or delete a path.
+     * Throws if the path is hidden or read-only.
+     * @param path The normalized vault-relative path.
+     */
+    assertWritable(path: string): void {
+        if (this.isHidden(path)) {
+            throw new Error(`Path '${path}' is outside the folders agent tools may access.`);
+        }
+        if (this.isReadOnly(path)) {
+            throw new Error(`Path '${path}' is read-only for agent tools.`);
+        }
+    }
+
+    /**
+     * Ensures agent tools may move or delete a path together with everything inside it.
+     * Throws if the path, or any file or folder below it, is hidden or read-only.
+     * @param path The normalized vault-relative path.
+     */
+    assertTreeWritable(path: string): void {
+        this.assertWritable(path);
+        const target = this.app.vault.getAbstractFileByPath(path);
+        if (!(target instanceof TFolder)) return;
+
+        const pending: TAbstractFile[] = [...target.children];
+        while (pending.length > 0) {
+            const child = pending.pop()!;
+            // The message leaves out the child's path, which may be hidden from the agent
+            if (this.isHidden(child.path) || this.isReadOnly(child.path)) {
+                throw new Error(`Folder '${path}' contains files agent tools may not change.`);
+            }
+            if (child instanceof TFolder) pending.push(...child.children);
+        }
+    }
+
     /**
      * Gets the vault's base path (absolute path on disk).
      * @returns The absolute path to the vault root.
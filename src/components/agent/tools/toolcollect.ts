@@ -1,4 +1,5 @@
 import { FileSearchTool } from './FileSearchTool';
+import { SemanticSearchTool } from './SemanticSearchTool';
 import { FileReadTool } from './FileReadTool';
 import { FileWriteTool } from './FileWriteTool';
 import { FileDiffTool } from './FileDiffTool';
@@ -8,6 +9,14 @@ import { FileListTool } from './FileListTool';
 import { VaultTreeTool } from './VaultTreeTool';
 import { FileDeleteTool } from './FileDeleteTool';
 import { GetUserFeedbackTool } from './GetUserFeedback';
+import { NoteMetadataTool } from './NoteMetadataTool';
+import { NoteEditTool } from './NoteEditTool';
+import { GetBacklinksTool } from './GetBacklinksTool';
+import { GetOutgoingLinksTool } from './GetOutgoingLinksTool';
+import { FindOrphansTool } from './FindOrphansTool';
+import { FindUnresolvedLinksTool } from './FindUnresolvedLinksTool';
+import { ToolDefinition } from '../../../types';
+import type { AgentRunRecorder } from '../AgentRunJournal';
 
 /**
  * Returns an array of all tool classes.
@@ -17,6 +26,7 @@ export function getAllToolClasses(): any[] {
     // List all tool classes here
     return [
         FileSearchTool,
+        SemanticSearchTool,
         FileReadTool,
         FileWriteTool,
         FileDiffTool,
@@ -25,7 +35,13 @@ export function getAllToolClasses(): any[] {
         FileListTool,
         VaultTreeTool,
         FileDeleteTool,
-        GetUserFeedbackTool
+        GetUserFeedbackTool,
+        NoteMetadataTool,
+        NoteEditTool,
+        GetBacklinksTool,
+        GetOutgoingLinksTool,
+        FindOrphansTool,
+        FindUnresolvedLinksTool
     ];
 }
 
@@ -137,27 +153,65 @@ export function getAllToolNames(): string[] {
     return getToolMetadata().map(tool => tool.name);
 }
 
+/**
+ * Returns JSON Schema definitions for the enabled tools, for use with
+ * providers' native function-calling APIs. The 'thought' tool is always included.
+ * @param enabledTools Optional map of tool name to enabled state.
+ * @returns Array of provider-neutral tool definitions.
+ */
+export function getToolDefinitions(enabledTools?: Record<string, boolean>): ToolDefinition[] {
+    return getToolMetadata()
+        .filter(tool => tool.name === 'thought' || !enabledTools || enabledTools[tool.name] !== false)
+        .map(tool => {
+            const properties: Record<string, any> = {};
+            const required: string[] = [];
+            for (const [param, spec] of Object.entries<any>(tool.parameters || {})) {
+                if (!spec || typeof spec !== 'object') continue;
+                const property: Record<string, any> = { type: spec.type || 'string' };
+                if (spec.description) property.description = spec.description;
+                if (spec.enum) property.enum = spec.enum;
+                if (spec.items) property.items = spec.items;
+                // Arrays must declare their item type for strict schema validators
+                if (property.type === 'array' && !property.items) property.items = { type: 'string' };
+                properties[param] = property;
+                if (spec.required) required.push(param);
+            }
+            return {
+                name: tool.name,
+                description: tool.description,
+                parameters: { type: 'object' as const, properties, required }
+            };
+        });
+}
+
 /**
  * Instantiates all tool classes with the provided app and (optionally) plugin.
- * Some tools may require a backupManager from the plugin.
+ * Some tools may require a backupManager or the agent run journal from the plugin.
  * @param app The Obsidian app instance.
  * @param plugin Optional plugin instance (for backupManager and debugLog).
+ * @param runJournal Where file-changing tools journal their changes; defaults to the plugin's agent run journal.
  * @returns Array of tool instances.
  */
-export function createToolInstances(app: any, plugin?: any): any[] {
+export function createToolInstances(app: any, plugin?: any, runJournal: AgentRunRecorder | undefined = plugin?.agentRunJournal): any[] {
     if (plugin && typeof plugin.debugLog === 'function') {
         plugin.debugLog('info', '[toolcollect] createToolInstances called');
     }
     const toolClasses = getAllToolClasses();
 
-    // Instantiate each tool, passing backupManager if needed
+    // Instantiate each tool, passing backupManager or semanticIndex if needed
     const tools = toolClasses.map(ToolClass => {
-        // FileWriteTool and FileDeleteTool may require backupManager
-        const instance = plugin && (ToolClass.name === 'FileWriteTool' || ToolClass.name === 'FileDeleteTool')
-            ? new ToolClass(app, plugin.backupManager)
-            : new ToolClass(app);
-
-        return instance;
+        // FileWriteTool, FileDeleteTool, NoteMetadataTool and NoteEditTool may require backupManager; all file-changing tools journal agent runs
+        if (plugin && (ToolClass.name === 'FileWriteTool' || ToolClass.name === 'FileDeleteTool' || ToolClass.name === 'NoteMetadataTool' || ToolClass.name === 'NoteEditTool')) {
+            return new ToolClass(app, plugin.backupManager, runJournal);
+        }
+        if (plugin && (ToolClass.name === 'FileDiffTool' || ToolClass.name === 'FileMoveTool')) {
+            return new ToolClass(app, runJournal);
+        }
+        // SemanticSearchTool queries the plugin's semantic index
+        if (plugin && ToolClass.name === 'SemanticSearchTool') {
+            return new ToolClass(app, plugin.semanticIndex);
+        }
+        return new ToolClass(app);
     });
     if (plugin && typeof plugin.debugLog === 'function') {
         plugin.debugLog('debug', '[toolcollect] Tool instances created', { count: tools.length });
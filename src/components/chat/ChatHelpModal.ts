@@ -75,6 +75,9 @@ export class ChatHelpModal extends Modal {
                 <code>/save</code> – Save chat as note<br>
                 <code>/settings</code> – Open settings<br>
                 <code>/help</code> – Show this help<br>
+                <code>/new</code> – Start a new chat session<br>
+                <code>/sessions</code> – Search chat sessions<br>
+                <code>/&lt;prompt&gt;</code> – Send a prompt from the prompt library folder; type <code>/</code> to list them<br>
                 <br>
             `;
         }));
@@ -5,6 +5,8 @@ import { ReasoningData, TaskStatus, ToolExecutionResult } from '../../types';
  * Represents a single chat message in the chat history.
  */
 export interface ChatMessage {
+  id?: string;                      // Unique message id (assigned when the message is stored)
+  parentId?: string | null;         // Id of the message this one follows; null at the start of the conversation
   timestamp: string;                // ISO timestamp of the message
   sender: string;                   // Sender identifier (e.g., "user" or "assistant")
   role: 'system' | 'user' | 'assistant'; // Message role for AI processing
@@ -14,15 +16,38 @@ export interface ChatMessage {
   toolResults?: ToolExecutionResult[]; // Optional tool execution results (for agent mode)
 }
 
+/**
+ * Contents of a history file: the messages of every branch and the last message of the active branch.
+ */
+interface ChatHistoryData {
+  messages: ChatMessage[];
+  activeLeafId?: string;
+}
+
+/**
+ * Position of a message among its alternatives (messages with the same parent).
+ */
+export interface ChatBranchInfo {
+  index: number;           // Zero-based position of the message among its siblings
+  siblingIds: string[];    // Ids of all siblings, including the message itself, oldest first
+}
+
 /**
  * ChatHistoryManager handles persistent storage and management of chat history.
  * Stores messages in a JSON file in the plugin's data folder.
+ *
+ * History is a tree: regenerating a response or editing a message adds a sibling
+ * instead of overwriting, so earlier continuations stay available as branches.
+ * `getHistory()` returns the active branch as a linear conversation. Files written
+ * before branching (a plain array of messages) are read as a single branch.
  */
 export class ChatHistoryManager {
   private vault: Vault;
+  private pluginFolder: string;
   private historyFilePath: string;
-  private history: ChatMessage[] = [];
-  private isLoaded: boolean = false;
+  private messages: ChatMessage[] = [];
+  private activeLeafId?: string;
+  private changeListener?: (history: ChatMessage[]) => void;
 
   /**
    * @param vault The Obsidian Vault instance
@@ -39,7 +64,8 @@ export class ChatHistoryManager {
     }
     const fPath = historyFilePath || "chat-history.json";
     // Store history in the plugin's data folder
-    this.historyFilePath = normalizePath(`.obsidian/plugins/${effectivePluginId}/${fPath}`);
+    this.pluginFolder = `.obsidian/plugins/${effectivePluginId}`;
+    this.historyFilePath = normalizePath(`${this.pluginFolder}/${fPath}`);
 
     // (Legacy/placeholder for possible Notice usage)
     // @ts-ignore
@@ -48,6 +74,24 @@ export class ChatHistoryManager {
     }
   }
 
+  /**
+   * Points the manager at another history file, e.g. when switching chat sessions.
+   * Objects holding this manager keep working and read and write the new file from then on.
+   * @param historyFilePath File path relative to the plugin's data folder
+   */
+  setHistoryFile(historyFilePath: string): void {
+    this.historyFilePath = normalizePath(`${this.pluginFolder}/${historyFilePath}`);
+    this.setData({ messages: [] });
+  }
+
+  /**
+   * Registers a callback invoked with the active branch after every save.
+   * @param listener The callback, or undefined to remove it
+   */
+  setChangeListener(listener?: (history: ChatMessage[]) => void): void {
+    this.changeListener = listener;
+  }
+
   /**
    * Ensures the directory for the history file exists, creating it if needed.
    */
@@ -78,7 +122,7 @@ export class ChatHistoryManager {
   /**
    * Loads chat history from the history file.
    * If the file does not exist or is invalid, returns an empty array.
-   * @returns Promise resolving to the chat history array
+   * @returns Promise resolving to the messages of the active branch
    */
   async loadHistory(): Promise<ChatMessage[]> {
     try {
@@ -86,63 +130,153 @@ export class ChatHistoryManager {
       if (exists) {
         const data = await this.vault.adapter.read(this.historyFilePath);
         try {
-          this.history = JSON.parse(data) as ChatMessage[];
+          const parsed = JSON.parse(data);
+          this.setData(Array.isArray(parsed) ? { messages: parsed } : parsed);
         } catch (parseError) {
           console.error('Failed to parse chat history:', parseError);
-          this.history = [];
+          this.setData({ messages: [] });
         }
       } else {
-        this.history = [];
+        this.setData({ messages: [] });
       }
     } catch (e) {
       console.error('Failed to load chat history:', e);
-      this.history = [];
+      this.setData({ messages: [] });
     }
-    return this.history;
+    return this.getActiveBranch();
   }
 
   /**
-   * Adds a new message to the chat history and saves it.
-   * @param message The ChatMessage to add
+   * Adds a new message to the chat history and saves it. The message becomes the end of the active branch.
+   * @param message The ChatMessage to add. Without a `parentId` it follows the active branch;
+   *                with one it starts a new branch next to that parent's other replies.
+   * @returns The stored message, including its id
    */
-  async addMessage(message: ChatMessage): Promise<void> {
-    const currentHistory = await this.loadHistory();
-    currentHistory.push(message);
-    this.history = currentHistory;
+  async addMessage(message: ChatMessage): Promise<ChatMessage> {
+    await this.loadHistory();
+    const stored: ChatMessage = {
+      ...message,
+      id: message.id ?? this.generateId(),
+      parentId: message.parentId !== undefined ? message.parentId : (this.activeLeafId ?? null)
+    };
+    this.messages.push(stored);
+    this.activeLeafId = stored.id;
     await this.saveHistory();
+    return stored;
   }
 
   /**
-   * Returns the current chat history (loads from disk if needed).
+   * Returns the active branch of the chat history (loads from disk if needed).
    * @returns Promise resolving to the chat history array
    */
   async getHistory(): Promise<ChatMessage[]> {
     return await this.loadHistory();
   }
 
+  /**
+   * Returns the messages of all branches.
+   */
+  async getAllMessages(): Promise<ChatMessage[]> {
+    await this.loadHistory();
+    return [...this.messages];
+  }
+
+  /**
+   * Id of the last message of the active branch, as of the last load.
+   */
+  getActiveLeafId(): string | undefined {
+    return this.activeLeafId;
+  }
+
+  /**
+   * Returns a message by id, as of the last load.
+   */
+  getMessage(id: string): ChatMessage | undefined {
+    return this.messages.find(message => message.id === id);
+  }
+
+  /**
+   * Returns where a message sits among its alternatives, as of the last load.
+   * @param id The message id
+   */
+  getBranchInfo(id: string): ChatBranchInfo | undefined {
+    const message = this.getMessage(id);
+    if (!message) return undefined;
+    const siblingIds = this.messages
+      .filter(other => (other.parentId ?? null) === (message.parentId ?? null))
+      .map(other => other.id as string);
+    return { index: siblingIds.indexOf(id), siblingIds };
+  }
+
+  /**
+   * Makes the branch containing a message active, following its most recent replies to the end.
+   * @param id Id of the message to switch to
+   * @returns Promise resolving to the messages of the new active branch
+   */
+  async switchBranch(id: string): Promise<ChatMessage[]> {
+    await this.loadHistory();
+    if (!this.getMessage(id)) {
+      throw new Error(`Message not found in chat history: ${id}`);
+    }
+    let leafId = id;
+    let children = this.getChildren(leafId);
+    while (children.length > 0) {
+      leafId = children[children.length - 1].id as string;
+      children = this.getChildren(leafId);
+    }
+    this.activeLeafId = leafId;
+    await this.saveHistory();
+    return this.getActiveBranch();
+  }
+
   /**
    * Clears the chat history and saves the empty history.
    */
   async clearHistory(): Promise<void> {
-    this.history = [];
+    this.setData({ messages: [] });
+    await this.saveHistory();
+  }
+
+  /**
+   * Replaces the whole chat history and saves it.
+   * Messages without ids are stored as one branch in the given order.
+   * @param messages The messages to store
+   * @param activeLeafId Last message of the active branch (defaults to the last message)
+   */
+  async replaceHistory(messages: ChatMessage[], activeLeafId?: string): Promise<void> {
+    this.setData({ messages: messages.map(message => ({ ...message })), activeLeafId });
     await this.saveHistory();
   }
 
+  /**
+   * Removes the history file from disk.
+   */
+  async deleteHistoryFile(): Promise<void> {
+    this.setData({ messages: [] });
+    if (await this.vault.adapter.exists(this.historyFilePath)) {
+      await this.vault.adapter.remove(this.historyFilePath);
+    }
+  }
+
   /**
    * Deletes a specific message from the chat history by timestamp, sender, and content.
+   * Replies to the deleted message move up to its parent.
    * @param timestamp The timestamp of the message to delete
    * @param sender The sender of the message to delete
    * @param content The content of the message to delete
    */
   async deleteMessage(timestamp: string, sender: string, content: string): Promise<void> {
     await this.loadHistory();
-    const index = this.history.findIndex(msg =>
-      msg.timestamp === timestamp &&
-      msg.sender === sender &&
-      msg.content === content
-    );
-    if (index !== -1) {
-      this.history.splice(index, 1);
+    const message = this.findMessage(timestamp, sender, content);
+    if (message) {
+      this.messages = this.messages.filter(other => other !== message);
+      for (const child of this.getChildren(message.id as string)) {
+        child.parentId = message.parentId ?? null;
+      }
+      if (this.activeLeafId === message.id) {
+        this.activeLeafId = message.parentId ?? undefined;
+      }
+      this.setData({ messages: this.messages, activeLeafId: this.activeLeafId });
       await this.saveHistory();
     }
   }
@@ -164,11 +298,7 @@ export class ChatHistoryManager {
     enhancedData?: Partial<Pick<ChatMessage, 'reasoning' | 'taskStatus' | 'toolResults'>>
   ): Promise<void> {
     await this.loadHistory();
-    const message = this.history.find(msg =>
-      msg.timestamp === timestamp &&
-      msg.sender === sender &&
-      msg.content === oldContent
-    );
+    const message = this.findMessage(timestamp, sender, oldContent);
     if (message) {
       message.content = newContent;
       if (enhancedData) {
@@ -189,7 +319,8 @@ export class ChatHistoryManager {
   private async saveHistory(): Promise<void> {
     try {
       await this.ensureDirectoryExists();
-      const data = JSON.stringify(this.history, null, 2);
+      const history: ChatHistoryData = { messages: this.messages, activeLeafId: this.activeLeafId };
+      const data = JSON.stringify(history, null, 2);
 
       const abstractTarget = this.vault.getAbstractFileByPath(this.historyFilePath);
       if (abstractTarget instanceof TFolder) {
@@ -197,6 +328,7 @@ export class ChatHistoryManager {
       }
 
       await this.vault.adapter.write(this.historyFilePath, data);
+      this.changeListener?.(this.getActiveBranch());
 
       // Optionally, check file existence after writing
       if (!abstractTarget || !(abstractTarget instanceof TFile)) {
@@ -207,4 +339,55 @@ export class ChatHistoryManager {
       throw e;
     }
   }
+
+  /**
+   * Sets the in-memory history, assigning ids to messages without one.
+   * Messages without a `parentId` field (written before branching) follow the previous message.
+   */
+  private setData(data: ChatHistoryData): void {
+    let previousId: string | null = null;
+    this.messages = (data.messages || []).map(message => {
+      const normalized: ChatMessage = {
+        ...message,
+        id: message.id ?? this.generateId(),
+        parentId: message.parentId !== undefined ? message.parentId : previousId
+      };
+      previousId = normalized.id as string;
+      return normalized;
+    });
+    const lastId = this.messages.length > 0 ? this.messages[this.messages.length - 1].id : undefined;
+    this.activeLeafId = data.activeLeafId && this.getMessage(data.activeLeafId) ? data.activeLeafId : lastId;
+  }
+
+  /**
+   * Messages of the active branch, from the first message to the active leaf.
+   */
+  private getActiveBranch(): ChatMessage[] {
+    const byId = new Map(this.messages.map(message => [message.id, message]));
+    const branch: ChatMessage[] = [];
+    const visited = new Set<string>();
+    let current = this.activeLeafId ? byId.get(this.activeLeafId) : undefined;
+    while (current && !visited.has(current.id as string)) {
+      visited.add(current.id as string);
+      branch.unshift(current);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return branch;
+  }
+
+  private getChildren(id: string): ChatMessage[] {
+    return this.messages.filter(message => message.parentId === id);
+  }
+
+  /**
+   * Finds a message by its identifying fields, preferring the active branch.
+   */
+  private findMessage(timestamp: string, sender: string, content: string): ChatMessage | undefined {
+    const matches = (msg: ChatMessage) => msg.timestamp === timestamp && msg.sender === sender && msg.content === content;
+    return this.getActiveBranch().find(matches) ?? this.messages.find(matches);
+  }
+
+  private generateId(): string {
+    return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
 }
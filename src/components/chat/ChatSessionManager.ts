@@ -0,0 +1,327 @@
+import { Vault } from 'obsidian';
+import { ChatSession, MyPluginSettings } from '../../types';
+import { debugLog } from '../../utils/logger';
+import { ChatHistoryManager, ChatMessage } from './ChatHistoryManager';
+
+/** Folder inside the plugin's data folder holding one history file per session. */
+const SESSIONS_FOLDER = 'chat-sessions';
+
+/** Single history file used before sessions existed. */
+const LEGACY_HISTORY_FILE = 'chat-history.json';
+
+/** Name given to new sessions until their first message names them. */
+export const DEFAULT_SESSION_NAME = 'New chat';
+
+/** Maximum length of a session name derived from its first message. */
+const AUTO_NAME_LENGTH = 40;
+
+/** Delay before session metadata updated by new messages is saved, so a streaming chat saves once. */
+const HISTORY_SAVE_DEBOUNCE_MS = 2000;
+
+/**
+ * The parts of the plugin the session manager needs.
+ */
+export interface ChatSessionHost {
+    settings: MyPluginSettings;
+    saveSettings(): Promise<void>;
+}
+
+/**
+ * Manages chat sessions: their metadata in `settings.sessions`, the active session in
+ * `settings.activeSessionId`, and one history file per session in the plugin's data folder.
+ *
+ * Each session remembers the model and system prompt it was used with; switching sessions
+ * applies them to the settings. The number of stored sessions is capped by `settings.maxSessions`,
+ * removing the least recently updated sessions first.
+ */
+export class ChatSessionManager {
+    private initialized = false;
+    private saveTimer?: ReturnType<typeof setTimeout>;
+
+    /**
+     * @param vault The Obsidian Vault instance
+     * @param pluginId The plugin ID (used for the data folder path)
+     * @param host The plugin, providing settings and persistence
+     */
+    constructor(private vault: Vault, private pluginId: string, private host: ChatSessionHost) {}
+
+    /**
+     * Makes sure there is an active session, moving the pre-session chat history into the first one.
+     * @returns The active session
+     */
+    async initialize(): Promise<ChatSession> {
+        if (!this.initialized) {
+            this.initialized = true;
+            if (this.sessions.length === 0) {
+                const legacy = new ChatHistoryManager(this.vault, this.pluginId, LEGACY_HISTORY_FILE);
+                const history = await legacy.getHistory();
+                const session = await this.createSession();
+                if (history.length > 0) {
+                    await this.createHistoryManager(session.id).replaceHistory(history);
+                    await this.recordHistory(session.id, history);
+                    debugLog(this.debugMode, 'info', '[ChatSessionManager] Migrated legacy chat history', { messages: history.length });
+                }
+            }
+        }
+        const active = this.getActiveSession();
+        if (active) return active;
+        const [mostRecent] = this.getSessions();
+        return mostRecent ? this.switchSession(mostRecent.id) : this.createSession();
+    }
+
+    /**
+     * All sessions, most recently updated first.
+     */
+    getSessions(): ChatSession[] {
+        return [...this.sessions].sort((a, b) => b.lastUpdated - a.lastUpdated);
+    }
+
+    getSession(id: string): ChatSession | undefined {
+        return this.sessions.find(session => session.id === id);
+    }
+
+    getActiveSession(): ChatSession | undefined {
+        const id = this.host.settings.activeSessionId;
+        return id ? this.getSession(id) : undefined;
+    }
+
+    /**
+     * History file of a session, relative to the plugin's data folder.
+     */
+    getHistoryFile(sessionId: string): string {
+        return `${SESSIONS_FOLDER}/${sessionId}.json`;
+    }
+
+    /**
+     * Creates a history manager reading and writing a session's history file.
+     */
+    createHistoryManager(sessionId: string): ChatHistoryManager {
+        return new ChatHistoryManager(this.vault, this.pluginId, this.getHistoryFile(sessionId));
+    }
+
+    /**
+     * Points an existing history manager at a session's history file and keeps
+     * the session's metadata up to date as messages are saved.
+     * @param historyManager The history manager used by the chat view
+     * @param sessionId The session to bind to
+     */
+    bindHistoryManager(historyManager: ChatHistoryManager, sessionId: string): void {
+        historyManager.setHistoryFile(this.getHistoryFile(sessionId));
+        historyManager.setChangeListener(history => {
+            this.recordHistory(sessionId, history).catch(error =>
+                debugLog(this.debugMode, 'error', '[ChatSessionManager] Failed to update session', { sessionId, error }));
+        });
+    }
+
+    /**
+     * Creates an empty session using the current model and system prompt, and makes it active.
+     * @param name Optional session name
+     */
+    async createSession(name?: string): Promise<ChatSession> {
+        const now = Date.now();
+        const session: ChatSession = {
+            id: this.generateId(),
+            name: name?.trim() || DEFAULT_SESSION_NAME,
+            created: now,
+            lastUpdated: now,
+            messageCount: 0,
+            model: this.host.settings.selectedModel,
+            systemMessage: this.host.settings.systemMessage
+        };
+        this.host.settings.sessions = [...this.sessions, session];
+        this.host.settings.activeSessionId = session.id;
+        await this.pruneSessions();
+        await this.host.saveSettings();
+        return session;
+    }
+
+    /**
+     * Renames a session.
+     */
+    async renameSession(id: string, name: string): Promise<void> {
+        const session = this.requireSession(id);
+        const trimmed = name.trim();
+        if (!trimmed || trimmed === session.name) return;
+        session.name = trimmed;
+        await this.host.saveSettings();
+    }
+
+    /**
+     * Copies a session, including all branches of its history, and makes the copy active.
+     * @returns The new session
+     */
+    async duplicateSession(id: string): Promise<ChatSession> {
+        const source = this.requireSession(id);
+        const sourceHistory = this.createHistoryManager(id);
+        const history = await sourceHistory.getHistory();
+        const now = Date.now();
+        const copy: ChatSession = {
+            ...source,
+            id: this.generateId(),
+            name: `${source.name} (copy)`,
+            created: now,
+            lastUpdated: now,
+            messageCount: history.length
+        };
+        await this.createHistoryManager(copy.id).replaceHistory(await sourceHistory.getAllMessages(), sourceHistory.getActiveLeafId());
+        this.host.settings.sessions = [...this.sessions, copy];
+        this.host.settings.activeSessionId = copy.id;
+        await this.pruneSessions();
+        await this.host.saveSettings();
+        return copy;
+    }
+
+    /**
+     * Deletes a session and its history. If it was active, the most recently
+     * updated remaining session becomes active, or a new one is created.
+     * @returns The active session after the deletion
+     */
+    async deleteSession(id: string): Promise<ChatSession> {
+        this.requireSession(id);
+        await this.createHistoryManager(id).deleteHistoryFile();
+        this.host.settings.sessions = this.sessions.filter(session => session.id !== id);
+
+        const active = this.getActiveSession();
+        if (active) {
+            await this.host.saveSettings();
+            return active;
+        }
+        const [mostRecent] = this.getSessions();
+        return mostRecent ? this.switchSession(mostRecent.id) : this.createSession();
+    }
+
+    /**
+     * Makes a session active and applies its model and system prompt to the settings.
+     */
+    async switchSession(id: string): Promise<ChatSession> {
+        const session = this.requireSession(id);
+        const settings = this.host.settings;
+        settings.activeSessionId = session.id;
+        if (session.model) settings.selectedModel = session.model;
+        if (session.systemMessage !== undefined) settings.systemMessage = session.systemMessage;
+        await this.host.saveSettings();
+        return session;
+    }
+
+    /**
+     * Finds sessions whose name or messages (in any branch) contain the query (case-insensitive).
+     * @returns Matching sessions, most recently updated first
+     */
+    async searchSessions(query: string): Promise<ChatSession[]> {
+        const needle = query.trim().toLowerCase();
+        const sessions = this.getSessions();
+        if (!needle) return sessions;
+
+        const matches: ChatSession[] = [];
+        for (const session of sessions) {
+            if (session.name.toLowerCase().includes(needle)) {
+                matches.push(session);
+                continue;
+            }
+            const messages = await this.createHistoryManager(session.id).getAllMessages();
+            if (messages.some(message => message.content.toLowerCase().includes(needle))) {
+                matches.push(session);
+            }
+        }
+        return matches;
+    }
+
+    /**
+     * Stores the active session's model and system prompt when they were changed in the settings.
+     * @returns True if the session was updated
+     */
+    async syncActiveSessionSettings(): Promise<boolean> {
+        const session = this.getActiveSession();
+        const { selectedModel, systemMessage } = this.host.settings;
+        if (!session || (session.model === selectedModel && session.systemMessage === systemMessage)) {
+            return false;
+        }
+        session.model = selectedModel;
+        session.systemMessage = systemMessage;
+        await this.host.saveSettings();
+        return true;
+    }
+
+    /**
+     * Updates a session's metadata after its history was saved.
+     * A session still carrying the default name is named after its first user message.
+     * The settings are saved after a short delay, once for a burst of messages; see {@link flush}.
+     */
+    async recordHistory(sessionId: string, history: ChatMessage[]): Promise<void> {
+        const session = this.getSession(sessionId);
+        if (!session) return;
+        session.lastUpdated = Date.now();
+        session.messageCount = history.length;
+        if (session.name === DEFAULT_SESSION_NAME) {
+            const firstUserMessage = history.find(message => message.role === 'user' && message.content.trim());
+            if (firstUserMessage) {
+                session.name = this.nameFromMessage(firstUserMessage.content);
+            }
+        }
+        this.scheduleSave();
+    }
+
+    /**
+     * Saves session metadata still waiting for its delayed save, e.g. when the plugin unloads.
+     */
+    async flush(): Promise<void> {
+        if (!this.saveTimer) return;
+        clearTimeout(this.saveTimer);
+        this.saveTimer = undefined;
+        await this.host.saveSettings();
+    }
+
+    /**
+     * Removes the least recently updated sessions beyond `settings.maxSessions`.
+     * The active session is never removed.
+     */
+    async pruneSessions(): Promise<void> {
+        const max = Math.max(1, this.host.settings.maxSessions || 1);
+        const activeId = this.host.settings.activeSessionId;
+        const removable = this.getSessions().filter(session => session.id !== activeId);
+        const excess = this.sessions.length - max;
+        if (excess <= 0) return;
+
+        const removed = removable.slice(Math.max(0, removable.length - excess));
+        for (const session of removed) {
+            await this.createHistoryManager(session.id).deleteHistoryFile();
+        }
+        const removedIds = new Set(removed.map(session => session.id));
+        this.host.settings.sessions = this.sessions.filter(session => !removedIds.has(session.id));
+        debugLog(this.debugMode, 'info', '[ChatSessionManager] Pruned sessions', { removed: removed.length, max });
+    }
+
+    private get sessions(): ChatSession[] {
+        return this.host.settings.sessions ?? [];
+    }
+
+    private get debugMode(): boolean {
+        return this.host.settings.debugMode ?? false;
+    }
+
+    private requireSession(id: string): ChatSession {
+        const session = this.getSession(id);
+        if (!session) {
+            throw new Error(`Chat session not found: ${id}`);
+        }
+        return session;
+    }
+
+    private nameFromMessage(content: string): string {
+        const line = content.trim().split('\n')[0].trim();
+        return line.length > AUTO_NAME_LENGTH ? `${line.slice(0, AUTO_NAME_LENGTH - 1).trimEnd()}…` : line;
+    }
+
+    private generateId(): string {
+        return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) clearTimeout(this.saveTimer);
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.host.saveSettings().catch(error =>
+                debugLog(this.debugMode, 'error', '[ChatSessionManager] Failed to save session metadata:', error));
+        }, HISTORY_SAVE_DEBOUNCE_MS);
+    }
+}
@@ -0,0 +1,131 @@
+import { App, Modal } from 'obsidian';
+import { ChatSession } from '../../types';
+
+/**
+ * SessionNameModal asks for a chat session name, e.g. when renaming a session.
+ */
+export class SessionNameModal extends Modal {
+    private value: string;
+    private onSubmit: (name: string) => void;
+
+    /**
+     * @param app Obsidian App instance
+     * @param title Modal title text
+     * @param initialValue Name shown when the modal opens
+     * @param onSubmit Callback invoked with the entered name
+     */
+    constructor(app: App, title: string, initialValue: string, onSubmit: (name: string) => void) {
+        super(app);
+        this.titleEl.setText(title);
+        this.value = initialValue;
+        this.onSubmit = onSubmit;
+    }
+
+    /**
+     * Renders the name input and Cancel/Save buttons.
+     */
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('ai-assistant-modal');
+
+        const input = contentEl.createEl('input', { type: 'text', value: this.value });
+        input.style.width = '100%';
+        const submit = () => {
+            const name = input.value.trim();
+            if (!name) return;
+            this.onSubmit(name);
+            this.close();
+        };
+        input.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                submit();
+            }
+        });
+
+        const buttonContainer = contentEl.createDiv('modal-button-container');
+        buttonContainer.createEl('button', { text: 'Cancel' })
+            .addEventListener('click', () => this.close());
+        buttonContainer.createEl('button', { text: 'Save', cls: 'mod-cta' })
+            .addEventListener('click', submit);
+
+        input.focus();
+        input.select();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+/**
+ * SessionSearchModal searches chat sessions by name and message content and opens the chosen one.
+ */
+export class SessionSearchModal extends Modal {
+    private search: (query: string) => Promise<ChatSession[]>;
+    private onChoose: (session: ChatSession) => void;
+    /** Incremented per query so results of an older, slower search are discarded */
+    private searchGeneration = 0;
+
+    /**
+     * @param app Obsidian App instance
+     * @param search Returns the sessions matching a query
+     * @param onChoose Callback invoked with the chosen session
+     */
+    constructor(app: App, search: (query: string) => Promise<ChatSession[]>, onChoose: (session: ChatSession) => void) {
+        super(app);
+        this.titleEl.setText('Search chat sessions');
+        this.search = search;
+        this.onChoose = onChoose;
+    }
+
+    /**
+     * Renders the query input and the list of matching sessions.
+     */
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('ai-assistant-modal');
+
+        const input = contentEl.createEl('input', { type: 'text', attr: { placeholder: 'Search names and messages...' } });
+        input.style.width = '100%';
+        const results = contentEl.createDiv('ai-chat-session-results');
+
+        const update = async () => {
+            const generation = ++this.searchGeneration;
+            const sessions = await this.search(input.value);
+            if (generation !== this.searchGeneration) return;
+            this.renderResults(results, sessions);
+        };
+        input.addEventListener('input', () => { update(); });
+        update();
+        input.focus();
+    }
+
+    onClose() {
+        this.searchGeneration++;
+        this.contentEl.empty();
+    }
+
+    private renderResults(container: HTMLElement, sessions: ChatSession[]) {
+        container.empty();
+        if (sessions.length === 0) {
+            container.createDiv({ text: 'No matching sessions.' }).style.opacity = '0.6';
+            return;
+        }
+        for (const session of sessions) {
+            const item = container.createDiv('ai-chat-session-result');
+            item.style.cursor = 'pointer';
+            item.style.padding = '0.3em 0';
+            item.createDiv({ text: session.name }).style.fontWeight = 'bold';
+            const details = item.createDiv({
+                text: `${session.messageCount} message${session.messageCount !== 1 ? 's' : ''} · ${new Date(session.lastUpdated).toLocaleString()}`
+            });
+            details.style.fontSize = '0.85em';
+            details.style.opacity = '0.7';
+            item.addEventListener('click', () => {
+                this.onChoose(session);
+                this.close();
+            });
+        }
+    }
+}
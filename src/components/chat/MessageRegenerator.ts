@@ -8,7 +8,8 @@ import { AgentResponseHandler } from '../agent/AgentResponseHandler';
 
 /**
  * MessageRegenerator handles the logic for regenerating assistant responses in the chat.
- * It finds the appropriate message(s) to replace, builds the correct context, and streams the new response.
+ * A regenerated response is stored as a new branch next to the original one, so earlier
+ * responses stay reachable through the branch navigation.
  */
 export class MessageRegenerator {
     private responseStreamer: ResponseStreamer;
@@ -21,6 +22,7 @@ export class MessageRegenerator {
      * @param agentResponseHandler The agent response handler (for agent mode)
      * @param activeStream The current AbortController for streaming (shared reference)
      * @param component Optional parent component for Markdown rendering context
+     * @param onHistoryChanged Optional callback re-rendering the active branch after regeneration
      */
     constructor(
         private plugin: MyPlugin,
@@ -29,7 +31,8 @@ export class MessageRegenerator {
         private chatHistoryManager: ChatHistoryManager,
         private agentResponseHandler: AgentResponseHandler | null,
         private activeStream: AbortController | null,
-        private component?: Component
+        private component?: Component,
+        private onHistoryChanged?: () => Promise<void>
     ) {
         this.responseStreamer = new ResponseStreamer(
             plugin,
@@ -42,7 +45,8 @@ export class MessageRegenerator {
 
     /**
      * Regenerates an assistant response for a given message element.
-     * Finds the correct user/assistant message pair, builds the context, and streams a new response.
+     * For a user message, a new reply to it is generated; for an assistant message, an alternative
+     * to it is generated. Messages after the regenerated one belong to the previous branch and are hidden.
      * @param messageEl The message element to regenerate (user or assistant)
      * @param buildContextMessages Function to build the initial context messages (system/context notes/etc.)
      */
@@ -52,28 +56,10 @@ export class MessageRegenerator {
         if (textarea) textarea.disabled = true;
 
         // Get all chat message elements and find the index of the clicked message
-        const allMessages = Array.from(this.messagesContainer.querySelectorAll('.ai-chat-message'));
+        const allMessages = Array.from(this.messagesContainer.querySelectorAll('.ai-chat-message')) as HTMLElement[];
         const currentIndex = allMessages.indexOf(messageEl);
         const isUserClicked = messageEl.classList.contains('user');
 
-        // Find the assistant message to replace (after user, or self if assistant)
-        let targetIndex = -1;
-        if (isUserClicked) {
-            // Find the next assistant message after the user message
-            for (let i = currentIndex + 1; i < allMessages.length; i++) {
-                if (allMessages[i].classList.contains('assistant')) {
-                    targetIndex = i;
-                    break;
-                }
-                if (allMessages[i].classList.contains('user')) {
-                    break; // Stop at next user message
-                }
-            }
-        } else {
-            // If assistant message clicked, target is self
-            targetIndex = currentIndex;
-        }
-
         // Find the last user message index before the assistant (for context)
         let userMsgIndex = currentIndex;
         if (!isUserClicked) {
@@ -83,31 +69,22 @@ export class MessageRegenerator {
             }
         }
 
+        // The new response becomes a sibling of the regenerated one: a reply to the same parent
+        const parentId = await this.findParentId(messageEl, isUserClicked, userMsgIndex >= 0 ? allMessages[userMsgIndex] : null);
+
         // Build the context messages (system, context notes, etc.)
         const messages = await buildContextMessages();
         // Add all messages up to the user message as context
         for (let i = 0; i <= userMsgIndex; i++) {
             const el = allMessages[i];
             const role = el.classList.contains('user') ? 'user' : 'assistant';
-            const content = (el as HTMLElement).dataset.rawContent || '';
+            const content = el.dataset.rawContent || '';
             messages.push({ role, content });
         }
 
-        // Prepare for replacing the assistant message
-        let originalTimestamp = new Date().toISOString();
-        let originalContent = '';
-        let insertAfterNode: HTMLElement | null = null;
-        if (targetIndex !== -1) {
-            const targetEl = allMessages[targetIndex] as HTMLElement;
-            originalTimestamp = targetEl.dataset.timestamp || originalTimestamp;
-            originalContent = targetEl.dataset.rawContent || '';
-            insertAfterNode = targetEl.previousElementSibling as HTMLElement;
-            targetEl.remove();
-        } else if (isUserClicked) {
-            insertAfterNode = messageEl;
-        } else {
-            insertAfterNode = null;
-        }
+        // Remove the regenerated message and everything after it; they stay in the previous branch
+        const firstRemoved = isUserClicked ? currentIndex + 1 : currentIndex;
+        allMessages.slice(firstRemoved).forEach(el => el.remove());
 
         // Create a new assistant message element for the regenerated response
         const assistantContainer = await createMessageElement(
@@ -119,29 +96,43 @@ export class MessageRegenerator {
             (el) => this.regenerateResponse(el, buildContextMessages), 
             this.component || null as any
         );
-        assistantContainer.dataset.timestamp = originalTimestamp;
-
-        // Insert the new assistant message in the correct position
-        if (insertAfterNode && insertAfterNode.nextSibling) {
-            this.messagesContainer.insertBefore(assistantContainer, insertAfterNode.nextSibling);
-        } else {
-            this.messagesContainer.appendChild(assistantContainer);
-        }
+        const timestamp = assistantContainer.dataset.timestamp || new Date().toISOString();
+        this.messagesContainer.appendChild(assistantContainer);
         this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
 
         try {
             // Stream the new assistant response
-            await this.responseStreamer.streamAssistantResponse(
-                messages, 
-                assistantContainer, 
-                originalTimestamp, 
-                originalContent
-            );
+            const responseContent = await this.responseStreamer.streamAssistantResponse(messages, assistantContainer, timestamp);
+            let enhancedData: Partial<Message> | undefined;
+            if (assistantContainer.dataset.messageData) {
+                try {
+                    enhancedData = JSON.parse(assistantContainer.dataset.messageData);
+                } catch (e) {
+                    this.plugin.debugLog('warn', '[MessageRegenerator] Failed to parse enhanced message data:', e);
+                }
+            }
+            const hasToolResults = !!enhancedData?.toolResults?.length;
+            if (parentId !== undefined && (responseContent.trim() !== '' || hasToolResults)) {
+                await this.chatHistoryManager.addMessage({
+                    timestamp,
+                    sender: 'assistant',
+                    role: 'assistant',
+                    content: responseContent,
+                    parentId,
+                    ...(enhancedData && {
+                        toolResults: enhancedData.toolResults,
+                        reasoning: enhancedData.reasoning,
+                        taskStatus: enhancedData.taskStatus
+                    })
+                });
+            }
+            await this.onHistoryChanged?.();
         } catch (error) {
             if (error.name !== 'AbortError') {
                 new Notice(`Error: ${error.message}`);
                 assistantContainer.remove();
             }
+            await this.onHistoryChanged?.();
         } finally {
             // Re-enable the input textarea
             if (textarea) {
@@ -151,4 +142,27 @@ export class MessageRegenerator {
             this.activeStream = null;
         }
     }
+
+    /**
+     * Stops a regeneration in progress, including approvals still waiting for the user.
+     */
+    abort(): void {
+        this.responseStreamer.abort();
+    }
+
+    /**
+     * Returns the id of the message the regenerated response replies to, null for the start
+     * of the conversation, or undefined when the message is not in the history.
+     */
+    private async findParentId(messageEl: HTMLElement, isUserClicked: boolean, userEl: HTMLElement | null): Promise<string | null | undefined> {
+        await this.chatHistoryManager.getHistory();
+        if (isUserClicked) {
+            return messageEl.dataset.messageId;
+        }
+        const stored = messageEl.dataset.messageId ? this.chatHistoryManager.getMessage(messageEl.dataset.messageId) : undefined;
+        if (stored) {
+            return stored.parentId ?? null;
+        }
+        return userEl ? userEl.dataset.messageId : null;
+    }
 }
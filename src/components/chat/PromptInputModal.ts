@@ -0,0 +1,81 @@
+import { App, Modal } from 'obsidian';
+import { PromptInputField } from '../../types';
+
+/**
+ * PromptInputModal asks for the input fields of a prompt library prompt before it is sent.
+ */
+export class PromptInputModal extends Modal {
+    private fields: PromptInputField[];
+    private resolve: ((values: Record<string, string> | null) => void) | null = null;
+
+    /**
+     * @param app Obsidian App instance
+     * @param title Modal title text, e.g. the slash command
+     * @param fields Input fields to ask for
+     */
+    constructor(app: App, title: string, fields: PromptInputField[]) {
+        super(app);
+        this.titleEl.setText(title);
+        this.fields = fields;
+    }
+
+    /**
+     * Opens the modal and waits for the user.
+     * @returns The entered values by field name, or null if the modal was cancelled
+     */
+    openAndWait(): Promise<Record<string, string> | null> {
+        return new Promise(resolve => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    /**
+     * Renders one input per field and Cancel/Send buttons.
+     * Enter sends; Shift+Enter adds a new line.
+     */
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('ai-assistant-modal');
+
+        const inputs = this.fields.map(field => {
+            contentEl.createEl('label', { text: field.name, cls: 'prompt-input-label' });
+            const input = contentEl.createEl('textarea', { cls: 'prompt-input-field' });
+            input.rows = 2;
+            input.value = field.defaultValue;
+            input.style.width = '100%';
+            input.addEventListener('keydown', (e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    submit();
+                }
+            });
+            return { name: field.name, input };
+        });
+
+        const submit = () => {
+            const values: Record<string, string> = {};
+            inputs.forEach(({ name, input }) => { values[name] = input.value; });
+            this.finish(values);
+            this.close();
+        };
+
+        const buttonContainer = contentEl.createDiv('modal-button-container');
+        buttonContainer.createEl('button', { text: 'Cancel' })
+            .addEventListener('click', () => this.close());
+        buttonContainer.createEl('button', { text: 'Send', cls: 'mod-cta' })
+            .addEventListener('click', submit);
+
+        inputs[0]?.input.focus();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.finish(null);
+    }
+
+    private finish(values: Record<string, string> | null) {
+        this.resolve?.(values);
+        this.resolve = null;
+    }
+}
@@ -0,0 +1,236 @@
+import { App, MarkdownView, Plugin, TAbstractFile } from 'obsidian';
+import * as yaml from 'js-yaml';
+import type MyPlugin from '../../main';
+import { PromptInputField, PromptTemplate } from '../../types';
+import { DEFAULT_SETTINGS } from '../../types/settings';
+import { debugLog } from '../../utils/logger';
+import { PromptInputModal } from './PromptInputModal';
+
+/** Slash commands handled by the chat itself; prompts cannot replace them */
+export const BUILT_IN_SLASH_COMMANDS: Record<string, string> = {
+    clear: 'Clear the chat',
+    copy: 'Copy all chat',
+    save: 'Save chat as note',
+    settings: 'Open settings',
+    help: 'Show help',
+    ref: 'Toggle referencing the current note',
+    new: 'Start a new chat session',
+    sessions: 'Search chat sessions'
+};
+
+/** Matches {{variable}}, {{input:Name}} and {{input:Name|default}} */
+const VARIABLE_REGEX = /\{\{\s*(input:)?([^}|]+?)\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Turns a note name into a slash command name, e.g. "Summarize Note" -> "summarize-note".
+ */
+function toCommandName(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, '-').replace(/[^\w-]/g, '');
+}
+
+/**
+ * Parses a prompt library note.
+ * Frontmatter fields: `command` (defaults to the note name), `description`, `model`
+ * (provider:model) and `temperature`. The note body is the prompt.
+ * @param path Path of the note
+ * @param content Content of the note
+ * @returns The prompt, or null if the note has no prompt text
+ */
+export function parsePromptNote(path: string, content: string): PromptTemplate | null {
+    const match = content.match(/^---\n([\s\S]*?)\n---\n?/);
+    let frontmatter: Record<string, any> = {};
+    if (match) {
+        try {
+            frontmatter = (yaml.load(match[1]) as Record<string, any>) || {};
+        } catch {
+            return null;
+        }
+    }
+
+    const template = (match ? content.slice(match[0].length) : content).trim();
+    const name = typeof frontmatter.command === 'string' && frontmatter.command.trim()
+        ? frontmatter.command.replace(/^\//, '')
+        : path.split('/').pop()!.replace(/\.md$/, '');
+    const command = toCommandName(name);
+    if (!template || !command) return null;
+
+    const temperature = Number(frontmatter.temperature);
+    return {
+        path,
+        command,
+        description: typeof frontmatter.description === 'string' ? frontmatter.description.trim() : undefined,
+        template,
+        model: typeof frontmatter.model === 'string' && frontmatter.model.trim() ? frontmatter.model.trim() : undefined,
+        temperature: frontmatter.temperature !== undefined && temperature >= 0 && temperature <= 2 ? temperature : undefined
+    };
+}
+
+/**
+ * Lists the input fields of a template in order of appearance, once each.
+ */
+export function getPromptInputFields(template: string): PromptInputField[] {
+    const fields = new Map<string, PromptInputField>();
+    for (const match of template.matchAll(VARIABLE_REGEX)) {
+        if (match[1] && !fields.has(match[2])) {
+            fields.set(match[2], { name: match[2], defaultValue: (match[3] ?? '').trim() });
+        }
+    }
+    return Array.from(fields.values());
+}
+
+/**
+ * Fills in the variables and input fields of a template.
+ * Input fields without a value get their default; unknown variables are left as they are.
+ * @param template The prompt template
+ * @param variables Values of variables such as `selection` or `date`
+ * @param inputs Values of the input fields, by field name
+ */
+export function renderPromptTemplate(template: string, variables: Record<string, string>, inputs: Record<string, string> = {}): string {
+    const fields = getPromptInputFields(template);
+    return template.replace(VARIABLE_REGEX, (placeholder, isInput: string | undefined, name: string) => {
+        if (isInput) return inputs[name] ?? fields.find(field => field.name === name)?.defaultValue ?? '';
+        return variables[name] ?? placeholder;
+    });
+}
+
+/**
+ * PromptLibrary loads reusable prompts from notes in the prompt library folder and turns them
+ * into messages, filling in variables from the workspace and input fields from the user.
+ * Supported variables: {{selection}}, {{current_note}}, {{current_note_title}}, {{date}}, {{time}}
+ * and {{clipboard}}.
+ */
+export class PromptLibrary {
+    private app: App;
+    private prompts: PromptTemplate[] = [];
+
+    /**
+     * @param plugin The plugin instance, for settings
+     */
+    constructor(private plugin: MyPlugin) {
+        this.app = plugin.app;
+    }
+
+    private get folder(): string {
+        return (this.plugin.settings.promptLibraryFolder ?? DEFAULT_SETTINGS.promptLibraryFolder!).replace(/^\/+|\/+$/g, '');
+    }
+
+    private get debugMode(): boolean {
+        return this.plugin.settings.debugMode ?? false;
+    }
+
+    /**
+     * Registers vault listeners that reload the prompts when a prompt note changes.
+     * @param plugin Plugin used to register the listeners so they are removed on unload
+     */
+    registerEvents(plugin: Plugin): void {
+        const onChange = (file: TAbstractFile, oldPath?: string) => {
+            if (this.isPromptPath(file.path) || (oldPath !== undefined && this.isPromptPath(oldPath))) {
+                this.reload().catch(error =>
+                    debugLog(this.debugMode, 'error', '[PromptLibrary] Failed to reload prompts', error));
+            }
+        };
+        plugin.registerEvent(this.app.vault.on('create', file => onChange(file)));
+        plugin.registerEvent(this.app.vault.on('modify', file => onChange(file)));
+        plugin.registerEvent(this.app.vault.on('delete', file => onChange(file)));
+        plugin.registerEvent(this.app.vault.on('rename', (file, oldPath) => onChange(file, oldPath)));
+    }
+
+    /**
+     * Reads every prompt note in the prompt library folder, e.g. after the folder setting changed.
+     * Prompts named like a built-in command, or like an earlier prompt, are skipped.
+     */
+    async reload(): Promise<void> {
+        const prompts: PromptTemplate[] = [];
+        if (this.folder) {
+            for (const file of this.app.vault.getMarkdownFiles()) {
+                if (!this.isPromptPath(file.path)) continue;
+                try {
+                    const prompt = parsePromptNote(file.path, await this.app.vault.read(file));
+                    if (!prompt) continue;
+                    if (BUILT_IN_SLASH_COMMANDS[prompt.command] || prompts.some(existing => existing.command === prompt.command)) {
+                        debugLog(this.debugMode, 'warn', '[PromptLibrary] Skipping prompt with a command already in use', { path: file.path, command: prompt.command });
+                        continue;
+                    }
+                    prompts.push(prompt);
+                } catch (error) {
+                    debugLog(this.debugMode, 'error', '[PromptLibrary] Failed to read prompt', { path: file.path, error });
+                }
+            }
+        }
+        this.prompts = prompts.sort((a, b) => a.command.localeCompare(b.command));
+        debugLog(this.debugMode, 'info', '[PromptLibrary] Loaded prompts', { count: this.prompts.length });
+    }
+
+    /**
+     * Returns the loaded prompts, sorted by command.
+     */
+    getPrompts(): PromptTemplate[] {
+        return [...this.prompts];
+    }
+
+    /**
+     * Finds the prompt for a slash command.
+     * @param command The command, with or without the leading '/'
+     */
+    findPrompt(command: string): PromptTemplate | undefined {
+        const name = command.replace(/^\//, '').toLowerCase();
+        return this.prompts.find(prompt => prompt.command === name);
+    }
+
+    /**
+     * Turns a prompt into the message to send, asking the user for its input fields first.
+     * Text typed after the slash command is added below the prompt.
+     * @param prompt The prompt to use
+     * @param extraText Text typed after the slash command
+     * @returns The message, or null if the user cancelled the input fields
+     */
+    async buildMessage(prompt: PromptTemplate, extraText = ''): Promise<string | null> {
+        const fields = getPromptInputFields(prompt.template);
+        let inputs: Record<string, string> = {};
+        if (fields.length > 0) {
+            const values = await new PromptInputModal(this.app, `/${prompt.command}`, fields).openAndWait();
+            if (!values) return null;
+            inputs = values;
+        }
+
+        const variables = await this.collectVariables(prompt.template);
+        const message = renderPromptTemplate(prompt.template, variables, inputs);
+        return extraText.trim() ? `${message}\n\n${extraText.trim()}` : message;
+    }
+
+    /**
+     * Collects the values of the variables a template uses.
+     * The current note is the active file; the selection comes from its editor.
+     */
+    private async collectVariables(template: string): Promise<Record<string, string>> {
+        const used = (name: string) => template.includes(name);
+        const now = new Date();
+        const variables: Record<string, string> = {
+            date: now.toISOString().split('T')[0],
+            time: now.toTimeString().slice(0, 5)
+        };
+
+        const file = this.app.workspace.getActiveFile();
+        variables.current_note_title = file?.basename ?? '';
+        if (used('current_note') || used('selection')) {
+            variables.current_note = file && file.extension === 'md' ? await this.app.vault.cachedRead(file) : '';
+            const view = this.app.workspace.getLeavesOfType('markdown')
+                .map(leaf => leaf.view)
+                .find((view): view is MarkdownView => view instanceof MarkdownView && view.file === file);
+            variables.selection = view?.editor.getSelection() ?? '';
+        }
+        if (used('clipboard')) {
+            try {
+                variables.clipboard = await navigator.clipboard.readText();
+            } catch (error) {
+                debugLog(this.debugMode, 'warn', '[PromptLibrary] Failed to read the clipboard', error);
+                variables.clipboard = '';
+            }
+        }
+        return variables;
+    }
+
+    private isPromptPath(path: string): boolean {
+        return this.folder !== '' && path.startsWith(`${this.folder}/`) && path.endsWith('.md');
+    }
+}
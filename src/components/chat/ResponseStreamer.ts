@@ -1,10 +1,11 @@
 import { Notice, MarkdownRenderer, Component } from 'obsidian';
-import { Message, ToolCommand, ToolResult } from '../../types';
+import { AgentPlan, CompletionOptions, Message, ToolCommand, ToolResult } from '../../types';
 import { AIDispatcher } from '../../utils/aiDispatcher';
 import MyPlugin from '../../main';
 import { AgentResponseHandler } from '../agent/AgentResponseHandler';
 import { MessageRenderer } from '../agent/MessageRenderer';
 import { TaskContinuation } from '../agent/TaskContinuation';
+import { formatApprovedPlan, parseAgentPlan } from '../agent/AgentPlan';
 
 /**
  * Parameters for task continuation.
@@ -26,6 +27,8 @@ interface ContinuationParams {
  */
 export class ResponseStreamer {
     private messageRenderer: MessageRenderer;
+    // Model and temperature of the current response, e.g. from a prompt library prompt
+    private completionOverrides: Pick<CompletionOptions, 'model' | 'temperature'> = {};
 
     /**
      * @param plugin The main plugin instance (for settings, logging, etc.)
@@ -52,6 +55,8 @@ export class ResponseStreamer {
      * @param originalTimestamp Optional timestamp for history update
      * @param originalContent Optional original content for history update
      * @param chatHistory Optional chat history for context
+     * @param overrides Optional model and temperature to use instead of the chat settings,
+     *                  for this response and its continuations
      * @returns Promise resolving to the final response content string
      */
     async streamAssistantResponse(
@@ -59,32 +64,60 @@ export class ResponseStreamer {
         container: HTMLElement,
         originalTimestamp?: string,
         originalContent?: string,
-        chatHistory?: any[]
+        chatHistory?: any[],
+        overrides: Pick<CompletionOptions, 'model' | 'temperature'> = {}
     ): Promise<string> {
-        this.plugin.debugLog('info', '[ResponseStreamer] streamAssistantResponse called', { messages, originalTimestamp });
+        this.plugin.debugLog('info', '[ResponseStreamer] streamAssistantResponse called', { messages, originalTimestamp, overrides });
         let responseContent = '';
+        this.completionOverrides = overrides;
         // Create a new AbortController for this stream
         this.activeStream = new AbortController();
+        this.agentResponseHandler?.setAbortSignal(this.activeStream.signal);
 
         // Add agent system prompt if agent mode is enabled
         await this.addAgentSystemPrompt(messages);
+        const runLabel = this.getRunLabel(messages);
+        this.agentResponseHandler?.clearPlan();
 
         try {
+            // In plan-first mode, agree on a plan with the user before any tool runs
+            if (this.isPlanFirstEnabled()) {
+                const planning = await this.planAgentTask(messages, container);
+                if (!planning.plan) {
+                    await this.updateMessageContent(container, planning.content);
+                    return planning.content;
+                }
+                messages.push({ role: 'user', content: formatApprovedPlan(planning.plan) });
+                await this.updateMessageContent(container, '');
+            }
+
+            // Offer tools natively when the native tool transport is enabled
+            const nativeToolCapture = this.agentResponseHandler?.createNativeToolCapture();
+
             // Use AIDispatcher for all completions
             const aiDispatcher = new AIDispatcher(this.plugin.app.vault, this.plugin);
             await aiDispatcher.getCompletion(messages, {
-                temperature: this.plugin.settings.temperature,
+                ...this.getCompletionSettings(),
                 streamCallback: async (chunk: string) => {
                     responseContent += chunk;
                     // Update the UI with the streamed chunk
                     await this.updateMessageContent(container, responseContent);
                 },
-                abortController: this.activeStream || undefined
+                abortController: this.activeStream || undefined,
+                ...nativeToolCapture?.getCompletionOptions()
             });
 
             // If agent mode is enabled, process the full response for tools/reasoning
             if (this.plugin.agentModeManager.isAgentModeEnabled() && this.agentResponseHandler) {
-                responseContent = await this.processAgentResponse(responseContent, container, messages, "streamer-main", chatHistory);
+                const nativeCommands = nativeToolCapture?.getCommands();
+                if (nativeToolCapture && nativeCommands) {
+                    responseContent = nativeToolCapture.appendToResponse(responseContent);
+                }
+                // Group the file changes of this response and its continuation into one undoable run
+                const currentResponse = responseContent;
+                responseContent = await this.plugin.agentRunJournal.track(runLabel, () =>
+                    this.processAgentResponse(currentResponse, container, messages, "streamer-main", chatHistory, nativeCommands)
+                );
             }
 
             return responseContent;
@@ -101,6 +134,79 @@ export class ResponseStreamer {
         }
     }
 
+    /**
+     * Stops the current response, including tool and plan approvals still waiting for the user.
+     */
+    abort(): void {
+        this.activeStream?.abort();
+    }
+
+    /**
+     * Returns the temperature, and the model when overridden, for completions of the current response.
+     */
+    private getCompletionSettings(): Pick<CompletionOptions, 'model' | 'temperature'> {
+        const { model, temperature } = this.completionOverrides;
+        return {
+            temperature: temperature ?? this.plugin.settings.temperature,
+            ...(model ? { model } : {})
+        };
+    }
+
+    /**
+     * Checks whether agent responses should be preceded by a plan the user approves.
+     */
+    private isPlanFirstEnabled(): boolean {
+        return !!this.agentResponseHandler &&
+            this.plugin.agentModeManager.isAgentModeEnabled() &&
+            this.plugin.agentModeManager.getAgentModeSettings().planFirst === true;
+    }
+
+    /**
+     * Asks the model for a plan and shows it to the user for editing and approval.
+     * @param messages The message history of the request
+     * @param container The message container, showing a placeholder while the plan is generated
+     * @returns The approved plan, or the content to show instead when the user cancelled
+     *          or the model answered without a plan (e.g. with a question)
+     */
+    private async planAgentTask(messages: Message[], container: HTMLElement): Promise<{ plan: AgentPlan | null; content: string }> {
+        const { buildAgentPlanningPrompt } = await import('../../promptConstants');
+        const planningMessages: Message[] = [
+            { role: 'system', content: buildAgentPlanningPrompt(this.plugin.settings.enabledTools) },
+            ...messages.filter(message => message.role !== 'system')
+        ];
+
+        await this.updateMessageContent(container, '*Planning…*');
+        let response = '';
+        const aiDispatcher = new AIDispatcher(this.plugin.app.vault, this.plugin);
+        await aiDispatcher.getCompletion(planningMessages, {
+            ...this.getCompletionSettings(),
+            streamCallback: async (chunk: string) => {
+                response += chunk;
+            },
+            abortController: this.activeStream || undefined
+        });
+
+        const plan = parseAgentPlan(response);
+        if (!plan) {
+            this.plugin.debugLog('debug', '[ResponseStreamer] No plan found in planning response', { response });
+            return { plan: null, content: response };
+        }
+        await this.updateMessageContent(container, '*Review the plan below.*');
+        const approved = await this.agentResponseHandler!.requestPlanApproval(plan);
+        // A stopped response leaves nothing behind, as when the stream itself is aborted
+        const cancelled = this.activeStream?.signal.aborted ? '' : '*Plan cancelled.*';
+        return { plan: approved, content: approved ? '' : cancelled };
+    }
+
+    /**
+     * Returns the label for an agent run: the latest user request.
+     * @param messages The message history
+     */
+    private getRunLabel(messages: Message[]): string {
+        const request = [...messages].reverse().find(message => message.role === 'user');
+        return request?.content ?? '';
+    }
+
     /**
      * Adds agent system prompt to messages if agent mode is enabled.
      * Prepends the agent prompt to the existing system message or adds a new one.
@@ -118,7 +224,8 @@ export class ResponseStreamer {
         const agentPrompt = buildAgentSystemPrompt(
             this.plugin.settings.enabledTools, 
             this.plugin.settings.customAgentSystemMessage,
-            requestedTool
+            requestedTool,
+            this.plugin.agentModeManager.getAgentModeSettings().toolTransport
         );
 
         // Remove ALL existing system messages to avoid duplication
@@ -188,6 +295,7 @@ export class ResponseStreamer {
      * @param messages The message history
      * @param contextLabel Label for the processing context
      * @param chatHistory Optional chat history
+     * @param nativeCommands Optional commands received through native function calling
      * @returns Promise resolving to the final content after processing
      */
     private async processAgentResponse(
@@ -195,7 +303,8 @@ export class ResponseStreamer {
         container: HTMLElement,
         messages: Message[],
         contextLabel: string = "streamer",
-        chatHistory?: any[]
+        chatHistory?: any[],
+        nativeCommands?: ToolCommand[]
     ): Promise<string> {
         if (!this.agentResponseHandler) {
             // Should not happen if agent mode is checked, but as a safeguard
@@ -204,7 +313,7 @@ export class ResponseStreamer {
 
         try {
             // Process the response, execute tools, and update UI
-            const agentResult = await this.agentResponseHandler.processResponseWithUI(responseContent, contextLabel, chatHistory);
+            const agentResult = await this.agentResponseHandler.processResponseWithUI(responseContent, contextLabel, chatHistory, nativeCommands);
 
             // Handle based on whether tools were found/executed
             return agentResult.hasTools
@@ -582,7 +691,7 @@ export class ResponseStreamer {
             const aiDispatcher = new AIDispatcher(this.plugin.app.vault, this.plugin);
             let continuationContent = '';
             await aiDispatcher.getCompletion(messages, {
-                temperature: this.plugin.settings.temperature,
+                ...this.getCompletionSettings(),
                 streamCallback: async (chunk: string) => {
                     continuationContent += chunk;
                     // Note: UI update during streaming is handled by the main streamer,
@@ -627,7 +736,7 @@ export class ResponseStreamer {
         // Create a new bot message element for the continuation response
         const newBotMessage = await this.createNewBotMessage();
 
-        // Execute the task continuation loop
+        // Execute the task continuation loop; its file changes join the current run, or form one of their own
         const continuationResult = await this.executeTaskContinuation(
             messages, newBotMessage.getElement(), responseContent, toolResults, chatHistory
         );
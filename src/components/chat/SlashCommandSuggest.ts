@@ -0,0 +1,121 @@
+/**
+ * A slash command offered by the chat input autocomplete.
+ */
+export interface SlashCommandSuggestion {
+    /** Command without the leading '/' */
+    command: string;
+    description?: string;
+}
+
+/**
+ * SlashCommandSuggest shows matching slash commands above the chat input while a command is typed.
+ * Arrow keys move the selection, Tab or Enter completes the selected command and Escape closes the list.
+ */
+export class SlashCommandSuggest {
+    private listEl: HTMLElement;
+    private suggestions: SlashCommandSuggestion[] = [];
+    private selectedIndex = 0;
+
+    /**
+     * @param textarea The chat input textarea
+     * @param getCommands Returns every available command when the list is updated
+     */
+    constructor(private textarea: HTMLTextAreaElement, private getCommands: () => SlashCommandSuggestion[]) {
+        this.listEl = (textarea.parentElement ?? document.body).createDiv({ cls: 'slash-command-suggestions' });
+        this.listEl.style.display = 'none';
+        textarea.addEventListener('input', () => this.update());
+        textarea.addEventListener('blur', () => this.close());
+    }
+
+    /**
+     * Handles navigation keys while the list is open.
+     * Enter on a command that is already typed out is left to the input, so it runs the command.
+     * @param e KeyboardEvent from the textarea
+     * @returns true if the key was handled
+     */
+    handleKeydown(e: KeyboardEvent): boolean {
+        if (!this.isOpen()) return false;
+        switch (e.key) {
+            case 'ArrowDown':
+            case 'ArrowUp': {
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                this.selectedIndex = (this.selectedIndex + step + this.suggestions.length) % this.suggestions.length;
+                this.render();
+                break;
+            }
+            case 'Tab':
+            case 'Enter': {
+                if (e.shiftKey) return false;
+                const selected = `/${this.suggestions[this.selectedIndex].command}`;
+                if (e.key === 'Enter' && this.textarea.value.trim() === selected) {
+                    this.close();
+                    return false;
+                }
+                this.choose(this.suggestions[this.selectedIndex]);
+                break;
+            }
+            case 'Escape':
+                this.close();
+                break;
+            default:
+                return false;
+        }
+        e.preventDefault();
+        return true;
+    }
+
+    /**
+     * Hides the list.
+     */
+    close(): void {
+        this.suggestions = [];
+        this.listEl.style.display = 'none';
+    }
+
+    private isOpen(): boolean {
+        return this.suggestions.length > 0;
+    }
+
+    /**
+     * Shows the commands starting with what was typed; only while the input is a single word starting with '/'.
+     */
+    private update(): void {
+        const value = this.textarea.value;
+        if (!/^\/\S*$/.test(value)) {
+            this.close();
+            return;
+        }
+        const query = value.slice(1).toLowerCase();
+        this.suggestions = this.getCommands().filter(suggestion => suggestion.command.startsWith(query));
+        this.selectedIndex = 0;
+        if (this.suggestions.length === 0) {
+            this.close();
+            return;
+        }
+        this.render();
+    }
+
+    private render(): void {
+        this.listEl.empty();
+        this.listEl.style.display = '';
+        this.suggestions.forEach((suggestion, index) => {
+            const item = this.listEl.createDiv({ cls: 'slash-command-suggestion' });
+            item.toggleClass('is-selected', index === this.selectedIndex);
+            item.createSpan({ cls: 'slash-command-name', text: `/${suggestion.command}` });
+            if (suggestion.description) {
+                item.createSpan({ cls: 'slash-command-description', text: suggestion.description });
+            }
+            // mousedown fires before the textarea loses focus and closes the list
+            item.addEventListener('mousedown', (e) => {
+                e.preventDefault();
+                this.choose(suggestion);
+            });
+        });
+    }
+
+    private choose(suggestion: SlashCommandSuggestion): void {
+        this.textarea.value = `/${suggestion.command}`;
+        this.textarea.focus();
+        this.close();
+    }
+}
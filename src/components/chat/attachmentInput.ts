@@ -0,0 +1,105 @@
+import { App, Notice, TFile } from 'obsidian';
+import { getAttachmentMimeType, MAX_ATTACHMENT_BYTES } from '../../utils/messageParts';
+
+/**
+ * Sets up pasting and dropping attachments into the chat input.
+ *
+ * Pasted or dropped images and PDFs are saved to the vault's attachment folder and embedded
+ * at the cursor as `![[path]]`; the embed is resolved into a message attachment when sent.
+ * Files dragged from Obsidian's file explorer are embedded (attachments) or linked (notes).
+ *
+ * @param app The Obsidian App instance
+ * @param textarea The chat input textarea element
+ */
+export function setupAttachmentInput(app: App, textarea: HTMLTextAreaElement) {
+    textarea.addEventListener('paste', (e: ClipboardEvent) => {
+        const files = Array.from(e.clipboardData?.files ?? []);
+        if (files.length === 0) return;
+        e.preventDefault();
+        insertAttachments(app, textarea, files);
+    });
+
+    textarea.addEventListener('dragover', (e: DragEvent) => {
+        e.preventDefault();
+        if (e.dataTransfer) e.dataTransfer.dropEffect = 'copy';
+    });
+
+    textarea.addEventListener('drop', (e: DragEvent) => {
+        const files = Array.from(e.dataTransfer?.files ?? []);
+        if (files.length > 0) {
+            e.preventDefault();
+            insertAttachments(app, textarea, files);
+            return;
+        }
+        // Obsidian keeps files dragged from its own views in the (undocumented) drag manager
+        const draggable = (app as any).dragManager?.draggable;
+        const dragged: TFile[] = draggable?.type === 'file' ? [draggable.file]
+            : draggable?.type === 'files' ? draggable.files : [];
+        const vaultFiles = dragged.filter(file => file instanceof TFile);
+        if (vaultFiles.length === 0) return;
+        e.preventDefault();
+        insertAtCursor(textarea, vaultFiles.map(file => getAttachmentMimeType(file.extension) ? `![[${file.path}]]` : `[[${file.path}]]`).join('\n'));
+    });
+}
+
+/**
+ * Saves supported files to the vault and embeds them in the input.
+ */
+async function insertAttachments(app: App, textarea: HTMLTextAreaElement, files: File[]) {
+    const embeds: string[] = [];
+    for (const file of files) {
+        const extension = getExtension(file);
+        if (!extension || !getAttachmentMimeType(extension)) {
+            new Notice(`Unsupported attachment type: ${file.name || file.type}. Images and PDFs can be attached.`);
+            continue;
+        }
+        if (file.size > MAX_ATTACHMENT_BYTES) {
+            new Notice(`Attachment too large: ${file.name}`);
+            continue;
+        }
+        try {
+            const name = file.name && file.name !== `image.${extension}` ? file.name : `Pasted image ${formatTimestamp(new Date())}.${extension}`;
+            const sourcePath = app.workspace.getActiveFile()?.path ?? '';
+            const path = await app.fileManager.getAvailablePathForAttachment(name, sourcePath);
+            const saved = await app.vault.createBinary(path, await file.arrayBuffer());
+            embeds.push(`![[${saved.path}]]`);
+        } catch (error) {
+            new Notice(`Failed to save attachment ${file.name}: ${error.message}`);
+        }
+    }
+    if (embeds.length > 0) {
+        insertAtCursor(textarea, embeds.join('\n'));
+    }
+}
+
+/**
+ * File extension from the file name, falling back to the MIME subtype for unnamed clipboard data.
+ */
+function getExtension(file: File): string | undefined {
+    const match = file.name.match(/\.([^.]+)$/);
+    if (match) return match[1].toLowerCase();
+    const subtype = file.type.split('/')[1];
+    return subtype === 'jpeg' ? 'jpg' : subtype;
+}
+
+/**
+ * Formats a date as YYYYMMDDHHmmss, matching Obsidian's names for pasted images.
+ */
+function formatTimestamp(date: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+/**
+ * Inserts text at the textarea's cursor, on its own line.
+ */
+function insertAtCursor(textarea: HTMLTextAreaElement, text: string) {
+    const { selectionStart, selectionEnd, value } = textarea;
+    const before = value.slice(0, selectionStart);
+    const prefix = before && !before.endsWith('\n') ? '\n' : '';
+    textarea.value = `${before}${prefix}${text}${value.slice(selectionEnd)}`;
+    const cursor = before.length + prefix.length + text.length;
+    textarea.setSelectionRange(cursor, cursor);
+    textarea.dispatchEvent(new Event('input'));
+    textarea.focus();
+}
@@ -1,5 +1,6 @@
 import { createMessageElement } from './Message';
 import { parseToolDataFromContent, cleanContentFromToolData } from '../../utils/messageContentParser';
+import { ChatBranchInfo } from './ChatHistoryManager';
 
 /**
  * Renders the chat history into the provided messages container.
@@ -11,6 +12,8 @@ import { parseToolDataFromContent, cleanContentFromToolData } from '../../utils/
  * @param plugin The plugin instance (for app access, settings, etc.).
  * @param regenerateResponse Callback for regenerating a response (used by message actions).
  * @param scrollToBottom Whether to scroll to the bottom after rendering (default: true).
+ * @param onSwitchBranch Called with a sibling message id when the user navigates between branches.
+ *                       Branch navigation is shown only when this is provided.
  */
 export async function renderChatHistory({
     messagesContainer,
@@ -18,14 +21,16 @@ export async function renderChatHistory({
     chatHistoryManager,
     plugin,
     regenerateResponse,
-    scrollToBottom = true
+    scrollToBottom = true,
+    onSwitchBranch
 }: {
     messagesContainer: HTMLElement,
     loadedHistory: any[], 
     chatHistoryManager: any,
     plugin: any,
     regenerateResponse: (el: HTMLElement) => void,
-    scrollToBottom?: boolean
+    scrollToBottom?: boolean,
+    onSwitchBranch?: (messageId: string) => void
 }) {
     // Clear the container before rendering
     messagesContainer.empty();
@@ -65,6 +70,13 @@ export async function renderChatHistory({
             );
             // Attach timestamp for reference (used for editing/deleting)
             messageEl.dataset.timestamp = msg.timestamp;
+            if (msg.id) {
+                messageEl.dataset.messageId = msg.id;
+                const branchInfo: ChatBranchInfo | undefined = chatHistoryManager.getBranchInfo?.(msg.id);
+                if (onSwitchBranch && branchInfo && branchInfo.siblingIds.length > 1) {
+                    renderBranchNavigator(messageEl, branchInfo, onSwitchBranch);
+                }
+            }
             messagesContainer.appendChild(messageEl);
         }
     }
@@ -73,3 +85,39 @@ export async function renderChatHistory({
         messagesContainer.scrollTop = messagesContainer.scrollHeight;
     }
 }
+
+/**
+ * Adds "< 2/3 >" navigation between alternative versions of a message (its siblings in the history tree).
+ * @param messageEl The message element.
+ * @param branchInfo The message's position among its siblings.
+ * @param onSwitchBranch Called with the id of the sibling to show.
+ */
+export function renderBranchNavigator(
+    messageEl: HTMLElement,
+    branchInfo: ChatBranchInfo,
+    onSwitchBranch: (messageId: string) => void
+) {
+    const { index, siblingIds } = branchInfo;
+    const container = messageEl.querySelector('.message-container') as HTMLElement || messageEl;
+    const nav = document.createElement('div');
+    nav.className = 'ai-chat-branch-nav';
+    nav.style.fontSize = '0.8em';
+    nav.style.opacity = '0.7';
+    nav.style.display = 'flex';
+    nav.style.alignItems = 'center';
+    nav.style.gap = '0.3em';
+
+    const createNavButton = (text: string, label: string, targetIndex: number) => {
+        const button = nav.createEl('button', { text, cls: 'ai-chat-branch-button' });
+        button.setAttribute('aria-label', label);
+        button.disabled = targetIndex < 0 || targetIndex >= siblingIds.length;
+        button.addEventListener('click', () => onSwitchBranch(siblingIds[targetIndex]));
+    };
+    createNavButton('<', 'Previous version', index - 1);
+    nav.createSpan({ text: `${index + 1}/${siblingIds.length}`, cls: 'ai-chat-branch-position' });
+    createNavButton('>', 'Next version', index + 1);
+
+    const actions = container.querySelector('.message-actions');
+    container.insertBefore(nav, actions);
+}
+
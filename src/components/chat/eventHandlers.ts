@@ -154,8 +154,10 @@ export function handleCopyMessage(messageEl: HTMLElement, plugin: MyPlugin) {
 
 /**
  * Handler for editing a single message in the chat and updating history.
+ * An edited user message becomes a new branch next to the original, and a response to it is
+ * generated through `regenerateCallback`; the original message and its replies stay in their branch.
  */
-export function handleEditMessage(messageEl: HTMLElement, chatHistoryManager: ChatHistoryManager, plugin: MyPlugin) {
+export function handleEditMessage(messageEl: HTMLElement, chatHistoryManager: ChatHistoryManager, plugin: MyPlugin, regenerateCallback?: (messageEl: HTMLElement) => void) {
     return async () => {
         const contentEl = messageEl.querySelector('.message-content') as HTMLElement;
         if (!contentEl) return;
@@ -183,6 +185,38 @@ export function handleEditMessage(messageEl: HTMLElement, chatHistoryManager: Ch
                         enhancedData = JSON.parse(messageEl.dataset.messageData);
                     } catch {}
                 }
+                const isUser = messageEl.classList.contains('user');
+                const messageId = messageEl.dataset.messageId;
+                if (isUser && regenerateCallback && messageId && newContent.trim() && newContent !== oldContent) {
+                    try {
+                        await chatHistoryManager.getHistory();
+                        const original = chatHistoryManager.getMessage(messageId);
+                        if (original) {
+                            const branch = await chatHistoryManager.addMessage({
+                                timestamp: new Date().toISOString(),
+                                sender: 'user',
+                                role: 'user',
+                                content: newContent,
+                                parentId: original.parentId ?? null
+                            });
+                            messageEl.dataset.messageId = branch.id;
+                            messageEl.dataset.timestamp = branch.timestamp;
+                            messageEl.dataset.rawContent = newContent;
+                            contentEl.empty();
+                            await MarkdownRenderer.render(plugin.app, newContent, contentEl, '', undefined as any);
+                            contentEl.removeClass('editing');
+                            regenerateCallback(messageEl);
+                            return;
+                        }
+                    } catch (e) {
+                        new Notice('Failed to save edited message.');
+                        messageEl.dataset.rawContent = oldContent || '';
+                        contentEl.empty();
+                        await MarkdownRenderer.render(plugin.app, oldContent || '', contentEl, '', undefined as any);
+                        contentEl.removeClass('editing');
+                        return;
+                    }
+                }
                 try {
                     await chatHistoryManager.updateMessage(
                         messageEl.dataset.timestamp || new Date().toISOString(),
@@ -1,17 +1,20 @@
 import { App } from 'obsidian';
 import MyPlugin from '../../main';
 import { handleHelp } from './eventHandlers';
+import { BUILT_IN_SLASH_COMMANDS } from './PromptLibrary';
+import { SlashCommandSuggest } from './SlashCommandSuggest';
 
 type SlashCommandHandler = (cmd: string) => Promise<void> | void;
 
 /**
  * Sets up input and keyboard event handlers for the chat input and message container.
- * Handles slash commands, Enter/Shift+Enter, and keyboard shortcuts.
+ * Handles slash commands (built-in and prompt library commands, with autocomplete),
+ * Enter/Shift+Enter, and keyboard shortcuts.
  * 
  * @param textarea The chat input textarea element
  * @param messagesContainer The chat messages container element
  * @param sendMessage Function to send the current message
- * @param handleSlashCommand Function to handle slash commands (e.g. /clear)
+ * @param handleSlashCommand Function to handle slash commands (e.g. /clear, or a prompt command with the text typed after it)
  * @param app The Obsidian App instance
  * @param plugin The plugin instance
  * @param sendButton The Send button element (not used here, but may be for future extension)
@@ -44,20 +47,36 @@ export function setupInputHandler(
         return false;
     };
 
+    // Autocomplete for built-in and prompt library commands
+    const suggest = new SlashCommandSuggest(textarea, () => [
+        ...Object.entries(BUILT_IN_SLASH_COMMANDS).map(([command, description]) => ({ command, description })),
+        ...(plugin.promptLibrary?.getPrompts() ?? []).map(prompt => ({ command: prompt.command, description: prompt.description }))
+    ]);
+
     // Handle keydown events in the textarea (input box)
     textarea.addEventListener('keydown', async (e) => {
-        // Handle keyboard shortcuts first
+        // Let the autocomplete list handle its navigation keys
+        if (suggest.handleKeydown(e)) return;
+
+        // Handle keyboard shortcuts next
         if (await handleKeyboardShortcuts(e)) return;
 
         // Handle Enter/Shift+Enter and slash commands
         if (e.key === 'Enter' && !e.shiftKey) {
             const val = textarea.value.trim();
-            if (val === '/clear' || val === '/copy' || val === '/save' || val === '/settings' || val === '/help' || val === '/ref') {
+            if (val === '/clear' || val === '/copy' || val === '/save' || val === '/settings' || val === '/help' || val === '/ref' || val === '/new' || val === '/sessions') {
                 e.preventDefault();
                 await handleSlashCommand(val);
                 textarea.value = '';
                 return;
             }
+            // Prompt library commands; the handler fills in and sends the prompt
+            const promptCommand = val.match(/^\/(\S+)/);
+            if (promptCommand && plugin.promptLibrary?.findPrompt(promptCommand[1])) {
+                e.preventDefault();
+                await handleSlashCommand(val);
+                return;
+            }
             await sendMessage();
             e.preventDefault();
         }
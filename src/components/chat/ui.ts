@@ -1,4 +1,5 @@
 import { App } from 'obsidian';
+import { ChatSession, ContextBudgetReport } from '../../types';
 
 /**
  * Interface representing the key UI elements of the chat view.
@@ -6,6 +7,13 @@ import { App } from 'obsidian';
 export interface ChatUIElements {
     contentEl: HTMLElement;             // The main content element of the view
     fadedHelp: HTMLElement;             // Element displaying faded help text
+    sessionBar: HTMLElement;            // Container for chat session controls
+    sessionSelect: HTMLSelectElement;   // Dropdown for switching chat sessions
+    newSessionButton: HTMLButtonElement;       // Button to start a new session
+    renameSessionButton: HTMLButtonElement;    // Button to rename the active session
+    duplicateSessionButton: HTMLButtonElement; // Button to duplicate the active session
+    deleteSessionButton: HTMLButtonElement;    // Button to delete the active session
+    searchSessionsButton: HTMLButtonElement;   // Button to search sessions
     topButtonContainer: HTMLElement;    // Container for top control buttons
     settingsButton: HTMLButtonElement;  // Button to open settings
     copyAllButton: HTMLButtonElement;   // Button to copy all chat messages
@@ -19,9 +27,11 @@ export interface ChatUIElements {
     stopButton: HTMLButtonElement;      // Button to stop generation
     helpButton: HTMLButtonElement;      // Button to show help modal
     agentModeButton: HTMLButtonElement; // Button to toggle agent mode
+    agentRunHistoryButton: HTMLButtonElement; // Button to show agent runs and undo them
     referenceNoteButton: HTMLButtonElement; // Button to toggle referencing current note
     referenceNoteIndicator: HTMLElement; // Indicator showing referenced note name
     modelNameDisplay: HTMLElement;      // Display for the current model name
+    contextBudgetDisplay: HTMLElement;  // Breakdown of the context included in the last request
 }
 
 /**
@@ -41,6 +51,30 @@ export function createChatUI(app: App, contentEl: HTMLElement): ChatUIElements {
     fadedHelp.style.fontSize = '0.95em';
     fadedHelp.style.margin = '0.5em 0 0.2em 0';
 
+    // Session bar (session dropdown and session actions)
+    const sessionBar = contentEl.createDiv('ai-chat-session-bar');
+    sessionBar.style.display = 'flex';
+    sessionBar.style.gap = '0.3em';
+    sessionBar.style.alignItems = 'center';
+    sessionBar.style.margin = '0.2em 0';
+
+    const sessionSelect = sessionBar.createEl('select', { cls: 'dropdown ai-chat-session-select' });
+    sessionSelect.setAttribute('aria-label', 'Chat session');
+    sessionSelect.style.flex = '1';
+    sessionSelect.style.minWidth = '0';
+
+    const createSessionButton = (text: string, label: string) => {
+        const button = sessionBar.createEl('button', { text, cls: 'ai-chat-session-button' });
+        button.setAttribute('aria-label', label);
+        button.setAttribute('title', label);
+        return button;
+    };
+    const newSessionButton = createSessionButton('＋', 'New chat session');
+    const renameSessionButton = createSessionButton('✎', 'Rename session');
+    const duplicateSessionButton = createSessionButton('⧉', 'Duplicate session');
+    const deleteSessionButton = createSessionButton('🗑', 'Delete session');
+    const searchSessionsButton = createSessionButton('🔍', 'Search sessions');
+
     // Top button container
     const topButtonContainer = contentEl.createDiv('ai-chat-buttons');
 
@@ -98,6 +132,16 @@ export function createChatUI(app: App, contentEl: HTMLElement): ChatUIElements {
     modelNameDisplay.style.fontWeight = 'bold';
     topButtonContainer.appendChild(modelNameDisplay);
 
+    // Context Budget Display (filled in after each request)
+    const contextBudgetDisplay = document.createElement('details');
+    contextBudgetDisplay.className = 'ai-context-budget-display';
+    contextBudgetDisplay.style.textAlign = 'center';
+    contextBudgetDisplay.style.opacity = '0.7';
+    contextBudgetDisplay.style.fontSize = '0.75em';
+    contextBudgetDisplay.style.margin = '0 0 0.5em 0';
+    contextBudgetDisplay.style.display = 'none'; // Hidden until the first request
+    topButtonContainer.appendChild(contextBudgetDisplay);
+
     // Messages container (where chat messages are displayed)
     const messagesContainer = contentEl.createDiv('ai-chat-messages');
     messagesContainer.setAttribute('tabindex', '0'); // Make it focusable for keyboard shortcuts
@@ -190,6 +234,21 @@ export function createChatUI(app: App, contentEl: HTMLElement): ChatUIElements {
     // Append the agent mode button to the input container
     inputContainer.appendChild(agentModeButton);
 
+    // Agent run history button (↶), for undoing the file changes of agent runs
+    const agentRunHistoryButton = inputContainer.createEl('button', {
+        text: '↶',
+    });
+    agentRunHistoryButton.setAttr('aria-label', 'Undo agent run');
+    agentRunHistoryButton.style.fontSize = '0.9em';
+    agentRunHistoryButton.style.width = '1.8em';
+    agentRunHistoryButton.style.height = '1.8em';
+    agentRunHistoryButton.style.marginBottom = '0.2em';
+    agentRunHistoryButton.style.opacity = '0.7';
+    agentRunHistoryButton.style.position = 'absolute';
+    agentRunHistoryButton.style.right = '5.1em'; // Position next to agent mode button
+    agentRunHistoryButton.style.top = '-2.2em';
+    agentRunHistoryButton.style.zIndex = '2';
+
     // Set input container position to relative for absolute positioning of help/agent buttons
     inputContainer.style.position = 'relative';
 
@@ -205,6 +264,13 @@ export function createChatUI(app: App, contentEl: HTMLElement): ChatUIElements {
     return {
         contentEl,
         fadedHelp,
+        sessionBar,
+        sessionSelect,
+        newSessionButton,
+        renameSessionButton,
+        duplicateSessionButton,
+        deleteSessionButton,
+        searchSessionsButton,
         topButtonContainer,
         settingsButton,
         copyAllButton,
@@ -218,8 +284,58 @@ export function createChatUI(app: App, contentEl: HTMLElement): ChatUIElements {
         stopButton,
         helpButton,
         agentModeButton,
+        agentRunHistoryButton,
         referenceNoteButton,
         referenceNoteIndicator,
         modelNameDisplay,
+        contextBudgetDisplay,
     };
 }
+
+/**
+ * Renders the context budget breakdown of the last request: a one-line summary
+ * that expands to show what was included, truncated or dropped.
+ * @param el The context budget display element.
+ * @param report The breakdown produced while building the context.
+ */
+export function renderContextBudgetDisplay(el: HTMLElement, report: ContextBudgetReport): void {
+    const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+    const statusIcons = { included: '✓', truncated: '✂', dropped: '✗' };
+
+    el.empty();
+    el.style.display = 'block';
+
+    const limit = Number.isFinite(report.budget) ? ` / ${formatTokens(report.budget)}` : '';
+    const shortened = report.items.filter(item => item.status !== 'included').length;
+    const summary = el.createEl('summary', {
+        text: `Context: ~${formatTokens(report.used)}${limit} tokens${shortened > 0 ? ` · ${shortened} shortened` : ''}`
+    });
+    summary.style.cursor = 'pointer';
+    summary.setAttribute('title', `Estimated context for ${report.model}`);
+
+    const list = el.createEl('ul');
+    list.style.textAlign = 'left';
+    list.style.margin = '0.3em 0';
+    for (const item of report.items) {
+        const size = item.status === 'included'
+            ? formatTokens(item.tokens)
+            : `${formatTokens(item.tokens)} of ${formatTokens(item.originalTokens)}`;
+        const detail = item.detail ? `, ${item.detail}` : '';
+        list.createEl('li', { text: `${statusIcons[item.status]} ${item.label} (${size} tokens${detail})` });
+    }
+}
+
+/**
+ * Fills the session dropdown with the given sessions and selects the active one.
+ * @param select The session dropdown.
+ * @param sessions Sessions in display order.
+ * @param activeSessionId The active session's id.
+ */
+export function renderSessionSelect(select: HTMLSelectElement, sessions: ChatSession[], activeSessionId?: string): void {
+    select.empty();
+    for (const session of sessions) {
+        const option = select.createEl('option', { text: session.name, value: session.id });
+        option.setAttribute('title', `${session.messageCount} message${session.messageCount !== 1 ? 's' : ''}`);
+    }
+    if (activeSessionId) select.value = activeSessionId;
+}
@@ -0,0 +1,75 @@
+import MyPlugin from '../../main';
+import { registerCommand } from '../../utils/pluginUtils';
+import { showNotice } from '../../utils/generalUtils';
+import { AgentRunHistoryModal, describeAgentOperation } from '../agent/AgentRunHistoryModal';
+
+/**
+ * Registers commands for undoing the file changes of agent runs.
+ *
+ * @param plugin The plugin instance owning the agent run journal.
+ */
+export function registerAgentRunCommands(plugin: MyPlugin) {
+    /**
+     * Registers the 'Undo Last Agent Run' command.
+     * Reverts every file operation of the most recent agent run.
+     */
+    registerCommand(
+        plugin,
+        {
+            id: 'undo-agent-run',
+            name: 'Undo Last Agent Run',
+            callback: async () => {
+                await undoAgentRun(plugin);
+            }
+        }
+    );
+
+    /**
+     * Registers the 'Show Agent Run History' command.
+     * Lists past agent runs and their file operations.
+     */
+    registerCommand(
+        plugin,
+        {
+            id: 'show-agent-run-history',
+            name: 'Show Agent Run History',
+            callback: () => {
+                openAgentRunHistory(plugin);
+            }
+        }
+    );
+}
+
+/**
+ * Opens the agent run history, from which runs can be undone.
+ * @param plugin The plugin instance owning the agent run journal.
+ */
+export function openAgentRunHistory(plugin: MyPlugin): void {
+    new AgentRunHistoryModal(
+        plugin.app,
+        () => plugin.agentRunJournal.getRuns(),
+        run => undoAgentRun(plugin, run.id)
+    ).open();
+}
+
+/**
+ * Undoes an agent run, reporting the outcome in a notice.
+ * @param plugin The plugin instance owning the agent run journal.
+ * @param runId Id of the run; defaults to the most recent run that has not been undone.
+ */
+export async function undoAgentRun(plugin: MyPlugin, runId?: string): Promise<void> {
+    try {
+        const result = await plugin.agentRunJournal.undoRun(runId);
+        const summary = `Undid ${result.reverted} file operation${result.reverted !== 1 ? 's' : ''}.`;
+        if (result.failures.length === 0) {
+            showNotice(summary);
+            return;
+        }
+        const failures = result.failures
+            .map(failure => `${describeAgentOperation(failure.operation)}: ${failure.error}`)
+            .join('\n');
+        showNotice(`${summary} ${result.failures.length} could not be undone:\n${failures}`);
+    } catch (error: any) {
+        showNotice(`Failed to undo agent run: ${error.message}`);
+    }
+}
@@ -0,0 +1,53 @@
+import MyPlugin from '../../main';
+import { registerCommand } from '../../utils/pluginUtils';
+import { showNotice } from '../../utils/generalUtils';
+import { parseAgentTask } from '../agent/AgentTaskRunner';
+
+/**
+ * Registers commands for background agent tasks.
+ *
+ * @param plugin The plugin instance owning the agent task runner.
+ */
+export function registerAgentTaskCommands(plugin: MyPlugin) {
+    /**
+     * Registers the 'Run Agent Task' command.
+     * Queues the active note as an agent task, whatever its trigger.
+     */
+    registerCommand(
+        plugin,
+        {
+            id: 'run-agent-task',
+            name: 'Run Agent Task',
+            callback: async () => {
+                const file = plugin.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'md') {
+                    showNotice('Open an agent task note first.');
+                    return;
+                }
+                const task = parseAgentTask(file.path, await plugin.app.vault.read(file));
+                if (!task) {
+                    showNotice('This note has no prompt to run as an agent task.');
+                    return;
+                }
+                plugin.agentTaskRunner.enqueue(task, 'manual');
+                showNotice(`Agent task "${task.name}" queued. Its log will be written to ${plugin.settings.agentTasks?.logFolder ?? 'the log folder'}.`);
+            }
+        }
+    );
+
+    /**
+     * Registers the 'Reload Agent Tasks' command.
+     * Reads the task notes again and reschedules interval tasks.
+     */
+    registerCommand(
+        plugin,
+        {
+            id: 'reload-agent-tasks',
+            name: 'Reload Agent Tasks',
+            callback: async () => {
+                await plugin.agentTaskRunner.reload();
+                showNotice(`Loaded ${plugin.agentTaskRunner.getTasks().length} agent task(s).`);
+            }
+        }
+    );
+}
@@ -0,0 +1,36 @@
+import { Editor } from 'obsidian';
+import MyPlugin from '../../main';
+import { registerCommand } from '../../utils/pluginUtils';
+import { AI_REWRITE_ACTIONS, handleAIRewrite } from '../../utils/aiRewriteHandler';
+
+/**
+ * Registers the AI rewrite actions (rewrite, shorten, expand, fix grammar, translate,
+ * change tone and custom instruction) as commands and in the editor context menu.
+ * Each action transforms the selection and shows the change for review before applying it.
+ *
+ * @param plugin The plugin instance.
+ */
+export function registerAIRewriteCommands(plugin: MyPlugin) {
+    for (const action of AI_REWRITE_ACTIONS) {
+        registerCommand(
+            plugin,
+            {
+                id: `ai-rewrite-${action.id}`,
+                name: `AI Rewrite: ${action.name}`,
+                editorCallback: (editor: Editor) => handleAIRewrite(plugin.app, editor, plugin, action)
+            }
+        );
+    }
+
+    // Offer the actions in the editor menu while text is selected
+    plugin.registerEvent(plugin.app.workspace.on('editor-menu', (menu, editor) => {
+        if (!editor.somethingSelected()) return;
+        menu.addSeparator();
+        for (const action of AI_REWRITE_ACTIONS) {
+            menu.addItem(item => item
+                .setTitle(`AI: ${action.name}`)
+                .setIcon('wand')
+                .onClick(() => handleAIRewrite(plugin.app, editor, plugin, action)));
+        }
+    }));
+}
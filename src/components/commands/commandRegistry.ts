@@ -1,12 +1,17 @@
 import MyPlugin from "../../main";
-import { MyPluginSettings, Message } from "../../types";
+import { MyPluginSettings, Message, MessageProcessingOptions } from "../../types";
 import {
     registerViewCommands,
     registerAIStreamCommands,
+    registerAIRewriteCommands,
     registerNoteCommands,
     registerGenerateNoteTitleCommand,
+    registerYamlBatchCommands,
     registerContextCommands,
     registerToggleCommands,
+    registerSemanticCommands,
+    registerAgentRunCommands,
+    registerAgentTaskCommands,
 } from ".";
 import { registerYamlAttributeCommands } from "../../YAMLHandler";
 import { debugLog } from "../../utils/logger"; // Changed from log to debugLog
@@ -14,7 +19,7 @@ import { debugLog } from "../../utils/logger"; // Changed from log to debugLog
 export function registerAllCommands(
     plugin: MyPlugin,
     settings: MyPluginSettings,
-    processMessages: (messages: Message[]) => Promise<Message[]>,
+    processMessages: (messages: Message[], options?: MessageProcessingOptions) => Promise<Message[]>,
     activateChatViewAndLoadMessages: (messages: Message[]) => Promise<void>,
     activeStream: { current: AbortController | null },
     setActiveStream: (stream: AbortController | null) => void,
@@ -22,10 +27,15 @@ export function registerAllCommands(
 ) {
     registerViewCommands(plugin);
     registerAIStreamCommands(plugin, settings, processMessages, activeStream, setActiveStream);
+    registerAIRewriteCommands(plugin);
     registerNoteCommands(plugin, settings, activateChatViewAndLoadMessages);
     registerGenerateNoteTitleCommand(plugin, settings, processMessages);
+    registerYamlBatchCommands(plugin);
     registerContextCommands(plugin, settings);
     registerToggleCommands(plugin, settings);
+    registerSemanticCommands(plugin);
+    registerAgentRunCommands(plugin);
+    registerAgentTaskCommands(plugin);
     return registerYamlAttributeCommands(
         plugin,
         settings,
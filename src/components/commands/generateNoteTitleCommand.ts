@@ -1,6 +1,6 @@
 import { Plugin } from 'obsidian';
 import { registerCommand } from '../../utils/pluginUtils';
-import { MyPluginSettings, Message } from '../../types';
+import { MyPluginSettings, Message, MessageProcessingOptions } from '../../types';
 
 /**
  * Registers the 'Generate Note Title' command.
@@ -13,7 +13,7 @@ import { MyPluginSettings, Message } from '../../types';
 export function registerGenerateNoteTitleCommand(
     plugin: Plugin,
     settings: MyPluginSettings,
-    processMessages: (messages: Message[]) => Promise<Message[]>
+    processMessages: (messages: Message[], options?: MessageProcessingOptions) => Promise<Message[]>
 ) {
     registerCommand(
         plugin,
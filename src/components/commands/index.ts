@@ -4,3 +4,8 @@ export { registerNoteCommands } from './noteCommands';
 export { registerGenerateNoteTitleCommand } from './generateNoteTitleCommand';
 export { registerContextCommands } from './contextCommands';
 export { registerToggleCommands } from './toggleCommands';
+export { registerSemanticCommands, runSemanticIndexUpdate } from './semanticCommands';
+export { registerAgentRunCommands, openAgentRunHistory, undoAgentRun } from './agentRunCommands';
+export { registerAgentTaskCommands } from './agentTaskCommands';
+export { registerAIRewriteCommands } from './aiRewriteCommands';
+export { registerYamlBatchCommands, openYamlBatch } from './yamlBatchCommands';
@@ -0,0 +1,62 @@
+import MyPlugin from '../../main';
+import { registerCommand } from '../../utils/pluginUtils';
+import { showNotice } from '../../utils/generalUtils';
+
+/**
+ * Registers commands for maintaining the semantic search index.
+ *
+ * @param plugin The plugin instance owning the semantic index.
+ */
+export function registerSemanticCommands(plugin: MyPlugin) {
+    /**
+     * Registers the 'Update Semantic Index' command.
+     * Embeds notes changed since they were last indexed.
+     */
+    registerCommand(
+        plugin,
+        {
+            id: 'update-semantic-index',
+            name: 'Update Semantic Index',
+            callback: async () => {
+                await runSemanticIndexUpdate(plugin, false);
+            }
+        }
+    );
+
+    /**
+     * Registers the 'Rebuild Semantic Index' command.
+     * Drops the index and embeds every note again.
+     */
+    registerCommand(
+        plugin,
+        {
+            id: 'rebuild-semantic-index',
+            name: 'Rebuild Semantic Index',
+            callback: async () => {
+                await runSemanticIndexUpdate(plugin, true);
+            }
+        }
+    );
+}
+
+/**
+ * Updates or rebuilds the semantic index, reporting the outcome in a notice.
+ * @param plugin The plugin instance owning the semantic index.
+ * @param rebuild Whether to drop the index and embed every note again.
+ */
+export async function runSemanticIndexUpdate(plugin: MyPlugin, rebuild: boolean): Promise<void> {
+    if (!plugin.semanticIndex?.isEnabled()) {
+        showNotice('Semantic search is disabled. Enable it in the plugin settings first.');
+        return;
+    }
+    showNotice(rebuild ? 'Rebuilding semantic index...' : 'Updating semantic index...');
+    try {
+        const embedded = rebuild
+            ? await plugin.semanticIndex.rebuild()
+            : await plugin.semanticIndex.updateAll();
+        const stats = await plugin.semanticIndex.getStats();
+        showNotice(`Semantic index ready: ${embedded} note${embedded !== 1 ? 's' : ''} embedded, ${stats.files} notes / ${stats.chunks} chunks indexed.`);
+    } catch (error: any) {
+        showNotice(`Failed to update semantic index: ${error.message}`);
+    }
+}
@@ -1,7 +1,7 @@
 import { Plugin } from 'obsidian';
 import { registerCommand } from '../../utils/pluginUtils';
 import { showNotice } from '../../utils/generalUtils';
-import { MyPluginSettings } from '../../types';
+import { DEFAULT_SETTINGS, MyPluginSettings } from '../../types';
 
 /**
  * Registers toggle commands for various plugin settings.
@@ -51,4 +51,24 @@ export function registerToggleCommands(
             }
         }
     );
+
+    /**
+     * Registers the 'Toggle Ghost Text Autocomplete' command.
+     * This command toggles the `ghostText.enabled` setting.
+     */
+    registerCommand(
+        plugin,
+        {
+            id: 'toggle-ghost-text',
+            name: 'Toggle Ghost Text Autocomplete',
+            callback: async () => {
+                settings.ghostText = { ...DEFAULT_SETTINGS.ghostText!, ...settings.ghostText };
+                settings.ghostText.enabled = !settings.ghostText.enabled;
+                await (plugin as any).saveSettings(); // Persist the setting change
+
+                const status = settings.ghostText.enabled ? 'enabled' : 'disabled';
+                showNotice(`Ghost text autocomplete ${status}`); // Provide user feedback
+            }
+        }
+    );
 }
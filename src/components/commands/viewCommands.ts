@@ -2,6 +2,7 @@ import { Plugin } from 'obsidian';
 import { registerCommand } from '../../utils/pluginUtils';
 import { activateView } from '../../utils/viewManager';
 import { VIEW_TYPE_CHAT } from '../../chat';
+import { openBackupTimeline } from '../BackupTimelineView';
 
 /**
  * Defines the view type for the model settings view.
@@ -10,7 +11,7 @@ export const VIEW_TYPE_MODEL_SETTINGS = 'model-settings-view';
 
 /**
  * Registers view-related commands for the plugin.
- * These commands allow users to open specific plugin views (settings, chat).
+ * These commands allow users to open specific plugin views (settings, chat, backup timeline).
  *
  * @param plugin The Obsidian plugin instance.
  */
@@ -44,4 +45,17 @@ export function registerViewCommands(plugin: Plugin) {
         'message-square', // Icon ID for the command palette
         'Open AI Chat' // Display name in the command palette
     );
+
+    /**
+     * Registers the 'Show Backup Timeline' command.
+     * This command shows the backups of the active note with their differences.
+     */
+    registerCommand(
+        plugin,
+        {
+            id: 'show-backup-timeline',
+            name: 'Show Backup Timeline',
+            callback: () => openBackupTimeline(plugin.app)
+        }
+    );
 }
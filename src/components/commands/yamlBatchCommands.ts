@@ -0,0 +1,45 @@
+import { TFolder } from 'obsidian';
+import MyPlugin from '../../main';
+import { registerCommand } from '../../utils/pluginUtils';
+import { YamlBatchTarget } from '../../types';
+import { YamlBatchModal } from '../YamlBatchModal';
+
+/**
+ * Registers the batch YAML generation command and its folder menu entry.
+ *
+ * @param plugin The plugin instance owning the batch runner.
+ */
+export function registerYamlBatchCommands(plugin: MyPlugin) {
+    /**
+     * Registers the 'Batch Generate YAML Attributes' command.
+     * Opens the current batch run, or sets up a new one.
+     */
+    registerCommand(
+        plugin,
+        {
+            id: 'batch-generate-yaml',
+            name: 'Batch Generate YAML Attributes',
+            callback: () => {
+                openYamlBatch(plugin);
+            }
+        }
+    );
+
+    // Offer a batch run for the notes of a folder in the file menu
+    plugin.registerEvent(plugin.app.workspace.on('file-menu', (menu, file) => {
+        if (!(file instanceof TFolder)) return;
+        menu.addItem(item => item
+            .setTitle('Batch generate YAML')
+            .setIcon('list-checks')
+            .onClick(() => openYamlBatch(plugin, { type: 'folder', value: file.path })));
+    }));
+}
+
+/**
+ * Opens the batch YAML generation modal.
+ * @param plugin The plugin instance owning the batch runner.
+ * @param target Notes preselected for a new run.
+ */
+export function openYamlBatch(plugin: MyPlugin, target?: YamlBatchTarget): void {
+    new YamlBatchModal(plugin.app, plugin.yamlBatchRunner, plugin.settings.yamlAttributeGenerators ?? [], target).open();
+}
@@ -0,0 +1,180 @@
+import { Extension, Prec, StateEffect, StateField } from '@codemirror/state';
+import { Decoration, EditorView, keymap, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
+import { editorInfoField } from 'obsidian';
+import type MyPlugin from '../../main';
+import { DEFAULT_SETTINGS } from '../../types';
+import { AIDispatcher } from '../../utils/aiDispatcher';
+import { buildGhostTextMessages, cleanGhostTextSuggestion, GHOST_TEXT_CONTEXT_CHARS, isGhostTextEnabledFor } from '../../utils/ghostText';
+import { debugLog } from '../../utils/logger';
+
+/** A suggestion shown as ghost text at a document position */
+interface GhostSuggestion {
+    pos: number;
+    text: string;
+}
+
+const setGhostText = StateEffect.define<GhostSuggestion | null>();
+
+/**
+ * Holds the suggestion currently shown. Any edit or cursor move drops it.
+ */
+const ghostTextField = StateField.define<GhostSuggestion | null>({
+    create: () => null,
+    update(value, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(setGhostText)) return effect.value;
+        }
+        return tr.docChanged || tr.selection ? null : value;
+    },
+    provide: field => EditorView.decorations.from(field, suggestion => suggestion
+        ? Decoration.set([Decoration.widget({ widget: new GhostTextWidget(suggestion.text), side: 1 }).range(suggestion.pos)])
+        : Decoration.none)
+});
+
+/**
+ * Renders the greyed suggestion text after the cursor.
+ */
+class GhostTextWidget extends WidgetType {
+    constructor(readonly text: string) {
+        super();
+    }
+
+    eq(other: GhostTextWidget): boolean {
+        return other.text === this.text;
+    }
+
+    toDOM(): HTMLElement {
+        const span = document.createElement('span');
+        span.className = 'ai-ghost-text';
+        span.textContent = this.text;
+        return span;
+    }
+
+    ignoreEvent(): boolean {
+        return true;
+    }
+}
+
+/**
+ * Inserts the shown suggestion and moves the cursor after it.
+ * @returns False if there is no suggestion, so Tab keeps its usual behavior.
+ */
+function acceptGhostText(view: EditorView): boolean {
+    const suggestion = view.state.field(ghostTextField, false);
+    if (!suggestion) return false;
+    view.dispatch({
+        changes: { from: suggestion.pos, insert: suggestion.text },
+        selection: { anchor: suggestion.pos + suggestion.text.length },
+        effects: setGhostText.of(null),
+        userEvent: 'input.complete'
+    });
+    return true;
+}
+
+/**
+ * Hides the shown suggestion.
+ * @returns False if there is no suggestion, so Esc keeps its usual behavior.
+ */
+function dismissGhostText(view: EditorView): boolean {
+    if (!view.state.field(ghostTextField, false)) return false;
+    view.dispatch({ effects: setGhostText.of(null) });
+    return true;
+}
+
+/**
+ * Asks for a suggestion once the user stops typing and aborts it when they continue.
+ */
+class GhostTextRequester {
+    private timer: number | null = null;
+    private abortController: AbortController | null = null;
+
+    constructor(private view: EditorView, private plugin: MyPlugin) {}
+
+    update(update: ViewUpdate): void {
+        if (!update.docChanged && !update.selectionSet) return;
+        this.cancel();
+        if (update.transactions.some(tr => tr.isUserEvent('input.type'))) {
+            this.schedule();
+        }
+    }
+
+    destroy(): void {
+        this.cancel();
+    }
+
+    private get settings() {
+        return this.plugin.settings.ghostText ?? DEFAULT_SETTINGS.ghostText!;
+    }
+
+    private schedule(): void {
+        const file = this.view.state.field(editorInfoField, false)?.file;
+        if (!file || !isGhostTextEnabledFor(file.path, this.settings)) return;
+        this.timer = window.setTimeout(() => {
+            this.timer = null;
+            this.request().catch(error =>
+                debugLog(this.plugin.settings.debugMode ?? false, 'error', '[GhostText] Suggestion failed', error));
+        }, this.settings.delayMs);
+    }
+
+    private cancel(): void {
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.abortController?.abort();
+        this.abortController = null;
+    }
+
+    /**
+     * Requests a continuation of the current paragraph and shows it if the editor has not changed meanwhile.
+     * Only done when the cursor is at the end of its line, ignoring trailing whitespace.
+     */
+    private async request(): Promise<void> {
+        const state = this.view.state;
+        const selection = state.selection.main;
+        const line = state.doc.lineAt(selection.head);
+        if (!selection.empty || state.doc.sliceString(selection.head, line.to).trim() !== '') return;
+
+        const textBefore = state.doc.sliceString(Math.max(0, selection.head - GHOST_TEXT_CONTEXT_CHARS), selection.head);
+        const messages = buildGhostTextMessages(textBefore);
+        if (!messages) return;
+
+        const abortController = new AbortController();
+        this.abortController = abortController;
+        let response = '';
+        const dispatcher = this.plugin.aiDispatcher || new AIDispatcher(this.plugin.app.vault, this.plugin);
+        await dispatcher.getCompletion(messages, {
+            model: this.settings.model || undefined,
+            temperature: this.plugin.settings.temperature,
+            abortController,
+            streamCallback: (chunk: string) => {
+                response += chunk;
+            }
+        });
+
+        if (abortController.signal.aborted || this.view.state.doc !== state.doc || this.view.state.selection.main.head !== selection.head) return;
+        this.abortController = null;
+        const text = cleanGhostTextSuggestion(response, textBefore);
+        if (text) {
+            this.view.dispatch({ effects: setGhostText.of({ pos: selection.head, text }) });
+        }
+    }
+}
+
+/**
+ * Creates the editor extension that shows AI suggestions as ghost text while typing.
+ * After a pause in typing the current paragraph is continued by the ghost text model; Tab accepts
+ * the suggestion and Esc dismisses it. Settings are read on every keystroke, so enabling the
+ * feature or changing its folders applies without reloading.
+ * @param plugin The plugin instance, for settings and the AI dispatcher
+ */
+export function createGhostTextExtension(plugin: MyPlugin): Extension {
+    return [
+        ghostTextField,
+        ViewPlugin.define(view => new GhostTextRequester(view, plugin)),
+        Prec.highest(keymap.of([
+            { key: 'Tab', run: acceptGhostText },
+            { key: 'Escape', run: dismissGhostText }
+        ]))
+    ];
+}
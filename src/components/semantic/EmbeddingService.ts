@@ -0,0 +1,253 @@
+import { MyPluginSettings } from '../../types';
+
+/**
+ * A chunk of a markdown note prepared for embedding.
+ */
+export interface TextChunk {
+    text: string;
+    /** Heading path the chunk sits under, e.g. "Project > Goals" */
+    heading?: string;
+}
+
+/**
+ * A source of text embeddings.
+ * Implementations must return one vector per input text, in order.
+ */
+export interface EmbeddingProvider {
+    /** Stable identifier of the provider and model, stored with the index to detect model changes. */
+    readonly id: string;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Embeddings from the OpenAI (or OpenAI-compatible) embeddings endpoint.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+    private static readonly BATCH_SIZE = 64;
+
+    constructor(
+        private apiKey: string,
+        private model: string = 'text-embedding-3-small',
+        private baseUrl: string = 'https://api.openai.com/v1'
+    ) {
+        this.id = `openai:${model}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        if (!this.apiKey) {
+            throw new Error('OpenAI API key is required for OpenAI embeddings');
+        }
+        const vectors: number[][] = [];
+        for (let i = 0; i < texts.length; i += OpenAIEmbeddingProvider.BATCH_SIZE) {
+            const batch = texts.slice(i, i + OpenAIEmbeddingProvider.BATCH_SIZE);
+            const response = await fetch(`${this.baseUrl}/embeddings`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${this.apiKey}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ model: this.model, input: batch })
+            });
+            if (!response.ok) {
+                throw new Error(`OpenAI embeddings request failed with status ${response.status}`);
+            }
+            const data = await response.json();
+            const ordered = [...(data.data || [])].sort((a: any, b: any) => a.index - b.index);
+            vectors.push(...ordered.map((item: any) => item.embedding as number[]));
+        }
+        return vectors;
+    }
+}
+
+/**
+ * Embeddings from an embedding model served by Ollama (e.g. nomic-embed-text).
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+    private baseUrl: string;
+
+    constructor(serverUrl: string = 'http://localhost:11434', private model: string = 'nomic-embed-text') {
+        this.baseUrl = (serverUrl || 'http://localhost:11434').replace(/\/+$/, '');
+        this.id = `ollama:${model}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const response = await fetch(`${this.baseUrl}/api/embed`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ model: this.model, input: texts })
+        });
+        if (!response.ok) {
+            throw new Error(`Ollama embeddings request failed with status ${response.status}. Is "${this.model}" pulled?`);
+        }
+        const data = await response.json();
+        return data.embeddings || [];
+    }
+}
+
+/**
+ * Embeddings computed in the plugin by hashing words and word pairs into a fixed-size vector.
+ * Needs no network or model download; it captures shared vocabulary rather than meaning.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+
+    constructor(private dimensions: number = 512) {
+        this.id = `local:hash-${dimensions}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.embedOne(text));
+    }
+
+    private embedOne(text: string): number[] {
+        const vector = new Array(this.dimensions).fill(0);
+        const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+        const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+        for (const feature of features) {
+            const hash = hashString(feature);
+            // The sign bit spreads collisions so they cancel out instead of accumulating
+            vector[hash % this.dimensions] += (hash & 0x80000000) ? -1 : 1;
+        }
+        return normalize(vector);
+    }
+}
+
+/**
+ * Creates the embedding provider selected in the semantic search settings.
+ * @param settings Plugin settings
+ */
+export function createEmbeddingProvider(settings: MyPluginSettings): EmbeddingProvider {
+    const semantic = settings.semanticSearch;
+    const model = semantic?.embeddingModel?.trim();
+    switch (semantic?.embeddingProvider) {
+        case 'ollama':
+            return new OllamaEmbeddingProvider(settings.ollamaSettings.serverUrl, model || undefined);
+        case 'local':
+            return new LocalEmbeddingProvider();
+        case 'openai':
+        default:
+            return new OpenAIEmbeddingProvider(settings.openaiSettings.apiKey, model || undefined, settings.openaiSettings.baseUrl || undefined);
+    }
+}
+
+/**
+ * Splits a markdown note into chunks of roughly `chunkSize` characters.
+ * Frontmatter is dropped, chunks never span headings, and paragraphs are kept whole where possible.
+ * Consecutive chunks within a section share `chunkOverlap` trailing characters.
+ * @param content Markdown content
+ * @param chunkSize Target chunk size in characters
+ * @param chunkOverlap Characters repeated from the end of the previous chunk
+ */
+export function chunkMarkdown(content: string, chunkSize: number = 1000, chunkOverlap: number = 100): TextChunk[] {
+    const body = content.replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, '');
+    const overlap = Math.max(0, Math.min(chunkOverlap, Math.floor(chunkSize / 2)));
+    const chunks: TextChunk[] = [];
+
+    for (const section of splitSections(body)) {
+        const paragraphs = section.text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+        let current = '';
+        const flush = () => {
+            if (current.trim()) {
+                chunks.push({ text: current.trim(), heading: section.heading });
+            }
+        };
+
+        for (const paragraph of paragraphs) {
+            for (const piece of splitLongText(paragraph, chunkSize)) {
+                if (current && current.length + piece.length + 2 > chunkSize) {
+                    flush();
+                    current = overlap > 0 ? current.slice(-overlap) : '';
+                }
+                current = current ? `${current}\n\n${piece}` : piece;
+            }
+        }
+        flush();
+    }
+    return chunks;
+}
+
+/**
+ * Splits markdown into sections at headings, tracking the heading path.
+ */
+function splitSections(body: string): Array<{ heading?: string; text: string }> {
+    const sections: Array<{ heading?: string; text: string }> = [];
+    const headingStack: string[] = [];
+    let lines: string[] = [];
+    let heading: string | undefined;
+
+    const push = () => {
+        const text = lines.join('\n').trim();
+        if (text) sections.push({ heading, text });
+        lines = [];
+    };
+
+    for (const line of body.split('\n')) {
+        const match = line.match(/^(#{1,6})\s+(.*)$/);
+        if (match) {
+            push();
+            headingStack.length = match[1].length - 1;
+            headingStack[match[1].length - 1] = match[2].trim();
+            heading = headingStack.filter(Boolean).join(' > ');
+        } else {
+            lines.push(line);
+        }
+    }
+    push();
+    return sections;
+}
+
+/**
+ * Splits text longer than `maxLength` at sentence boundaries, falling back to hard cuts.
+ */
+function splitLongText(text: string, maxLength: number): string[] {
+    if (text.length <= maxLength) return [text];
+    const pieces: string[] = [];
+    let remaining = text;
+    while (remaining.length > maxLength) {
+        const window = remaining.slice(0, maxLength);
+        const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('\n'));
+        const cut = sentenceEnd > maxLength / 2 ? sentenceEnd + 1 : maxLength;
+        pieces.push(remaining.slice(0, cut).trim());
+        remaining = remaining.slice(cut).trim();
+    }
+    if (remaining) pieces.push(remaining);
+    return pieces;
+}
+
+/**
+ * Cosine similarity of two vectors. Returns 0 for mismatched or zero vectors.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length || a.length === 0) return 0;
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+/**
+ * Scales a vector to unit length.
+ */
+function normalize(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * 32-bit FNV-1a hash.
+ */
+function hashString(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
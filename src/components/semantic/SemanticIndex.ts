@@ -0,0 +1,278 @@
+import { App, Plugin, TAbstractFile, TFile } from 'obsidian';
+import { MyPluginSettings } from '../../types';
+import { debugLog } from '../../utils/logger';
+import { PathValidator } from '../agent/tools/pathValidation';
+import { chunkMarkdown, createEmbeddingProvider, EmbeddingProvider } from './EmbeddingService';
+import { SemanticSearchResult, VectorEntry, VectorStore } from './VectorStore';
+
+/**
+ * Options for a semantic search.
+ */
+export interface SemanticSearchOptions {
+    maxResults?: number;
+    threshold?: number;
+    /** Restrict results to notes under this folder or path prefix */
+    pathPrefix?: string;
+    /** Restrict results to notes whose path passes this check */
+    includePath?: (path: string) => boolean;
+}
+
+/**
+ * Keeps a semantic index of the vault's markdown notes up to date and answers queries against it.
+ *
+ * Notes are chunked, embedded through the configured embedding provider and stored in the
+ * plugin's data folder. The index is updated incrementally on vault modify, rename and delete
+ * events; edits are debounced so a note is not re-embedded on every keystroke.
+ * Notes hidden from agent tools by the folder access settings are never embedded.
+ */
+export class SemanticIndex {
+    private store: VectorStore;
+    private loaded = false;
+    /** Serializes index updates so vault events and full rebuilds never interleave */
+    private queue: Promise<void> = Promise.resolve();
+    private pendingModifies = new Map<string, ReturnType<typeof setTimeout>>();
+    private saveTimer?: ReturnType<typeof setTimeout>;
+    private pathValidator: PathValidator;
+
+    private static readonly MODIFY_DEBOUNCE_MS = 2000;
+    private static readonly SAVE_DEBOUNCE_MS = 1000;
+
+    /**
+     * @param app The Obsidian App instance.
+     * @param pluginDataPath Path of the plugin's data folder.
+     * @param getSettings Returns the current plugin settings.
+     */
+    constructor(
+        private app: App,
+        pluginDataPath: string,
+        private getSettings: () => MyPluginSettings
+    ) {
+        this.store = new VectorStore(app, `${pluginDataPath}/semantic-index.json`, getSettings().debugMode ?? false);
+        this.pathValidator = new PathValidator(app);
+    }
+
+    /**
+     * True when semantic search is enabled in settings.
+     */
+    isEnabled(): boolean {
+        return this.getSettings().semanticSearch?.enabled ?? false;
+    }
+
+    /**
+     * Registers vault listeners that keep the index current. Listeners are removed when the plugin unloads.
+     * @param plugin The plugin owning the event registrations.
+     */
+    registerEvents(plugin: Plugin): void {
+        plugin.registerEvent(this.app.vault.on('modify', (file) => this.onModify(file)));
+        plugin.registerEvent(this.app.vault.on('create', (file) => this.onModify(file)));
+        plugin.registerEvent(this.app.vault.on('delete', (file) => this.onDelete(file)));
+        plugin.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.onRename(file, oldPath)));
+    }
+
+    /**
+     * Embeds every markdown note whose content changed since it was last indexed
+     * and drops notes that no longer exist or are hidden.
+     * @param onProgress Optional callback receiving (processed, total)
+     * @returns Number of notes (re-)embedded
+     */
+    async updateAll(onProgress?: (processed: number, total: number) => void): Promise<number> {
+        return this.enqueue(async () => {
+            const provider = await this.prepare();
+            const files = this.app.vault.getMarkdownFiles().filter(file => !this.pathValidator.isHidden(file.path));
+            const existing = new Set(files.map(file => file.path));
+            for (const path of this.store.getIndexedPaths()) {
+                if (!existing.has(path)) this.store.removeFile(path);
+            }
+
+            let embedded = 0;
+            for (let i = 0; i < files.length; i++) {
+                const file = files[i];
+                if (this.store.getFileMtime(file.path) !== file.stat.mtime) {
+                    try {
+                        await this.embedFile(file, provider);
+                        embedded++;
+                    } catch (error) {
+                        debugLog(this.debugMode, 'warn', '[SemanticIndex] Failed to embed note', { path: file.path, error });
+                    }
+                }
+                onProgress?.(i + 1, files.length);
+            }
+            this.scheduleSave();
+            return embedded;
+        });
+    }
+
+    /**
+     * Drops the whole index and embeds every markdown note again.
+     * @param onProgress Optional callback receiving (processed, total)
+     */
+    async rebuild(onProgress?: (processed: number, total: number) => void): Promise<number> {
+        await this.enqueue(async () => {
+            await this.ensureLoaded();
+            this.store.clear(createEmbeddingProvider(this.getSettings()).id);
+        });
+        return this.updateAll(onProgress);
+    }
+
+    /**
+     * Finds the note chunks most similar to a query.
+     * @param query Natural-language query
+     * @param options Result limits and filters; defaults come from settings
+     */
+    async search(query: string, options: SemanticSearchOptions = {}): Promise<SemanticSearchResult[]> {
+        const settings = this.getSettings().semanticSearch;
+        const provider = await this.enqueue(() => this.prepare());
+        const [queryEmbedding] = await provider.embed([query]);
+        if (!queryEmbedding) {
+            throw new Error('Embedding provider returned no vector for the query');
+        }
+        return this.store.search(
+            queryEmbedding,
+            options.maxResults ?? settings?.maxResults ?? 5,
+            options.threshold ?? settings?.similarityThreshold ?? 0.5,
+            options.pathPrefix,
+            options.includePath
+        );
+    }
+
+    /**
+     * Number of indexed notes and chunks, and the embedding model in use.
+     */
+    async getStats(): Promise<{ files: number; chunks: number; embeddingModel: string }> {
+        await this.ensureLoaded();
+        return this.store.getStats();
+    }
+
+    /**
+     * Cancels pending work and flushes the index to disk.
+     */
+    async dispose(): Promise<void> {
+        this.pendingModifies.forEach(timer => clearTimeout(timer));
+        this.pendingModifies.clear();
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+            if (this.loaded) await this.store.save();
+        }
+    }
+
+    private get debugMode(): boolean {
+        return this.getSettings().debugMode ?? false;
+    }
+
+    /**
+     * Loads the index and clears it if it was built with a different embedding model.
+     * @returns The embedding provider for the current settings
+     */
+    private async prepare(): Promise<EmbeddingProvider> {
+        await this.ensureLoaded();
+        const provider = createEmbeddingProvider(this.getSettings());
+        if (this.store.getEmbeddingModel() !== provider.id) {
+            debugLog(this.debugMode, 'info', '[SemanticIndex] Embedding model changed, clearing index', {
+                from: this.store.getEmbeddingModel(),
+                to: provider.id
+            });
+            this.store.clear(provider.id);
+        }
+        return provider;
+    }
+
+    private async ensureLoaded(): Promise<void> {
+        if (!this.loaded) {
+            await this.store.load();
+            this.loaded = true;
+        }
+    }
+
+    /**
+     * Chunks and embeds one note, replacing its previous entries.
+     */
+    private async embedFile(file: TFile, provider: EmbeddingProvider): Promise<void> {
+        const settings = this.getSettings().semanticSearch;
+        const content = await this.app.vault.cachedRead(file);
+        const chunks = chunkMarkdown(content, settings?.chunkSize ?? 1000, settings?.chunkOverlap ?? 100);
+        if (chunks.length === 0) {
+            this.store.setFileEntries(file.path, []);
+            return;
+        }
+
+        // Prefix the note title and heading so chunks carry their context into the embedding
+        const embeddings = await provider.embed(chunks.map(chunk =>
+            [file.basename, chunk.heading, chunk.text].filter(Boolean).join('\n')
+        ));
+        if (embeddings.length !== chunks.length) {
+            throw new Error(`Expected ${chunks.length} embeddings but received ${embeddings.length}`);
+        }
+
+        const entries: VectorEntry[] = chunks.map((chunk, chunkIndex) => ({
+            path: file.path,
+            chunkIndex,
+            heading: chunk.heading,
+            text: chunk.text,
+            embedding: embeddings[chunkIndex],
+            mtime: file.stat.mtime
+        }));
+        this.store.setFileEntries(file.path, entries);
+        debugLog(this.debugMode, 'debug', '[SemanticIndex] Embedded note', { path: file.path, chunks: entries.length });
+    }
+
+    private onModify(file: TAbstractFile): void {
+        if (!this.isEnabled() || !(file instanceof TFile) || file.extension !== 'md') return;
+        const pending = this.pendingModifies.get(file.path);
+        if (pending) clearTimeout(pending);
+        this.pendingModifies.set(file.path, setTimeout(() => {
+            this.pendingModifies.delete(file.path);
+            this.enqueue(async () => {
+                const provider = await this.prepare();
+                if (this.pathValidator.isHidden(file.path)) {
+                    if (this.store.removeFile(file.path)) this.scheduleSave();
+                    return;
+                }
+                await this.embedFile(file, provider);
+                this.scheduleSave();
+            }).catch(error => debugLog(this.debugMode, 'warn', '[SemanticIndex] Failed to update note', { path: file.path, error }));
+        }, SemanticIndex.MODIFY_DEBOUNCE_MS));
+    }
+
+    private onDelete(file: TAbstractFile): void {
+        if (!this.isEnabled()) return;
+        this.enqueue(async () => {
+            await this.ensureLoaded();
+            // Folders delete their notes individually, but prefix removal also covers them
+            const removed = this.store.getIndexedPaths()
+                .filter(path => path === file.path || path.startsWith(`${file.path}/`))
+                .map(path => this.store.removeFile(path));
+            if (removed.length > 0) this.scheduleSave();
+        }).catch(error => debugLog(this.debugMode, 'warn', '[SemanticIndex] Failed to remove note', { path: file.path, error }));
+    }
+
+    private onRename(file: TAbstractFile, oldPath: string): void {
+        if (!this.isEnabled()) return;
+        this.enqueue(async () => {
+            await this.ensureLoaded();
+            let moved = false;
+            for (const path of this.store.getIndexedPaths()) {
+                if (path === oldPath || path.startsWith(`${oldPath}/`)) {
+                    const newPath = file.path + path.slice(oldPath.length);
+                    // Notes moved into a hidden folder leave the index
+                    moved = (this.pathValidator.isHidden(newPath) ? this.store.removeFile(path) : this.store.renameFile(path, newPath)) || moved;
+                }
+            }
+            if (moved) this.scheduleSave();
+        }).catch(error => debugLog(this.debugMode, 'warn', '[SemanticIndex] Failed to rename note', { oldPath, error }));
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+        this.queue = result.then(() => undefined, () => undefined);
+        return result;
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) clearTimeout(this.saveTimer);
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.store.save().catch(error => debugLog(this.debugMode, 'error', '[SemanticIndex] Failed to save index:', error));
+        }, SemanticIndex.SAVE_DEBOUNCE_MS);
+    }
+}
@@ -0,0 +1,175 @@
+import { App, getAllTags, MarkdownPostProcessorContext, TFile } from 'obsidian';
+import { SemanticIndex } from './SemanticIndex';
+import { SemanticSearchResult } from './VectorStore';
+
+/**
+ * Query and options parsed from a `semantic-search` code block.
+ */
+export interface SemanticSearchBlockQuery {
+    query: string;
+    limit?: number;
+    threshold?: number;
+    folder?: string;
+    /** Tags without the leading '#', lowercased. A result must carry at least one of them. */
+    tags: string[];
+}
+
+/** Results fetched per requested result when filtering by tag, since tag filtering happens after ranking. */
+const TAG_FILTER_OVERFETCH = 5;
+
+/**
+ * Parses the body of a `semantic-search` code block.
+ * Lines of the form `limit: 5`, `threshold: 0.6`, `folder: Projects` or `tags: #work, idea`
+ * set options; all other non-empty lines form the query.
+ * @param source The code block body
+ */
+export function parseSemanticSearchBlock(source: string): SemanticSearchBlockQuery {
+    const queryLines: string[] = [];
+    const parsed: SemanticSearchBlockQuery = { query: '', tags: [] };
+
+    for (const line of source.split('\n')) {
+        const option = line.match(/^\s*(limit|results|threshold|folder|tags?)\s*:\s*(.*)$/i);
+        if (!option) {
+            if (line.trim()) queryLines.push(line.trim());
+            continue;
+        }
+        const value = option[2].trim();
+        switch (option[1].toLowerCase()) {
+            case 'limit':
+            case 'results': {
+                const limit = parseInt(value, 10);
+                if (limit > 0) parsed.limit = limit;
+                break;
+            }
+            case 'threshold': {
+                const threshold = parseFloat(value);
+                if (!isNaN(threshold)) parsed.threshold = Math.max(0, Math.min(1, threshold));
+                break;
+            }
+            case 'folder':
+                parsed.folder = value.replace(/^\/+|\/+$/g, '') || undefined;
+                break;
+            default:
+                parsed.tags = value.split(/[\s,]+/)
+                    .map(tag => tag.replace(/^#/, '').toLowerCase())
+                    .filter(Boolean);
+        }
+    }
+
+    parsed.query = queryLines.join(' ');
+    return parsed;
+}
+
+/**
+ * Renders live semantic search results for a `semantic-search` code block in reading view:
+ * ranked passages with clickable note links, similarity scores and highlighted query terms.
+ * @param app The Obsidian App instance.
+ * @param semanticIndex The plugin's semantic index.
+ * @param source The code block body.
+ * @param el The element to render into.
+ * @param ctx The markdown post-processor context.
+ */
+export async function renderSemanticSearchBlock(
+    app: App,
+    semanticIndex: SemanticIndex,
+    source: string,
+    el: HTMLElement,
+    ctx: MarkdownPostProcessorContext
+): Promise<void> {
+    const container = el.createDiv({ cls: 'semantic-search-container' });
+    const block = parseSemanticSearchBlock(source);
+
+    if (!block.query) {
+        container.createDiv({ cls: 'semantic-search-empty', text: 'Enter a query in the semantic-search code block to see related notes.' });
+        return;
+    }
+    if (!semanticIndex.isEnabled()) {
+        container.createDiv({ cls: 'semantic-search-error', text: 'Semantic search is disabled. Enable it in the plugin settings under Semantic Search.' });
+        return;
+    }
+
+    const loading = container.createDiv({ cls: 'semantic-search-loading', text: 'Searching your notes...' });
+    let results: SemanticSearchResult[];
+    try {
+        const limit = block.limit;
+        results = await semanticIndex.search(block.query, {
+            maxResults: block.tags.length > 0 && limit ? limit * TAG_FILTER_OVERFETCH : limit,
+            threshold: block.threshold,
+            pathPrefix: block.folder ? `${block.folder}/` : undefined
+        });
+        if (block.tags.length > 0) {
+            results = results.filter(result => hasAnyTag(app, result.path, block.tags));
+            if (limit) results = results.slice(0, limit);
+        }
+    } catch (error: any) {
+        loading.remove();
+        container.createDiv({ cls: 'semantic-search-error', text: `Semantic search failed: ${error.message}` });
+        return;
+    }
+    loading.remove();
+
+    const header = container.createDiv({ cls: 'semantic-search-header' });
+    header.createEl('h4', { cls: 'semantic-search-title', text: block.query });
+    header.createSpan({ cls: 'semantic-search-count', text: `${results.length} result${results.length !== 1 ? 's' : ''}` });
+
+    if (results.length === 0) {
+        container.createDiv({ cls: 'semantic-search-no-results', text: 'No related passages found. Try a broader query or a lower threshold.' });
+        return;
+    }
+
+    const terms = block.query.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || [];
+    const list = container.createDiv({ cls: 'semantic-search-results' });
+    results.forEach((result, index) => {
+        const item = list.createDiv({ cls: 'semantic-search-result' });
+        const itemHeader = item.createDiv({ cls: 'semantic-search-result-header' });
+        itemHeader.createSpan({ cls: 'semantic-search-rank', text: `#${index + 1}` });
+
+        const linkTarget = result.heading
+            ? `${result.path}#${result.heading.split(' > ').pop()}`
+            : result.path;
+        const link = itemHeader.createEl('a', {
+            cls: 'semantic-search-file-link',
+            text: result.heading ? `${result.path} › ${result.heading}` : result.path,
+            attr: { href: linkTarget }
+        });
+        link.addEventListener('click', (event) => {
+            event.preventDefault();
+            app.workspace.openLinkText(linkTarget, ctx.sourcePath, event.ctrlKey || event.metaKey);
+        });
+
+        itemHeader.createSpan({ cls: 'semantic-search-score', text: `${Math.round(result.score * 100)}%` });
+        appendHighlighted(item.createDiv({ cls: 'semantic-search-content' }), result.text, terms);
+    });
+}
+
+/**
+ * True if the note at `path` carries at least one of the given tags (or a nested tag below one).
+ */
+function hasAnyTag(app: App, path: string, tags: string[]): boolean {
+    const file = app.vault.getAbstractFileByPath(path);
+    const cache = file instanceof TFile ? app.metadataCache.getFileCache(file) : null;
+    if (!cache) return false;
+    const noteTags = (getAllTags(cache) || []).map(tag => tag.replace(/^#/, '').toLowerCase());
+    return noteTags.some(noteTag => tags.some(tag => noteTag === tag || noteTag.startsWith(`${tag}/`)));
+}
+
+/**
+ * Appends text to an element, wrapping occurrences of the query terms in <mark>.
+ * Builds DOM nodes rather than HTML so note content is never interpreted as markup.
+ */
+function appendHighlighted(el: HTMLElement, text: string, terms: string[]): void {
+    if (terms.length === 0) {
+        el.appendText(text);
+        return;
+    }
+    const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const pattern = new RegExp(`(${escaped.join('|')})`, 'giu');
+    text.split(pattern).forEach((part, index) => {
+        // split() with a capture group puts the matches at odd indices
+        if (index % 2 === 1) {
+            el.createEl('mark', { text: part });
+        } else if (part) {
+            el.appendText(part);
+        }
+    });
+}
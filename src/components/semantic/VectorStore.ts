@@ -0,0 +1,179 @@
+import { App } from 'obsidian';
+import { cosineSimilarity } from './EmbeddingService';
+import { debugLog } from '../../utils/logger';
+
+/**
+ * A single embedded chunk of a note.
+ */
+export interface VectorEntry {
+    path: string;
+    chunkIndex: number;
+    heading?: string;
+    text: string;
+    embedding: number[];
+    /** Modification time of the note when the chunk was embedded */
+    mtime: number;
+}
+
+/**
+ * A search hit, without the stored embedding.
+ */
+export interface SemanticSearchResult {
+    path: string;
+    chunkIndex: number;
+    heading?: string;
+    text: string;
+    /** Cosine similarity to the query, 0-1 */
+    score: number;
+}
+
+/**
+ * Structure of the semantic-index.json file
+ */
+interface VectorIndexData {
+    version: number;
+    /** Embedding provider id the vectors were produced with */
+    embeddingModel: string;
+    files: Record<string, VectorEntry[]>;
+}
+
+const INDEX_VERSION = 1;
+
+/**
+ * Stores chunk embeddings per note in a JSON file in the plugin's data folder
+ * and answers nearest-neighbour queries by cosine similarity.
+ */
+export class VectorStore {
+    private data: VectorIndexData = { version: INDEX_VERSION, embeddingModel: '', files: {} };
+
+    /**
+     * @param app The Obsidian App instance.
+     * @param indexFilePath Path of the JSON file storing the index.
+     * @param debugMode Whether to log debug output.
+     */
+    constructor(private app: App, private indexFilePath: string, private debugMode: boolean = false) {}
+
+    /**
+     * Loads the index from disk. A missing, corrupt or outdated file yields an empty index.
+     */
+    async load(): Promise<void> {
+        try {
+            if (await this.app.vault.adapter.exists(this.indexFilePath)) {
+                const parsed = JSON.parse(await this.app.vault.adapter.read(this.indexFilePath));
+                if (parsed?.version === INDEX_VERSION && parsed.files) {
+                    this.data = parsed;
+                    return;
+                }
+            }
+        } catch (error) {
+            debugLog(this.debugMode, 'error', '[VectorStore] Failed to load semantic index:', error);
+        }
+        this.data = { version: INDEX_VERSION, embeddingModel: '', files: {} };
+    }
+
+    /**
+     * Writes the index to disk.
+     */
+    async save(): Promise<void> {
+        await this.app.vault.adapter.write(this.indexFilePath, JSON.stringify(this.data));
+    }
+
+    /**
+     * The embedding provider id the stored vectors were produced with.
+     */
+    getEmbeddingModel(): string {
+        return this.data.embeddingModel;
+    }
+
+    /**
+     * Drops all entries and records the embedding provider for new ones.
+     * @param embeddingModel Embedding provider id
+     */
+    clear(embeddingModel: string): void {
+        this.data = { version: INDEX_VERSION, embeddingModel, files: {} };
+    }
+
+    /**
+     * Replaces all chunks of a note.
+     */
+    setFileEntries(path: string, entries: VectorEntry[]): void {
+        if (entries.length === 0) {
+            delete this.data.files[path];
+        } else {
+            // Rounding keeps the JSON file compact without affecting similarity ranking
+            this.data.files[path] = entries.map(entry => ({
+                ...entry,
+                embedding: entry.embedding.map(value => Math.round(value * 1e5) / 1e5)
+            }));
+        }
+    }
+
+    /**
+     * Removes all chunks of a note. Returns true if anything was removed.
+     */
+    removeFile(path: string): boolean {
+        if (!(path in this.data.files)) return false;
+        delete this.data.files[path];
+        return true;
+    }
+
+    /**
+     * Moves the chunks of a renamed note to its new path. Returns true if anything was moved.
+     */
+    renameFile(oldPath: string, newPath: string): boolean {
+        const entries = this.data.files[oldPath];
+        if (!entries) return false;
+        delete this.data.files[oldPath];
+        this.data.files[newPath] = entries.map(entry => ({ ...entry, path: newPath }));
+        return true;
+    }
+
+    /**
+     * Modification time the note had when it was last embedded, or undefined if not indexed.
+     */
+    getFileMtime(path: string): number | undefined {
+        return this.data.files[path]?.[0]?.mtime;
+    }
+
+    /**
+     * Paths of all indexed notes.
+     */
+    getIndexedPaths(): string[] {
+        return Object.keys(this.data.files);
+    }
+
+    /**
+     * Returns the chunks most similar to the query vector.
+     * @param queryEmbedding Query vector from the same embedding provider
+     * @param maxResults Maximum number of results
+     * @param threshold Minimum cosine similarity
+     * @param pathPrefix Optional folder or path prefix to restrict results to
+     * @param includePath Optional check a note's path must pass, applied before results are limited
+     */
+    search(queryEmbedding: number[], maxResults: number, threshold: number, pathPrefix?: string, includePath?: (path: string) => boolean): SemanticSearchResult[] {
+        const results: SemanticSearchResult[] = [];
+        for (const [path, entries] of Object.entries(this.data.files)) {
+            if (pathPrefix && !path.startsWith(pathPrefix)) continue;
+            if (includePath && !includePath(path)) continue;
+            for (const entry of entries) {
+                const score = cosineSimilarity(queryEmbedding, entry.embedding);
+                if (score >= threshold) {
+                    results.push({ path, chunkIndex: entry.chunkIndex, heading: entry.heading, text: entry.text, score });
+                }
+            }
+        }
+        return results.sort((a, b) => b.score - a.score).slice(0, maxResults);
+    }
+
+    /**
+     * Number of indexed notes and chunks.
+     */
+    getStats(): { files: number; chunks: number; embeddingModel: string } {
+        const files = Object.values(this.data.files);
+        return {
+            files: files.length,
+            chunks: files.reduce((total, entries) => total + entries.length, 0),
+            embeddingModel: this.data.embeddingModel
+        };
+    }
+}
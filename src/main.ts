@@ -1,5 +1,5 @@
-import { Plugin } from 'obsidian';
-import { MyPluginSettings, Message, DEFAULT_SETTINGS, AgentModeSettings } from './types';
+import { Plugin, TFile } from 'obsidian';
+import { MyPluginSettings, Message, MessageProcessingOptions, DEFAULT_SETTINGS, AgentModeSettings } from './types';
 import { MyPluginSettingTab } from './settings';
 import { ChatView, VIEW_TYPE_CHAT } from './chat';
 import { ModelSettingsView } from './components/ModelSettingsView';
@@ -9,6 +9,13 @@ import { debugLog } from './utils/logger'; // Changed from log to debugLog
 import { activateView } from './utils/viewManager';
 import { AgentModeManager } from './components/agent/agentModeManager';
 import { BackupManager } from './components/BackupManager';
+import { BackupTimelineView, VIEW_TYPE_BACKUP_TIMELINE, openBackupTimeline } from './components/BackupTimelineView';
+import { AgentRunJournal } from './components/agent/AgentRunJournal';
+import { AgentTaskRunner } from './components/agent/AgentTaskRunner';
+import { PromptLibrary } from './components/chat/PromptLibrary';
+import { YamlBatchRunner } from './components/YamlBatchRunner';
+import { ToolPermissionPolicy } from './components/agent/ToolPermissionPolicy';
+import { PathValidator, setVaultAccessProvider } from './components/agent/tools/pathValidation';
 import { ToolRichDisplay } from './components/agent/ToolRichDisplay';
 import { registerAllCommands } from './components/commands/commandRegistry';
 import { VIEW_TYPE_MODEL_SETTINGS } from './components/commands/viewCommands';
@@ -20,6 +27,11 @@ import { parseToolDataFromContent, cleanContentFromToolData } from './utils/mess
 import { isVaultAdapterWithBasePath, validatePluginSettings } from './utils/typeGuards';
 import { RecentlyOpenedFilesManager } from './utils/recently-opened-files';
 import { PerformanceDashboardModal } from './utils/PerformanceDashboard';
+import { UsageTracker } from './utils/usageTracker';
+import { SemanticIndex } from './components/semantic/SemanticIndex';
+import { renderSemanticSearchBlock } from './components/semantic/SemanticSearchCodeBlock';
+import { ChatSessionManager } from './components/chat/ChatSessionManager';
+import { createGhostTextExtension } from './components/editor/GhostTextExtension';
 
 /**
  * AI Assistant Plugin
@@ -66,6 +78,38 @@ export default class MyPlugin extends Plugin {
      * Backup manager instance for handling plugin data backups.
      */
     public backupManager: BackupManager;
+    /**
+     * Journal of the file operations of each agent run, used to undo whole runs.
+     */
+    public agentRunJournal: AgentRunJournal;
+    /**
+     * Decides which tool calls run, need approval, or are denied.
+     */
+    public toolPermissionPolicy: ToolPermissionPolicy;
+    /**
+     * Running token usage and cost totals per provider, day and chat session.
+     */
+    public usageTracker: UsageTracker;
+    /**
+     * Semantic index of the vault's notes, used by the semantic_search tool.
+     */
+    public semanticIndex: SemanticIndex;
+    /**
+     * Runs agent tasks defined as notes in the background, on startup and on their schedules.
+     */
+    public agentTaskRunner: AgentTaskRunner;
+    /**
+     * Prompts from the prompt library folder, offered as chat slash commands.
+     */
+    public promptLibrary: PromptLibrary;
+    /**
+     * Batch run generating a frontmatter field for many notes, persisted so it can be resumed.
+     */
+    public yamlBatchRunner: YamlBatchRunner;
+    /**
+     * Chat sessions, each with its own history, model and system prompt.
+     */
+    public chatSessionManager: ChatSessionManager;
     /**
      * Agent mode manager instance for handling agent-related settings and logic.
      */
@@ -186,10 +230,54 @@ export default class MyPlugin extends Plugin {
 
         // Compute the plugin data path for storing backups
         const pluginDataPath = this.app.vault.configDir + '/plugins/ai-assistant-for-obsidian';
-        this.backupManager = new BackupManager(this.app, pluginDataPath);
+        this.backupManager = new BackupManager(this.app, pluginDataPath, () => ({
+            maxDays: this.settings.backupRetentionDays,
+            maxCount: this.settings.backupMaxCount,
+            maxTotalSize: this.settings.backupMaxSizeMB && this.settings.backupMaxSizeMB * 1024 * 1024
+        }));
         
         // Initialize backup manager (loads or creates backup files)
         await this.backupManager.initialize();
+
+        // Initialize usage tracker (loads persisted token and cost totals)
+        this.usageTracker = new UsageTracker(this.app, `${pluginDataPath}/usage-stats.json`, this.settings.debugMode ?? false);
+        await this.usageTracker.initialize();
+
+        // Initialize agent run journal (loads the history of undoable agent runs)
+        this.agentRunJournal = new AgentRunJournal(this.app, `${pluginDataPath}/agent-runs.json`, this.settings.debugMode ?? false);
+        await this.agentRunJournal.initialize();
+
+        // Initialize the batch YAML runner (loads an unfinished batch run)
+        this.yamlBatchRunner = new YamlBatchRunner(this, `${pluginDataPath}/yaml-batch-run.json`, (messages, options) => this.processMessages(messages, options));
+        await this.yamlBatchRunner.initialize();
+
+        // Tool permission rules are read from settings on every check
+        this.toolPermissionPolicy = new ToolPermissionPolicy(
+            () => this.settings.toolPermissions ?? [],
+            () => this.settings.activeSessionId,
+            new PathValidator(this.app)
+        );
+        // Every agent file tool hides and protects paths using the folder access settings
+        setVaultAccessProvider(() => this.settings.vaultAccess);
+
+        // Initialize semantic index (kept current through vault events while enabled)
+        this.semanticIndex = new SemanticIndex(this.app, pluginDataPath, () => this.settings);
+        this.semanticIndex.registerEvents(this);
+
+        // Background agent tasks defined as notes; started once the layout is ready
+        this.agentTaskRunner = new AgentTaskRunner(this);
+        this.agentTaskRunner.registerEvents(this);
+
+        // Prompt library notes, loaded once the layout is ready and reloaded when they change
+        this.promptLibrary = new PromptLibrary(this);
+        this.promptLibrary.registerEvents(this);
+
+        // Initialize chat sessions; the active session follows model and system prompt changes
+        this.chatSessionManager = new ChatSessionManager(this.app.vault, this.manifest.id, this);
+        this.onSettingsChange(() => {
+            this.chatSessionManager.syncActiveSessionSettings().catch(error =>
+                debugLog(this.settings.debugMode ?? false, 'error', '[main.ts] Failed to update chat session settings:', error));
+        });
         
         // Initialize agent mode manager for handling agent mode logic
         this.agentModeManager = new AgentModeManager(
@@ -217,12 +305,25 @@ export default class MyPlugin extends Plugin {
         // Register custom views for model settings and chat
         this.registerPluginView(VIEW_TYPE_CHAT, (leaf) => new ChatView(leaf, this));
         this.registerPluginView(VIEW_TYPE_MODEL_SETTINGS, (leaf) => new ModelSettingsView(leaf, this));
+        this.registerPluginView(VIEW_TYPE_BACKUP_TIMELINE, (leaf) => new BackupTimelineView(leaf, this));
+
+        // Offer the backup timeline in the file menu
+        this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+            if (!(file instanceof TFile)) return;
+            menu.addItem(item => item
+                .setTitle('Show backup timeline')
+                .setIcon('history')
+                .onClick(() => openBackupTimeline(this.app, file.path)));
+        }));
+
+        // Inline ghost-text suggestions; inactive until enabled in the settings
+        this.registerEditorExtension(createGhostTextExtension(this));
 
         // Register all commands using the new centralized function
         this._yamlAttributeCommandIds = registerAllCommands(
             this,
             this.settings,
-            (messages: Message[]) => this.processMessages(messages),
+            (messages: Message[], options?: MessageProcessingOptions) => this.processMessages(messages, options),
             (messages: Message[]) => this.activateChatViewAndLoadMessages(messages),
             { current: this.activeStream },
             (stream: AbortController | null) => { this.activeStream = stream; },
@@ -234,6 +335,21 @@ export default class MyPlugin extends Plugin {
             if (this.settings.autoOpenModelSettings) {
                 activateView(this.app, VIEW_TYPE_MODEL_SETTINGS);
             }
+            // Catch up on notes changed while the plugin was not running
+            if (this.semanticIndex.isEnabled()) {
+                this.semanticIndex.updateAll().catch(error =>
+                    debugLog(this.settings.debugMode ?? false, 'error', '[main.ts] Failed to update semantic index:', error)
+                );
+            }
+            // Drop backups past the retention period and size limits
+            this.backupManager.cleanupOldBackups();
+            // Schedule agent tasks and run those triggered on startup
+            this.agentTaskRunner.start().catch(error =>
+                debugLog(this.settings.debugMode ?? false, 'error', '[main.ts] Failed to start agent tasks:', error)
+            );
+            this.promptLibrary.reload().catch(error =>
+                debugLog(this.settings.debugMode ?? false, 'error', '[main.ts] Failed to load prompt library:', error)
+            );
         });
 
         // Register a markdown post-processor to handle tool execution blocks in preview/live mode
@@ -246,6 +362,11 @@ export default class MyPlugin extends Plugin {
             this.processToolExecutionCodeBlock(source, el, ctx);
         });
 
+        // Register a code block processor rendering live results for 'semantic-search' code blocks
+        this.registerMarkdownCodeBlockProcessor("semantic-search", (source, el, ctx) =>
+            renderSemanticSearchBlock(this.app, this.semanticIndex, source, el, ctx)
+        );
+
 
         // Register performance dashboard command
         this.addCommand({
@@ -329,7 +450,7 @@ export default class MyPlugin extends Plugin {
         this._yamlAttributeCommandIds = registerYamlAttributeCommands(
             this,
             this.settings,
-            (messages) => this.processMessages(messages),
+            (messages, options) => this.processMessages(messages, options),
             this._yamlAttributeCommandIds,
             (level, ...args) => debugLog(this.settings.debugMode ?? false, level, ...args) // Changed from log to debugLog
         );
@@ -339,10 +460,15 @@ export default class MyPlugin extends Plugin {
     /**
      * Processes an array of messages, potentially adding context notes.
      * @param messages The messages to process.
+     * @param options Set `includeContextNotes: false` to leave the context notes out.
      * @returns A promise that resolves to the processed messages.
      */
-    private async processMessages(messages: Message[]): Promise<Message[]> {
-        return processMessages(messages, this.app, this.settings);
+    private async processMessages(messages: Message[], options?: MessageProcessingOptions): Promise<Message[]> {
+        // A copy keeps the shared settings untouched while other requests read them
+        const settings = options?.includeContextNotes === false
+            ? { ...this.settings, enableContextNotes: false }
+            : this.settings;
+        return processMessages(messages, this.app, settings);
     }
 
     /**
@@ -352,6 +478,7 @@ export default class MyPlugin extends Plugin {
     onunload() {
         MyPlugin.registeredViewTypes.delete(VIEW_TYPE_MODEL_SETTINGS);
         MyPlugin.registeredViewTypes.delete(VIEW_TYPE_CHAT);
+        MyPlugin.registeredViewTypes.delete(VIEW_TYPE_BACKUP_TIMELINE);
         
         // Clean up Priority 3 optimizations
         if (this.priority3Manager) {
@@ -362,6 +489,25 @@ export default class MyPlugin extends Plugin {
         if (this.recentlyOpenedFilesManager) {
             this.recentlyOpenedFilesManager.destroy();
         }
+
+        // Flush pending semantic index changes
+        if (this.semanticIndex) {
+            this.semanticIndex.dispose().catch(error =>
+                debugLog(this.settings.debugMode ?? false, 'error', '[main.ts] Failed to save semantic index:', error)
+            );
+        }
+
+        // Save session metadata still waiting for its delayed save
+        if (this.chatSessionManager) {
+            this.chatSessionManager.flush().catch(error =>
+                debugLog(this.settings.debugMode ?? false, 'error', '[main.ts] Failed to save chat sessions:', error)
+            );
+        }
+
+        // Stop scheduled agent tasks
+        if (this.agentTaskRunner) {
+            this.agentTaskRunner.dispose();
+        }
         
         // Clean up object pools to free memory
         MessageContextPool.getInstance().clear();
@@ -31,6 +31,13 @@ export const getToolParameters = (toolName: string) => {
     } : null;
 };
 
+// How the model is told to call tools; the native transport sends tool calls through the provider's API
+const TEXT_TOOL_CALL_FORMAT = `Respond with consecutive JSON objects (no array wrapper):
+{"action": "tool_name", "parameters": {...}, "requestId": "unique_id"}`;
+const NATIVE_TOOL_CALL_FORMAT = `Call tools through the tool-calling interface rather than writing them into your reply.
+Only if tool calling is unavailable, respond with consecutive JSON objects (no array wrapper):
+{"action": "tool_name", "parameters": {...}, "requestId": "unique_id"}`;
+
 export const AGENT_SYSTEM_PROMPT_TEMPLATE = `
 You are an AI assistant in an Obsidian Vault with powerful tools for vault management.
 
@@ -53,8 +60,7 @@ Available tools:
 
 IMPORTANT: When you want to use a tool other than 'thought', first use the 'thought' tool to specify which tool you want to use via the 'nextTool' parameter. Only after that will you receive the full parameter details for that specific tool.
 
-Respond with consecutive JSON objects (no array wrapper):
-{"action": "tool_name", "parameters": {...}, "requestId": "unique_id"}
+${TEXT_TOOL_CALL_FORMAT}
 `;
 
 export const AGENT_SYSTEM_PROMPT_TEMPLATE_WITH_TOOL_DETAILS = `
@@ -79,11 +85,10 @@ Available tools:
 
 {{REQUESTED_TOOL_DETAILS}}
 
-Respond with consecutive JSON objects (no array wrapper):
-{"action": "tool_name", "parameters": {...}, "requestId": "unique_id"}
+${TEXT_TOOL_CALL_FORMAT}
 `;
 
-export function buildAgentSystemPrompt(enabledTools?: Record<string, boolean>, customTemplate?: string, requestedTool?: string) {
+export function buildAgentSystemPrompt(enabledTools?: Record<string, boolean>, customTemplate?: string, requestedTool?: string, toolTransport?: 'text' | 'native') {
     if ((window as any).aiAssistantPlugin && typeof (window as any).aiAssistantPlugin.debugLog === 'function') {
         (window as any).aiAssistantPlugin.debugLog('debug', '[promptConstants] buildAgentSystemPrompt called', { enabledTools, customTemplate, requestedTool });
     }
@@ -128,13 +133,58 @@ export function buildAgentSystemPrompt(enabledTools?: Record<string, boolean>, c
     } else if (useDetailedTemplate) {
         prompt = prompt.replace('{{REQUESTED_TOOL_DETAILS}}', '');
     }
+
+    // With the native transport, ask for native tool calls instead of JSON in the text
+    if (toolTransport === 'native') {
+        prompt = prompt.replace(TEXT_TOOL_CALL_FORMAT, NATIVE_TOOL_CALL_FORMAT);
+    }
     
     return prompt;
 }
 
 export const AGENT_SYSTEM_PROMPT = buildAgentSystemPrompt();
 
+export const AGENT_PLANNING_PROMPT_TEMPLATE = `
+You are an AI assistant in an Obsidian Vault with tools for vault management.
+Before doing anything, plan how you will complete the user's request. Do not call any tools yet;
+the user will review and edit your plan before it runs.
+
+Available tools:
+{{TOOL_DESCRIPTIONS}}
+
+Respond with only a JSON object in this format:
+{"goal": "what the request should achieve", "steps": [{"description": "what this step does", "files": ["relative/path.md"], "tools": ["tool_name"]}]}
+
+Keep steps small and concrete. List the files each step will read or change (empty if unknown) and the tools it will use.
+`;
+
+/**
+ * Builds the system prompt asking the agent for a plan instead of tool calls.
+ * @param enabledTools Enabled tools, listed so the plan only uses those
+ */
+export function buildAgentPlanningPrompt(enabledTools?: Record<string, boolean>): string {
+    const toolDescriptions = getDynamicToolList(enabledTools, false)
+        .map((tool, idx) => `${idx + 1}. ${tool.name} - ${tool.description}`)
+        .join('\n');
+    return AGENT_PLANNING_PROMPT_TEMPLATE.replace('{{TOOL_DESCRIPTIONS}}', toolDescriptions);
+}
+
+export const AI_REWRITE_SYSTEM_PROMPT =
+    "You are an editor working on text from an Obsidian note. " +
+    "Apply the instruction to the text and respond with only the resulting text, " +
+    "without quotes, code fences or comments. Keep Markdown formatting, links and the original language unless told otherwise.";
+
+export const GHOST_TEXT_SYSTEM_PROMPT =
+    "You are an autocomplete engine for an Obsidian note. " +
+    "Continue the last paragraph from exactly where it stops, in the same language and style. " +
+    "Respond with only the continuation, at most one or two sentences, without repeating the existing text, quotes or comments.";
+
 export const DEFAULT_YAML_SYSTEM_MESSAGE =
     "You are an assistant that generates YAML attribute values for Obsidian notes. " +
     "Read the note and generate a value for the specified YAML field. " +
     "Only output the value, not the key or extra text.";
+
+export const STRUCTURED_YAML_SYSTEM_MESSAGE =
+    "You are an assistant that generates YAML attribute values for Obsidian notes. " +
+    "Read the note and generate a value for each of the specified YAML fields. " +
+    "Respond with only a JSON object that follows the given schema, without code fences or extra text.";
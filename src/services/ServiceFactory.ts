@@ -13,6 +13,7 @@ import { CircuitBreaker } from './core/CircuitBreaker';
 import { MetricsCollector } from './core/MetricsCollector';
 import { AIService } from './core/AIService';
 import type { MyPluginSettings } from '../types';
+import type { UsageTracker } from '../utils/usageTracker';
 
 export interface ServiceConfiguration {
     cache?: {
@@ -39,12 +40,14 @@ export interface ServiceConfiguration {
 export class ServiceFactory {
     /**
      * Creates a complete AI service with all dependencies
+     * @param usageTracker The plugin's usage tracker, so metrics report the persisted token and cost totals
      */
     static createAIService(
         eventBus: IEventBus,
         settings: MyPluginSettings,
         saveSettings: () => Promise<void>,
-        config: ServiceConfiguration = {}
+        config: ServiceConfiguration = {},
+        usageTracker?: UsageTracker
     ): AIService {
         // Create core services
         const requestManager = new RequestManager(eventBus);
@@ -57,7 +60,7 @@ export class ServiceFactory {
         
         const rateLimiter = new RateLimiter(eventBus);
         const circuitBreaker = new CircuitBreaker(eventBus);
-        const metricsCollector = new MetricsCollector(eventBus);
+        const metricsCollector = new MetricsCollector(eventBus, usageTracker);
 
         // Create the main AI service
         const aiService = new AIService(
@@ -76,10 +79,12 @@ export class ServiceFactory {
 
     /**
      * Creates individual services for custom configurations
+     * @param usageTracker The plugin's usage tracker, so metrics report the persisted token and cost totals
      */
     static createServices(
         eventBus: IEventBus,
-        config: ServiceConfiguration = {}
+        config: ServiceConfiguration = {},
+        usageTracker?: UsageTracker
     ): {
         requestManager: RequestManager;
         cacheManager: CacheManager;
@@ -96,7 +101,7 @@ export class ServiceFactory {
             ),
             rateLimiter: new RateLimiter(eventBus),
             circuitBreaker: new CircuitBreaker(eventBus),
-            metricsCollector: new MetricsCollector(eventBus)
+            metricsCollector: new MetricsCollector(eventBus, usageTracker)
         };
     }
 
@@ -1,6 +1,7 @@
 import { ToolCommand, ToolResult } from '../../types';
 import { ICommandProcessor, IToolExecutionEngine, IExecutionLimitManager, IToolDisplayManager, IEventBus } from '../interfaces';
 import { App } from 'obsidian';
+import { AgentRunJournal } from '../../components/agent/AgentRunJournal';
 
 /**
  * Agent Orchestrator
@@ -15,7 +16,8 @@ export class AgentOrchestrator {
         private executionEngine: IToolExecutionEngine,
         private limitManager: IExecutionLimitManager,
         private displayManager: IToolDisplayManager,
-        private eventBus: IEventBus
+        private eventBus: IEventBus,
+        private runJournal?: AgentRunJournal
     ) {
         this.setupEventListeners();
     }
@@ -92,8 +94,10 @@ export class AgentOrchestrator {
             // Phase 4: Filter out already executed commands (if applicable)
             const commandsToExecute = validation.validCommands.slice(0, config.maxExecutions);
 
-            // Phase 5: Execute commands
-            const results = await this.executeCommands(commandsToExecute, config);
+            // Phase 5: Execute commands, journaling their file changes as one undoable run
+            const results = this.runJournal
+                ? await this.runJournal.track(response, () => this.executeCommands(commandsToExecute, config))
+                : await this.executeCommands(commandsToExecute, config);
 
             // Phase 6: Create displays if requested
             if (config.displayResults) {
@@ -4,6 +4,7 @@ import { IToolExecutionEngine, ExecutionStats, IEventBus } from '../interfaces';
 import { createToolInstances } from '../../components/agent/tools/toolcollect';
 import { App } from 'obsidian';
 import MyPlugin from '../../main';
+import { AgentRunRecorder } from '../../components/agent/AgentRunJournal';
 
 /**
  * Tool Execution Engine with Pipeline
@@ -16,10 +17,14 @@ export class ToolExecutionEngine implements IToolExecutionEngine {
     private executionStats: ExecutionStats;
     private pipeline: IToolPipelineStage[] = [];
 
+    /**
+     * @param runJournal Where file-changing tools journal their changes; defaults to the plugin's agent run journal
+     */
     constructor(
         private app: App,
         private plugin: MyPlugin,
-        private eventBus: IEventBus
+        private eventBus: IEventBus,
+        private runJournal?: AgentRunRecorder
     ) {
         this.toolRegistry = new ToolRegistry(plugin);
         this.executionStats = {
@@ -130,10 +135,15 @@ export class ToolExecutionEngine implements IToolExecutionEngine {
     }
 
     /**
-     * Adds a pipeline stage.
+     * Adds a pipeline stage, at the end or before the named stage.
      */
-    addPipelineStage(stage: IToolPipelineStage): void {
-        this.pipeline.push(stage);
+    addPipelineStage(stage: IToolPipelineStage, beforeStage?: string): void {
+        const index = beforeStage ? this.pipeline.findIndex(existing => existing.name === beforeStage) : -1;
+        if (index === -1) {
+            this.pipeline.push(stage);
+        } else {
+            this.pipeline.splice(index, 0, stage);
+        }
     }
 
     /**
@@ -163,7 +173,7 @@ export class ToolExecutionEngine implements IToolExecutionEngine {
      * Initializes available tools.
      */
     private initializeTools(): void {
-        const tools = createToolInstances(this.app, this.plugin);
+        const tools = createToolInstances(this.app, this.plugin, this.runJournal);
         for (const tool of tools) {
             this.toolRegistry.register(tool);
         }
@@ -6,7 +6,7 @@
  */
 
 import { IAIService, CompletionRequest, CompletionResponse, ConnectionResult, IEventBus } from '../interfaces';
-import { Message, CompletionOptions, UnifiedModel } from '../../types';
+import { Message, CompletionOptions, UnifiedModel, TokenUsage } from '../../types';
 import { RequestManager } from './RequestManager';
 import { CacheManager } from './CacheManager';
 import { RateLimiter } from './RateLimiter';
@@ -16,6 +16,7 @@ import { BaseProvider } from '../../../providers/base';
 import { createProvider, createProviderFromUnifiedModel, getAllAvailableModels } from '../../../providers';
 import { saveAICallToFolder } from '../../utils/saveAICalls';
 import { debugLog } from '../../utils/logger';
+import { calculateCost, estimateUsage } from '../../utils/usageTracker';
 import { isValidProviderName, ValidProviderName, getProviderSettings, getPluginApp } from '../../utils/typeGuards';
 import type { MyPluginSettings } from '../../types';
 
@@ -319,6 +320,7 @@ export class AIService implements IAIService {
         startTime: number
     ): Promise<CompletionResponse> {
         let fullResponse = '';
+        let reportedUsage: TokenUsage | undefined;
         let providerInstance: BaseProvider;
 
         // Create provider instance
@@ -338,8 +340,9 @@ export class AIService implements IAIService {
         this.activeStreams.set(streamId, abortController);
 
         try {
-            // Wrap the stream callback to capture the full response
+            // Wrap the stream and usage callbacks to capture the full response and its token usage
             const originalStreamCallback = request.options.streamCallback;
+            const originalUsageCallback = request.options.usageCallback;
             const wrappedOptions = {
                 ...request.options,
                 streamCallback: (chunk: string) => {
@@ -348,6 +351,12 @@ export class AIService implements IAIService {
                         originalStreamCallback(chunk);
                     }
                 },
+                usageCallback: (usage: TokenUsage) => {
+                    reportedUsage = usage;
+                    if (originalUsageCallback) {
+                        originalUsageCallback(usage);
+                    }
+                },
                 abortController
             };
 
@@ -362,6 +371,17 @@ export class AIService implements IAIService {
             const duration = Date.now() - startTime;
             this.metricsCollector.recordRequest(provider, duration, true);
 
+            // Record usage, falling back to an estimate when the provider reported none
+            const usage = reportedUsage ?? estimateUsage(request.messages, fullResponse);
+            const model = this.getCurrentModel() || provider;
+            this.metricsCollector.recordUsage(
+                provider,
+                model,
+                usage,
+                calculateCost(model, usage, this.settings.modelPricing),
+                request.options.sessionId ?? this.settings.activeSessionId
+            );
+
             // Cache the response
             await this.cacheManager.set(cacheKey, fullResponse);
 
@@ -6,6 +6,8 @@
  */
 
 import { IMetricsCollector, RequestMetrics, IEventBus } from '../interfaces';
+import { TokenUsage, UsageSnapshot } from '../../types';
+import { UsageTracker } from '../../utils/usageTracker';
 
 export interface MetricEntry {
     timestamp: number;
@@ -19,6 +21,7 @@ export interface ProviderMetrics {
     failures: number;
     totalDuration: number;
     totalTokens: number;
+    totalCost: number;
     averageResponseTime: number;
     lastRequestTime: number;
     errorRate: number;
@@ -42,6 +45,7 @@ export interface DetailedMetrics extends RequestMetrics {
         responseTime: MetricEntry[];
         errors: MetricEntry[];
     };
+    usage: UsageSnapshot;
 }
 
 /**
@@ -70,7 +74,11 @@ export class MetricsCollector implements IMetricsCollector {
     private readonly MAX_TIME_SERIES_ENTRIES = 1000;
     private readonly MAX_RESPONSE_TIME_SAMPLES = 1000;
 
-    constructor(private eventBus: IEventBus) {
+    /**
+     * @param eventBus Event bus for publishing metric events
+     * @param usageTracker Tracker holding token and cost totals; in-memory unless one is supplied
+     */
+    constructor(private eventBus: IEventBus, private usageTracker: UsageTracker = new UsageTracker()) {
         this.startPeriodicReporting();
     }
 
@@ -114,6 +122,25 @@ export class MetricsCollector implements IMetricsCollector {
         });
     }
 
+    /**
+     * Records the token usage and cost of a completed request
+     */
+    recordUsage(provider: string, model: string, usage: TokenUsage, cost: number, sessionId?: string): void {
+        const metrics = this.getOrCreateProviderMetrics(provider);
+        metrics.totalTokens += usage.inputTokens + usage.outputTokens;
+        metrics.totalCost += cost;
+
+        this.usageTracker.record({ provider, model, sessionId, usage, cost, timestamp: Date.now() });
+
+        this.eventBus.publish('metrics.usage_recorded', {
+            provider,
+            model,
+            usage,
+            cost,
+            timestamp: Date.now()
+        });
+    }
+
     /**
      * Records a cache hit
      */
@@ -176,14 +203,27 @@ export class MetricsCollector implements IMetricsCollector {
                 requests: [...this.timeSeriesData.requests],
                 responseTime: [...this.timeSeriesData.responseTime],
                 errors: [...this.timeSeriesData.errors]
-            }
+            },
+            usage: this.usageTracker.getSnapshot()
         };
     }
 
     /**
-     * Resets all metrics
+     * Resets all metrics, including the recorded token usage and cost
      */
     resetMetrics(): void {
+        this.clearRequestMetrics();
+        this.usageTracker.reset();
+
+        this.eventBus.publish('metrics.reset', {
+            timestamp: Date.now()
+        });
+    }
+
+    /**
+     * Clears the in-memory request metrics, leaving the recorded usage untouched
+     */
+    private clearRequestMetrics(): void {
         this.metrics = {
             totalRequests: 0,
             successfulRequests: 0,
@@ -202,10 +242,6 @@ export class MetricsCollector implements IMetricsCollector {
             responseTime: [],
             errors: []
         };
-
-        this.eventBus.publish('metrics.reset', {
-            timestamp: Date.now()
-        });
     }
 
     /**
@@ -271,20 +307,7 @@ export class MetricsCollector implements IMetricsCollector {
      * Updates provider-specific metrics
      */
     private updateProviderMetrics(provider: string, duration: number, success: boolean): void {
-        if (!this.providerMetrics.has(provider)) {
-            this.providerMetrics.set(provider, {
-                requests: 0,
-                successes: 0,
-                failures: 0,
-                totalDuration: 0,
-                totalTokens: 0,
-                averageResponseTime: 0,
-                lastRequestTime: 0,
-                errorRate: 0
-            });
-        }
-
-        const metrics = this.providerMetrics.get(provider)!;
+        const metrics = this.getOrCreateProviderMetrics(provider);
         metrics.requests++;
         metrics.totalDuration += duration;
         metrics.lastRequestTime = Date.now();
@@ -299,6 +322,26 @@ export class MetricsCollector implements IMetricsCollector {
         metrics.errorRate = metrics.failures / metrics.requests;
     }
 
+    /**
+     * Gets the metrics entry for a provider, creating it if needed
+     */
+    private getOrCreateProviderMetrics(provider: string): ProviderMetrics {
+        if (!this.providerMetrics.has(provider)) {
+            this.providerMetrics.set(provider, {
+                requests: 0,
+                successes: 0,
+                failures: 0,
+                totalDuration: 0,
+                totalTokens: 0,
+                totalCost: 0,
+                averageResponseTime: 0,
+                lastRequestTime: 0,
+                errorRate: 0
+            });
+        }
+        return this.providerMetrics.get(provider)!;
+    }
+
     /**
      * Updates the overall average response time
      */
@@ -380,12 +423,12 @@ export class MetricsCollector implements IMetricsCollector {
      */
     private exportAsCSV(metrics: DetailedMetrics): string {
         const lines = [
-            'timestamp,provider,requests,successes,failures,avg_response_time,error_rate',
+            'timestamp,provider,requests,successes,failures,avg_response_time,error_rate,total_tokens,total_cost',
             ...Object.entries(metrics.providerMetrics).map(([provider, data]) =>
-                `${Date.now()},${provider},${data.requests},${data.successes},${data.failures},${data.averageResponseTime},${data.errorRate}`
+                `${Date.now()},${provider},${data.requests},${data.successes},${data.failures},${data.averageResponseTime},${data.errorRate},${data.totalTokens},${data.totalCost}`
             )
         ];
-        return lines.join('\n');
+        return `${lines.join('\n')}\n\n${this.usageTracker.export('csv')}`;
     }
 
     /**
@@ -404,13 +447,24 @@ export class MetricsCollector implements IMetricsCollector {
             `# HELP ai_cache_hit_rate Cache hit rate`,
             `# TYPE ai_cache_hit_rate gauge`,
             `ai_cache_hit_rate ${metrics.cacheMetrics.hitRate}`,
+            ``,
+            `# HELP ai_tokens_total Total tokens used (input and output)`,
+            `# TYPE ai_tokens_total counter`,
+            `ai_tokens_total{direction="input"} ${metrics.usage.total.inputTokens}`,
+            `ai_tokens_total{direction="output"} ${metrics.usage.total.outputTokens}`,
+            ``,
+            `# HELP ai_cost_usd_total Total cost in USD`,
+            `# TYPE ai_cost_usd_total counter`,
+            `ai_cost_usd_total ${metrics.usage.total.cost}`,
         ];
 
         // Add per-provider metrics
         for (const [provider, data] of Object.entries(metrics.providerMetrics)) {
             lines.push(
                 `ai_provider_requests_total{provider="${provider}"} ${data.requests}`,
-                `ai_provider_error_rate{provider="${provider}"} ${data.errorRate}`
+                `ai_provider_error_rate{provider="${provider}"} ${data.errorRate}`,
+                `ai_provider_tokens_total{provider="${provider}"} ${data.totalTokens}`,
+                `ai_provider_cost_usd_total{provider="${provider}"} ${data.totalCost}`
             );
         }
 
@@ -434,6 +488,7 @@ export class MetricsCollector implements IMetricsCollector {
      * Cleanup method for disposing the service
      */
     dispose(): void {
-        this.resetMetrics();
+        // Recorded usage is persisted, so only an explicit reset clears it
+        this.clearRequestMetrics();
     }
 }
\ No newline at end of file
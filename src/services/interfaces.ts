@@ -5,7 +5,7 @@
  * Defines interfaces for all major services to enable dependency injection and testing.
  */
 
-import { Message, CompletionOptions, UnifiedModel, ToolCommand, ToolResult } from '../types';
+import { Message, CompletionOptions, UnifiedModel, ToolCommand, ToolResult, TokenUsage } from '../types';
 import { ChatMessage } from '../components/chat/ChatHistoryManager';
 
 // ============================================================================
@@ -120,6 +120,7 @@ export interface ICircuitBreaker {
  */
 export interface IMetricsCollector {
     recordRequest(provider: string, duration: number, success: boolean): void;
+    recordUsage(provider: string, model: string, usage: TokenUsage, cost: number, sessionId?: string): void;
     recordCacheHit(key: string): void;
     recordCacheMiss(key: string): void;
     getMetrics(): RequestMetrics;
@@ -32,6 +32,7 @@ import { CommandProcessor } from '../agent/CommandProcessor';
 import { ToolExecutionEngine } from '../agent/ToolExecutionEngine';
 import { ToolDisplayManager } from '../agent/ToolDisplayManager';
 import { ExecutionLimitManager } from '../agent/ExecutionLimitManager';
+import { renderSemanticSearchBlock } from '../../components/semantic/SemanticSearchCodeBlock';
 
 export interface EnhancedInitializationConfig {
     // Cross-cutting service configuration
@@ -663,7 +664,9 @@ export class EnhancedInitializationManager implements IInitializationManager {
             const aiService = ServiceFactory.createAIService(
                 this.eventBus,
                 this.plugin.settings,
-                () => this.plugin.saveSettings()
+                () => this.plugin.saveSettings(),
+                {},
+                this.plugin.usageTracker
             );
             
             (this.plugin as any).aiDispatcher = aiService;
@@ -749,7 +752,7 @@ export class EnhancedInitializationManager implements IInitializationManager {
             (this.plugin as any)._yamlAttributeCommandIds = registerAllCommands(
                 this.plugin,
                 this.plugin.settings,
-                (messages: any[]) => (this.plugin as any).processMessages(messages),
+                (messages: any[], options?: any) => (this.plugin as any).processMessages(messages, options),
                 (messages: any[]) => (this.plugin as any).activateChatViewAndLoadMessages(messages),
                 { current: (this.plugin as any).activeStream },
                 (stream: AbortController | null) => { (this.plugin as any).activeStream = stream; },
@@ -767,7 +770,7 @@ export class EnhancedInitializationManager implements IInitializationManager {
             (this.plugin as any)._yamlAttributeCommandIds = registerYamlAttributeCommands(
                 this.plugin,
                 this.plugin.settings,
-                (messages: any[]) => (this.plugin as any).processMessages(messages),
+                (messages: any[], options?: any) => (this.plugin as any).processMessages(messages, options),
                 (this.plugin as any)._yamlAttributeCommandIds || [],
                 (level: string, ...args: any[]) => this.plugin.debugLog(level as any, ...args)
             );
@@ -795,6 +798,10 @@ export class EnhancedInitializationManager implements IInitializationManager {
                 (this.plugin as any).processToolExecutionCodeBlock(source, el, ctx);
             });
 
+            this.plugin.registerMarkdownCodeBlockProcessor("semantic-search", (source, el, ctx) =>
+                renderSemanticSearchBlock(this.app, this.plugin.semanticIndex, source, el, ctx)
+            );
+
         } catch (error) {
             this.logger.warn('Failed to register markdown processors', { error });
         }
@@ -301,7 +301,9 @@ export class InitializationManager implements IInitializationManager {
         const aiService = ServiceFactory.createAIService(
             this.eventBus,
             this.plugin.settings,
-            () => this.plugin.saveSettings()
+            () => this.plugin.saveSettings(),
+            {},
+            this.plugin.usageTracker
         );
         
         (this.plugin as any).aiDispatcher = aiService; // Maintain compatibility
@@ -394,7 +396,7 @@ export class InitializationManager implements IInitializationManager {
         (this.plugin as any)._yamlAttributeCommandIds = registerAllCommands(
             this.plugin,
             this.plugin.settings,
-            (messages: any[]) => (this.plugin as any).processMessages(messages),
+            (messages: any[], options?: any) => (this.plugin as any).processMessages(messages, options),
             (messages: any[]) => (this.plugin as any).activateChatViewAndLoadMessages(messages),
             { current: (this.plugin as any).activeStream },
             (stream: AbortController | null) => { (this.plugin as any).activeStream = stream; },
@@ -411,7 +413,7 @@ export class InitializationManager implements IInitializationManager {
         (this.plugin as any)._yamlAttributeCommandIds = registerYamlAttributeCommands(
             this.plugin,
             this.plugin.settings,
-            (messages: any[]) => (this.plugin as any).processMessages(messages),
+            (messages: any[], options?: any) => (this.plugin as any).processMessages(messages, options),
             (this.plugin as any)._yamlAttributeCommandIds || [],
             (level: string, ...args: any[]) => this.plugin.debugLog(level as any, ...args)
         );
@@ -10,8 +10,10 @@ import { GeneralSettingsSection } from './sections/GeneralSettingsSection';
 import { AIModelConfigurationSection } from './sections/AIModelConfigurationSection';
 import { AgentSettingsSection } from './sections/AgentSettingsSection';
 import { ContentNoteHandlingSection } from './sections/ContentNoteHandlingSection';
+import { DataHandlingSection } from './sections/DataHandlingSection';
 import { BackupManagementSection } from './sections/BackupManagementSection';
 import { ChatHistorySettingsSection } from './sections/ChatHistorySettingsSection';
+import { SemanticSearchSettingsSection } from './sections/SemanticSearchSettingsSection';
 import { DEFAULT_TITLE_PROMPT } from '../promptConstants'; // Import DEFAULT_TITLE_PROMPT
 
 
@@ -38,10 +40,14 @@ export class MyPluginSettingTab extends PluginSettingTab {
     private agentSettingsSection: AgentSettingsSection;
     /** Content and note handling section. */
     private contentNoteHandlingSection: ContentNoteHandlingSection;
+    /** Data handling and YAML attribute generators section. */
+    private dataHandlingSection: DataHandlingSection;
     /** Backup and trash management section. */
     private backupManagementSection: BackupManagementSection;
     /** Chat history and UI section. */
     private chatHistorySettingsSection: ChatHistorySettingsSection;
+    /** Semantic search section. */
+    private semanticSearchSettingsSection: SemanticSearchSettingsSection;
 
     /** Listener for settings changes, used to refresh the UI when settings are updated elsewhere. */
     private settingsChangeListener: (() => void) | null = null;
@@ -69,8 +75,10 @@ export class MyPluginSettingTab extends PluginSettingTab {
         this.aiModelConfigurationSection = new AIModelConfigurationSection(this.plugin, this.settingCreators);
         this.agentSettingsSection = new AgentSettingsSection(this.app, this.plugin, this.settingCreators);
         this.contentNoteHandlingSection = new ContentNoteHandlingSection(this.plugin, this.settingCreators);
+        this.dataHandlingSection = new DataHandlingSection(this.plugin, this.settingCreators);
         this.backupManagementSection = new BackupManagementSection(this.plugin, this.settingCreators);
         this.chatHistorySettingsSection = new ChatHistorySettingsSection(this.plugin, this.settingCreators);
+        this.semanticSearchSettingsSection = new SemanticSearchSettingsSection(this.plugin, this.settingCreators);
 
         // Listener to refresh the settings UI when settings are changed elsewhere
         this.settingsChangeListener = () => {
@@ -144,6 +152,22 @@ export class MyPluginSettingTab extends PluginSettingTab {
             'contentChatExpanded'
         );
 
+        CollapsibleSectionRenderer.createCollapsibleSection(
+            containerEl,
+            'Note & Data Handling',
+            (sectionEl: HTMLElement) => this.dataHandlingSection.render(sectionEl),
+            this.plugin,
+            'contentChatExpanded'
+        );
+
+        CollapsibleSectionRenderer.createCollapsibleSection(
+            containerEl,
+            'Semantic Search',
+            (sectionEl: HTMLElement) => this.semanticSearchSettingsSection.render(sectionEl),
+            this.plugin,
+            'contentChatExpanded'
+        );
+
         CollapsibleSectionRenderer.createCollapsibleSection(
             containerEl,
             'Chat History & UI',
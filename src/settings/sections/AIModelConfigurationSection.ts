@@ -190,6 +190,10 @@ export class AIModelConfigurationSection {
                 // Model Setting Presets Subsection
                 sectionEl.createEl('h4', { text: 'Model Setting Presets' });
                 this.renderModelSettingPresets(sectionEl);
+
+                // Model Pricing Subsection
+                sectionEl.createEl('h4', { text: 'Model Pricing' });
+                this.renderModelPricing(sectionEl.createDiv('model-pricing-container'));
             },
             this.plugin,
             'generalSectionsExpanded'
@@ -208,7 +212,9 @@ export class AIModelConfigurationSection {
         
         new Setting(containerEl)
             .setName('Test Connection')
-            .setDesc(`Verify your API key and fetch available models for ${displayName}`)
+            .setDesc(provider === 'ollama'
+                ? `Verify your server is reachable and fetch installed models for ${displayName}`
+                : `Verify your API key and fetch available models for ${displayName}`)
             .addButton(button => button
                 .setButtonText('Test')
                 .onClick(async () => {
@@ -650,4 +656,88 @@ export class AIModelConfigurationSection {
                 })
             );
     }
+
+    /**
+     * Renders the per-model price table used to turn token usage into cost.
+     * Each row is a model id (or model id prefix) with input and output prices per million tokens.
+     * @param containerEl The HTML element to render the table into; it is re-rendered on add/delete.
+     */
+    private renderModelPricing(containerEl: HTMLElement): void {
+        containerEl.empty();
+        containerEl.createEl('div', {
+            text: 'Prices in USD per million tokens, used for the cost totals in the Performance Dashboard. Keys can be a unified model ID (provider:model), a model ID, or a model ID prefix such as "claude-3-5-sonnet". Unpriced models are tracked with a cost of 0.',
+            cls: 'setting-item-description',
+            attr: { style: 'margin-bottom: 0.5em;' }
+        });
+
+        if (!this.plugin.settings.modelPricing) this.plugin.settings.modelPricing = {};
+        const pricing = this.plugin.settings.modelPricing;
+
+        Object.keys(pricing).sort().forEach(model => {
+            const price = pricing[model];
+            new Setting(containerEl)
+                .setName(model)
+                .addText(text => {
+                    text.setPlaceholder('Input $/1M')
+                        .setValue(String(price.inputPerMillion))
+                        .onChange((value) => {
+                            const parsed = parseFloat(value);
+                            price.inputPerMillion = isNaN(parsed) || parsed < 0 ? 0 : parsed;
+                        });
+                    text.inputEl.title = 'Input price per million tokens';
+                    // Save settings on blur
+                    text.inputEl.addEventListener('blur', async () => {
+                        await this.plugin.saveSettings();
+                    });
+                })
+                .addText(text => {
+                    text.setPlaceholder('Output $/1M')
+                        .setValue(String(price.outputPerMillion))
+                        .onChange((value) => {
+                            const parsed = parseFloat(value);
+                            price.outputPerMillion = isNaN(parsed) || parsed < 0 ? 0 : parsed;
+                        });
+                    text.inputEl.title = 'Output price per million tokens';
+                    // Save settings on blur
+                    text.inputEl.addEventListener('blur', async () => {
+                        await this.plugin.saveSettings();
+                    });
+                })
+                .addExtraButton(btn => btn
+                    .setIcon('cross')
+                    .setTooltip('Delete')
+                    .onClick(async () => {
+                        delete pricing[model];
+                        await this.plugin.saveSettings();
+                        this.renderModelPricing(containerEl);
+                    })
+                );
+        });
+
+        // Add Price Row
+        let newModel = '';
+        new Setting(containerEl)
+            .setName('Add model price')
+            .setDesc('Enter a model ID, then set its prices above.')
+            .addText(text => text
+                .setPlaceholder(this.plugin.settings.selectedModel || 'provider:model')
+                .onChange((value) => {
+                    newModel = value.trim();
+                })
+            )
+            .addButton(btn => btn
+                .setButtonText('Add')
+                .onClick(async () => {
+                    if (!newModel) {
+                        new Notice('Enter a model ID first.');
+                        return;
+                    }
+                    if (!pricing[newModel]) {
+                        pricing[newModel] = { inputPerMillion: 0, outputPerMillion: 0 };
+                        await this.plugin.saveSettings();
+                    }
+                    this.renderModelPricing(containerEl);
+                })
+            );
+    }
 }
@@ -4,6 +4,7 @@ import { SettingCreators } from '../components/SettingCreators';
 import { CollapsibleSectionRenderer } from '../../utils/CollapsibleSection';
 import { createToolInstances } from '../../components/agent/tools/toolcollect';
 import { AGENT_SYSTEM_PROMPT_TEMPLATE } from '../../promptConstants';
+import { AgentTaskSettings, ToolPermission, ToolPermissionRule, VaultAccessSettings } from '../../types';
 
 /**
  * AgentSettingsSection is responsible for rendering the settings related to Agent Mode.
@@ -110,6 +111,37 @@ export class AgentSettingsSection {
                         await this.plugin.saveSettings();
                     }
                 );
+
+                // Dropdown for how tool calls are exchanged with the model
+                this.settingCreators.createDropdownSetting(
+                    sectionEl,
+                    'Tool Call Transport',
+                    'How the agent receives tool calls. Native uses the provider\'s function-calling API (OpenAI, Anthropic, Gemini); other providers fall back to parsing JSON commands from the response text.',
+                    { 'text': 'Text (JSON in response)', 'native': 'Native function calling' },
+                    () => this.plugin.settings.agentMode?.toolTransport ?? 'text',
+                    async (value) => {
+                        if (!this.plugin.settings.agentMode) {
+                            this.plugin.settings.agentMode = { enabled: false, maxToolCalls: 10, timeoutMs: 30000, maxIterations: 10 };
+                        }
+                        this.plugin.settings.agentMode.toolTransport = value as 'text' | 'native';
+                        await this.plugin.saveSettings();
+                    }
+                );
+
+                // Toggle for planning before acting
+                this.settingCreators.createToggleSetting(
+                    sectionEl,
+                    'Plan Before Executing',
+                    'Have the agent propose a plan (steps, files and tools) first. You can edit the plan in the chat, and tools only run after you approve it.',
+                    () => this.plugin.settings.agentMode?.planFirst ?? false,
+                    async (value) => {
+                        if (!this.plugin.settings.agentMode) {
+                            this.plugin.settings.agentMode = { enabled: false, maxToolCalls: 10, timeoutMs: 30000, maxIterations: 10 };
+                        }
+                        this.plugin.settings.agentMode.planFirst = value;
+                        await this.plugin.saveSettings();
+                    }
+                );
             },
             this.plugin,
             'generalSectionsExpanded'
@@ -190,6 +222,212 @@ export class AgentSettingsSection {
             this.plugin,
             'generalSectionsExpanded'
         );
+
+        // Tool Permissions section
+        CollapsibleSectionRenderer.createCollapsibleSection(
+            containerEl,
+            'Tool Permissions',
+            (sectionEl: HTMLElement) => {
+                this.renderToolPermissions(sectionEl);
+            },
+            this.plugin,
+            'generalSectionsExpanded'
+        );
+
+        // Folder Access section
+        CollapsibleSectionRenderer.createCollapsibleSection(
+            containerEl,
+            'Folder Access',
+            (sectionEl: HTMLElement) => {
+                this.renderVaultAccess(sectionEl);
+            },
+            this.plugin,
+            'generalSectionsExpanded'
+        );
+
+        // Agent Tasks section
+        CollapsibleSectionRenderer.createCollapsibleSection(
+            containerEl,
+            'Agent Tasks',
+            (sectionEl: HTMLElement) => {
+                this.renderAgentTasks(sectionEl);
+            },
+            this.plugin,
+            'generalSectionsExpanded'
+        );
+    }
+
+    /**
+     * Renders the settings for background agent tasks defined as notes.
+     * Changes reload the tasks so schedules take effect immediately.
+     * @param containerEl The HTML element to append the section to.
+     */
+    private renderAgentTasks(containerEl: HTMLElement): void {
+        containerEl.createEl('div', {
+            text: 'Agent tasks are notes in the tasks folder whose frontmatter sets a prompt, allowed tools, model ' +
+                'and a trigger (startup, interval or file-created). They run in the background and write a log note per run.',
+            cls: 'setting-item-description',
+            attr: { style: 'margin-bottom: 0.5em;' }
+        });
+
+        const update = async (change: (settings: AgentTaskSettings) => void) => {
+            if (!this.plugin.settings.agentTasks) {
+                this.plugin.settings.agentTasks = { enabled: false, folder: 'Agent Tasks', logFolder: 'Agent Task Logs', maxToolCallsPerHour: 50 };
+            }
+            change(this.plugin.settings.agentTasks);
+            await this.plugin.saveSettings();
+            await this.plugin.agentTaskRunner?.reload();
+        };
+
+        this.settingCreators.createToggleSetting(
+            containerEl,
+            'Enable Agent Tasks',
+            'Run agent tasks on their triggers. Tasks can always be run with the "Run Agent Task" command.',
+            () => this.plugin.settings.agentTasks?.enabled ?? false,
+            async (value) => update(settings => { settings.enabled = value; })
+        );
+
+        this.settingCreators.createTextSetting(
+            containerEl,
+            'Tasks Folder',
+            'Folder holding the agent task notes.',
+            'Agent Tasks',
+            () => this.plugin.settings.agentTasks?.folder ?? 'Agent Tasks',
+            async (value) => update(settings => { settings.folder = (value ?? '').trim(); })
+        );
+
+        this.settingCreators.createTextSetting(
+            containerEl,
+            'Log Folder',
+            'Folder the run log notes are written to.',
+            'Agent Task Logs',
+            () => this.plugin.settings.agentTasks?.logFolder ?? 'Agent Task Logs',
+            async (value) => update(settings => { settings.logFolder = (value ?? '').trim(); })
+        );
+
+        this.settingCreators.createSliderSetting(
+            containerEl,
+            'Max Tool Calls per Hour',
+            'Tool calls all agent tasks may make per hour. Queued runs wait for the next hour once the limit is reached.',
+            { min: 5, max: 500, step: 5 },
+            () => this.plugin.settings.agentTasks?.maxToolCallsPerHour ?? 50,
+            async (value) => update(settings => { settings.maxToolCallsPerHour = value; })
+        );
+    }
+
+    /**
+     * Renders the include, exclude and read-only path lists that limit agent tools.
+     * Each list takes one glob per line.
+     * @param containerEl The HTML element to append the section to.
+     */
+    private renderVaultAccess(containerEl: HTMLElement): void {
+        containerEl.createEl('div', {
+            text: 'Limit which folders and files agent tools can see and change. Enter one path or glob per line; ' +
+                'a folder path such as "Journal" covers everything inside it. Excluded paths are invisible to the agent.',
+            cls: 'setting-item-description',
+            attr: { style: 'margin-bottom: 0.5em;' }
+        });
+
+        const lists: Array<[keyof VaultAccessSettings, string, string, string]> = [
+            ['includePaths', 'Included paths', 'If set, agent tools only see these paths.', 'Projects\nInbox/*.md'],
+            ['excludePaths', 'Excluded paths', 'Agent tools never see or change these paths.', 'Journal\nHR/**'],
+            ['readOnlyPaths', 'Read-only paths', 'Agent tools can read but not create, edit, move or delete these paths.', 'Templates']
+        ];
+        for (const [key, name, desc, placeholder] of lists) {
+            this.settingCreators.createTextSetting(
+                containerEl,
+                name,
+                desc,
+                placeholder,
+                () => (this.plugin.settings.vaultAccess?.[key] ?? []).join('\n'),
+                async (value) => {
+                    if (!this.plugin.settings.vaultAccess) {
+                        this.plugin.settings.vaultAccess = { includePaths: [], excludePaths: [], readOnlyPaths: [] };
+                    }
+                    this.plugin.settings.vaultAccess[key] = (value ?? '')
+                        .split('\n')
+                        .map(line => line.trim())
+                        .filter(line => line !== '');
+                    await this.plugin.saveSettings();
+                },
+                { isTextArea: true }
+            );
+        }
+    }
+
+    /**
+     * Renders the list of tool permission rules with controls to add, edit and remove rules.
+     * @param containerEl The HTML element to append the section to.
+     */
+    private renderToolPermissions(containerEl: HTMLElement): void {
+        containerEl.empty();
+        containerEl.createEl('div', {
+            text: 'Choose whether each tool runs immediately, asks for approval in the chat first, or is denied. ' +
+                'Add a path glob (e.g. "Journal/**") to apply a rule only to matching files; such rules take precedence. ' +
+                'Tools without a matching rule are allowed.',
+            cls: 'setting-item-description',
+            attr: { style: 'margin-bottom: 0.5em;' }
+        });
+
+        if (!this.plugin.settings.toolPermissions) {
+            this.plugin.settings.toolPermissions = [];
+        }
+        const rules = this.plugin.settings.toolPermissions;
+        const toolNames = createToolInstances(this.app, this.plugin)
+            .map(tool => tool.name)
+            .filter(name => name !== 'thought');
+        const permissionLabels: Record<ToolPermission, string> = {
+            allow: 'Always allow',
+            ask: 'Ask every time',
+            deny: 'Deny'
+        };
+
+        rules.forEach((rule, index) => {
+            new Setting(containerEl)
+                .setClass('tool-permission-rule')
+                .addDropdown(dropdown => {
+                    dropdown.addOption('*', 'All tools');
+                    for (const name of toolNames) dropdown.addOption(name, name);
+                    dropdown.setValue(rule.tool);
+                    dropdown.onChange(async value => {
+                        rule.tool = value;
+                        await this.plugin.saveSettings();
+                    });
+                })
+                .addText(text => {
+                    text.setPlaceholder('Any path');
+                    text.setValue(rule.pathGlob ?? '');
+                    text.onChange(async value => {
+                        rule.pathGlob = value.trim() || undefined;
+                        await this.plugin.saveSettings();
+                    });
+                })
+                .addDropdown(dropdown => {
+                    dropdown.addOptions(permissionLabels);
+                    dropdown.setValue(rule.permission);
+                    dropdown.onChange(async value => {
+                        rule.permission = value as ToolPermission;
+                        await this.plugin.saveSettings();
+                    });
+                })
+                .addExtraButton(button => {
+                    button.setIcon('trash').setTooltip('Remove rule').onClick(async () => {
+                        rules.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.renderToolPermissions(containerEl);
+                    });
+                });
+        });
+
+        new Setting(containerEl)
+            .addButton(button => {
+                button.setButtonText('Add rule').onClick(async () => {
+                    const rule: ToolPermissionRule = { tool: '*', permission: 'ask' };
+                    rules.push(rule);
+                    await this.plugin.saveSettings();
+                    this.renderToolPermissions(containerEl);
+                });
+            });
     }
 
     /**
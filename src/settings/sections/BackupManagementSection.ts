@@ -32,7 +32,7 @@ export class BackupManagementSection {
      */
     private async renderBackupManagement(containerEl: HTMLElement): Promise<void> {
         this.renderSectionHeader(containerEl, 'Backup Management',
-            'Manage backups created when files are modified by AI tools. Backups are stored in the plugin data folder, not in your vault.',
+            'Manage backups created when files are modified by AI tools. Backups are stored in the plugin data folder, not in your vault. Identical versions are stored once and text versions as differences from the previous one.',
             async (sectionEl: HTMLElement) => {
                 const backupManager = this.plugin.backupManager;
                 const [totalBackups, totalSize, backupFiles] = await Promise.all([
@@ -47,6 +47,8 @@ export class BackupManagementSection {
                     attr: { style: 'margin-bottom: 1em; font-weight: bold;' }
                 });
 
+                this.renderBackupLimits(sectionEl);
+
                 this.renderBackupActions(sectionEl, backupFiles.length > 0, async () => {
                     await this.renderBackupManagement(containerEl);
                 }, async () => {
@@ -85,6 +87,46 @@ export class BackupManagementSection {
             });
     }
 
+    /**
+     * Render the retention, count and size limits for backups.
+     * Limits are applied whenever a backup is created and when Obsidian starts.
+     */
+    private renderBackupLimits(containerEl: HTMLElement): void {
+        this.settingCreators.createSliderSetting(
+            containerEl,
+            'Backup Retention (days)',
+            'Backups older than this are deleted.',
+            { min: 1, max: 365, step: 1 },
+            () => this.plugin.settings.backupRetentionDays ?? 30,
+            async (value) => {
+                this.plugin.settings.backupRetentionDays = value;
+                await this.plugin.saveSettings();
+            }
+        );
+        this.settingCreators.createSliderSetting(
+            containerEl,
+            'Max Backups',
+            'Maximum number of backups across all files. The oldest backups are deleted beyond this.',
+            { min: 10, max: 5000, step: 10 },
+            () => this.plugin.settings.backupMaxCount ?? 1000,
+            async (value) => {
+                this.plugin.settings.backupMaxCount = value;
+                await this.plugin.saveSettings();
+            }
+        );
+        this.settingCreators.createSliderSetting(
+            containerEl,
+            'Max Backup Storage (MB)',
+            'Maximum disk space used by backups. The oldest backups are deleted beyond this.',
+            { min: 1, max: 1000, step: 1 },
+            () => this.plugin.settings.backupMaxSizeMB ?? 100,
+            async (value) => {
+                this.plugin.settings.backupMaxSizeMB = value;
+                await this.plugin.saveSettings();
+            }
+        );
+    }
+
     /**
      * Render header and description for a section using CollapsibleSectionRenderer
      */
@@ -220,24 +262,29 @@ export class BackupManagementSection {
             }
         };
         // Preview or Info
-        if (!backup.isBinary && backup.content) {
+        if (!backup.isBinary) {
             const previewBtn = backupActions.createEl('button', {
                 text: 'Preview',
                 cls: 'mod-muted'
             });
-            previewBtn.onclick = () => {
-                const preview = backup.content!.substring(0, 200);
-                const truncated = backup.content!.length > 200 ? '...' : '';
+            previewBtn.onclick = async () => {
+                const content = await backupManager.getBackupContent(backup);
+                if (content === undefined) {
+                    new Notice('Backup content could not be read');
+                    return;
+                }
+                const preview = content.substring(0, 200);
+                const truncated = content.length > 200 ? '...' : '';
                 new Notice(`Preview: ${preview}${truncated}`, 10000);
             };
-        } else if (backup.isBinary) {
+        } else {
             const infoBtn = backupActions.createEl('button', {
                 text: 'File Info',
                 cls: 'mod-muted'
             });
             infoBtn.onclick = () => {
                 const sizeKB = backup.fileSize ? Math.round(backup.fileSize / 1024) : 0;
-                new Notice(`Binary file backup: ${sizeKB} KB\nStored at: ${backup.backupFilePath || 'Unknown location'}`, 5000);
+                new Notice(`Binary file backup: ${sizeKB} KB\nContent hash: ${backup.hash || 'Unknown'}`, 5000);
             };
         }
     }
@@ -34,11 +34,12 @@ export class ChatHistorySettingsSection {
                 this.settingCreators.createSliderSetting(
                     sectionEl, 
                     'Max Chat Sessions', 
-                    'Maximum number of chat sessions to keep in history.',
+                    'Maximum number of chat sessions to keep. The least recently used sessions are deleted beyond this.',
                     { min: 1, max: 50, step: 1 },
                     () => this.plugin.settings.maxSessions,
                     async (value) => { 
                         this.plugin.settings.maxSessions = value; 
+                        await this.plugin.chatSessionManager?.pruneSessions();
                         await this.plugin.saveSettings(); 
                     }
                 );
@@ -5,7 +5,8 @@ import { CollapsibleSectionRenderer } from '../../utils/CollapsibleSection';
 
 /**
  * ContentChatSection is responsible for rendering settings related to content and chat customization.
- * This includes defining chat separators, start/end strings for context, and title/summary generation prompts and output modes.
+ * This includes defining chat separators, start/end strings for context, title/summary generation prompts and output modes,
+ * and the prompt library folder.
  */
 export class ContentChatSection {
     private plugin: MyPlugin;
@@ -62,6 +63,11 @@ export class ContentChatSection {
                     { 'clipboard': 'Copy to clipboard', 'metadata': 'Insert into metadata' },
                     () => this.plugin.settings.summaryOutputMode ?? 'clipboard',
                     async (value) => { this.plugin.settings.summaryOutputMode = value as any; await this.plugin.saveSettings(); });
+
+                // Prompt Library Folder Setting
+                this.settingCreators.createTextSetting(sectionEl, 'Prompt Library Folder', 'Folder of prompt notes. Each note becomes a chat slash command named after the note (or its "command" field).', 'AI Prompts',
+                    () => this.plugin.settings.promptLibraryFolder ?? 'AI Prompts',
+                    async (value) => { this.plugin.settings.promptLibraryFolder = (value ?? '').trim(); await this.plugin.saveSettings(); await this.plugin.promptLibrary?.reload(); });
             },
             this.plugin,
             'generalSectionsExpanded'
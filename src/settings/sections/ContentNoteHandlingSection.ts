@@ -2,10 +2,11 @@ import { App, Setting } from 'obsidian';
 import MyPlugin from '../../main';
 import { SettingCreators } from '../components/SettingCreators';
 import { CollapsibleSectionRenderer } from '../../utils/CollapsibleSection';
+import { ContextBudgetSettings, DEFAULT_SETTINGS, GhostTextSettings } from '../../types';
 
 /**
  * ContentNoteHandlingSection is responsible for rendering settings related to how the plugin handles note content
- * for chat context, and for managing YAML attribute generators.
+ * for chat context and editor suggestions.
  */
 export class ContentNoteHandlingSection {
     private plugin: MyPlugin;
@@ -22,7 +23,7 @@ export class ContentNoteHandlingSection {
 
     /**
      * Renders the Content & Note Handling settings sections into the provided container element.
-     * This includes chat customization, note reference settings, data handling, and YAML attribute generators.
+     * This includes chat customization, note reference settings, context budget and ghost text autocomplete.
      * @param containerEl The HTML element to render the sections into.
      */
     async render(containerEl: HTMLElement): Promise<void> {
@@ -171,48 +172,50 @@ export class ContentNoteHandlingSection {
             'generalSectionsExpanded'
         );
 
-        // Data Handling Section
+        // Context Budget Section
         CollapsibleSectionRenderer.createCollapsibleSection(
             containerEl,
-            'Data Handling',
+            'Context Budget',
             (sectionEl: HTMLElement) => {
-                // Expand Linked Notes Recursively Toggle
+                // Enable Context Budget Toggle
                 this.settingCreators.createToggleSetting(
-                    sectionEl, 
-                    'Expand Linked Notes Recursively', 
-                    'If enabled, when fetching a note, also fetch and expand links within that note recursively (prevents infinite loops).',
-                    () => this.plugin.settings.expandLinkedNotesRecursively ?? false,
-                    async (value) => { 
-                        this.plugin.settings.expandLinkedNotesRecursively = value; 
-                        await this.plugin.saveSettings(); 
+                    sectionEl,
+                    'Fit Context to Model',
+                    'Keep requests within the selected model\'s context window. The current note, context notes, linked notes, chat history and recent files are included in that order of priority; lower-priority sources are truncated or dropped first.',
+                    () => this.getContextBudgetSettings().enabled,
+                    async (value) => {
+                        this.getContextBudgetSettings().enabled = value;
+                        await this.plugin.saveSettings();
                     }
                 );
 
-                // Max Link Expansion Depth Slider (only visible if recursive expansion is enabled)
-                if (this.plugin.settings.expandLinkedNotesRecursively) {
-                    this.settingCreators.createSliderSetting(
-                        sectionEl, 
-                        'Max Link Expansion Depth', 
-                        'Maximum depth for recursively expanding linked notes (1-3).',
-                        { min: 1, max: 3, step: 1 },
-                        () => this.plugin.settings.maxLinkExpansionDepth ?? 2,
-                        async (value) => { 
-                            this.plugin.settings.maxLinkExpansionDepth = value; 
-                            await this.plugin.saveSettings(); 
-                        }
-                    );
-                }
+                // Reserved Output Tokens Slider
+                this.settingCreators.createSliderSetting(
+                    sectionEl,
+                    'Reserved Response Tokens',
+                    'Tokens kept free in the context window for the model\'s response.',
+                    { min: 512, max: 32768, step: 512 },
+                    () => this.getContextBudgetSettings().reserveOutputTokens,
+                    async (value) => {
+                        this.getContextBudgetSettings().reserveOutputTokens = value;
+                        await this.plugin.saveSettings();
+                    }
+                );
 
-                // Chat Note Folder Text Setting
+                // Max Context Tokens Text Setting
                 this.settingCreators.createTextSetting(
-                    sectionEl, 
-                    'Chat Note Folder', 
-                    'Folder to save exported chat notes (relative to vault root, leave blank for root)', 
-                    'e.g. AI Chats',
-                    () => this.plugin.settings.chatNoteFolder ?? '',
-                    async (value) => { 
-                        this.plugin.settings.chatNoteFolder = value ?? ''; 
-                        await this.plugin.saveSettings(); 
+                    sectionEl,
+                    'Max Context Tokens',
+                    'Upper limit on context tokens per request, e.g. to control cost. Leave empty or 0 to use the model\'s full context window.',
+                    'e.g. 32000',
+                    () => {
+                        const max = this.getContextBudgetSettings().maxContextTokens;
+                        return max > 0 ? String(max) : '';
+                    },
+                    async (value) => {
+                        const parsed = parseInt(value ?? '', 10);
+                        this.getContextBudgetSettings().maxContextTokens = parsed > 0 ? parsed : 0;
+                        await this.plugin.saveSettings();
                     },
                     { trim: true }
                 );
@@ -221,12 +224,12 @@ export class ContentNoteHandlingSection {
             'generalSectionsExpanded'
         );
 
-        // YAML Attribute Generators Section
+        // Ghost Text Autocomplete Section
         CollapsibleSectionRenderer.createCollapsibleSection(
             containerEl,
-            'YAML Attribute Generators',
+            'Ghost Text Autocomplete',
             (sectionEl: HTMLElement) => {
-                this.renderYamlAttributeGenerators(sectionEl);
+                this.renderGhostText(sectionEl);
             },
             this.plugin,
             'generalSectionsExpanded'
@@ -234,120 +237,91 @@ export class ContentNoteHandlingSection {
     }
 
     /**
-     * Renders the YAML Attribute Generators section.
-     * This section allows users to define custom YAML attributes that can be generated by the AI
-     * and inserted into notes.
+     * Renders the ghost text autocomplete settings: the toggle, model, delay and folder rules.
      * @param containerEl The HTML element to append the section to.
      */
-    private renderYamlAttributeGenerators(containerEl: HTMLElement): void {
-        containerEl.createEl('div', { 
-            text: 'Configure custom YAML attribute generators. Each entry will create a command to generate and insert/update a YAML field in your notes.',
-            cls: 'setting-item-description',
-            attr: { style: 'margin-bottom: 1em;' }
-        });
-
-        const yamlGens = this.plugin.settings.yamlAttributeGenerators ?? [];
-        yamlGens.forEach((gen, idx) => {
-            const autoCommandName = gen.attributeName ? `Generate YAML: ${gen.attributeName}` : `YAML Generator #${idx + 1}`;
-            
-            // Container for each YAML generator setting block
-            const genContainer = containerEl.createDiv({ cls: 'yaml-generator-container' });
-            genContainer.style.border = '1px solid var(--background-modifier-border)';
-            genContainer.style.borderRadius = '6px';
-            genContainer.style.padding = '1em';
-            genContainer.style.marginBottom = '1em';
-            
-            genContainer.createEl('h4', { text: autoCommandName });
+    private renderGhostText(containerEl: HTMLElement): void {
+        this.settingCreators.createToggleSetting(
+            containerEl,
+            'Enable Ghost Text',
+            'While typing in the editor, suggest a continuation of the current paragraph as greyed text. Press Tab to accept it or Esc to dismiss it.',
+            () => this.getGhostTextSettings().enabled,
+            async (value) => {
+                this.getGhostTextSettings().enabled = value;
+                await this.plugin.saveSettings();
+            }
+        );
 
-            // YAML Attribute Name Setting
-            new Setting(genContainer)
-                .setName('YAML Attribute Name')
-                .setDesc('The YAML field name to insert/update')
-                .addText(text => {
-                    text.setPlaceholder('YAML Attribute Name')
-                        .setValue(gen.attributeName)
-                        .onChange((value) => {
-                            // Update attribute name and command name immediately on change
-                            if (this.plugin.settings.yamlAttributeGenerators) {
-                                this.plugin.settings.yamlAttributeGenerators[idx].attributeName = value ?? '';
-                                this.plugin.settings.yamlAttributeGenerators[idx].commandName = value ? `Generate YAML: ${value}` : '';
-                            }
-                        });
-                    
-                    // Save settings on blur
-                    text.inputEl.addEventListener('blur', async () => {
-                        await this.plugin.saveSettings();
-                    });
-                });
+        // Suggestions are frequent, so a fast or local model is the better choice
+        const models: Record<string, string> = { '': 'Selected model' };
+        const enabledModels = this.plugin.settings.enabledModels || {};
+        for (const model of this.plugin.settings.availableModels ?? []) {
+            if (enabledModels[model.id] !== false) models[model.id] = model.name;
+        }
+        this.settingCreators.createDropdownSetting(
+            containerEl,
+            'Ghost Text Model',
+            'Model used for suggestions. A fast or local model (e.g. Ollama) keeps suggestions quick and free.',
+            models,
+            () => this.getGhostTextSettings().model,
+            async (value) => {
+                this.getGhostTextSettings().model = value;
+                await this.plugin.saveSettings();
+            }
+        );
 
-            // Prompt for LLM Setting
-            new Setting(genContainer)
-                .setName('Prompt for LLM')
-                .setDesc('The prompt to send to the AI for generating the YAML value')
-                .addTextArea(text => {
-                    text.setPlaceholder('Prompt for LLM')
-                        .setValue(gen.prompt)
-                        .onChange((value) => {
-                            // Update prompt immediately on change
-                            if (this.plugin.settings.yamlAttributeGenerators) {
-                                this.plugin.settings.yamlAttributeGenerators[idx].prompt = value ?? '';
-                            }
-                        });
-                    
-                    // Save settings on blur
-                    text.inputEl.addEventListener('blur', async () => {
-                        await this.plugin.saveSettings();
-                    });
-                    
-                    text.inputEl.rows = 3;
-                    text.inputEl.style.width = '100%';
-                });
+        this.settingCreators.createSliderSetting(
+            containerEl,
+            'Suggestion Delay (ms)',
+            'How long to wait after the last keystroke before asking for a suggestion.',
+            { min: 200, max: 3000, step: 100 },
+            () => this.getGhostTextSettings().delayMs,
+            async (value) => {
+                this.getGhostTextSettings().delayMs = value;
+                await this.plugin.saveSettings();
+            }
+        );
 
-            // Output Mode Dropdown
-            new Setting(genContainer)
-                .setName('Output Mode')
-                .setDesc('Where to put the generated YAML attribute')
-                .addDropdown(drop => {
-                    drop.addOption('clipboard', 'Copy to clipboard');
-                    drop.addOption('metadata', 'Insert into metadata');
-                    drop.setValue(gen.outputMode);
-                    drop.onChange(async (value) => {
-                        if (this.plugin.settings.yamlAttributeGenerators) {
-                            this.plugin.settings.yamlAttributeGenerators[idx].outputMode = value as any;
-                            await this.plugin.saveSettings();
-                        }
-                    });
-                });
+        const lists: Array<[keyof Pick<GhostTextSettings, 'includePaths' | 'excludePaths'>, string, string, string]> = [
+            ['includePaths', 'Enabled Folders', 'If set, suggestions are only shown in these folders or notes. One path or glob per line.', 'Drafts\nBlog/**'],
+            ['excludePaths', 'Disabled Folders', 'Suggestions are never shown in these folders or notes. One path or glob per line.', 'Journal\nTemplates']
+        ];
+        for (const [key, name, desc, placeholder] of lists) {
+            this.settingCreators.createTextSetting(
+                containerEl,
+                name,
+                desc,
+                placeholder,
+                () => this.getGhostTextSettings()[key].join('\n'),
+                async (value) => {
+                    this.getGhostTextSettings()[key] = (value ?? '')
+                        .split('\n')
+                        .map(line => line.trim())
+                        .filter(line => line !== '');
+                    await this.plugin.saveSettings();
+                },
+                { isTextArea: true }
+            );
+        }
+    }
 
-            // Delete YAML Generator Button
-            new Setting(genContainer)
-                .addExtraButton(btn => {
-                    btn.setIcon('cross')
-                        .setTooltip('Delete this YAML generator')
-                        .onClick(async () => {
-                            if (this.plugin.settings.yamlAttributeGenerators) {
-                                this.plugin.settings.yamlAttributeGenerators.splice(idx, 1);
-                                await this.plugin.saveSettings();
-                            }
-                        });
-                });
-        });
+    /**
+     * Returns the ghost text settings, creating them from defaults if missing.
+     */
+    private getGhostTextSettings(): GhostTextSettings {
+        if (!this.plugin.settings.ghostText) {
+            this.plugin.settings.ghostText = { ...DEFAULT_SETTINGS.ghostText!, includePaths: [], excludePaths: [] };
+        }
+        return this.plugin.settings.ghostText;
+    }
 
-        // Add YAML Attribute Generator Button
-        new Setting(containerEl)
-            .addButton(btn => {
-                btn.setButtonText('Add YAML Attribute Generator')
-                    .setCta()
-                    .onClick(async () => {
-                        if (!this.plugin.settings.yamlAttributeGenerators) this.plugin.settings.yamlAttributeGenerators = [];
-                        this.plugin.settings.yamlAttributeGenerators.push(JSON.parse(JSON.stringify({
-                            attributeName: '',
-                            prompt: '',
-                            outputMode: 'metadata',
-                            commandName: 'New YAML Generator'
-                        })));
-                        await this.plugin.saveSettings();
-                    });
-            });
+    /**
+     * Returns the context budget settings, creating them from defaults if missing.
+     */
+    private getContextBudgetSettings(): ContextBudgetSettings {
+        if (!this.plugin.settings.contextBudget) {
+            this.plugin.settings.contextBudget = { ...DEFAULT_SETTINGS.contextBudget! };
+        }
+        return this.plugin.settings.contextBudget;
     }
 }
@@ -1,7 +1,32 @@
-import { App, Setting } from 'obsidian';
+import { Setting } from 'obsidian';
 import MyPlugin from '../../main';
 import { SettingCreators } from '../components/SettingCreators';
 import { CollapsibleSectionRenderer } from '../../utils/CollapsibleSection';
+import { YamlAttributeGenerator, YamlExistingValuePolicy, YamlFieldType } from '../../types';
+
+/** Labels of the output types in the generator settings */
+const FIELD_TYPE_LABELS: Record<YamlFieldType, string> = {
+    string: 'Text',
+    list: 'List',
+    enum: 'One of allowed values',
+    number: 'Number',
+    date: 'Date',
+    link: 'Link to a note'
+};
+
+/** Labels of the existing value policies in the generator settings */
+const EXISTING_VALUE_POLICY_LABELS: Record<YamlExistingValuePolicy, string> = {
+    replace: 'Replace',
+    merge: 'Merge (add list items, fill empty fields)',
+    skip: 'Skip'
+};
+
+/**
+ * Splits a comma separated list of allowed values.
+ */
+function parseAllowedValues(value: string): string[] {
+    return value.split(',').map(item => item.trim()).filter(item => item !== '');
+}
 
 /**
  * DataHandlingSection is responsible for rendering settings related to how the plugin handles note data,
@@ -21,37 +46,67 @@ export class DataHandlingSection {
     }
 
     /**
-     * Renders the Note & Data Handling settings section into the provided container element.
-     * This section is collapsible.
-     * @param containerEl The HTML element to render the section into.
+     * Renders the Note & Data Handling settings sections into the provided container element:
+     * data handling and YAML attribute generators.
+     * @param containerEl The HTML element to render the sections into.
      */
     async render(containerEl: HTMLElement): Promise<void> {
+        // Data Handling Section
         CollapsibleSectionRenderer.createCollapsibleSection(
             containerEl,
-            'Note & Data Handling',
-            async (sectionEl: HTMLElement) => {
+            'Data Handling',
+            (sectionEl: HTMLElement) => {
                 // Expand Linked Notes Recursively Toggle
-                this.settingCreators.createToggleSetting(sectionEl, 'Expand Linked Notes Recursively', 'If enabled, when fetching a note, also fetch and expand links within that note recursively (prevents infinite loops).',
+                this.settingCreators.createToggleSetting(
+                    sectionEl,
+                    'Expand Linked Notes Recursively',
+                    'If enabled, when fetching a note, also fetch and expand links within that note recursively (prevents infinite loops).',
                     () => this.plugin.settings.expandLinkedNotesRecursively ?? false,
-                    async (value) => { this.plugin.settings.expandLinkedNotesRecursively = value; await this.plugin.saveSettings(); /* this.display(); 
-                    () => { /* this.display(); */ }); 
+                    async (value) => {
+                        this.plugin.settings.expandLinkedNotesRecursively = value;
+                        await this.plugin.saveSettings();
+                    }
+                );
 
                 // Max Link Expansion Depth Slider (only visible if recursive expansion is enabled)
                 if (this.plugin.settings.expandLinkedNotesRecursively) {
-                    this.settingCreators.createSliderSetting(sectionEl, 'Max Link Expansion Depth', 'Maximum depth for recursively expanding linked notes (1-3).',
+                    this.settingCreators.createSliderSetting(
+                        sectionEl,
+                        'Max Link Expansion Depth',
+                        'Maximum depth for recursively expanding linked notes (1-3).',
                         { min: 1, max: 3, step: 1 },
                         () => this.plugin.settings.maxLinkExpansionDepth ?? 2,
-                        async (value) => { this.plugin.settings.maxLinkExpansionDepth = value; await this.plugin.saveSettings(); });
+                        async (value) => {
+                            this.plugin.settings.maxLinkExpansionDepth = value;
+                            await this.plugin.saveSettings();
+                        }
+                    );
                 }
 
                 // Chat Note Folder Text Setting
-                this.settingCreators.createTextSetting(sectionEl, 'Chat Note Folder', 'Folder to save exported chat notes (relative to vault root, leave blank for root)', 'e.g. AI Chats',
+                this.settingCreators.createTextSetting(
+                    sectionEl,
+                    'Chat Note Folder',
+                    'Folder to save exported chat notes (relative to vault root, leave blank for root)',
+                    'e.g. AI Chats',
                     () => this.plugin.settings.chatNoteFolder ?? '',
-                    async (value) => { this.plugin.settings.chatNoteFolder = value ?? ''; await this.plugin.saveSettings(); },
-                    { trim: true });
+                    async (value) => {
+                        this.plugin.settings.chatNoteFolder = value ?? '';
+                        await this.plugin.saveSettings();
+                    },
+                    { trim: true }
+                );
+            },
+            this.plugin,
+            'generalSectionsExpanded'
+        );
 
-                // YAML Attribute Generators Section
-                this.renderYamlAttributeGenerators(sectionEl); 
+        // YAML Attribute Generators Section
+        CollapsibleSectionRenderer.createCollapsibleSection(
+            containerEl,
+            'YAML Attribute Generators',
+            (sectionEl: HTMLElement) => {
+                this.renderYamlAttributeGenerators(sectionEl);
             },
             this.plugin,
             'generalSectionsExpanded'
@@ -61,101 +116,212 @@ export class DataHandlingSection {
     /**
      * Renders the YAML Attribute Generators section.
      * This section allows users to define custom YAML attributes that can be generated by the AI
-     * and inserted into notes.
+     * and inserted into notes, with the type of each value and the fields filled in one request.
      * @param containerEl The HTML element to append the section to.
      */
     private renderYamlAttributeGenerators(containerEl: HTMLElement): void {
-        CollapsibleSectionRenderer.createCollapsibleSection(
-            containerEl,
-            'YAML Attribute Generators',
-            (sectionEl: HTMLElement) => {
-                const descDiv = sectionEl.createEl('div', { text: 'Configure custom YAML attribute generators. Each entry will create a command to generate and insert/update a YAML field in your notes.' });
-                descDiv.style.marginBottom = '1em';
-
-                // Add button at the top for better discoverability
-                new Setting(sectionEl)
-                    .addButton(btn => {
-                        btn.setButtonText('Add YAML Attribute Generator')
-                            .setCta()
-                            .onClick(async () => {
-                                if (!this.plugin.settings.yamlAttributeGenerators) this.plugin.settings.yamlAttributeGenerators = [];
-                                this.plugin.settings.yamlAttributeGenerators.push({
-                                    attributeName: '',
-                                    prompt: '',
-                                    outputMode: 'metadata',
-                                    commandName: 'New YAML Generator'
-                                });
-                                await this.plugin.saveSettings();
-                            });
+        containerEl.createEl('div', {
+            text: 'Configure custom YAML attribute generators. Each entry will create a command to generate and insert/update YAML fields in your notes. ' +
+                'Typed values and further fields are requested as JSON and validated before they are written.',
+            cls: 'setting-item-description yaml-generators-description'
+        });
+
+        const yamlGens = this.plugin.settings.yamlAttributeGenerators ?? [];
+        yamlGens.forEach((gen, idx) => {
+            const autoCommandName = gen.attributeName ? `Generate YAML: ${gen.attributeName}` : `YAML Generator #${idx + 1}`;
+
+            // Container for each YAML generator setting block
+            const genContainer = containerEl.createDiv({ cls: 'yaml-generator-container' });
+            genContainer.createEl('h4', { text: autoCommandName });
+
+            // YAML Attribute Name Setting
+            new Setting(genContainer)
+                .setName('YAML Attribute Name')
+                .setDesc('The YAML field name to insert/update')
+                .addText(text => {
+                    text.setPlaceholder('YAML Attribute Name')
+                        .setValue(gen.attributeName)
+                        .onChange((value) => {
+                            // Update attribute name and command name immediately on change
+                            gen.attributeName = value ?? '';
+                            gen.commandName = value ? `Generate YAML: ${value}` : '';
+                        });
+
+                    // Save settings on blur
+                    text.inputEl.addEventListener('blur', async () => {
+                        await this.plugin.saveSettings();
                     });
+                });
 
-                const yamlGens = this.plugin.settings.yamlAttributeGenerators ?? [];
-                yamlGens.forEach((gen, idx) => {
-                    const autoCommandName = gen.attributeName ? `Generate YAML: ${gen.attributeName}` : `YAML Generator #${idx + 1}`;
-                    const setting = new Setting(sectionEl)
-                        .setName(autoCommandName)
-                        .setDesc(`YAML field: ${gen.attributeName}`);
+            // Output Type of the attribute
+            this.renderFieldType(
+                new Setting(genContainer)
+                    .setName('Output Type')
+                    .setDesc('The type of value to generate. Allowed values are comma separated.'),
+                () => gen.outputType ?? 'string',
+                type => { gen.outputType = type; },
+                gen
+            );
 
-                    // YAML Attribute Name
-                    setting.addText(text => this.settingCreators.createTextSetting(
-                        sectionEl,
-                        'YAML Attribute Name',
-                        '',
-                        'YAML Attribute Name',
-                        () => gen.attributeName,
-                        async (value) => {
-                            if (this.plugin.settings.yamlAttributeGenerators) {
-                                this.plugin.settings.yamlAttributeGenerators[idx].attributeName = value ?? '';
-                                this.plugin.settings.yamlAttributeGenerators[idx].commandName = value ? `Generate YAML: ${value}` : '';
-                                await this.plugin.saveSettings();
-                            }
-                        }
-                    ));
-
-                    // Output Mode Dropdown
-                    setting.addDropdown(drop => {
-                        drop.addOption('clipboard', 'Copy to clipboard');
-                        drop.addOption('metadata', 'Insert into metadata');
-                        drop.setValue(gen.outputMode);
-                        drop.onChange(async (value) => {
-                            if (this.plugin.settings.yamlAttributeGenerators) {
-                                this.plugin.settings.yamlAttributeGenerators[idx].outputMode = value as any;
-                                await this.plugin.saveSettings();
-                            }
+            // Prompt for LLM Setting
+            new Setting(genContainer)
+                .setName('Prompt for LLM')
+                .setDesc('The prompt to send to the AI for generating the YAML values')
+                .addTextArea(text => {
+                    text.setPlaceholder('Prompt for LLM')
+                        .setValue(gen.prompt)
+                        .onChange((value) => {
+                            // Update prompt immediately on change
+                            gen.prompt = value ?? '';
                         });
+
+                    // Save settings on blur
+                    text.inputEl.addEventListener('blur', async () => {
+                        await this.plugin.saveSettings();
                     });
 
-                    // Prompt for LLM
-                    setting.addTextArea(text => this.settingCreators.createTextSetting(
-                        sectionEl,
-                        'Prompt for LLM',
-                        '',
-                        'Prompt for LLM',
-                        () => gen.prompt,
-                        async (value) => {
-                            if (this.plugin.settings.yamlAttributeGenerators) {
-                                this.plugin.settings.yamlAttributeGenerators[idx].prompt = value ?? '';
-                                await this.plugin.saveSettings();
-                            }
-                        },
-                        { isTextArea: true }
-                    ));
-
-                    // Delete button
-                    setting.addExtraButton(btn => {
-                        btn.setIcon('cross')
-                            .setTooltip('Delete')
-                            .onClick(async () => {
-                                if (this.plugin.settings.yamlAttributeGenerators) {
-                                    this.plugin.settings.yamlAttributeGenerators.splice(idx, 1);
-                                    await this.plugin.saveSettings();
-                                }
-                            });
+                    text.inputEl.rows = 3;
+                    text.inputEl.addClass('yaml-generator-prompt');
+                });
+
+            this.renderAdditionalFields(genContainer, gen);
+
+            // Existing Values Dropdown
+            new Setting(genContainer)
+                .setName('Existing Values')
+                .setDesc('What to do with fields that already have a value')
+                .addDropdown(drop => {
+                    drop.addOptions(EXISTING_VALUE_POLICY_LABELS);
+                    drop.setValue(gen.existingValuePolicy ?? 'replace');
+                    drop.onChange(async (value) => {
+                        gen.existingValuePolicy = value as YamlExistingValuePolicy;
+                        await this.plugin.saveSettings();
                     });
                 });
-            },
-            this.plugin,
-            'generalSectionsExpanded'
-        );
+
+            // Output Mode Dropdown
+            new Setting(genContainer)
+                .setName('Output Mode')
+                .setDesc('Where to put the generated YAML attributes')
+                .addDropdown(drop => {
+                    drop.addOption('clipboard', 'Copy to clipboard');
+                    drop.addOption('metadata', 'Insert into metadata');
+                    drop.setValue(gen.outputMode);
+                    drop.onChange(async (value) => {
+                        gen.outputMode = value as YamlAttributeGenerator['outputMode'];
+                        await this.plugin.saveSettings();
+                    });
+                });
+
+            // Delete YAML Generator Button
+            new Setting(genContainer)
+                .addExtraButton(btn => {
+                    btn.setIcon('cross')
+                        .setTooltip('Delete this YAML generator')
+                        .onClick(async () => {
+                            yamlGens.splice(idx, 1);
+                            await this.plugin.saveSettings();
+                        });
+                });
+        });
+
+        // Add YAML Attribute Generator Button
+        new Setting(containerEl)
+            .addButton(btn => {
+                btn.setButtonText('Add YAML Attribute Generator')
+                    .setCta()
+                    .onClick(async () => {
+                        if (!this.plugin.settings.yamlAttributeGenerators) this.plugin.settings.yamlAttributeGenerators = [];
+                        this.plugin.settings.yamlAttributeGenerators.push({
+                            attributeName: '',
+                            prompt: '',
+                            outputMode: 'metadata',
+                            commandName: 'New YAML Generator',
+                            outputType: 'string',
+                            existingValuePolicy: 'replace'
+                        });
+                        await this.plugin.saveSettings();
+                    });
+            });
+    }
+
+    /**
+     * Renders the further fields a generator fills in the same request.
+     * @param containerEl The generator's container.
+     * @param gen The generator.
+     */
+    private renderAdditionalFields(containerEl: HTMLElement, gen: YamlAttributeGenerator): void {
+        new Setting(containerEl)
+            .setName('Additional Fields')
+            .setDesc('Further YAML fields filled in the same request')
+            .addButton(btn => {
+                btn.setButtonText('Add Field')
+                    .onClick(async () => {
+                        gen.additionalFields = [...(gen.additionalFields ?? []), { name: '', type: 'string' }];
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        const fields = gen.additionalFields ?? [];
+        fields.forEach((field, idx) => {
+            const setting = new Setting(containerEl).setClass('yaml-generator-field');
+            setting.addText(text => {
+                text.setPlaceholder('Field name')
+                    .setValue(field.name)
+                    .onChange((value) => {
+                        field.name = value.trim();
+                    });
+                text.inputEl.addEventListener('blur', async () => {
+                    await this.plugin.saveSettings();
+                });
+            });
+            this.renderFieldType(setting, () => field.type, type => { field.type = type; }, field);
+            setting.addExtraButton(btn => {
+                btn.setIcon('cross')
+                    .setTooltip('Remove this field')
+                    .onClick(async () => {
+                        fields.splice(idx, 1);
+                        await this.plugin.saveSettings();
+                    });
+            });
+        });
+    }
+
+    /**
+     * Adds the type dropdown to a setting, and the allowed values input for enum fields.
+     * Works on a generator's own attribute as well as on one of its further fields.
+     * @param setting The setting to add the controls to.
+     * @param getType Returns the current type.
+     * @param setType Changes the type.
+     * @param target The generator or field holding the allowed values.
+     */
+    private renderFieldType(
+        setting: Setting,
+        getType: () => YamlFieldType,
+        setType: (type: YamlFieldType) => void,
+        target: { allowedValues?: string[] }
+    ): void {
+        setting.addDropdown(drop => {
+            drop.addOptions(FIELD_TYPE_LABELS);
+            drop.setValue(getType());
+            drop.onChange(async (value) => {
+                setType(value as YamlFieldType);
+                // Saving re-renders the settings, showing or hiding the allowed values
+                await this.plugin.saveSettings();
+            });
+        });
+
+        if (getType() === 'enum') {
+            setting.addText(text => {
+                text.setPlaceholder('Allowed values, e.g. draft, review, done')
+                    .setValue((target.allowedValues ?? []).join(', '))
+                    .onChange((value) => {
+                        target.allowedValues = parseAllowedValues(value);
+                    });
+                text.inputEl.addEventListener('blur', async () => {
+                    await this.plugin.saveSettings();
+                });
+            });
+        }
     }
 }
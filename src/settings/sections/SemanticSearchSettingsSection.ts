@@ -0,0 +1,163 @@
+import { Setting } from 'obsidian';
+import MyPlugin from '../../main';
+import { SettingCreators } from '../components/SettingCreators';
+import { DEFAULT_SETTINGS, SemanticSearchSettings } from '../../types';
+import { runSemanticIndexUpdate } from '../../components/commands/semanticCommands';
+
+/**
+ * SemanticSearchSettingsSection renders the settings for the local semantic index:
+ * the embedding provider and model, chunking, search defaults and index maintenance.
+ */
+export class SemanticSearchSettingsSection {
+    private plugin: MyPlugin;
+    private settingCreators: SettingCreators;
+
+    /**
+     * @param plugin The main plugin instance.
+     * @param settingCreators An instance of SettingCreators for consistent UI element creation.
+     */
+    constructor(plugin: MyPlugin, settingCreators: SettingCreators) {
+        this.plugin = plugin;
+        this.settingCreators = settingCreators;
+    }
+
+    /**
+     * Returns the semantic search settings, creating them from defaults if missing.
+     */
+    private get semantic(): SemanticSearchSettings {
+        if (!this.plugin.settings.semanticSearch) {
+            this.plugin.settings.semanticSearch = JSON.parse(JSON.stringify(DEFAULT_SETTINGS.semanticSearch));
+        }
+        return this.plugin.settings.semanticSearch!;
+    }
+
+    /**
+     * Renders the semantic search settings into the provided container element.
+     * @param containerEl The HTML element to render the section into.
+     */
+    async render(containerEl: HTMLElement): Promise<void> {
+        this.settingCreators.createToggleSetting(
+            containerEl,
+            'Enable Semantic Search',
+            'Embed your notes into a local index stored in the plugin folder, and give the agent a semantic_search tool. The index updates as notes change.',
+            () => this.semantic.enabled,
+            async (value) => {
+                this.semantic.enabled = value;
+                await this.plugin.saveSettings();
+                if (value) {
+                    // Build the index for notes that are not embedded yet
+                    await runSemanticIndexUpdate(this.plugin, false);
+                }
+            }
+        );
+
+        this.settingCreators.createDropdownSetting(
+            containerEl,
+            'Embedding Provider',
+            'OpenAI and Ollama use an embedding model; Local hashes words in the plugin and needs no network, but only matches shared vocabulary. Changing the provider or model rebuilds the index.',
+            {
+                'openai': 'OpenAI',
+                'ollama': 'Ollama',
+                'local': 'Local (no model)'
+            },
+            () => this.semantic.embeddingProvider,
+            async (value) => {
+                this.semantic.embeddingProvider = value as SemanticSearchSettings['embeddingProvider'];
+                await this.plugin.saveSettings();
+            }
+        );
+
+        this.settingCreators.createTextSetting(
+            containerEl,
+            'Embedding Model',
+            'Model used for embeddings. Leave empty for the default (text-embedding-3-small for OpenAI, nomic-embed-text for Ollama).',
+            'text-embedding-3-small',
+            () => this.semantic.embeddingModel,
+            async (value) => {
+                this.semantic.embeddingModel = value ?? '';
+                await this.plugin.saveSettings();
+            },
+            { trim: true }
+        );
+
+        this.settingCreators.createSliderSetting(
+            containerEl,
+            'Chunk Size',
+            'Approximate number of characters per embedded chunk. Applies to notes indexed after the change.',
+            { min: 200, max: 4000, step: 100 },
+            () => this.semantic.chunkSize,
+            async (value) => {
+                this.semantic.chunkSize = value;
+                await this.plugin.saveSettings();
+            }
+        );
+
+        this.settingCreators.createSliderSetting(
+            containerEl,
+            'Chunk Overlap',
+            'Characters repeated between consecutive chunks so passages are not cut mid-thought.',
+            { min: 0, max: 500, step: 10 },
+            () => this.semantic.chunkOverlap,
+            async (value) => {
+                this.semantic.chunkOverlap = value;
+                await this.plugin.saveSettings();
+            }
+        );
+
+        this.settingCreators.createSliderSetting(
+            containerEl,
+            'Similarity Threshold',
+            'Minimum similarity (0-1) for a passage to be returned.',
+            { min: 0, max: 1, step: 0.05 },
+            () => this.semantic.similarityThreshold,
+            async (value) => {
+                this.semantic.similarityThreshold = value;
+                await this.plugin.saveSettings();
+            }
+        );
+
+        this.settingCreators.createSliderSetting(
+            containerEl,
+            'Max Results',
+            'Default number of passages returned per search.',
+            { min: 1, max: 20, step: 1 },
+            () => this.semantic.maxResults,
+            async (value) => {
+                this.semantic.maxResults = value;
+                await this.plugin.saveSettings();
+            }
+        );
+
+        const indexSetting = new Setting(containerEl)
+            .setName('Semantic Index')
+            .setDesc('Loading index status...')
+            .addButton(button => button
+                .setButtonText('Update')
+                .onClick(async () => {
+                    await runSemanticIndexUpdate(this.plugin, false);
+                    await this.renderStats(indexSetting);
+                }))
+            .addButton(button => button
+                .setButtonText('Rebuild')
+                .setWarning()
+                .onClick(async () => {
+                    await runSemanticIndexUpdate(this.plugin, true);
+                    await this.renderStats(indexSetting);
+                }));
+        await this.renderStats(indexSetting);
+    }
+
+    /**
+     * Shows the number of indexed notes and chunks in the setting's description.
+     */
+    private async renderStats(setting: Setting): Promise<void> {
+        try {
+            const stats = await this.plugin.semanticIndex.getStats();
+            setting.setDesc(stats.files > 0
+                ? `${stats.files} notes / ${stats.chunks} chunks indexed with ${stats.embeddingModel}.`
+                : 'The index is empty. Update it to embed your notes.');
+        } catch (error: any) {
+            setting.setDesc(`Failed to read the index: ${error.message}`);
+        }
+    }
+}
@@ -0,0 +1,43 @@
+/**
+ * A single file operation performed by an agent tool, with what is needed to revert it
+ *
+ * - `create`: `path` was created with `content`
+ * - `edit`: `path` was changed from `previousContent` to `content`
+ * - `move`: `fromPath` was moved or renamed to `path`
+ * - `delete`: `path` was moved to `trashPath`, or permanently deleted (`content` holds the text, if known)
+ */
+export interface AgentFileOperation {
+    type: 'create' | 'edit' | 'move' | 'delete';
+    path: string;
+    timestamp: number;
+    /** Tool that performed the operation */
+    tool: string;
+    content?: string;
+    previousContent?: string;
+    fromPath?: string;
+    trashPath?: string;
+}
+
+/**
+ * All file operations of one agent run, in the order they happened
+ */
+export interface AgentRun {
+    id: string;
+    /** Short description of the run, taken from the user's request */
+    label: string;
+    startedAt: number;
+    endedAt?: number;
+    operations: AgentFileOperation[];
+    /** Set once the run has been undone */
+    undoneAt?: number;
+}
+
+/**
+ * Outcome of undoing an agent run
+ */
+export interface AgentRunUndoResult {
+    /** Number of operations reverted */
+    reverted: number;
+    /** Operations that could not be reverted, with the reason */
+    failures: Array<{ operation: AgentFileOperation; error: string }>;
+}
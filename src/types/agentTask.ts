@@ -0,0 +1,62 @@
+/**
+ * When an agent task runs.
+ * - "manual": only through the "Run Agent Task" command.
+ * - "startup": once after Obsidian starts.
+ * - "interval": every `minutes` minutes.
+ * - "file-created": whenever a file is created in `folder`.
+ */
+export type AgentTaskTrigger =
+    | { type: 'manual' }
+    | { type: 'startup' }
+    | { type: 'interval'; minutes: number }
+    | { type: 'file-created'; folder: string };
+
+/**
+ * An agent task defined by a note in the agent tasks folder.
+ * The prompt is the `prompt` frontmatter field, or the note body when it is missing.
+ */
+export interface AgentTask {
+    /** Path of the note defining the task */
+    path: string;
+    /** Task name, taken from the note name */
+    name: string;
+    prompt: string;
+    /** Tools the task may use; all enabled tools when missing */
+    tools?: string[];
+    /** Unified model id (provider:model); the selected model when missing */
+    model?: string;
+    trigger: AgentTaskTrigger;
+    enabled: boolean;
+}
+
+/**
+ * Outcome of one agent task run, written to the run log note.
+ */
+export interface AgentTaskRun {
+    taskPath: string;
+    taskName: string;
+    /** What started the run, e.g. "startup" or "file-created: Inbox/idea.md" */
+    reason: string;
+    startedAt: number;
+    endedAt: number;
+    status: 'completed' | 'failed' | 'limit-reached';
+    /** Each model response with the tool calls it made */
+    steps: Array<{
+        response: string;
+        toolCalls: Array<{ action: string; parameters: Record<string, any>; success: boolean; error?: string }>;
+    }>;
+    error?: string;
+}
+
+/**
+ * Settings for background agent tasks.
+ */
+export interface AgentTaskSettings {
+    enabled: boolean;
+    /** Folder holding the task notes */
+    folder: string;
+    /** Folder the run log notes are written to */
+    logFolder: string;
+    /** Tool calls all background runs may make per hour; queued runs wait for the next hour */
+    maxToolCallsPerHour: number;
+}
@@ -2,18 +2,67 @@
  * Represents a single backup entry for a file
  */
 export interface FileBackup {
-    filePath: string;        
-    content?: string;        
-    timestamp: number;       
-    readableTimestamp: string; 
-    isBinary: boolean;       
-    fileSize?: number;       
-    backupFilePath?: string; 
+    filePath: string;
+    /** Text content; only present in the legacy `backups.json` format. Use `BackupManager.getBackupContent`. */
+    content?: string;
+    timestamp: number;
+    readableTimestamp: string;
+    isBinary: boolean;
+    fileSize?: number;
+    /** Location of a binary backup in the legacy format. */
+    backupFilePath?: string;
+    /** SHA-256 of the backed-up content, identifying its blob in the backup store. */
+    hash?: string;
 }
 
 /**
- * Structure of the backups.json file
+ * Structure of the legacy backups.json file, which stored all text contents inline
  */
 export interface BackupData {
-    backups: Record<string, FileBackup[]>; 
+    backups: Record<string, FileBackup[]>;
+}
+
+/**
+ * A backup in the backup index. The content lives in the blob named by `hash`.
+ */
+export interface BackupIndexEntry {
+    timestamp: number;
+    isBinary: boolean;
+    /** Size of the backed-up content in bytes (text: characters) */
+    fileSize: number;
+    hash: string;
+}
+
+/**
+ * A stored content blob. Text blobs hold either the full text or a delta against a `base` blob.
+ */
+export interface BackupBlobInfo {
+    binary: boolean;
+    /** Bytes the blob takes up on disk */
+    storedSize: number;
+    /** Hash of the blob this one is a delta against */
+    base?: string;
+}
+
+/**
+ * Structure of the backup index file
+ */
+export interface BackupIndex {
+    version: 2;
+    /** Backups per file path, most recent first */
+    files: Record<string, BackupIndexEntry[]>;
+    /** Blobs by content hash */
+    blobs: Record<string, BackupBlobInfo>;
+}
+
+/**
+ * Limits enforced by `BackupManager.cleanupOldBackups`
+ */
+export interface BackupLimits {
+    /** Backups older than this many days are removed */
+    maxDays: number;
+    /** Maximum number of backups across all files */
+    maxCount: number;
+    /** Maximum bytes stored for all backups */
+    maxTotalSize: number;
 }
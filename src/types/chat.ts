@@ -1,20 +1,22 @@
-import { Message } from "../types";
-
 /**
- * Represents a chat session
+ * Represents a chat session. Its messages are stored in a separate history file per session.
  * 
  * @property id - Unique identifier for the session
  * @property name - Human-readable name for the session
  * @property created - Timestamp when the session was created
  * @property lastUpdated - Timestamp when the session was last updated
- * @property messages - List of messages in the session
+ * @property messageCount - Number of messages in the session's history
+ * @property model - Unified model id (provider:model) used by the session
+ * @property systemMessage - System prompt used by the session
  */
 export interface ChatSession {
     id: string;
     name: string;
     created: number;
     lastUpdated: number;
-    messages: Message[];
+    messageCount: number;
+    model?: string;
+    systemMessage?: string;
 }
 
 /**
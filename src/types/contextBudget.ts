@@ -0,0 +1,45 @@
+/**
+ * Kinds of content that can be included in a request's context, in priority order
+ */
+export type ContextSourceKind =
+    | 'systemPrompt'
+    | 'userMessage'
+    | 'currentNote'
+    | 'contextNotes'
+    | 'linkedNotes'
+    | 'chatHistory'
+    | 'recentFiles';
+
+/**
+ * What happened to one context source when fitting the token budget
+ *
+ * @property kind - The kind of source
+ * @property label - Human-readable description (e.g. the note path)
+ * @property originalTokens - Estimated tokens before fitting
+ * @property tokens - Estimated tokens actually included
+ * @property status - Whether the source was included whole, shortened, or left out
+ * @property detail - Optional explanation, e.g. "kept 4 of 10 messages"
+ */
+export interface ContextBudgetItem {
+    kind: ContextSourceKind;
+    label: string;
+    originalTokens: number;
+    tokens: number;
+    status: 'included' | 'truncated' | 'dropped';
+    detail?: string;
+}
+
+/**
+ * Breakdown of how a request's context was fitted into the token budget
+ *
+ * @property model - Unified model id the budget was computed for
+ * @property budget - Tokens available for context (Infinity when budgeting is disabled)
+ * @property used - Estimated tokens included
+ * @property items - One entry per context source, in priority order
+ */
+export interface ContextBudgetReport {
+    model: string;
+    budget: number;
+    used: number;
+    items: ContextBudgetItem[];
+}
@@ -1,5 +1,5 @@
 import { DEFAULT_TITLE_PROMPT, DEFAULT_SUMMARY_PROMPT, DEFAULT_YAML_SYSTEM_MESSAGE, DEFAULT_GENERAL_SYSTEM_PROMPT } from "../promptConstants";
-import { ToolExecutionResult, TaskStatus } from "../types";
+import { ToolExecutionResult, TaskStatus, ToolDefinition, NativeToolCall, TokenUsage } from "../types";
 
 /**
  * AI Assistant Plugin Types
@@ -17,6 +17,7 @@ import { ToolExecutionResult, TaskStatus } from "../types";
  * @property reasoning - Optional structured reasoning/planning data for assistant messages
  * @property toolResults - Optional tool execution results for assistant messages
  * @property taskStatus - Optional task status information
+ * @property parts - Optional additional content (images, files) sent after `content` to multimodal models
  */
 export interface Message {
     role: 'system' | 'user' | 'assistant';
@@ -24,6 +25,49 @@ export interface Message {
     reasoning?: ReasoningData;
     toolResults?: ToolExecutionResult[];
     taskStatus?: TaskStatus;
+    parts?: MessageContentPart[];
+}
+
+/**
+ * A piece of message content for multimodal models.
+ * `content` stays the text of a message; parts carry what text cannot, such as images.
+ */
+export type MessageContentPart = TextContentPart | ImageContentPart | FileContentPart;
+
+/**
+ * Plain text content
+ */
+export interface TextContentPart {
+    type: 'text';
+    text: string;
+}
+
+/**
+ * An image, base64-encoded
+ * 
+ * @property mimeType - e.g. 'image/png'
+ * @property data - Base64 data without a data: URL prefix
+ * @property name - Optional file name or vault path, for display and logs
+ */
+export interface ImageContentPart {
+    type: 'image';
+    mimeType: string;
+    data: string;
+    name?: string;
+}
+
+/**
+ * A document such as a PDF or text file, base64-encoded
+ * 
+ * @property mimeType - e.g. 'application/pdf'
+ * @property data - Base64 data without a data: URL prefix
+ * @property name - File name or vault path
+ */
+export interface FileContentPart {
+    type: 'file';
+    mimeType: string;
+    data: string;
+    name: string;
 }
 
 /**
@@ -64,4 +108,43 @@ export interface CompletionOptions {
     temperature?: number;
     streamCallback?: (chunk: string) => void;
     abortController?: AbortController;
+    /** Tool schemas to offer through the provider's native function-calling API. */
+    tools?: ToolDefinition[];
+    /**
+     * Called once the response finishes with every native tool call the model made.
+     * Only providers that sent `tools` natively invoke it, so a missing call means
+     * the caller should fall back to parsing tool commands out of the text.
+     */
+    toolCallCallback?: (calls: NativeToolCall[]) => void;
+    /**
+     * Called with the token usage the provider reported for this request.
+     * Providers that do not report usage never call it.
+     */
+    usageCallback?: (usage: TokenUsage) => void;
+    /** Chat session the request belongs to, used to attribute usage and cost. */
+    sessionId?: string;
+    /** Unified model id (provider:model) to use instead of the selected model. */
+    model?: string;
+    /**
+     * JSON schema the response has to follow. Providers with constrained output send it natively;
+     * others ignore it, so callers should also describe the format in the prompt and validate the result.
+     */
+    responseSchema?: ResponseSchema;
+}
+
+/**
+ * Options for preparing messages before they are sent to the AI provider.
+ */
+export interface MessageProcessingOptions {
+    /** Set to false to leave the context notes out even when they are enabled. */
+    includeContextNotes?: boolean;
+}
+
+/**
+ * A named JSON schema for structured output. The schema is an object schema whose
+ * properties are all required and which allows no additional properties.
+ */
+export interface ResponseSchema {
+    name: string;
+    schema: Record<string, any>;
 }
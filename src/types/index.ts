@@ -1,8 +1,14 @@
 export type { 
   Message, 
+  MessageContentPart, 
+  TextContentPart, 
+  ImageContentPart, 
+  FileContentPart, 
   ReasoningData, 
   ReasoningStep, 
-  CompletionOptions 
+  CompletionOptions,
+  ResponseSchema,
+  MessageProcessingOptions
 } from './core';
 
 export type { 
@@ -15,7 +21,13 @@ export type {
   MyPluginSettings, 
   ModelSettingPreset, 
   YamlAttributeGenerator,
-  UIBehaviorSettings
+  YamlFieldType,
+  YamlGeneratorField,
+  YamlExistingValuePolicy,
+  UIBehaviorSettings,
+  SemanticSearchSettings,
+  ContextBudgetSettings,
+  GhostTextSettings
 } from './settings';
 
 export { DEFAULT_SETTINGS } from './settings';
@@ -29,10 +41,61 @@ export type {
   ToolCommand, 
   ToolResult, 
   ToolExecutionResult,
-  AgentModeSettings
+  ToolDefinition,
+  NativeToolCall,
+  AgentModeSettings,
+  AgentPlan,
+  AgentPlanStep,
+  ToolPermission,
+  ToolPermissionRule,
+  VaultAccessSettings
 } from './tools';
 
 export type { 
   FileBackup, 
-  BackupData 
+  BackupData,
+  BackupIndexEntry,
+  BackupBlobInfo,
+  BackupIndex,
+  BackupLimits
 } from './backup';
+
+export type {
+  AgentFileOperation,
+  AgentRun,
+  AgentRunUndoResult
+} from './agentRun';
+
+export type {
+  AgentTaskTrigger,
+  AgentTask,
+  AgentTaskRun,
+  AgentTaskSettings
+} from './agentTask';
+
+export type {
+  PromptTemplate,
+  PromptInputField
+} from './promptLibrary';
+
+export type {
+  YamlBatchTarget,
+  YamlBatchGenerator,
+  YamlBatchItemStatus,
+  YamlBatchItem,
+  YamlBatchRun
+} from './yamlBatch';
+
+export type {
+  TokenUsage,
+  ModelPricing,
+  UsageTotals,
+  UsageRecord,
+  UsageSnapshot
+} from './usage';
+
+export type {
+  ContextSourceKind,
+  ContextBudgetItem,
+  ContextBudgetReport
+} from './contextBudget';
@@ -0,0 +1,27 @@
+/**
+ * A reusable prompt defined by a note in the prompt library folder.
+ * Each prompt is available in the chat as a slash command.
+ */
+export interface PromptTemplate {
+    /** Path of the note defining the prompt */
+    path: string;
+    /** Slash command without the leading '/', from the `command` field or the note name */
+    command: string;
+    /** Shown next to the command in the autocomplete list */
+    description?: string;
+    /** The prompt text, with {{variables}} and {{input:Name}} fields */
+    template: string;
+    /** Unified model id (provider:model); the selected model when missing */
+    model?: string;
+    /** Temperature; the chat temperature when missing */
+    temperature?: number;
+}
+
+/**
+ * A field the user fills in before a prompt is sent, written as {{input:Name}}
+ * or {{input:Name|default value}} in the template.
+ */
+export interface PromptInputField {
+    name: string;
+    defaultValue: string;
+}
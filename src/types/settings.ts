@@ -1,5 +1,36 @@
 import { DEFAULT_TITLE_PROMPT, DEFAULT_SUMMARY_PROMPT, DEFAULT_YAML_SYSTEM_MESSAGE, DEFAULT_GENERAL_SYSTEM_PROMPT } from "../promptConstants";
-import { AgentModeSettings, UnifiedModel, ChatSession } from "../types";
+import { AgentModeSettings, UnifiedModel, ChatSession, ModelPricing, ToolPermissionRule, VaultAccessSettings, AgentTaskSettings } from "../types";
+
+/**
+ * The type of value a YAML generator writes to a field.
+ * - "string": Free text.
+ * - "list": A list of strings (e.g., tags or aliases).
+ * - "enum": One of the field's allowed values.
+ * - "number": A number.
+ * - "date": A date in YYYY-MM-DD format.
+ * - "link": A wikilink to an existing note.
+ */
+export type YamlFieldType = "string" | "list" | "enum" | "number" | "date" | "link";
+
+/**
+ * A further field filled by a YAML attribute generator in the same request.
+ */
+export interface YamlGeneratorField {
+    /** The name of the YAML field. */
+    name: string;
+    /** The type of value to generate. */
+    type: YamlFieldType;
+    /** The values allowed for an "enum" field. */
+    allowedValues?: string[];
+}
+
+/**
+ * How a YAML attribute generator handles a field that already has a value.
+ * - "merge": Adds new list items to the existing ones; other fields are only filled when empty.
+ * - "replace": Overwrites the existing value.
+ * - "skip": Keeps the existing value.
+ */
+export type YamlExistingValuePolicy = "merge" | "replace" | "skip";
 
 /**
  * Represents a YAML attribute generator for the settings UI.
@@ -7,17 +38,28 @@ import { AgentModeSettings, UnifiedModel, ChatSession } from "../types";
  */
 export interface YamlAttributeGenerator {
     /** The name of the YAML attribute to be generated (e.g., "summary", "tags"). */
-    attributeName: string; 
+    attributeName: string;
     /** The prompt used to generate the content for the attribute. */
-    prompt: string;        
+    prompt: string;
     /**
      * The output mode for the generated attribute.
      * - "clipboard": Copies the generated content to the clipboard.
      * - "metadata": Inserts the generated content into the note's YAML frontmatter.
      */
-    outputMode: "clipboard" | "metadata"; 
+    outputMode: "clipboard" | "metadata";
     /** The command name that will trigger this generator in Obsidian. */
-    commandName: string;   
+    commandName: string;
+    /** The type of value generated for the attribute. Defaults to "string". */
+    outputType?: YamlFieldType;
+    /** The values allowed when the output type is "enum". */
+    allowedValues?: string[];
+    /**
+     * Further fields filled in the same request. Generators with further fields or a typed
+     * attribute request JSON output constrained by a schema and validate it before writing.
+     */
+    additionalFields?: YamlGeneratorField[];
+    /** How fields that already have a value are handled. Defaults to "replace". */
+    existingValuePolicy?: YamlExistingValuePolicy;
 }
 
 /**
@@ -230,6 +272,14 @@ export interface MyPluginSettings {
     /** Stores the expanded state of backup management sections. */
     backupManagementExpanded?: Record<string, boolean>;
 
+    /** File backup limits. */
+    /** Backups older than this many days are removed. */
+    backupRetentionDays?: number;
+    /** Maximum number of file backups kept across all files. */
+    backupMaxCount?: number;
+    /** Maximum disk space used by file backups, in megabytes. */
+    backupMaxSizeMB?: number;
+
     /** Model setting presets defined by the user. */
     modelSettingPresets?: ModelSettingPreset[];
 
@@ -242,17 +292,49 @@ export interface MyPluginSettings {
     /** UI Behavior settings. */
     uiBehavior?: UIBehaviorSettings;
 
+    /** Semantic index and search settings. */
+    semanticSearch?: SemanticSearchSettings;
+
+    /** Token budget applied when assembling context for a request. */
+    contextBudget?: ContextBudgetSettings;
+
     /**
      * Map of tool name to enabled/disabled state. If false, tool is disabled.
      */
     enabledTools?: Record<string, boolean>;
 
+    /**
+     * Permission rules for agent tools. Tools without a matching rule are allowed.
+     */
+    toolPermissions?: ToolPermissionRule[];
+
+    /**
+     * Include, exclude and read-only path globs enforced for every agent file tool.
+     */
+    vaultAccess?: VaultAccessSettings;
+
+    /** Background agent tasks defined as notes. */
+    agentTasks?: AgentTaskSettings;
+
+    /** Folder holding the prompt library notes, each available as a chat slash command. */
+    promptLibraryFolder?: string;
+
+    /** Inline AI suggestions shown as ghost text while typing in the editor. */
+    ghostText?: GhostTextSettings;
+
     /**
      * Map of model id (provider:model) to enabled/disabled state.
      * If false, model is hidden from selection menus.
      */
     enabledModels?: Record<string, boolean>;
 
+    /**
+     * Price per million tokens in USD, keyed by unified model id (provider:model),
+     * bare model id, or model id prefix (e.g. "claude-3-5-sonnet" matches dated releases).
+     * Used to turn reported token usage into cost.
+     */
+    modelPricing?: Record<string, ModelPricing>;
+
     /** Debug mode for verbose logging and UI. */
     debugMode?: boolean;
 
@@ -272,6 +354,59 @@ export interface UIBehaviorSettings {
     includeReasoningInExports?: boolean;
 }
 
+/**
+ * Settings for fitting request context into the selected model's context window.
+ */
+export interface ContextBudgetSettings {
+    /** If true, context sources are prioritized and truncated or dropped to fit the budget. */
+    enabled: boolean;
+    /** Tokens kept free for the model's response. */
+    reserveOutputTokens: number;
+    /** Upper limit on context tokens regardless of the model's window. 0 = use the model's full window. */
+    maxContextTokens: number;
+}
+
+/**
+ * Settings for inline ghost-text suggestions in the Markdown editor.
+ */
+export interface GhostTextSettings {
+    /** If true, the current paragraph is continued as greyed text after a pause in typing. */
+    enabled: boolean;
+    /** Unified model id (provider:model) used for suggestions; empty uses the selected model. */
+    model: string;
+    /** Milliseconds to wait after the last keystroke before asking for a suggestion. */
+    delayMs: number;
+    /** If not empty, suggestions are only shown in notes matching one of these globs. */
+    includePaths: string[];
+    /** Notes matching one of these globs never get suggestions. */
+    excludePaths: string[];
+}
+
+/**
+ * Settings for the local semantic index of the vault.
+ */
+export interface SemanticSearchSettings {
+    /** If true, markdown notes are embedded and kept up to date as the vault changes. */
+    enabled: boolean;
+    /**
+     * Where embeddings come from.
+     * - "openai": OpenAI embeddings API (uses the OpenAI API key and base URL).
+     * - "ollama": Embedding model served by the configured Ollama server.
+     * - "local": Hashed bag-of-words vectors computed in the plugin; no network, lower quality.
+     */
+    embeddingProvider: 'openai' | 'ollama' | 'local';
+    /** Embedding model name. Empty uses the provider's default. */
+    embeddingModel: string;
+    /** Target size of each chunk in characters. */
+    chunkSize: number;
+    /** Characters repeated between consecutive chunks. */
+    chunkOverlap: number;
+    /** Minimum cosine similarity (0-1) for a chunk to be returned. */
+    similarityThreshold: number;
+    /** Default number of results returned by a search. */
+    maxResults: number;
+}
+
 /**
  * Default settings used when initializing the plugin.
  * These values are applied if no user-defined settings are found.
@@ -397,6 +532,12 @@ export const DEFAULT_SETTINGS: MyPluginSettings = {
     /** @inheritdoc */
     backupManagementExpanded: {},
     /** @inheritdoc */
+    backupRetentionDays: 30,
+    /** @inheritdoc */
+    backupMaxCount: 1000,
+    /** @inheritdoc */
+    backupMaxSizeMB: 100,
+    /** @inheritdoc */
     modelSettingPresets: [
         {
             name: "Default",
@@ -415,16 +556,68 @@ export const DEFAULT_SETTINGS: MyPluginSettings = {
         includeReasoningInExports: true
     },
     /** @inheritdoc */
+    semanticSearch: {
+        enabled: false,
+        embeddingProvider: 'openai',
+        embeddingModel: '',
+        chunkSize: 1000,
+        chunkOverlap: 100,
+        similarityThreshold: 0.5,
+        maxResults: 5
+    },
+    /** @inheritdoc */
+    contextBudget: {
+        enabled: true,
+        reserveOutputTokens: 4096,
+        maxContextTokens: 0
+    },
+    /** @inheritdoc */
     enabledTools: {},
     /** @inheritdoc */
+    toolPermissions: [],
+    /** @inheritdoc */
+    vaultAccess: {
+        includePaths: [],
+        excludePaths: [],
+        readOnlyPaths: []
+    },
+    /** @inheritdoc */
+    agentTasks: {
+        enabled: false,
+        folder: 'Agent Tasks',
+        logFolder: 'Agent Task Logs',
+        maxToolCallsPerHour: 50
+    },
+    /** @inheritdoc */
+    promptLibraryFolder: 'AI Prompts',
+    /** @inheritdoc */
+    ghostText: {
+        enabled: false,
+        model: '',
+        delayMs: 800,
+        includePaths: [],
+        excludePaths: []
+    },
+    /** @inheritdoc */
     enabledModels: {},
     /** @inheritdoc */
+    modelPricing: {
+        'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+        'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+        'claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+        'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+        'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+        'gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5 }
+    },
+    /** @inheritdoc */
     debugMode: false,
     /** @inheritdoc */
     agentMode: {
         enabled: false,
         maxToolCalls: 10,
         timeoutMs: 30000,
-        maxIterations: 10
+        maxIterations: 10,
+        toolTransport: 'text',
+        planFirst: false
     },
 };
@@ -19,9 +19,95 @@ export interface ToolExecutionResult {
     timestamp: string;
 }
 
+/**
+ * Provider-neutral description of a tool, sent as a native function/tool schema.
+ * `parameters` is a JSON Schema object describing the tool's arguments.
+ */
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: {
+        type: 'object';
+        properties: Record<string, any>;
+        required: string[];
+    };
+}
+
+/**
+ * A structured tool call returned by a provider's native function-calling API.
+ */
+export interface NativeToolCall {
+    id?: string;
+    name: string;
+    arguments: Record<string, any>;
+}
+
 export interface AgentModeSettings {
     enabled: boolean;
     maxToolCalls: number;
     timeoutMs: number;
     maxIterations: number; 
+    /**
+     * How tool calls are exchanged with the model.
+     * - "text": the model writes JSON commands in its reply (default).
+     * - "native": tools are sent as function schemas to providers that support them;
+     *   other providers fall back to the text format.
+     */
+    toolTransport?: 'text' | 'native';
+    /**
+     * Ask the model for a plan first and run tools only after the user approves it.
+     */
+    planFirst?: boolean;
+}
+
+/**
+ * One step of an agent plan.
+ */
+export interface AgentPlanStep {
+    description: string;
+    /** Vault paths the step is expected to read or change */
+    files?: string[];
+    /** Tools the step is expected to use */
+    tools?: string[];
+}
+
+/**
+ * A plan produced by the agent before it runs any tools, edited and approved by the user.
+ */
+export interface AgentPlan {
+    goal: string;
+    steps: AgentPlanStep[];
+}
+
+/**
+ * What happens when the agent calls a tool.
+ * - "allow": the tool runs immediately.
+ * - "ask": an approval card is shown in the chat before the tool runs.
+ * - "deny": the tool is not run and the agent receives an error.
+ */
+export type ToolPermission = 'allow' | 'ask' | 'deny';
+
+/**
+ * A permission rule for a tool, optionally restricted to paths matching a glob.
+ * Rules with a path glob take precedence over rules for the tool alone.
+ */
+export interface ToolPermissionRule {
+    /** Tool name, or "*" for every tool */
+    tool: string;
+    /** Glob matched against the tool's path parameters (e.g. "Journal/**") */
+    pathGlob?: string;
+    permission: ToolPermission;
+}
+
+/**
+ * Folder and file globs that limit what agent tools can see and change.
+ * A glob without wildcards (e.g. "Journal") covers that folder and everything in it.
+ */
+export interface VaultAccessSettings {
+    /** If not empty, agent tools only see paths matching one of these globs */
+    includePaths: string[];
+    /** Paths that agent tools never see; they behave as if they did not exist */
+    excludePaths: string[];
+    /** Paths that agent tools can read but not create, edit, move or delete */
+    readOnlyPaths: string[];
 }
@@ -0,0 +1,55 @@
+/**
+ * Token counts for a single completion request
+ *
+ * @property inputTokens - Tokens in the prompt sent to the model
+ * @property outputTokens - Tokens the model generated
+ * @property estimated - True when the counts were estimated locally because the provider reported none
+ */
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    estimated?: boolean;
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+/**
+ * Running usage and cost totals for one bucket (a provider, a day, a session...)
+ */
+export interface UsageTotals {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+    /** Number of requests whose token counts were estimated */
+    estimatedRequests: number;
+}
+
+/**
+ * Usage of a single completed request
+ */
+export interface UsageRecord {
+    provider: string;
+    model: string;
+    sessionId?: string;
+    usage: TokenUsage;
+    cost: number;
+    timestamp: number;
+}
+
+/**
+ * Aggregated usage totals, as persisted in usage-stats.json
+ */
+export interface UsageSnapshot {
+    total: UsageTotals;
+    byProvider: Record<string, UsageTotals>;
+    /** Keyed by local date, YYYY-MM-DD */
+    byDay: Record<string, UsageTotals>;
+    bySession: Record<string, UsageTotals>;
+}
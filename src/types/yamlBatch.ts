@@ -0,0 +1,56 @@
+/**
+ * Which notes a batch run covers.
+ * - "folder": every note in the folder and its subfolders.
+ * - "tag": every note with the tag or a nested tag below it.
+ * - "search": every note whose name or content contains the query.
+ */
+export interface YamlBatchTarget {
+    type: 'folder' | 'tag' | 'search';
+    value: string;
+}
+
+/**
+ * What a batch run generates: the field of a YAML attribute generator, or the note title
+ * (written to the `title` field).
+ */
+export type YamlBatchGenerator =
+    | { type: 'attribute'; attributeName: string; prompt: string }
+    | { type: 'title' };
+
+/**
+ * Progress of one note in a batch run.
+ * - "pending": no value generated yet.
+ * - "generated": a value waits for review.
+ * - "written": the approved value was written to the frontmatter.
+ * - "failed": generating or writing the value failed.
+ */
+export type YamlBatchItemStatus = 'pending' | 'generated' | 'written' | 'failed';
+
+/**
+ * One note of a batch run with its proposed value.
+ */
+export interface YamlBatchItem {
+    path: string;
+    status: YamlBatchItemStatus;
+    /** Proposed value, editable during review */
+    value?: string;
+    /** Value of the field when the proposal was generated */
+    currentValue?: string;
+    /** Whether the value is written when the run is applied */
+    approved: boolean;
+    error?: string;
+}
+
+/**
+ * A batch run that generates a frontmatter field for many notes.
+ * Runs are persisted so an interrupted run can be resumed.
+ */
+export interface YamlBatchRun {
+    id: string;
+    generator: YamlBatchGenerator;
+    target: YamlBatchTarget;
+    /** Frontmatter field the values are written to */
+    field: string;
+    startedAt: number;
+    items: YamlBatchItem[];
+}
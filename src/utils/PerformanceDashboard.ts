@@ -11,10 +11,12 @@
  * - Export capabilities
  */
 
-import { Plugin, Modal, TFile } from 'obsidian';
+import { Plugin, Modal, Notice, TFile } from 'obsidian';
 import { performanceMonitor } from './performanceMonitor';
 import { apiCircuitBreaker } from './APICircuitBreaker';
 import { debugLog } from './logger';
+import { UsageTracker, formatUsageDay } from './usageTracker';
+import { UsageSnapshot, UsageTotals } from '../types';
 
 export interface DashboardConfig {
   refreshInterval: number;
@@ -422,10 +424,14 @@ ${Array.from(this.activeAlerts.values())
 export class PerformanceDashboardModal extends Modal {
   private dashboard: PerformanceDashboard;
   private refreshTimer?: NodeJS.Timeout;
+  private usageTracker?: UsageTracker;
+  private activeSessionId?: string;
 
-  constructor(plugin: Plugin) {
+  constructor(plugin: Plugin & { usageTracker?: UsageTracker; settings?: { activeSessionId?: string } }) {
     super(plugin.app);
     this.dashboard = PerformanceDashboard.getInstance();
+    this.usageTracker = plugin.usageTracker;
+    this.activeSessionId = plugin.settings?.activeSessionId;
   }
 
   onOpen(): void {
@@ -474,6 +480,11 @@ export class PerformanceDashboardModal extends Modal {
     this.createMetricCard(metricsGrid, 'Memory Usage', `${(snapshot.performance.memoryUsage / 1024 / 1024).toFixed(2)}MB`,
       snapshot.performance.memoryUsage > 50 * 1024 * 1024 ? 'warning' : 'good');
 
+    // Usage & Cost Section
+    if (this.usageTracker) {
+      this.renderUsageSection(contentEl, this.usageTracker.getSnapshot());
+    }
+
     // Circuit Breakers Section
     const circuitSection = contentEl.createDiv('dashboard-circuits');
     circuitSection.createEl('h3', { text: 'Circuit Breakers' });
@@ -512,6 +523,11 @@ export class PerformanceDashboardModal extends Modal {
     
     const exportBtn = actionsSection.createEl('button', { text: 'Export Report' });
     exportBtn.onclick = () => this.exportReport();
+
+    if (this.usageTracker) {
+      const exportUsageBtn = actionsSection.createEl('button', { text: 'Export Usage (CSV)' });
+      exportUsageBtn.onclick = () => this.exportUsage();
+    }
     
     const clearAlertsBtn = actionsSection.createEl('button', { text: 'Clear Alerts' });
     clearAlertsBtn.onclick = () => {
@@ -521,6 +537,49 @@ export class PerformanceDashboardModal extends Modal {
     };
   }
 
+  private renderUsageSection(parent: HTMLElement, usage: UsageSnapshot): void {
+    const usageSection = parent.createDiv('dashboard-usage');
+    usageSection.createEl('h3', { text: 'Usage & Cost' });
+
+    const usageGrid = usageSection.createDiv('metrics-grid');
+    usageGrid.style.display = 'grid';
+    usageGrid.style.gridTemplateColumns = 'repeat(auto-fit, minmax(200px, 1fr))';
+    usageGrid.style.gap = '16px';
+
+    const today = usage.byDay[formatUsageDay(Date.now())];
+    const session = this.activeSessionId ? usage.bySession[this.activeSessionId] : undefined;
+    this.createMetricCard(usageGrid, 'Total Cost', formatCost(usage.total.cost), 'good');
+    this.createMetricCard(usageGrid, 'Total Tokens', formatTokens(usage.total), 'good');
+    this.createMetricCard(usageGrid, 'Today', today ? `${formatCost(today.cost)} · ${formatTokens(today)}` : 'No usage', 'good');
+    if (session) {
+      this.createMetricCard(usageGrid, 'Current Session', `${formatCost(session.cost)} · ${formatTokens(session)}`, 'good');
+    }
+
+    const providers = Object.entries(usage.byProvider);
+    if (providers.length > 0) {
+      const table = usageSection.createEl('table', { cls: 'usage-table' });
+      table.style.width = '100%';
+      table.style.marginTop = '12px';
+      const header = table.createEl('tr');
+      ['Provider', 'Requests', 'Input Tokens', 'Output Tokens', 'Cost'].forEach(text => header.createEl('th', { text }));
+      providers.forEach(([provider, totals]) => {
+        const row = table.createEl('tr');
+        row.createEl('td', { text: provider });
+        row.createEl('td', { text: String(totals.requests) });
+        row.createEl('td', { text: totals.inputTokens.toLocaleString() });
+        row.createEl('td', { text: totals.outputTokens.toLocaleString() });
+        row.createEl('td', { text: formatCost(totals.cost) });
+      });
+    }
+
+    if (usage.total.estimatedRequests > 0) {
+      usageSection.createEl('p', {
+        text: `${usage.total.estimatedRequests} of ${usage.total.requests} requests used estimated token counts because the provider reported none.`,
+        cls: 'setting-item-description'
+      });
+    }
+  }
+
   private createMetricCard(parent: HTMLElement, title: string, value: string, status: 'good' | 'warning' | 'danger'): void {
     const card = parent.createDiv(`metric-card metric-${status}`);
     card.style.padding = '16px';
@@ -570,8 +629,35 @@ export class PerformanceDashboardModal extends Modal {
     }
   }
 
+  private async exportUsage(): Promise<void> {
+    if (!this.usageTracker) return;
+    const fileName = `usage-report-${new Date().toISOString().split('T')[0]}.csv`;
+
+    try {
+      // A second export on the same day replaces the earlier one with the current totals
+      const csv = this.usageTracker.export('csv');
+      const existing = this.app.vault.getAbstractFileByPath(fileName);
+      if (existing instanceof TFile) {
+        await this.app.vault.modify(existing, csv);
+      } else {
+        await this.app.vault.create(fileName, csv);
+      }
+      new Notice(`Usage report exported to ${fileName}`);
+    } catch (error) {
+      debugLog(true, 'error', '[PerformanceDashboard] Failed to export usage:', error);
+      new Notice('Failed to export usage report');
+    }
+  }
+
   private async exportReport(): Promise<void> {
-    const report = this.dashboard.generateReport(24);
+    let report = this.dashboard.generateReport(24);
+    if (this.usageTracker) {
+      const usage = this.usageTracker.getSnapshot();
+      report += `\n\n## Usage & Cost\n- **Total**: ${formatCost(usage.total.cost)} (${formatTokens(usage.total)})\n` +
+        Object.entries(usage.byProvider)
+          .map(([provider, totals]) => `- **${provider}**: ${formatCost(totals.cost)} (${formatTokens(totals)})`)
+          .join('\n');
+    }
     const fileName = `performance-report-${new Date().toISOString().split('T')[0]}.md`;
     
     try {
@@ -583,5 +669,19 @@ export class PerformanceDashboardModal extends Modal {
   }
 }
 
+/**
+ * Formats a cost in USD with enough precision for small requests
+ */
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+/**
+ * Formats input/output token totals
+ */
+function formatTokens(totals: UsageTotals): string {
+  return `${totals.inputTokens.toLocaleString()} in / ${totals.outputTokens.toLocaleString()} out`;
+}
+
 // Singleton instance
 export const performanceDashboard = PerformanceDashboard.getInstance();
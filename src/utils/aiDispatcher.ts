@@ -1,9 +1,10 @@
 import { Vault } from 'obsidian';
-import { Message, CompletionOptions, UnifiedModel } from '../types';
+import { Message, CompletionOptions, UnifiedModel, TokenUsage } from '../types';
 import { BaseProvider } from '../../providers/base';
 import { createProvider, createProviderFromUnifiedModel, getAllAvailableModels } from '../../providers';
 import { saveAICallToFolder } from './saveAICalls';
 import { debugLog } from './logger';
+import { hasAttachments } from './messageParts';
 import type { MyPluginSettings } from '../types';
 import { MessageContextPool, PreAllocatedArrays } from './objectPool';
 import { LRUCache, LRUCacheFactory } from './lruCache';
@@ -11,6 +12,7 @@ import { errorHandler, handleAIDispatcherError, withErrorHandling } from './erro
 import { AsyncBatcher, ParallelExecutor, AsyncOptimizerFactory } from './asyncOptimizer';
 import { performanceMonitor } from './performanceMonitor';
 import { apiCircuitBreaker } from './APICircuitBreaker';
+import { UsageTracker, calculateCost, estimateUsage } from './usageTracker';
 import {
     isValidProviderName,
     ValidProviderName,
@@ -135,10 +137,11 @@ export class AIDispatcher {
     private readonly RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
     private readonly MAX_QUEUE_SIZE = 100;
     private readonly CACHE_MAX_SIZE = 200; // Maximum cache entries
+    private readonly BATCH_CONCURRENCY = 4; // Requests in flight at once for a batch run
 
     constructor(
         private vault: Vault,
-        private plugin: { settings: MyPluginSettings; saveSettings: () => Promise<void> }
+        private plugin: { settings: MyPluginSettings; saveSettings: () => Promise<void>; usageTracker?: UsageTracker }
     ) {
         // Set debug mode for performance monitor and circuit breaker
         performanceMonitor.setDebugMode(this.plugin.settings.debugMode ?? false);
@@ -274,9 +277,16 @@ export class AIDispatcher {
 
             // Generate cache key
             const cacheKey = this.generateCacheKey(messages, options, providerOverride);
+
+            // Native tool calls are delivered out of band, so cached text cannot replay them;
+            // attachments are not part of the cache key
+            const bypassCache = !!options.tools?.length || messages.some(hasAttachments);
             
+            // A request the caller can abort is never shared with another caller
+            const shareRequest = !bypassCache && !options.abortController;
+
             // Priority 1 Optimization: Check for duplicate requests
-            const existingRequest = this.pendingRequests.get(cacheKey);
+            const existingRequest = shareRequest ? this.pendingRequests.get(cacheKey) : undefined;
             if (existingRequest) {
                 this.metrics.deduplicatedRequests++;
                 performanceMonitor.recordMetric('deduplicated_requests', 1, 'count');
@@ -285,7 +295,7 @@ export class AIDispatcher {
             }
             
             // Check cache first
-            const cachedResponse = this.cache.get(cacheKey);
+            const cachedResponse = bypassCache ? undefined : this.cache.get(cacheKey);
             if (cachedResponse && options.streamCallback) {
                 this.metrics.cacheHits++;
                 performanceMonitor.recordMetric('cache_hits', 1, 'count');
@@ -299,7 +309,7 @@ export class AIDispatcher {
             }
 
             // Determine provider
-            const providerName = this.determineProvider(providerOverride);
+            const providerName = this.determineProvider(providerOverride ?? options.model?.split(':')[0]);
             
             // Check circuit breaker
             if (this.isCircuitBreakerOpen(providerName)) {
@@ -314,12 +324,14 @@ export class AIDispatcher {
 
             // Create and track the request promise
             const requestPromise = this.executeWithRetry(messages, options, providerName, cacheKey);
-            this.pendingRequests.set(cacheKey, requestPromise);
+            if (shareRequest) {
+                this.pendingRequests.set(cacheKey, requestPromise);
 
-            // Clean up after completion
-            requestPromise.finally(() => {
-                this.pendingRequests.delete(cacheKey);
-            });
+                // Clean up after completion
+                requestPromise.finally(() => {
+                    this.pendingRequests.delete(cacheKey);
+                });
+            }
 
             return requestPromise;
         })();
@@ -429,7 +441,7 @@ export class AIDispatcher {
             const key = JSON.stringify({
                 messages: messageArray,
                 temperature: options.temperature,
-                provider: providerOverride || this.plugin.settings.selectedModel || this.plugin.settings.provider
+                provider: providerOverride || options.model || this.plugin.settings.selectedModel || this.plugin.settings.provider
             });
 
             // Use Unicode-safe base64 encoding
@@ -675,16 +687,18 @@ export class AIDispatcher {
         retryCount: number = 0
     ): Promise<void> {
         const startTime = Date.now();
+        const selectedModel = options.model || this.plugin.settings.selectedModel;
         let provider: BaseProvider;
         let fullResponse = '';
+        let reportedUsage: TokenUsage | undefined;
         let abortController: AbortController;
 
         try {
             // Use advanced circuit breaker for API protection
             await apiCircuitBreaker.execute(providerName, async () => {
                 // Create provider
-                if (this.plugin.settings.selectedModel) {
-                    provider = createProviderFromUnifiedModel(this.plugin.settings, this.plugin.settings.selectedModel);
+                if (selectedModel) {
+                    provider = createProviderFromUnifiedModel(this.plugin.settings, selectedModel);
                 } else {
                     if (!isValidProviderName(providerName)) {
                         throw new Error(`Invalid provider name: ${providerName}`);
@@ -701,17 +715,26 @@ export class AIDispatcher {
                 abortController = new AbortController();
                 this.activeStreams.set(streamId, abortController);
 
+                // Aborting the caller's controller also aborts this request
+                const callerSignal = options.abortController?.signal;
+                if (callerSignal?.aborted) {
+                    abortController.abort();
+                } else {
+                    callerSignal?.addEventListener('abort', () => abortController.abort(), { once: true });
+                }
+
                 // Prepare request data for logging
                 const requestData = {
                     provider: providerName,
-                    model: this.plugin.settings.selectedModel || 'default',
+                    model: selectedModel || 'default',
                     messages: messages,
                 options: options,
                 timestamp: new Date().toISOString()
             };
 
-            // Wrap the stream callback to capture the full response
+            // Wrap the stream and usage callbacks to capture the full response and its token usage
             const originalStreamCallback = options.streamCallback;
+            const originalUsageCallback = options.usageCallback;
             const wrappedOptions = {
                 ...options,
                 streamCallback: (chunk: string) => {
@@ -720,6 +743,12 @@ export class AIDispatcher {
                         originalStreamCallback(chunk);
                     }
                 },
+                usageCallback: (usage: TokenUsage) => {
+                    reportedUsage = usage;
+                    if (originalUsageCallback) {
+                        originalUsageCallback(usage);
+                    }
+                },
                 abortController
             };
 
@@ -729,20 +758,24 @@ export class AIDispatcher {
             // Clean up stream controller
             this.activeStreams.delete(streamId);
 
-            // Record success
+            // Record success, falling back to estimated usage when the provider reported none
+            const usage = reportedUsage ?? estimateUsage(messages, fullResponse);
             this.recordSuccess(providerName);
-            this.updateMetrics(providerName, true, Date.now() - startTime, fullResponse.length);
+            this.updateMetrics(providerName, true, Date.now() - startTime, usage.inputTokens + usage.outputTokens);
+            this.recordUsage(providerName, usage, options.sessionId, options.model);
             performanceMonitor.recordMetric('api_response_time', Date.now() - startTime, 'time');
             performanceMonitor.recordMetric('api_response_size', fullResponse.length, 'size');
 
-            // Cache the response
-            this.setCache(cacheKey, fullResponse);
+            // Cache the response, unless it was cut short by an abort
+            if (!options.tools?.length && !abortController.signal.aborted) {
+                this.setCache(cacheKey, fullResponse);
+            }
 
             // Prepare response data for logging
             const responseData = {
                 content: fullResponse,
                 provider: providerName,
-                model: this.plugin.settings.selectedModel || 'default',
+                model: selectedModel || 'default',
                 timestamp: new Date().toISOString(),
                 duration: Date.now() - startTime
             };
@@ -804,7 +837,7 @@ export class AIDispatcher {
                 };
                 const requestData = {
                     provider: providerName,
-                    model: this.plugin.settings.selectedModel || 'default',
+                    model: selectedModel || 'default',
                     messages: messages,
                     options: options,
                     timestamp: new Date().toISOString()
@@ -831,6 +864,36 @@ export class AIDispatcher {
         );
     }
 
+    /**
+     * Prices a completed request and adds it to the cost metrics and the plugin's usage totals.
+     * @param providerName Provider that served the request
+     * @param usage Reported or estimated token usage
+     * @param sessionId Chat session to attribute the usage to; defaults to the active session
+     * @param selectedModel Model the request used; defaults to the selected model
+     */
+    private recordUsage(providerName: string, usage: TokenUsage, sessionId?: string, selectedModel?: string): void {
+        const model = selectedModel || this.plugin.settings.selectedModel || this.getLegacyModelId(providerName);
+        const cost = calculateCost(model, usage, this.plugin.settings.modelPricing);
+        this.metrics.totalCost += cost;
+
+        this.plugin.usageTracker?.record({
+            provider: providerName,
+            model,
+            sessionId: sessionId ?? this.plugin.settings.activeSessionId,
+            usage,
+            cost,
+            timestamp: Date.now()
+        });
+    }
+
+    /**
+     * Gets the model configured for a provider when no unified model is selected.
+     */
+    private getLegacyModelId(providerName: string): string {
+        const model = getProviderSettings(this.plugin.settings, providerName)?.model;
+        return model ? `${providerName}:${model}` : providerName;
+    }
+
     /**
      * Updates metrics tracking.
      */
@@ -896,6 +959,23 @@ export class AIDispatcher {
         performanceMonitor.logMetrics();
     }
 
+    /**
+     * Runs tasks that each make completion requests, a few at a time, so large batches neither
+     * flood the provider nor overflow the request queue. Rate limiting, retries and the circuit
+     * breaker still apply to every request.
+     * @param tasks The tasks to run; a failing task does not stop the others
+     * @returns The errors of the tasks that failed
+     */
+    async runBatch(tasks: Array<() => Promise<void>>): Promise<Error[]> {
+        if (tasks.length === 0) return [];
+        try {
+            await this.parallelExecutor.executeParallel(tasks, { concurrency: this.BATCH_CONCURRENCY });
+            return [];
+        } catch (error) {
+            return error instanceof AggregateError ? error.errors : [error as Error];
+        }
+    }
+
     /**
      * Aborts all active streams.
      */
@@ -0,0 +1,121 @@
+import { App, Editor, Notice } from 'obsidian';
+import type MyPlugin from '../main';
+import { Message } from '../types';
+import { AI_REWRITE_SYSTEM_PROMPT } from '../promptConstants';
+import { formatChangedLines, showFileChangeSuggestionsModal } from '../components/agent/tools/FileDiffTool';
+import { PromptInputModal } from '../components/chat/PromptInputModal';
+import { showNotice } from './generalUtils';
+import { debugLog } from './logger';
+import { AIDispatcher } from './aiDispatcher';
+
+/**
+ * An editor action that transforms the selected text.
+ * Actions with an `input` ask the user for a value first, which replaces {{input}} in the instruction.
+ */
+export interface AIRewriteAction {
+    id: string;
+    name: string;
+    instruction: string;
+    /** Name of the value asked from the user, e.g. "Language" */
+    input?: string;
+}
+
+/** Rewrite actions offered in the editor menu and the command palette */
+export const AI_REWRITE_ACTIONS: AIRewriteAction[] = [
+    { id: 'rewrite', name: 'Rewrite', instruction: 'Rewrite the text to make it clearer and read better, keeping its meaning.' },
+    { id: 'shorten', name: 'Shorten', instruction: 'Make the text shorter and more concise, keeping its key points.' },
+    { id: 'expand', name: 'Expand', instruction: 'Expand the text with more detail and explanation, keeping its style.' },
+    { id: 'fix-grammar', name: 'Fix grammar', instruction: 'Fix spelling, grammar and punctuation. Change nothing else.' },
+    { id: 'translate', name: 'Translate', instruction: 'Translate the text into {{input}}.', input: 'Language' },
+    { id: 'change-tone', name: 'Change tone', instruction: 'Rewrite the text in a {{input}} tone, keeping its meaning.', input: 'Tone' },
+    { id: 'custom', name: 'Custom instruction', instruction: '{{input}}', input: 'Instruction' }
+];
+
+/**
+ * Builds the messages asking the model to apply an instruction to a text.
+ */
+export function buildRewriteMessages(instruction: string, text: string): Message[] {
+    return [
+        { role: 'system', content: AI_REWRITE_SYSTEM_PROMPT },
+        { role: 'user', content: `Instruction: ${instruction}\n\nText:\n${text}` }
+    ];
+}
+
+/**
+ * Removes a code fence the model may have wrapped its answer in.
+ */
+export function cleanRewriteResponse(response: string): string {
+    const fenced = response.trim().match(/^```[\w-]*\n([\s\S]*?)\n```$/);
+    return fenced ? fenced[1] : response.trim();
+}
+
+/**
+ * Transforms the selected text with an AI rewrite action and shows the change for review.
+ * The selection is only replaced when the user accepts the change, and only if it was not
+ * edited in the meantime.
+ *
+ * @param app The Obsidian app instance.
+ * @param editor The editor holding the selection.
+ * @param plugin The plugin instance, for settings and the AI dispatcher.
+ * @param action The rewrite action to apply.
+ */
+export async function handleAIRewrite(
+    app: App,
+    editor: Editor,
+    plugin: MyPlugin,
+    action: AIRewriteAction
+) {
+    const debugMode = plugin.settings.debugMode ?? false;
+    const file = app.workspace.getActiveFile();
+    if (!file || !editor.somethingSelected()) {
+        showNotice('Select the text to rewrite first.');
+        return;
+    }
+    const from = editor.getCursor('from');
+    const to = editor.getCursor('to');
+    const original = editor.getSelection();
+
+    let instruction = action.instruction;
+    if (action.input) {
+        const values = await new PromptInputModal(app, action.name, [{ name: action.input, defaultValue: '' }]).openAndWait();
+        const value = values?.[action.input]?.trim();
+        if (!value) return;
+        instruction = instruction.replace('{{input}}', value);
+    }
+
+    const progress = new Notice(`${action.name}…`, 0);
+    let response = '';
+    try {
+        const dispatcher = plugin.aiDispatcher ?? new AIDispatcher(app.vault, plugin);
+        await dispatcher.getCompletion(buildRewriteMessages(instruction, original), {
+            temperature: plugin.settings.temperature,
+            streamCallback: (chunk: string) => {
+                response += chunk;
+            }
+        });
+    } catch (error: any) {
+        debugLog(debugMode, 'error', '[aiRewriteHandler] Rewrite failed:', error);
+        showNotice(`Error: ${error.message}`);
+        return;
+    } finally {
+        progress.hide();
+    }
+
+    const rewritten = cleanRewriteResponse(response);
+    if (!rewritten || rewritten === original) {
+        showNotice(rewritten ? 'The rewrite made no changes.' : 'No rewrite was generated.');
+        return;
+    }
+    debugLog(debugMode, 'debug', '[aiRewriteHandler] Rewrite generated', { action: action.id, length: rewritten.length });
+
+    showFileChangeSuggestionsModal(app, [{
+        file,
+        suggestionText: formatChangedLines(original, rewritten),
+        onAccept: () => {
+            if (editor.getRange(from, to) !== original) {
+                throw new Error('the selected text changed since the rewrite was requested');
+            }
+            editor.replaceRange(rewritten, from, to);
+        }
+    }]);
+}
@@ -0,0 +1,208 @@
+import { ContextBudgetItem, ContextBudgetReport, ContextSourceKind, Message, MyPluginSettings } from '../types';
+import { getProviderSettings } from './typeguards';
+
+/** Characters per token used for local estimates. */
+const CHARS_PER_TOKEN = 4;
+
+/** Sources are dropped rather than truncated when fewer tokens than this remain. */
+const MIN_TRUNCATED_TOKENS = 200;
+
+/** Characters kept free for the truncation marker. */
+const TRUNCATION_MARKER_CHARS = 400;
+
+/**
+ * Known context window sizes in tokens, keyed by model id prefix.
+ * The longest matching prefix wins.
+ */
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+    'gpt-4.1': 1047576,
+    'gpt-4o': 128000,
+    'gpt-4-turbo': 128000,
+    'gpt-4': 8192,
+    'gpt-3.5-turbo': 16385,
+    'o1': 200000,
+    'o3': 200000,
+    'o4': 200000,
+    'claude': 200000,
+    'gemini-1.5-pro': 2097152,
+    'gemini-1.5-flash': 1048576,
+    'gemini-2': 1048576,
+    'gemini': 32768
+};
+
+/**
+ * Context window used for unknown models, by provider.
+ * Ollama's default is the server's num_ctx rather than the model's maximum.
+ */
+const PROVIDER_CONTEXT_WINDOWS: Record<string, number> = {
+    openai: 128000,
+    anthropic: 200000,
+    gemini: 1048576,
+    ollama: 8192
+};
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * Estimates the number of tokens in a text from its length.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil((text?.length ?? 0) / CHARS_PER_TOKEN);
+}
+
+/**
+ * Returns the context window of a model in tokens.
+ * @param model Unified (provider:model) or bare model id
+ */
+export function getModelContextWindow(model: string): number {
+    const colonIndex = model.indexOf(':');
+    const provider = colonIndex === -1 ? '' : model.slice(0, colonIndex);
+    const modelId = colonIndex === -1 ? model : model.slice(colonIndex + 1);
+
+    const prefix = Object.keys(MODEL_CONTEXT_WINDOWS)
+        .filter(key => modelId.startsWith(key))
+        .sort((a, b) => b.length - a.length)[0];
+    if (prefix) return MODEL_CONTEXT_WINDOWS[prefix];
+    return PROVIDER_CONTEXT_WINDOWS[provider] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Returns the selected model and the number of tokens available for context.
+ * The budget is the model's window minus the reserved output tokens, capped by the configured maximum.
+ * It is Infinity when budgeting is disabled.
+ * @param settings Plugin settings
+ */
+export function getContextBudget(settings: MyPluginSettings): { model: string; budget: number } {
+    const legacyModel = getProviderSettings(settings, settings.provider)?.model;
+    const model = settings.selectedModel || (legacyModel ? `${settings.provider}:${legacyModel}` : settings.provider);
+    const config = settings.contextBudget;
+    if (!config?.enabled) {
+        return { model, budget: Number.POSITIVE_INFINITY };
+    }
+    let budget = getModelContextWindow(model) - (config.reserveOutputTokens ?? 0);
+    if (config.maxContextTokens > 0) {
+        budget = Math.min(budget, config.maxContextTokens);
+    }
+    return { model, budget: Math.max(0, budget) };
+}
+
+/**
+ * Shortens text to about `maxTokens`, cutting at a paragraph or line boundary where possible.
+ * Headings of the omitted part are listed in the marker so the model knows what was left out.
+ * @param text Text to shorten
+ * @param maxTokens Token limit, including the marker
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+    if (estimateTokens(text) <= maxTokens) return text;
+
+    const maxChars = Math.max(0, maxTokens * CHARS_PER_TOKEN - TRUNCATION_MARKER_CHARS);
+    let cut = text.lastIndexOf('\n\n', maxChars);
+    if (cut < maxChars / 2) cut = text.lastIndexOf('\n', maxChars);
+    if (cut < maxChars / 2) cut = maxChars;
+
+    // Don't leave a heading without its content at the end
+    const head = text.slice(0, cut).trimEnd();
+    const lastLineStart = head.lastIndexOf('\n') + 1;
+    if (lastLineStart > 0 && /^#{1,6}\s/.test(head.slice(lastLineStart))) {
+        cut = lastLineStart;
+    }
+
+    const omitted = text.slice(cut);
+    const headings = (omitted.match(/^#{1,6}\s+.+$/gm) || []).map(heading => heading.replace(/^#+\s+/, '').trim());
+    const sections = headings.length > 0 ? `. Omitted sections: ${headings.slice(0, 10).join(', ')}` : '';
+    return `${text.slice(0, cut).trimEnd()}\n\n[... ${estimateTokens(omitted)} tokens truncated to fit the context window${sections}]`;
+}
+
+/**
+ * Fits context sources into a token budget in priority order and records what was included.
+ *
+ * Callers offer sources from highest to lowest priority. Required sources are always included;
+ * other sources are included whole when they fit, truncated when allowed, and dropped otherwise.
+ */
+export class ContextBudgetAllocator {
+    private used = 0;
+    private items: ContextBudgetItem[] = [];
+
+    /**
+     * @param budget Tokens available for context
+     * @param model Unified model id the budget was computed for
+     */
+    constructor(private budget: number, private model: string) {}
+
+    /**
+     * Tokens still available.
+     */
+    get remaining(): number {
+        return Math.max(0, this.budget - this.used);
+    }
+
+    /**
+     * Includes a source regardless of the budget.
+     */
+    require(kind: ContextSourceKind, label: string, content: string): string {
+        const tokens = estimateTokens(content);
+        this.record(kind, label, tokens, tokens, 'included');
+        return content;
+    }
+
+    /**
+     * Includes a source if it fits, otherwise truncates or drops it.
+     * @param kind Kind of source
+     * @param label Human-readable description for the report
+     * @param content The source text
+     * @param options truncatable: whether the text may be shortened.
+     *                tokens: cost of including the source, when it differs from the estimate of `content`.
+     * @returns The text to include, or an empty string if dropped
+     */
+    fit(kind: ContextSourceKind, label: string, content: string, options: { truncatable?: boolean; tokens?: number } = {}): string {
+        const tokens = options.tokens ?? estimateTokens(content);
+        if (tokens <= this.remaining) {
+            this.record(kind, label, tokens, tokens, 'included');
+            return content;
+        }
+        if (options.truncatable && this.remaining >= MIN_TRUNCATED_TOKENS) {
+            const truncated = truncateToTokens(content, this.remaining);
+            this.record(kind, label, tokens, estimateTokens(truncated), 'truncated');
+            return truncated;
+        }
+        this.record(kind, label, tokens, 0, 'dropped');
+        return '';
+    }
+
+    /**
+     * Includes as many of the most recent messages as fit. Older messages are dropped first.
+     * @param kind Kind of source
+     * @param label Human-readable description for the report
+     * @param messages Messages in chronological order
+     * @returns The kept messages in chronological order
+     */
+    fitMessages(kind: ContextSourceKind, label: string, messages: Message[]): Message[] {
+        const costs = messages.map(message => estimateTokens(message.content));
+        const originalTokens = costs.reduce((total, cost) => total + cost, 0);
+
+        let start = messages.length;
+        let tokens = 0;
+        while (start > 0 && tokens + costs[start - 1] <= this.remaining) {
+            start--;
+            tokens += costs[start];
+        }
+
+        const kept = messages.slice(start);
+        const status = kept.length === messages.length ? 'included' : kept.length > 0 ? 'truncated' : 'dropped';
+        this.record(kind, label, originalTokens, tokens, status,
+            status === 'included' ? undefined : `kept ${kept.length} of ${messages.length} messages`);
+        return kept;
+    }
+
+    /**
+     * Returns the breakdown of everything offered so far.
+     */
+    getReport(): ContextBudgetReport {
+        return { model: this.model, budget: this.budget, used: this.used, items: [...this.items] };
+    }
+
+    private record(kind: ContextSourceKind, label: string, originalTokens: number, tokens: number, status: ContextBudgetItem['status'], detail?: string): void {
+        this.used += tokens;
+        this.items.push({ kind, label, originalTokens, tokens, status, ...(detail && { detail }) });
+    }
+}
@@ -1,14 +1,23 @@
 import { App } from 'obsidian';
-import { Message } from '../types';
+import { ContextBudgetReport, Message, MessageContentPart } from '../types';
 import MyPlugin from '../main';
 import { getSystemMessage } from './systemMessage';
-import { processContextNotes } from './noteUtils';
+import { processContextNotes, processObsidianLinks } from './noteUtils';
 import { getRecentlyOpenedFiles } from './recently-opened-files';
+import { ContextBudgetAllocator, estimateTokens, getContextBudget } from './contextBudget';
 
 /**
  * Centralized utility for building context messages for AI conversations.
  * This function constructs the system message, appends context, and optionally includes the current note content.
  * All context-building logic for the plugin should be routed through here for DRYness and maintainability.
+ *
+ * Context is fitted into the selected model's token budget. Sources are prioritized as:
+ * system prompt and latest user message (always kept), current note, context notes,
+ * notes expanded from [[links]] in the latest user message, earlier chat history, recently opened files.
+ * Lower-priority sources are truncated or dropped first; `budgetCallback` receives the breakdown.
+ * Images and PDFs linked from the latest user message are attached to it as content parts.
+ *
+ * When `chatHistory` is given, the fitted history is appended after the context messages.
  */
 export async function buildContextMessages({
     app,
@@ -16,50 +25,113 @@ export async function buildContextMessages({
     includeCurrentNote = true,
     includeContextNotes = true,
     debug = false,
-    forceNoCurrentNote = false
+    forceNoCurrentNote = false,
+    chatHistory,
+    budgetCallback
 }: {
     app: App,
     plugin: MyPlugin,
     includeCurrentNote?: boolean,
     includeContextNotes?: boolean,
     debug?: boolean,
-    forceNoCurrentNote?: boolean
+    forceNoCurrentNote?: boolean,
+    chatHistory?: Message[],
+    budgetCallback?: (report: ContextBudgetReport) => void
 }): Promise<Message[]> {
-    // Start with the system message.
-    const messages: Message[] = [
-        { role: 'system', content: getSystemMessage(plugin.settings) }
-    ];
+    const settings = plugin.settings;
+    const { model, budget } = getContextBudget(settings);
+    const allocator = new ContextBudgetAllocator(budget, model);
 
-    // Add the list of 5 recently opened files to the system message.
+    // Gather the candidate sources before allocating, so priority does not depend on read order.
     const recentlyOpenedFiles = await getRecentlyOpenedFiles(app);
-    if (recentlyOpenedFiles.length > 0) {
-        messages[0].content += `\n\nRecently Opened Files:\n${recentlyOpenedFiles.slice(0, 5).map(f => f.path).join('\n')}`;
-    }
 
-    // Optionally append context notes to the system message.
-    if (includeContextNotes && plugin.settings.enableContextNotes && plugin.settings.contextNotes) {
-        const contextContent = await processContextNotes(plugin.settings.contextNotes, app);
-        messages[0].content += `\n\nContext Notes:\n${contextContent}`;
+    let contextContent = '';
+    if (includeContextNotes && settings.enableContextNotes && settings.contextNotes) {
+        contextContent = await processContextNotes(settings.contextNotes, app);
     }
 
-    // Optionally add the content of the current note as a separate system message.
-    if (!forceNoCurrentNote && includeCurrentNote && plugin.settings.referenceCurrentNote) {
+    let currentNote: { path: string, content: string } | undefined;
+    if (!forceNoCurrentNote && includeCurrentNote && settings.referenceCurrentNote) {
         const currentFile = app.workspace.getActiveFile();
         if (currentFile) {
-            const currentNoteContent = await app.vault.cachedRead(currentFile);
+            currentNote = { path: currentFile.path, content: await app.vault.cachedRead(currentFile) };
+        }
+    }
+
+    const history = chatHistory ? [...chatHistory] : [];
+    const latestUserMessage = history.length > 0 && history[history.length - 1].role === 'user' ? history.pop() : undefined;
+    let expandedUserMessage: string | undefined;
+    // Images and PDFs linked from the latest message are sent as attachments, even when link expansion is off
+    const attachments: MessageContentPart[] = [];
+    if (latestUserMessage) {
+        const expanded = await processObsidianLinks(latestUserMessage.content, app, settings, new Set(), 0, attachments);
+        if (expanded !== latestUserMessage.content) {
+            expandedUserMessage = expanded;
+        }
+    }
+
+    // Allocate the budget in priority order.
+    const systemPrompt = allocator.require('systemPrompt', 'System prompt', getSystemMessage(settings));
+    if (latestUserMessage) {
+        allocator.require('userMessage', 'Latest message', latestUserMessage.content);
+    }
+
+    const currentNoteContent = currentNote
+        ? allocator.fit('currentNote', currentNote.path, currentNote.content, { truncatable: true })
+        : '';
+
+    const fittedContext = contextContent
+        ? allocator.fit('contextNotes', 'Context notes', contextContent, { truncatable: true })
+        : '';
+
+    let userMessageContent = latestUserMessage?.content;
+    if (latestUserMessage && expandedUserMessage) {
+        // Linked notes are inlined into the message, so they are included whole or not at all
+        const linkedTokens = estimateTokens(expandedUserMessage) - estimateTokens(latestUserMessage.content);
+        userMessageContent = allocator.fit('linkedNotes', 'Linked notes', expandedUserMessage, { tokens: linkedTokens })
+            || latestUserMessage.content;
+    }
+
+    const fittedHistory = history.length > 0 ? allocator.fitMessages('chatHistory', 'Chat history', history) : [];
+
+    // Add the list of 5 recently opened files to the system message.
+    const recentList = recentlyOpenedFiles.length > 0
+        ? allocator.fit('recentFiles', 'Recently opened files', `\n\nRecently Opened Files:\n${recentlyOpenedFiles.slice(0, 5).map(f => f.path).join('\n')}`)
+        : '';
+
+    // Assemble the messages: system prompt with recent files and context notes, then the current note.
+    const messages: Message[] = [
+        { role: 'system', content: systemPrompt + recentList + (fittedContext ? `\n\nContext Notes:\n${fittedContext}` : '') }
+    ];
+
+    if (currentNote && currentNoteContent) {
+        messages.push({
+            role: 'system',
+            content: `Here is the content of the current note (${currentNote.path}):\n\n${currentNoteContent}`
+        });
+    }
+
+    if (chatHistory) {
+        messages.push(...fittedHistory);
+        if (latestUserMessage && userMessageContent !== undefined) {
             messages.push({
-                role: 'system',
-                content: `Here is the content of the current note (${currentFile.path}):\n\n${currentNoteContent}`
+                ...latestUserMessage,
+                content: userMessageContent,
+                ...(attachments.length > 0 && { parts: [...(latestUserMessage.parts ?? []), ...attachments] })
             });
         }
     }
 
+    const report = allocator.getReport();
+    budgetCallback?.(report);
+
     // Debug logging for context building if enabled.
-    if (debug || plugin.settings.debugMode) {
+    if (debug || settings.debugMode) {
         plugin.debugLog?.('debug', '[contextBuilder] Building context messages', {
-            enableContextNotes: plugin.settings.enableContextNotes,
-            contextNotes: plugin.settings.contextNotes,
-            referenceCurrentNote: plugin.settings.referenceCurrentNote
+            enableContextNotes: settings.enableContextNotes,
+            contextNotes: settings.contextNotes,
+            referenceCurrentNote: settings.referenceCurrentNote,
+            contextBudget: report
         });
     }
 
@@ -0,0 +1,80 @@
+import { diffLines } from 'diff';
+
+/**
+ * A run of lines that is the same in both texts
+ */
+export interface UnchangedSegment {
+    type: 'unchanged';
+    text: string;
+}
+
+/**
+ * A hunk: consecutive lines removed from the first text and/or added in the second
+ */
+export interface ChangedSegment {
+    type: 'changed';
+    /** Index of the hunk among the changed segments */
+    hunk: number;
+    /** 1-based line in the first text where the hunk starts */
+    fromLine: number;
+    removed: string;
+    added: string;
+}
+
+export type DiffSegment = UnchangedSegment | ChangedSegment;
+
+/**
+ * Splits a text into lines, dropping the empty line after a trailing newline.
+ */
+export function splitLines(text: string): string[] {
+    if (text === '') return [];
+    const lines = text.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+}
+
+/**
+ * Computes the line-based differences between two texts, grouped into hunks.
+ * @param from The first text (e.g. the current file)
+ * @param to The second text (e.g. a backup)
+ * @returns Unchanged and changed segments that together cover both texts in order
+ */
+export function diffSegments(from: string, to: string): DiffSegment[] {
+    const segments: DiffSegment[] = [];
+    let line = 1;
+    let hunk = 0;
+    for (const change of diffLines(from, to)) {
+        if (!change.added && !change.removed) {
+            segments.push({ type: 'unchanged', text: change.value });
+            line += splitLines(change.value).length;
+            continue;
+        }
+        let current = segments[segments.length - 1];
+        if (current?.type !== 'changed') {
+            current = { type: 'changed', hunk: hunk++, fromLine: line, removed: '', added: '' };
+            segments.push(current);
+        }
+        if (change.removed) {
+            current.removed += change.value;
+            line += splitLines(change.value).length;
+        } else {
+            current.added += change.value;
+        }
+    }
+    return segments;
+}
+
+/**
+ * Rebuilds the first text with the selected hunks taken from the second text.
+ * Used to partially restore a version: the hunks not selected keep the first text.
+ * @param segments Segments from {@link diffSegments}
+ * @param selectedHunks Indices of the hunks to take from the second text
+ */
+export function applyHunks(segments: DiffSegment[], selectedHunks: Set<number>): string {
+    return segments
+        .map(segment => {
+            if (segment.type === 'unchanged') return segment.text;
+            return selectedHunks.has(segment.hunk) ? segment.added : segment.removed;
+        })
+        .join('');
+}
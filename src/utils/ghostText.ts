@@ -0,0 +1,60 @@
+import { GhostTextSettings, Message } from '../types';
+import { GHOST_TEXT_SYSTEM_PROMPT } from '../promptConstants';
+import { matchesPathOrFolderGlob } from './pathGlob';
+
+/** Characters before the cursor sent as context for a suggestion */
+export const GHOST_TEXT_CONTEXT_CHARS = 2000;
+
+/** Longest suggestion shown, in characters */
+const MAX_SUGGESTION_CHARS = 400;
+
+/**
+ * Checks whether ghost-text suggestions are enabled for a note.
+ * Excluded paths win over included ones; without include globs every note is included.
+ * @param path Vault-relative path of the note
+ * @param settings The ghost text settings
+ */
+export function isGhostTextEnabledFor(path: string, settings: GhostTextSettings | undefined): boolean {
+    if (!settings?.enabled) return false;
+    if (settings.excludePaths.some(glob => matchesPathOrFolderGlob(path, glob))) return false;
+    const includePaths = settings.includePaths.filter(glob => glob.trim() !== '');
+    return includePaths.length === 0 || includePaths.some(glob => matchesPathOrFolderGlob(path, glob));
+}
+
+/**
+ * Builds the messages asking the model to continue the paragraph the cursor is in.
+ * @param textBefore Text of the note before the cursor
+ * @returns The messages, or null if the cursor is not at the end of some paragraph text
+ */
+export function buildGhostTextMessages(textBefore: string): Message[] | null {
+    const paragraph = textBefore.split(/\n[ \t]*\n/).pop() ?? '';
+    if (!paragraph.trim()) return null;
+
+    const context = textBefore.slice(-GHOST_TEXT_CONTEXT_CHARS);
+    return [
+        { role: 'system', content: GHOST_TEXT_SYSTEM_PROMPT },
+        { role: 'user', content: `Continue this text from where it stops:\n\n${context}` }
+    ];
+}
+
+/**
+ * Turns a model response into the suggestion shown after the cursor.
+ * The suggestion ends at the first blank line, so it never runs past the current paragraph,
+ * and drops the existing paragraph text when the model repeats it.
+ * @param response The raw model response
+ * @param textBefore Text of the note before the cursor
+ */
+export function cleanGhostTextSuggestion(response: string, textBefore: string): string {
+    let suggestion = response.replace(/^```[\w-]*\n|\n```\s*$/g, '');
+    suggestion = suggestion.split(/\n[ \t]*\n/)[0].trimEnd();
+
+    const paragraph = (textBefore.split(/\n[ \t]*\n/).pop() ?? '').trim();
+    if (paragraph && suggestion.trimStart().startsWith(paragraph)) {
+        suggestion = suggestion.trimStart().slice(paragraph.length);
+    }
+    // Avoid a double space when the cursor already follows whitespace
+    if (/\s$/.test(textBefore)) {
+        suggestion = suggestion.replace(/^[ \t]+/, '');
+    }
+    return suggestion.slice(0, MAX_SUGGESTION_CHARS);
+}
@@ -0,0 +1,80 @@
+import { FileContentPart, ImageContentPart, Message, MessageContentPart } from '../types';
+
+/**
+ * MIME types of vault files sent to models as binary attachments, by extension.
+ * Other embeds (notes, text files) are inlined as text by link expansion instead.
+ */
+const ATTACHMENT_MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    pdf: 'application/pdf'
+};
+
+/** Largest attachment sent to a model; providers reject bigger requests. */
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Returns the MIME type of a file extension that can be attached to a message, or undefined.
+ * @param extension File extension without the dot
+ */
+export function getAttachmentMimeType(extension: string): string | undefined {
+    return ATTACHMENT_MIME_TYPES[extension.toLowerCase()];
+}
+
+/**
+ * Encodes binary data as base64.
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    // Convert in chunks; spreading a large array into fromCharCode overflows the stack
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+    }
+    return btoa(binary);
+}
+
+/**
+ * Builds the content part for an attachment.
+ * @param name File name or vault path
+ * @param mimeType MIME type of the data
+ * @param data The file contents
+ */
+export function createAttachmentPart(name: string, mimeType: string, data: ArrayBuffer): ImageContentPart | FileContentPart {
+    const base64 = arrayBufferToBase64(data);
+    return mimeType.startsWith('image/')
+        ? { type: 'image', mimeType, data: base64, name }
+        : { type: 'file', mimeType, data: base64, name };
+}
+
+/**
+ * Returns all content of a message as parts: its text followed by its attachments.
+ */
+export function getMessageParts(message: Message): MessageContentPart[] {
+    const parts: MessageContentPart[] = message.content ? [{ type: 'text', text: message.content }] : [];
+    return parts.concat(message.parts ?? []);
+}
+
+/**
+ * True if the message carries content beyond its text.
+ */
+export function hasAttachments(message: Message): boolean {
+    return !!message.parts?.some(part => part.type !== 'text');
+}
+
+/**
+ * Text standing in for a part a model cannot receive.
+ */
+export function describeContentPart(part: MessageContentPart): string {
+    switch (part.type) {
+        case 'text':
+            return part.text;
+        case 'image':
+            return `[Image attachment${part.name ? `: ${part.name}` : ''} omitted: not supported by this model]`;
+        default:
+            return `[File attachment: ${part.name} (${part.mimeType}) omitted: not supported by this model]`;
+    }
+}
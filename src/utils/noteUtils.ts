@@ -5,21 +5,25 @@
  */
 
 import { Notice, App } from 'obsidian';
-import { Message, MyPluginSettings } from '../types';
+import { Message, MessageContentPart, MyPluginSettings } from '../types';
 import { findFile, extractContentUnderHeader } from './generalUtils';
 import { isTFile } from './typeGuards';
+import { createAttachmentPart, getAttachmentMimeType, MAX_ATTACHMENT_BYTES } from './messageParts';
 
 /**
  * Process a single message content to include Obsidian note contents, recursively if enabled.
+ * When an `attachments` collector is given, linked images and PDFs are read and added to it
+ * as content parts for multimodal models; otherwise they are left as plain links.
  */
 export async function processObsidianLinks(
     content: string,
     app: App,
     settings: MyPluginSettings,
     visitedNotes: Set<string> = new Set(),
-    currentDepth: number = 0
+    currentDepth: number = 0,
+    attachments?: MessageContentPart[]
 ): Promise<string> {
-    if (!settings.enableObsidianLinks) return content;
+    if (!settings.enableObsidianLinks && !attachments) return content;
     const linkRegex = /\[\[(.*?)\]\]/g;
     let match;
     let processedContent = content;
@@ -31,7 +35,20 @@ export async function processObsidianLinks(
                 let file = findFile(app, filePath);
                 const headerMatch = filePath.match(/(.*?)#(.*)/);
                 let extractedContent = "";
-                if (file && isTFile(file)) {
+                const attachmentMimeType = file && isTFile(file) ? getAttachmentMimeType(file.extension) : undefined;
+                if (file && isTFile(file) && attachmentMimeType) {
+                    // Binary files are never inlined as text
+                    if (!attachments || visitedNotes.has(file.path)) continue;
+                    visitedNotes.add(file.path);
+                    if (file.stat.size > MAX_ATTACHMENT_BYTES) {
+                        new Notice(`Attachment too large to send: ${file.path}`);
+                        continue;
+                    }
+                    attachments.push(createAttachmentPart(file.path, attachmentMimeType, await app.vault.readBinary(file)));
+                    processedContent = processedContent.replace(match[0], `${match[0]} (attached: ${file.path})`);
+                } else if (!settings.enableObsidianLinks) {
+                    continue;
+                } else if (file && isTFile(file)) {
                     
                     if (visitedNotes.has(file.path)) {
                         extractedContent = '[Recursive link omitted: already included]';
@@ -45,7 +62,7 @@ export async function processObsidianLinks(
                         }
                         
                         if (settings.expandLinkedNotesRecursively && currentDepth < (settings.maxLinkExpansionDepth ?? 2)) {
-                            extractedContent = await processObsidianLinks(extractedContent, app, settings, visitedNotes, currentDepth + 1);
+                            extractedContent = await processObsidianLinks(extractedContent, app, settings, visitedNotes, currentDepth + 1, attachments);
                         }
                     }
                     processedContent = processedContent.replace(
@@ -129,7 +146,8 @@ export async function processMessages(messages: Message[], app: App, settings: M
         const processedContent = await processObsidianLinks(message.content, app, settings, new Set());
         processedMessages.push({
             role: message.role,
-            content: processedContent
+            content: processedContent,
+            ...(message.parts && { parts: message.parts })
         });
     }
     return processedMessages;
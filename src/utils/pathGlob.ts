@@ -0,0 +1,52 @@
+/**
+ * Converts a vault path glob into a regular expression.
+ * Supports `**` (any number of folders), `*` (anything but a slash) and `?` (one character but a slash).
+ * A glob ending in a slash matches everything inside that folder.
+ */
+function globToRegExp(glob: string): RegExp {
+    let pattern = glob.trim().replace(/^\/+/, '');
+    if (pattern.endsWith('/')) pattern += '**';
+
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            // "**/" also matches no folder at all
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Checks whether a vault path matches a glob such as "Journal/**" or "*.md".
+ * @param path Vault-relative path; a leading slash is ignored
+ * @param glob The glob to match against
+ */
+export function matchesPathGlob(path: string, glob: string): boolean {
+    return globToRegExp(glob).test(path.replace(/^\/+/, ''));
+}
+
+/**
+ * Checks whether a vault path matches a glob or lies inside a folder the glob matches,
+ * so that "Journal" covers "Journal/2024/Day.md".
+ * @param path Vault-relative path
+ * @param glob The glob or folder path to match against
+ */
+export function matchesPathOrFolderGlob(path: string, glob: string): boolean {
+    const trimmed = glob.trim().replace(/\/+$/, '');
+    if (!trimmed) return false;
+    return matchesPathGlob(path, trimmed) || matchesPathGlob(path, `${trimmed}/**`);
+}
@@ -0,0 +1,48 @@
+import { diffLines } from 'diff';
+
+/**
+ * A line-based delta turning one text into another. Each operation is applied in order:
+ * a positive number copies that many characters of the base text, a negative number
+ * skips that many characters of the base text, and a string is inserted as-is.
+ */
+export type TextDelta = Array<number | string>;
+
+/**
+ * Computes the delta that turns `base` into `target`.
+ */
+export function createTextDelta(base: string, target: string): TextDelta {
+    const delta: TextDelta = [];
+    for (const change of diffLines(base, target)) {
+        if (change.added) {
+            delta.push(change.value);
+        } else if (change.removed) {
+            delta.push(-change.value.length);
+        } else {
+            delta.push(change.value.length);
+        }
+    }
+    return delta;
+}
+
+/**
+ * Rebuilds the target text from its base and a delta made by {@link createTextDelta}.
+ * @throws Error if the delta does not fit the base text
+ */
+export function applyTextDelta(base: string, delta: TextDelta): string {
+    let result = '';
+    let position = 0;
+    for (const op of delta) {
+        if (typeof op === 'string') {
+            result += op;
+        } else if (op > 0) {
+            result += base.slice(position, position + op);
+            position += op;
+        } else {
+            position -= op;
+        }
+    }
+    if (position !== base.length) {
+        throw new Error('Text delta does not match its base');
+    }
+    return result;
+}
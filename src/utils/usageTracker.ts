@@ -0,0 +1,198 @@
+import { App } from 'obsidian';
+import { Message, ModelPricing, TokenUsage, UsageRecord, UsageSnapshot, UsageTotals } from '../types';
+import { debugLog } from './logger';
+
+/** Characters per token used when a provider reports no usage. */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Creates an empty totals bucket.
+ */
+function emptyTotals(): UsageTotals {
+    return { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0, estimatedRequests: 0 };
+}
+
+/**
+ * Creates an empty usage snapshot.
+ */
+export function emptyUsageSnapshot(): UsageSnapshot {
+    return { total: emptyTotals(), byProvider: {}, byDay: {}, bySession: {} };
+}
+
+/**
+ * Estimates token usage from character counts, for providers that report none.
+ * @param messages The messages sent to the model
+ * @param response The full response text
+ * @returns Estimated usage, flagged as estimated
+ */
+export function estimateUsage(messages: Message[], response: string): TokenUsage {
+    const inputChars = messages.reduce((total, msg) => total + (msg.content?.length ?? 0), 0);
+    return {
+        inputTokens: Math.ceil(inputChars / CHARS_PER_TOKEN),
+        outputTokens: Math.ceil(response.length / CHARS_PER_TOKEN),
+        estimated: true
+    };
+}
+
+/**
+ * Finds the price entry for a model.
+ * Tries the unified id, then the bare model id, then the longest key the model id starts with.
+ * @param model Unified (provider:model) or bare model id
+ * @param pricing Price table from settings
+ * @returns The matching price, or undefined if the model is not priced
+ */
+export function findModelPricing(model: string, pricing: Record<string, ModelPricing> = {}): ModelPricing | undefined {
+    if (pricing[model]) return pricing[model];
+
+    const colonIndex = model.indexOf(':');
+    const modelId = colonIndex === -1 ? model : model.slice(colonIndex + 1);
+    if (pricing[modelId]) return pricing[modelId];
+
+    const prefix = Object.keys(pricing)
+        .filter(key => modelId.startsWith(key))
+        .sort((a, b) => b.length - a.length)[0];
+    return prefix ? pricing[prefix] : undefined;
+}
+
+/**
+ * Calculates the cost of a request in USD.
+ * @param model Unified (provider:model) or bare model id
+ * @param usage Token usage of the request
+ * @param pricing Price table from settings
+ * @returns Cost in USD, or 0 if the model is not priced
+ */
+export function calculateCost(model: string, usage: TokenUsage, pricing?: Record<string, ModelPricing>): number {
+    const price = findModelPricing(model, pricing);
+    if (!price) return 0;
+    return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * Formats a local date as YYYY-MM-DD for the per-day buckets.
+ */
+export function formatUsageDay(timestamp: number): string {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Keeps running token and cost totals per provider, per day and per chat session.
+ * When given an app and file path, totals are persisted to a JSON file in the plugin's data folder;
+ * otherwise they are kept in memory only.
+ */
+export class UsageTracker {
+    private snapshot: UsageSnapshot = emptyUsageSnapshot();
+    private saveQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * @param app Optional Obsidian App instance used for persistence.
+     * @param usageFilePath Optional path of the JSON file storing the totals.
+     * @param debugMode Whether to log debug output.
+     */
+    constructor(
+        private app?: App,
+        private usageFilePath?: string,
+        private debugMode: boolean = false
+    ) {}
+
+    /**
+     * Loads persisted totals, if any.
+     */
+    async initialize(): Promise<void> {
+        if (!this.app || !this.usageFilePath) return;
+        try {
+            if (await this.app.vault.adapter.exists(this.usageFilePath)) {
+                const data = JSON.parse(await this.app.vault.adapter.read(this.usageFilePath));
+                this.snapshot = { ...emptyUsageSnapshot(), ...data };
+            }
+        } catch (error) {
+            debugLog(this.debugMode, 'error', '[UsageTracker] Failed to load usage stats:', error);
+            this.snapshot = emptyUsageSnapshot();
+        }
+    }
+
+    /**
+     * Adds a completed request to the running totals and persists them.
+     * @param record Usage and cost of the request
+     */
+    record(record: UsageRecord): void {
+        const buckets = [
+            this.snapshot.total,
+            this.bucket(this.snapshot.byProvider, record.provider),
+            this.bucket(this.snapshot.byDay, formatUsageDay(record.timestamp))
+        ];
+        if (record.sessionId) {
+            buckets.push(this.bucket(this.snapshot.bySession, record.sessionId));
+        }
+
+        for (const totals of buckets) {
+            totals.requests++;
+            totals.inputTokens += record.usage.inputTokens;
+            totals.outputTokens += record.usage.outputTokens;
+            totals.cost += record.cost;
+            if (record.usage.estimated) {
+                totals.estimatedRequests++;
+            }
+        }
+
+        debugLog(this.debugMode, 'debug', '[UsageTracker] Recorded usage', record);
+        this.save();
+    }
+
+    /**
+     * Returns a copy of the current totals.
+     */
+    getSnapshot(): UsageSnapshot {
+        return JSON.parse(JSON.stringify(this.snapshot));
+    }
+
+    /**
+     * Clears all totals.
+     */
+    reset(): void {
+        this.snapshot = emptyUsageSnapshot();
+        this.save();
+    }
+
+    /**
+     * Exports the totals as JSON or as CSV with one row per bucket.
+     * @param format Output format
+     */
+    export(format: 'json' | 'csv' = 'json'): string {
+        if (format === 'json') {
+            return JSON.stringify(this.snapshot, null, 2);
+        }
+        const rows = ['scope,key,requests,input_tokens,output_tokens,cost_usd,estimated_requests'];
+        const addRow = (scope: string, key: string, totals: UsageTotals) =>
+            rows.push(`${scope},${key},${totals.requests},${totals.inputTokens},${totals.outputTokens},${totals.cost.toFixed(6)},${totals.estimatedRequests}`);
+        addRow('total', 'all', this.snapshot.total);
+        Object.entries(this.snapshot.byProvider).forEach(([key, totals]) => addRow('provider', key, totals));
+        Object.entries(this.snapshot.byDay).forEach(([key, totals]) => addRow('day', key, totals));
+        Object.entries(this.snapshot.bySession).forEach(([key, totals]) => addRow('session', key, totals));
+        return rows.join('\n');
+    }
+
+    /**
+     * Returns the totals bucket for a key, creating it if needed.
+     */
+    private bucket(map: Record<string, UsageTotals>, key: string): UsageTotals {
+        if (!map[key]) {
+            map[key] = emptyTotals();
+        }
+        return map[key];
+    }
+
+    /**
+     * Writes the totals to disk. Writes are serialized so they never interleave.
+     */
+    private save(): void {
+        if (!this.app || !this.usageFilePath) return;
+        const app = this.app;
+        const path = this.usageFilePath;
+        this.saveQueue = this.saveQueue
+            .then(() => app.vault.adapter.write(path, JSON.stringify(this.snapshot, null, 2)))
+            .catch(error => debugLog(this.debugMode, 'error', '[UsageTracker] Failed to save usage stats:', error));
+    }
+}
@@ -0,0 +1,194 @@
+import { ResponseSchema, YamlAttributeGenerator, YamlExistingValuePolicy, YamlGeneratorField } from '../types';
+
+/** Hints added to the schema for types JSON schema cannot express on its own */
+const TYPE_DESCRIPTIONS: Partial<Record<YamlGeneratorField['type'], string>> = {
+    date: 'A date in YYYY-MM-DD format',
+    link: 'The name of an existing note to link to, without brackets'
+};
+
+/**
+ * Lists the fields a generator fills: its attribute first, then its further fields.
+ * @param generator The YAML attribute generator
+ */
+export function getGeneratorFields(generator: YamlAttributeGenerator): YamlGeneratorField[] {
+    return [
+        { name: generator.attributeName, type: generator.outputType ?? 'string', allowedValues: generator.allowedValues },
+        ...(generator.additionalFields ?? []).filter(field => field.name.trim() !== '')
+    ];
+}
+
+/**
+ * Whether a generator asks for schema constrained JSON rather than a plain text value,
+ * which is the case once it fills several fields or a typed attribute.
+ * @param generator The YAML attribute generator
+ */
+export function isStructuredGenerator(generator: YamlAttributeGenerator): boolean {
+    const fields = getGeneratorFields(generator);
+    return fields.length > 1 || fields[0].type !== 'string';
+}
+
+/**
+ * Builds the JSON schema of the object holding a value for every field.
+ * @param fields The fields to generate
+ * @throws If an "enum" field has no allowed values
+ */
+export function buildGeneratorSchema(fields: YamlGeneratorField[]): ResponseSchema {
+    const properties: Record<string, any> = {};
+    for (const field of fields) {
+        const description = TYPE_DESCRIPTIONS[field.type];
+        switch (field.type) {
+            case 'list':
+                properties[field.name] = { type: 'array', items: { type: 'string' } };
+                break;
+            case 'enum': {
+                const allowedValues = (field.allowedValues ?? []).filter(value => value.trim() !== '');
+                if (allowedValues.length === 0) {
+                    throw new Error(`Field "${field.name}" has no allowed values`);
+                }
+                properties[field.name] = { type: 'string', enum: allowedValues };
+                break;
+            }
+            case 'number':
+                properties[field.name] = { type: 'number' };
+                break;
+            default:
+                properties[field.name] = description ? { type: 'string', description } : { type: 'string' };
+        }
+    }
+    return {
+        name: 'yaml_fields',
+        schema: {
+            type: 'object',
+            properties,
+            required: fields.map(field => field.name),
+            additionalProperties: false
+        }
+    };
+}
+
+/**
+ * Checks a generated value against its field and converts it to the value written to the frontmatter.
+ * Links are written as `[[note]]`, dates as YYYY-MM-DD strings.
+ * @param field The field the value is for
+ * @param value The value from the model's JSON
+ * @param linkExists Checks that a link target is an existing note; links are not checked without it
+ * @returns The value to write, or undefined if the model left the field empty
+ * @throws If the value does not fit the field's type
+ */
+export function validateFieldValue(field: YamlGeneratorField, value: unknown, linkExists?: (target: string) => boolean): unknown {
+    if (value === null || value === undefined) return undefined;
+
+    switch (field.type) {
+        case 'list': {
+            const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+            if (!items || items.some(item => typeof item !== 'string' && typeof item !== 'number')) {
+                throw new Error(`"${field.name}" must be a list of strings`);
+            }
+            const list = [...new Set(items.map(item => String(item).trim()).filter(item => item !== ''))];
+            return list.length > 0 ? list : undefined;
+        }
+        case 'number': {
+            const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+            if (typeof number !== 'number' || !isFinite(number)) {
+                throw new Error(`"${field.name}" must be a number`);
+            }
+            return number;
+        }
+    }
+
+    if (typeof value !== 'string' && typeof value !== 'number') {
+        throw new Error(`"${field.name}" must be a string`);
+    }
+    const text = String(value).trim();
+    if (text === '') return undefined;
+
+    switch (field.type) {
+        case 'enum': {
+            const allowed = (field.allowedValues ?? []).find(candidate => candidate.trim().toLowerCase() === text.toLowerCase());
+            if (allowed === undefined) {
+                throw new Error(`"${field.name}" must be one of: ${(field.allowedValues ?? []).join(', ')}`);
+            }
+            return allowed.trim();
+        }
+        case 'date': {
+            const match = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/);
+            const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+            if (!match || !date || date.getUTCMonth() !== Number(match[2]) - 1 || date.getUTCDate() !== Number(match[3])) {
+                throw new Error(`"${field.name}" must be a date in YYYY-MM-DD format`);
+            }
+            return `${match[1]}-${match[2]}-${match[3]}`;
+        }
+        case 'link': {
+            const target = text.replace(/^\[\[/, '').replace(/\]\]$/, '').split('|')[0].trim();
+            if (!target || (linkExists && !linkExists(target))) {
+                throw new Error(`"${field.name}" must link to an existing note, got "${text}"`);
+            }
+            return `[[${target}]]`;
+        }
+        default:
+            return text;
+    }
+}
+
+/**
+ * Parses the model's JSON response and validates the value of every field.
+ * @param response The raw response, optionally wrapped in a code fence
+ * @param fields The fields that were requested
+ * @param linkExists Checks that a link target is an existing note
+ * @returns The values to write by field name; fields the model left empty are omitted
+ * @throws If the response is not a JSON object or any value is invalid, listing every problem
+ */
+export function parseStructuredResponse(
+    response: string,
+    fields: YamlGeneratorField[],
+    linkExists?: (target: string) => boolean
+): Record<string, unknown> {
+    const json = response.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('The response is not valid JSON');
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('The response is not a JSON object');
+    }
+
+    const values: Record<string, unknown> = {};
+    const problems: string[] = [];
+    for (const field of fields) {
+        if (!(field.name in data)) {
+            problems.push(`"${field.name}" is missing`);
+            continue;
+        }
+        try {
+            const value = validateFieldValue(field, (data as Record<string, unknown>)[field.name], linkExists);
+            if (value !== undefined) values[field.name] = value;
+        } catch (error: any) {
+            problems.push(error.message);
+        }
+    }
+    if (problems.length > 0) {
+        throw new Error(`Invalid generated values: ${problems.join('; ')}`);
+    }
+    return values;
+}
+
+/**
+ * Decides the value to write to a field that may already have one.
+ * @param policy How an existing value is handled
+ * @param current The field's current value
+ * @param generated The validated generated value
+ * @returns The value to write, or undefined to keep the current value
+ */
+export function resolveFieldValue(policy: YamlExistingValuePolicy, current: unknown, generated: unknown): unknown {
+    const isEmpty = current === undefined || current === null || current === ''
+        || (Array.isArray(current) && current.length === 0);
+    if (isEmpty || policy === 'replace') return generated;
+    if (policy === 'skip' || !Array.isArray(generated)) return undefined;
+
+    // Merge: add the new list items after the existing ones
+    const existing = Array.isArray(current) ? current : [current];
+    const added = generated.filter(item => !existing.some(existingItem => String(existingItem) === String(item)));
+    return added.length > 0 ? [...existing, ...added] : undefined;
+}
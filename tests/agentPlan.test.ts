@@ -0,0 +1,52 @@
+import { AgentPlanProgress, formatApprovedPlan, parseAgentPlan } from '../src/components/agent/AgentPlan';
+
+describe('parseAgentPlan', () => {
+    test('should read goal and steps from a fenced or bare JSON plan', () => {
+        const response = 'Here is my plan:\n```json\n' + JSON.stringify({
+            goal: 'tidy the inbox',
+            steps: [
+                { description: 'List inbox notes', files: ['Inbox/'], tools: ['file_list'] },
+                'Move notes into project folders',
+                { description: '  ', tools: ['file_move'] }
+            ]
+        }) + '\n```';
+
+        expect(parseAgentPlan(response)).toEqual({
+            goal: 'tidy the inbox',
+            steps: [
+                { description: 'List inbox notes', files: ['Inbox/'], tools: ['file_list'] },
+                { description: 'Move notes into project folders' }
+            ]
+        });
+        expect(parseAgentPlan('Which folder do you mean?')).toBeNull();
+        expect(parseAgentPlan('{"goal": "nothing", "steps": []}')).toBeNull();
+    });
+});
+
+describe('AgentPlanProgress', () => {
+    test('should follow the steps reported by the thought tool', () => {
+        const plan = {
+            goal: 'tidy the inbox',
+            steps: [{ description: 'List notes' }, { description: 'Move notes' }, { description: 'Summarize' }]
+        };
+        expect(formatApprovedPlan(plan)).toContain('2. Move notes');
+
+        const thought = (data: Record<string, any>) => ({
+            command: { action: 'thought', parameters: {} },
+            result: { success: true, data }
+        });
+        const progress = new AgentPlanProgress(plan);
+        expect(progress.toTaskProgress()).toEqual({ current: 0, total: 3, description: 'Starting plan' });
+
+        progress.update([thought({ step: 2, nextTool: 'file_move' }), { command: { action: 'file_move', parameters: {} }, result: { success: true } }]);
+        expect(progress.toTaskProgress()).toEqual({ current: 1, total: 3, description: 'Step 2: Move notes' });
+
+        // Steps never move backwards
+        progress.update([thought({ step: 1, nextTool: 'file_list' })]);
+        expect(progress.getCurrentStep()).toBe(2);
+
+        progress.update([thought({ step: 3, nextTool: 'finished', finished: true })]);
+        expect(progress.isFinished()).toBe(true);
+        expect(progress.toTaskProgress()).toEqual({ current: 3, total: 3, description: 'Plan completed' });
+    });
+});
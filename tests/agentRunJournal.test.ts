@@ -0,0 +1,122 @@
+import { TFile } from 'obsidian';
+import { AgentRunJournal } from '../src/components/agent/AgentRunJournal';
+import { FileWriteTool } from '../src/components/agent/tools/FileWriteTool';
+import { FileMoveTool } from '../src/components/agent/tools/FileMoveTool';
+import { FileDeleteTool } from '../src/components/agent/tools/FileDeleteTool';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+const JOURNAL_PATH = '.obsidian/plugins/test-plugin/agent-runs.json';
+
+/**
+ * App stub with an in-memory vault of notes and folders.
+ */
+function createApp(notes: Record<string, string>) {
+    const folders = new Set<string>();
+    const data: Record<string, string> = {};
+    // The mocked TFile takes its path in the constructor
+    const fileAt = (path: string): TFile => new (TFile as any)(path);
+    const app = {
+        notes,
+        folders,
+        vault: {
+            adapter: {
+                basePath: '/vault',
+                exists: jest.fn(async (path: string) => path in data || path in notes),
+                read: jest.fn(async (path: string) => data[path]),
+                write: jest.fn(async (path: string, content: string) => { data[path] = content; }),
+                rename: jest.fn(async (path: string, newPath: string) => {
+                    notes[newPath] = notes[path];
+                    delete notes[path];
+                })
+            },
+            getAbstractFileByPath: jest.fn((path: string) => {
+                // Like Obsidian, the vault index does not include the .trash folder
+                if (path.startsWith('.trash/')) return null;
+                if (path in notes) return fileAt(path);
+                if (folders.has(path)) return { path, children: [], isRoot: () => false };
+                return null;
+            }),
+            read: jest.fn(async (file: TFile) => notes[file.path]),
+            modify: jest.fn(async (file: TFile, content: string) => { notes[file.path] = content; }),
+            create: jest.fn(async (path: string, content: string) => { notes[path] = content; return fileAt(path); }),
+            createFolder: jest.fn(async (path: string) => { folders.add(path); }),
+            trash: jest.fn(async (file: TFile) => { delete notes[file.path]; })
+        },
+        fileManager: {
+            renameFile: jest.fn(async (file: TFile, newPath: string) => {
+                notes[newPath] = notes[file.path];
+                delete notes[file.path];
+            })
+        }
+    };
+    return app;
+}
+
+const backupManager = { shouldCreateBackup: jest.fn(async () => true), createBackup: jest.fn(async () => undefined) };
+
+/**
+ * Waits for the journal's queued writes.
+ */
+const flushWrites = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('AgentRunJournal', () => {
+    test('should undo creates, edits, moves and deletes of a run in reverse order', async () => {
+        const app = createApp({ 'a.md': 'original a', 'b.md': 'original b', 'c.md': 'original c' });
+        const journal = new AgentRunJournal(app as any);
+        const writeTool = new FileWriteTool(app as any, backupManager as any, journal);
+        const moveTool = new FileMoveTool(app as any, journal);
+        const deleteTool = new FileDeleteTool(app as any, backupManager as any, journal);
+
+        await journal.track('Reorganize notes', async () => {
+            await writeTool.execute({ path: 'new.md', content: 'created' }, {});
+            await writeTool.execute({ path: 'a.md', content: 'rewritten a' }, {});
+            // A nested run (task continuation) joins the outer one
+            await journal.track('Continuation', () => moveTool.execute({ sourcePath: 'b.md', destinationPath: 'archive/b.md' }, {}));
+            await deleteTool.execute({ path: 'c.md' }, {});
+        });
+
+        const [run] = journal.getRuns();
+        expect(journal.getRuns()).toHaveLength(1);
+        expect(run.label).toBe('Reorganize notes');
+        expect(run.operations.map(operation => operation.type)).toEqual(['create', 'edit', 'move', 'delete']);
+        expect(Object.keys(app.notes).sort()).toEqual(['a.md', 'archive/b.md', 'new.md', expect.stringMatching(/^\.trash\/c_deleted_/)].sort());
+
+        const result = await journal.undoRun();
+
+        expect(result).toEqual({ reverted: 4, failures: [] });
+        expect(app.notes).toEqual({ 'a.md': 'original a', 'b.md': 'original b', 'c.md': 'original c' });
+        expect(journal.getLastUndoableRun()).toBeUndefined();
+    });
+
+    test('should skip files changed after the run and persist the history', async () => {
+        const app = createApp({ 'a.md': 'original a', 'b.md': 'original b' });
+        const journal = new AgentRunJournal(app as any, JOURNAL_PATH);
+        const writeTool = new FileWriteTool(app as any, backupManager as any, journal);
+
+        await journal.track('Read only', async () => undefined);
+        await journal.track('Rewrite notes', async () => {
+            await writeTool.execute({ path: 'a.md', content: 'rewritten a' }, {});
+            await writeTool.execute({ path: 'b.md', content: 'rewritten b' }, {});
+        });
+        // Outside a run, changes are not journaled
+        await writeTool.execute({ path: 'c.md', content: 'manual' }, {});
+        app.notes['b.md'] = 'edited by the user';
+
+        const result = await journal.undoRun();
+
+        expect(result.reverted).toBe(1);
+        expect(result.failures.map(failure => failure.error)).toEqual(['b.md was changed after the run']);
+        expect(app.notes['a.md']).toBe('original a');
+        expect(app.notes['b.md']).toBe('edited by the user');
+
+        await flushWrites();
+        const reloaded = new AgentRunJournal(app as any, JOURNAL_PATH);
+        await reloaded.initialize();
+        expect(reloaded.getRuns().map(run => [run.label, run.operations.length, !!run.undoneAt])).toEqual([['Rewrite notes', 2, true]]);
+        await expect(reloaded.undoRun(reloaded.getRuns()[0].id)).rejects.toThrow('already been undone');
+    });
+});
@@ -0,0 +1,143 @@
+import { AgentTaskRunner, formatAgentTaskLog, parseAgentTask } from '../src/components/agent/AgentTaskRunner';
+import { AgentRunJournal } from '../src/components/agent/AgentRunJournal';
+import { ToolExecutionEngine } from '../src/services/agent/ToolExecutionEngine';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+jest.mock('../src/utils/fileUtils', () => ({
+    ensureFolderExists: jest.fn(async () => undefined)
+}));
+
+const processAgentResponse = jest.fn();
+const addPipelineStage = jest.fn();
+
+jest.mock('../src/services/agent/AgentOrchestrator', () => ({
+    AgentOrchestrator: jest.fn(() => ({ processAgentResponse, destroy: jest.fn() }))
+}));
+jest.mock('../src/services/agent/ToolExecutionEngine', () => ({
+    ToolExecutionEngine: jest.fn(() => ({ addPipelineStage }))
+}));
+jest.mock('../src/services/agent/CommandProcessor', () => ({ CommandProcessor: jest.fn() }));
+jest.mock('../src/services/agent/ToolDisplayManager', () => ({ ToolDisplayManager: jest.fn() }));
+
+describe('parseAgentTask', () => {
+    test('should read prompt, tools, model and trigger from frontmatter', () => {
+        const task = parseAgentTask('Agent Tasks/Inbox summary.md', [
+            '---',
+            'tools: file_read, file_write',
+            'model: openai:gpt-4o-mini',
+            'trigger: file-created',
+            'folder: /Inbox/',
+            '---',
+            'Summarize the new note.'
+        ].join('\n'));
+
+        expect(task).toEqual({
+            path: 'Agent Tasks/Inbox summary.md',
+            name: 'Inbox summary',
+            prompt: 'Summarize the new note.',
+            tools: ['file_read', 'file_write'],
+            model: 'openai:gpt-4o-mini',
+            trigger: { type: 'file-created', folder: 'Inbox' },
+            enabled: true
+        });
+
+        const interval = parseAgentTask('Agent Tasks/a.md', '---\nprompt: Tidy up\ntrigger: interval\ninterval: 30\nenabled: false\n---\nNotes');
+        expect(interval).toMatchObject({ prompt: 'Tidy up', trigger: { type: 'interval', minutes: 30 }, enabled: false });
+        // Incomplete triggers fall back to manual
+        expect(parseAgentTask('a.md', '---\ntrigger: interval\n---\nGo')!.trigger).toEqual({ type: 'manual' });
+        expect(parseAgentTask('a.md', '---\ntrigger: startup\n---\n')).toBeNull();
+    });
+});
+
+describe('AgentTaskRunner', () => {
+    test('should run steps until the agent finishes, restrict tools and write a log note', async () => {
+        const created: Record<string, string> = {};
+        const getCompletion = jest.fn(async (_messages: any[], options: any) => {
+            options.streamCallback(`response ${getCompletion.mock.calls.length}`);
+        });
+        const app: any = {
+            vault: {
+                on: jest.fn(),
+                getMarkdownFiles: () => [],
+                getAbstractFileByPath: (path: string) => created[path] ? {} : null,
+                create: jest.fn(async (path: string, content: string) => { created[path] = content; })
+            }
+        };
+        const plugin: any = {
+            app,
+            settings: {
+                agentTasks: { enabled: true, folder: 'Agent Tasks', logFolder: 'Logs', maxToolCallsPerHour: 50 },
+                agentMode: { enabled: true, maxToolCalls: 10, timeoutMs: 30000, maxIterations: 5 },
+                enabledTools: { file_delete: false }
+            },
+            aiDispatcher: { getCompletion },
+            agentRunJournal: new AgentRunJournal(app)
+        };
+        const readCommand = { action: 'file_read', parameters: { path: 'Inbox/a.md' } };
+        const finishCommand = { action: 'thought', parameters: { thought: 'done', nextTool: 'finished' } };
+        processAgentResponse
+            .mockImplementationOnce(async () => {
+                // A file tool records through the recorder the task runner gave its tools
+                const recorder = (ToolExecutionEngine as unknown as jest.Mock).mock.calls[0][3];
+                recorder.record({ type: 'create', path: 'Inbox/summary.md', tool: 'file_write' });
+                return { results: [{ command: readCommand, result: { success: true, data: 'text' } }], limitReached: false };
+            })
+            .mockResolvedValueOnce({ results: [{ command: finishCommand, result: { success: true, data: { nextTool: 'finished' } } }], limitReached: false });
+
+        const runner = new AgentTaskRunner(plugin);
+        const task = parseAgentTask('Agent Tasks/Summary.md', '---\ntools: [file_read]\nmodel: openai:gpt-4o\n---\nSummarize')!;
+        const run = await runner.runTask(task, 'file-created', 'Inbox/a.md');
+
+        expect(run.status).toBe('completed');
+        expect(run.reason).toBe('file-created: Inbox/a.md');
+        expect(run.steps).toHaveLength(2);
+        expect(getCompletion).toHaveBeenCalledTimes(2);
+        expect(getCompletion.mock.calls[0][1].model).toBe('openai:gpt-4o');
+        expect(getCompletion.mock.calls[0][0][1].content).toContain('Inbox/a.md');
+        // The second request carries the tool results of the first step
+        expect(getCompletion.mock.calls[1][0]).toHaveLength(4);
+        // The task's changes form their own run; the chat's active run is left alone
+        const [journalRun] = plugin.agentRunJournal.getRuns();
+        expect(journalRun).toMatchObject({ label: 'Agent task: Summary', operations: [{ type: 'create', path: 'Inbox/summary.md' }] });
+        expect(journalRun.endedAt).toBeDefined();
+        expect(plugin.agentRunJournal.getActiveRun()).toBeNull();
+
+        const logPath = Object.keys(created)[0];
+        expect(logPath).toMatch(/^Logs\/Summary \d{4}-\d{2}-\d{2} .*\.md$/);
+        expect(created[logPath]).toContain('status: completed');
+        expect(created[logPath]).toContain('- `file_read` {"path":"Inbox/a.md"} ✅');
+
+        // Only the task's tools (and thoughts) pass the allowed tools stage while it runs
+        const stage = addPipelineStage.mock.calls[0][0];
+        expect(addPipelineStage.mock.calls[0][1]).toBe('execution');
+        (runner as any).runningTask = task;
+        const check = async (action: string) => (await stage.process({ command: { action, parameters: {} }, metadata: {} })).result;
+        expect(await check('file_read')).toBeUndefined();
+        expect(await check('thought')).toBeUndefined();
+        expect((await check('file_write')).success).toBe(false);
+        (runner as any).runningTask = undefined;
+        expect((await check('file_delete')).success).toBe(false);
+
+        runner.dispose();
+    });
+
+    test('should log runs stopped by the tool call limit', () => {
+        const log = formatAgentTaskLog({
+            taskPath: 'Agent Tasks/Cleanup.md',
+            taskName: 'Cleanup',
+            reason: 'interval',
+            startedAt: 0,
+            endedAt: 2000,
+            status: 'limit-reached',
+            steps: [{ response: 'Deleting', toolCalls: [{ action: 'file_delete', parameters: { path: 'a.md' }, success: false, error: 'denied' }] }]
+        });
+        expect(log).toContain('agent-task: "[[Agent Tasks/Cleanup]]"');
+        expect(log).toContain('tool-calls: 1');
+        expect(log).toContain('❌ denied');
+        expect(log).toContain('tool call limit');
+    });
+});
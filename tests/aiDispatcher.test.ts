@@ -277,6 +277,21 @@ describe('AIDispatcher', () => {
       expect(dispatcher['metrics'].successfulRequests).toBe(1);
     });
 
+    test('should abort with the caller\'s controller and not cache the partial response', async () => {
+      (dispatcher['cache'].get as jest.Mock).mockReturnValue(undefined); // No cache hit
+      const callerController = new AbortController();
+      mockBaseProvider.getCompletion.mockImplementation(async (msgs, opts) => {
+        opts.streamCallback('Hel');
+        callerController.abort();
+        expect(opts.abortController.signal.aborted).toBe(true);
+      });
+
+      await dispatcher.getCompletion(messages, { ...options, abortController: callerController });
+
+      expect(dispatcher['pendingRequests'].set).not.toHaveBeenCalled(); // Abortable requests are not shared
+      expect(dispatcher['cache'].set).not.toHaveBeenCalled();
+    });
+
     test.skip('should handle errors during completion and record failure', async () => {
       (dispatcher['cache'].get as jest.Mock).mockReturnValue(undefined); // No cache hit
       const error = new Error('API Error');
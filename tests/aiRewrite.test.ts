@@ -0,0 +1,73 @@
+import { TFile } from 'obsidian';
+import { AI_REWRITE_ACTIONS, buildRewriteMessages, cleanRewriteResponse, handleAIRewrite } from '../src/utils/aiRewriteHandler';
+import { showFileChangeSuggestionsModal } from '../src/components/agent/tools/FileDiffTool';
+import { AI_REWRITE_SYSTEM_PROMPT } from '../src/promptConstants';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+// Keep the AI SDKs out of the test
+jest.mock('../src/utils/aiDispatcher', () => ({}));
+
+// Capture the suggestions instead of opening the modal
+jest.mock('../src/components/agent/tools/FileDiffTool', () => ({
+    ...jest.requireActual('../src/components/agent/tools/FileDiffTool'),
+    showFileChangeSuggestionsModal: jest.fn()
+}));
+
+function createEditor(content: string, from: number, to: number) {
+    const editor = {
+        content,
+        somethingSelected: () => from !== to,
+        getCursor: (which: 'from' | 'to') => ({ line: 0, ch: which === 'from' ? from : to }),
+        getSelection: () => editor.content.slice(from, to),
+        getRange: (start: any, end: any) => editor.content.slice(start.ch, end.ch),
+        replaceRange: jest.fn((text: string, start: any, end: any) => {
+            editor.content = editor.content.slice(0, start.ch) + text + editor.content.slice(end.ch);
+        })
+    };
+    return editor;
+}
+
+describe('buildRewriteMessages and cleanRewriteResponse', () => {
+    test('should send the instruction with the text and strip wrapping code fences', () => {
+        expect(buildRewriteMessages('Shorten it.', 'Some text')).toEqual([
+            { role: 'system', content: AI_REWRITE_SYSTEM_PROMPT },
+            { role: 'user', content: 'Instruction: Shorten it.\n\nText:\nSome text' }
+        ]);
+        expect(cleanRewriteResponse('```markdown\nLine one\nLine two\n```\n')).toBe('Line one\nLine two');
+        expect(cleanRewriteResponse('  Plain answer \n')).toBe('Plain answer');
+    });
+});
+
+describe('handleAIRewrite', () => {
+    test('should show the rewrite as a diff and replace the selection only when accepted unchanged', async () => {
+        const file = new (TFile as any)('Note.md');
+        const app: any = { workspace: { getActiveFile: () => file } };
+        const getCompletion = jest.fn(async (_messages: any, options: any) => {
+            options.streamCallback('Hi ');
+            options.streamCallback('there');
+        });
+        const plugin: any = { settings: { temperature: 0.5 }, saveSettings: jest.fn(), aiDispatcher: { getCompletion } };
+        const editor = createEditor('Say hello world now', 4, 15);
+        const shorten = AI_REWRITE_ACTIONS.find(action => action.id === 'shorten')!;
+
+        await handleAIRewrite(app, editor as any, plugin, shorten);
+
+        expect(getCompletion.mock.calls[0][0][1].content).toContain(shorten.instruction);
+        expect(getCompletion.mock.calls[0][0][1].content).toContain('hello world');
+        expect(editor.replaceRange).not.toHaveBeenCalled();
+
+        const [suggestion] = (showFileChangeSuggestionsModal as jest.Mock).mock.calls[0][1];
+        expect(suggestion.file).toBe(file);
+        expect(suggestion.suggestionText).toBe('-hello world\n+Hi there');
+
+        suggestion.onAccept();
+        expect(editor.content).toBe('Say Hi there now');
+
+        // A second accept no longer matches the original selection
+        expect(() => suggestion.onAccept()).toThrow('changed');
+    });
+});
@@ -0,0 +1,127 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { webcrypto } from 'crypto';
+import { TFile } from 'obsidian';
+import { BackupManager } from '../src/components/BackupManager';
+import { applyTextDelta, createTextDelta } from '../src/utils/textDelta';
+
+// jsdom does not expose the encoding and hashing APIs used by the backup store
+Object.assign(globalThis, { TextDecoder, TextEncoder });
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+
+const DATA_PATH = '.obsidian/plugins/test-plugin';
+const BLOB_FOLDER = `${DATA_PATH}/backups/blobs`;
+
+/**
+ * App stub with an in-memory vault and data adapter.
+ */
+function createApp(notes: Record<string, string> = {}, files: Record<string, string | ArrayBuffer> = {}) {
+    const adapter = {
+        files,
+        exists: jest.fn(async (path: string) => path in files || Object.keys(files).some(key => key.startsWith(`${path}/`))),
+        read: jest.fn(async (path: string) => files[path] as string),
+        write: jest.fn(async (path: string, data: string) => { files[path] = data; }),
+        readBinary: jest.fn(async (path: string) => files[path] as ArrayBuffer),
+        writeBinary: jest.fn(async (path: string, data: ArrayBuffer) => { files[path] = data; }),
+        remove: jest.fn(async (path: string) => { delete files[path]; }),
+        mkdir: jest.fn(async () => undefined),
+        rmdir: jest.fn(async (path: string) => {
+            Object.keys(files).filter(key => key.startsWith(`${path}/`)).forEach(key => delete files[key]);
+        })
+    };
+    return {
+        notes,
+        vault: {
+            adapter,
+            getAbstractFileByPath: jest.fn((path: string) => path in notes ? Object.assign(new TFile(), { path }) : null),
+            read: jest.fn(async (file: TFile) => notes[file.path]),
+            modify: jest.fn(async (file: TFile, data: string) => { notes[file.path] = data; }),
+            create: jest.fn(async (path: string, data: string) => { notes[path] = data; })
+        }
+    };
+}
+
+const blobCount = (files: Record<string, unknown>) => Object.keys(files).filter(path => path.startsWith(`${BLOB_FOLDER}/`)).length;
+
+const longNote = (edit: string) =>
+    Array.from({ length: 50 }, (_, i) => `Line ${i} of a long note that changes rarely.`).join('\n') + `\n${edit}\n`;
+
+describe('BackupManager', () => {
+    test('should round-trip text through line deltas', () => {
+        const base = 'one\ntwo\nthree\n';
+        const target = 'one\n2\nthree\nfour\n';
+        expect(applyTextDelta(base, createTextDelta(base, target))).toBe(target);
+    });
+
+    test('should store identical versions once and later versions as deltas', async () => {
+        const app = createApp();
+        const manager = new BackupManager(app as any, DATA_PATH);
+
+        await manager.createBackup('note.md', longNote('first'));
+        await manager.createBackup('note.md', longNote('second'));
+        await manager.createBackup('copy.md', longNote('first'));
+
+        expect(blobCount(app.vault.adapter.files)).toBe(2);
+        const [second, first] = await manager.getBackupsForFile('note.md');
+        const secondBlob = JSON.parse(app.vault.adapter.files[`${BLOB_FOLDER}/${second.hash}`] as string);
+        expect(secondBlob.base).toBe(first.hash);
+        expect(await manager.getBackupContent(second)).toBe(longNote('second'));
+        expect(await manager.shouldCreateBackup('note.md', longNote('second'))).toBe(false);
+
+        const result = await manager.restoreBackup(first);
+        expect(result.success).toBe(true);
+        expect(app.notes['note.md']).toBe(longNote('first'));
+    });
+
+    test('should migrate backups from the legacy backups.json', async () => {
+        const legacyBinary = new TextEncoder().encode('PNGDATA').buffer;
+        const app = createApp({}, {
+            [`${DATA_PATH}/backups.json`]: JSON.stringify({
+                backups: {
+                    'note.md': [
+                        { filePath: 'note.md', content: longNote('new'), timestamp: 2000, readableTimestamp: '', isBinary: false },
+                        { filePath: 'note.md', content: longNote('old'), timestamp: 1000, readableTimestamp: '', isBinary: false }
+                    ],
+                    'image.png': [
+                        { filePath: 'image.png', timestamp: 1500, readableTimestamp: '', isBinary: true, backupFilePath: `${DATA_PATH}/binary-backups/image_1500.png` }
+                    ]
+                }
+            }),
+            [`${DATA_PATH}/binary-backups/image_1500.png`]: legacyBinary
+        });
+        const manager = new BackupManager(app as any, DATA_PATH, () => ({ maxDays: 100000 }));
+
+        const backups = await manager.getBackupsForFile('note.md');
+
+        expect(backups.map(backup => backup.timestamp)).toEqual([2000, 1000]);
+        expect(await manager.getBackupContent(backups[0])).toBe(longNote('new'));
+        expect(await manager.getBackupContent(backups[1])).toBe(longNote('old'));
+        expect((await manager.getBackupsForFile('image.png'))[0].fileSize).toBe(7);
+        expect(app.vault.adapter.files[`${DATA_PATH}/backups.json`]).toBeUndefined();
+        expect(app.vault.adapter.files[`${DATA_PATH}/binary-backups/image_1500.png`]).toBeUndefined();
+    });
+
+    test('should enforce count and size limits, keeping newer versions readable', async () => {
+        const app = createApp();
+        const limits = { maxCount: 100, maxTotalSize: 1024 * 1024 };
+        const manager = new BackupManager(app as any, DATA_PATH, () => limits);
+        const nowSpy = jest.spyOn(Date, 'now');
+        for (let i = 0; i < 4; i++) {
+            nowSpy.mockReturnValue(1000 + i);
+            await manager.createBackup('note.md', longNote(`version ${i}`));
+        }
+        nowSpy.mockRestore();
+
+        // The remaining oldest version was a delta against a removed one
+        limits.maxCount = 2;
+        await manager.cleanupOldBackups(100000);
+        const remaining = await manager.getBackupsForFile('note.md');
+        expect(remaining.map(backup => backup.timestamp)).toEqual([1003, 1002]);
+        expect(await manager.getBackupContent(remaining[1])).toBe(longNote('version 2'));
+        expect(blobCount(app.vault.adapter.files)).toBe(2);
+
+        limits.maxTotalSize = (await manager.getTotalBackupSize()) - 1;
+        await manager.cleanupOldBackups(100000);
+        expect(await manager.getTotalBackupCount()).toBe(1);
+        expect(await manager.getBackupContent((await manager.getBackupsForFile('note.md'))[0])).toBe(longNote('version 3'));
+    });
+});
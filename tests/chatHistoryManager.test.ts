@@ -0,0 +1,78 @@
+import { ChatHistoryManager, ChatMessage } from '../src/components/chat/ChatHistoryManager';
+
+/**
+ * Vault stub keeping files in memory.
+ */
+function createVault(files: Record<string, string> = {}) {
+    return {
+        files,
+        getAbstractFileByPath: jest.fn(() => null),
+        createFolder: jest.fn(async () => undefined),
+        adapter: {
+            exists: jest.fn(async (path: string) => path in files),
+            read: jest.fn(async (path: string) => files[path]),
+            write: jest.fn(async (path: string, data: string) => { files[path] = data; }),
+            remove: jest.fn(async (path: string) => { delete files[path]; })
+        }
+    };
+}
+
+const HISTORY_PATH = '.obsidian/plugins/test-plugin/chat-history.json';
+
+function message(role: 'user' | 'assistant', content: string, parentId?: string | null): ChatMessage {
+    return { timestamp: new Date().toISOString(), sender: role, role, content, ...(parentId !== undefined && { parentId }) };
+}
+
+const contents = (messages: ChatMessage[]) => messages.map(m => m.content);
+
+describe('ChatHistoryManager branching', () => {
+    test('should read a legacy history array as a single branch', async () => {
+        const vault = createVault({ [HISTORY_PATH]: JSON.stringify([message('user', 'Hi'), message('assistant', 'Hello')]) });
+        const manager = new ChatHistoryManager(vault as any, 'test-plugin');
+
+        const history = await manager.getHistory();
+
+        expect(contents(history)).toEqual(['Hi', 'Hello']);
+        expect(history[1].parentId).toBe(history[0].id);
+        expect(history[0].parentId).toBeNull();
+    });
+
+    test('should keep regenerated responses as sibling branches', async () => {
+        const manager = new ChatHistoryManager(createVault() as any, 'test-plugin');
+        const question = await manager.addMessage(message('user', 'Question'));
+        const first = await manager.addMessage(message('assistant', 'First answer'));
+        await manager.addMessage(message('user', 'Follow-up'));
+
+        const second = await manager.addMessage(message('assistant', 'Second answer', question.id));
+
+        expect(contents(await manager.getHistory())).toEqual(['Question', 'Second answer']);
+        expect(manager.getBranchInfo(second.id!)).toEqual({ index: 1, siblingIds: [first.id, second.id] });
+
+        // Switching back restores the earlier continuation
+        expect(contents(await manager.switchBranch(first.id!))).toEqual(['Question', 'First answer', 'Follow-up']);
+        expect(contents(await manager.getAllMessages())).toHaveLength(4);
+    });
+
+    test('should branch edited messages at the root and persist the active branch', async () => {
+        const vault = createVault();
+        const manager = new ChatHistoryManager(vault as any, 'test-plugin');
+        const original = await manager.addMessage(message('user', 'Original'));
+        await manager.addMessage(message('assistant', 'Reply'));
+        const edited = await manager.addMessage(message('user', 'Edited', original.parentId));
+
+        const reloaded = new ChatHistoryManager(vault as any, 'test-plugin');
+        expect(contents(await reloaded.getHistory())).toEqual(['Edited']);
+        expect(reloaded.getBranchInfo(edited.id!)?.siblingIds).toEqual([original.id, edited.id]);
+    });
+
+    test('should move replies of a deleted message to its parent', async () => {
+        const manager = new ChatHistoryManager(createVault() as any, 'test-plugin');
+        await manager.addMessage(message('user', 'One'));
+        const two = await manager.addMessage(message('assistant', 'Two'));
+        await manager.addMessage(message('user', 'Three'));
+
+        await manager.deleteMessage(two.timestamp, 'assistant', 'Two');
+
+        expect(contents(await manager.getHistory())).toEqual(['One', 'Three']);
+    });
+});
@@ -0,0 +1,170 @@
+import { ChatSessionManager, DEFAULT_SESSION_NAME } from '../src/components/chat/ChatSessionManager';
+import { ChatHistoryManager, ChatMessage } from '../src/components/chat/ChatHistoryManager';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+/**
+ * Vault stub keeping files in memory.
+ */
+function createVault(files: Record<string, string> = {}) {
+    return {
+        files,
+        getAbstractFileByPath: jest.fn(() => null),
+        createFolder: jest.fn(async () => undefined),
+        adapter: {
+            exists: jest.fn(async (path: string) => path in files),
+            read: jest.fn(async (path: string) => files[path]),
+            write: jest.fn(async (path: string, data: string) => { files[path] = data; }),
+            remove: jest.fn(async (path: string) => { delete files[path]; })
+        }
+    };
+}
+
+function createHost(overrides: Record<string, any> = {}) {
+    return {
+        settings: {
+            selectedModel: 'openai:gpt-4o',
+            systemMessage: 'Be brief.',
+            maxSessions: 10,
+            sessions: [],
+            activeSessionId: undefined,
+            ...overrides
+        } as any,
+        saveSettings: jest.fn(async () => undefined)
+    };
+}
+
+const PLUGIN_FOLDER = '.obsidian/plugins/test-plugin';
+
+function message(role: 'user' | 'assistant', content: string): ChatMessage {
+    return { timestamp: new Date().toISOString(), sender: role, role, content };
+}
+
+describe('ChatSessionManager', () => {
+    test('should move the legacy chat history into the first session', async () => {
+        const legacy = [message('user', 'What is a zettelkasten?'), message('assistant', 'A note system.')];
+        const vault = createVault({ [`${PLUGIN_FOLDER}/chat-history.json`]: JSON.stringify(legacy) });
+        const host = createHost();
+        const manager = new ChatSessionManager(vault as any, 'test-plugin', host);
+
+        const session = await manager.initialize();
+
+        expect(host.settings.activeSessionId).toBe(session.id);
+        expect(session.name).toBe('What is a zettelkasten?');
+        expect(session.messageCount).toBe(2);
+        expect(session.model).toBe('openai:gpt-4o');
+        expect(JSON.parse(vault.files[`${PLUGIN_FOLDER}/chat-sessions/${session.id}.json`]).messages).toHaveLength(2);
+    });
+
+    test('should keep a separate history, model and system prompt per session', async () => {
+        const vault = createVault();
+        const host = createHost();
+        const manager = new ChatSessionManager(vault as any, 'test-plugin', host);
+        const first = await manager.initialize();
+        const history = new ChatHistoryManager(vault as any, 'test-plugin');
+        manager.bindHistoryManager(history, first.id);
+        await history.addMessage(message('user', 'First session question'));
+
+        host.settings.selectedModel = 'anthropic:claude-3-5-sonnet';
+        host.settings.systemMessage = 'Answer in detail.';
+        const second = await manager.createSession('Research');
+        manager.bindHistoryManager(history, second.id);
+        expect(await history.getHistory()).toEqual([]);
+
+        await manager.switchSession(first.id);
+        expect(host.settings.selectedModel).toBe('openai:gpt-4o');
+        expect(host.settings.systemMessage).toBe('Be brief.');
+        manager.bindHistoryManager(history, first.id);
+        expect((await history.getHistory()).map(m => m.content)).toEqual(['First session question']);
+        expect(manager.getSession(first.id)?.name).toBe('First session question');
+    });
+
+    test('should rename, duplicate and delete sessions', async () => {
+        const vault = createVault();
+        const host = createHost();
+        const manager = new ChatSessionManager(vault as any, 'test-plugin', host);
+        const session = await manager.initialize();
+        await manager.createHistoryManager(session.id).replaceHistory([message('user', 'hello')]);
+
+        await manager.renameSession(session.id, '  Planning  ');
+        expect(manager.getSession(session.id)?.name).toBe('Planning');
+
+        const copy = await manager.duplicateSession(session.id);
+        expect(copy.name).toBe('Planning (copy)');
+        expect(host.settings.activeSessionId).toBe(copy.id);
+        expect(await manager.createHistoryManager(copy.id).getHistory()).toHaveLength(1);
+
+        const active = await manager.deleteSession(copy.id);
+        expect(active.id).toBe(session.id);
+        expect(vault.files[`${PLUGIN_FOLDER}/chat-sessions/${copy.id}.json`]).toBeUndefined();
+
+        const replacement = await manager.deleteSession(session.id);
+        expect(replacement.name).toBe(DEFAULT_SESSION_NAME);
+        expect(manager.getSessions()).toHaveLength(1);
+    });
+
+    test('should search session names and messages', async () => {
+        const vault = createVault();
+        const host = createHost();
+        const manager = new ChatSessionManager(vault as any, 'test-plugin', host);
+        const recipes = await manager.createSession('Recipes');
+        const travel = await manager.createSession('Travel');
+        await manager.createHistoryManager(travel.id).replaceHistory([message('user', 'Best pasta in Rome?')]);
+
+        expect((await manager.searchSessions('recipes')).map(s => s.id)).toEqual([recipes.id]);
+        expect((await manager.searchSessions('PASTA')).map(s => s.id)).toEqual([travel.id]);
+        expect(await manager.searchSessions('')).toHaveLength(2);
+    });
+
+    test('should save session metadata once for a burst of messages', async () => {
+        jest.useFakeTimers();
+        try {
+            const host = createHost();
+            const manager = new ChatSessionManager(createVault() as any, 'test-plugin', host);
+            const session = await manager.createSession();
+            host.saveSettings.mockClear();
+
+            await manager.recordHistory(session.id, [message('user', 'First question')]);
+            await manager.recordHistory(session.id, [message('user', 'First question'), message('assistant', 'Answer')]);
+            expect(session).toMatchObject({ name: 'First question', messageCount: 2 });
+            expect(host.saveSettings).not.toHaveBeenCalled();
+
+            jest.runAllTimers();
+            expect(host.saveSettings).toHaveBeenCalledTimes(1);
+
+            // Pending saves are written right away on flush
+            await manager.recordHistory(session.id, []);
+            await manager.flush();
+            expect(host.saveSettings).toHaveBeenCalledTimes(2);
+            jest.runAllTimers();
+            expect(host.saveSettings).toHaveBeenCalledTimes(2);
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    test('should prune the least recently updated sessions beyond maxSessions', async () => {
+        const vault = createVault();
+        const host = createHost({ maxSessions: 2 });
+        const manager = new ChatSessionManager(vault as any, 'test-plugin', host);
+        const nowSpy = jest.spyOn(Date, 'now');
+
+        nowSpy.mockReturnValue(1000);
+        const oldest = await manager.createSession('Oldest');
+        nowSpy.mockReturnValue(2000);
+        const middle = await manager.createSession('Middle');
+        await manager.switchSession(oldest.id);
+        nowSpy.mockReturnValue(3000);
+        await manager.createHistoryManager(middle.id).replaceHistory([message('user', 'keep me')]);
+        await manager.recordHistory(middle.id, [message('user', 'keep me')]);
+        nowSpy.mockReturnValue(4000);
+        const newest = await manager.createSession('Newest');
+        nowSpy.mockRestore();
+
+        expect(manager.getSessions().map(s => s.id)).toEqual([newest.id, middle.id]);
+        expect(manager.getSession(oldest.id)).toBeUndefined();
+    });
+});
@@ -0,0 +1,60 @@
+import { ContextBudgetAllocator, estimateTokens, getContextBudget, getModelContextWindow, truncateToTokens } from '../src/utils/contextBudget';
+import { DEFAULT_SETTINGS } from '../src/types';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+describe('context windows', () => {
+    test('should match the longest model prefix and fall back to the provider', () => {
+        expect(getModelContextWindow('openai:gpt-4o-mini')).toBe(128000);
+        expect(getModelContextWindow('openai:gpt-4')).toBe(8192);
+        expect(getModelContextWindow('anthropic:claude-3-5-sonnet-20241022')).toBe(200000);
+        expect(getModelContextWindow('ollama:llama3:8b')).toBe(8192);
+    });
+
+    test('should subtract reserved output tokens and apply the configured cap', () => {
+        const settings = { ...DEFAULT_SETTINGS, selectedModel: 'openai:gpt-4o' };
+        expect(getContextBudget({ ...settings, contextBudget: { enabled: true, reserveOutputTokens: 4000, maxContextTokens: 0 } }).budget).toBe(124000);
+        expect(getContextBudget({ ...settings, contextBudget: { enabled: true, reserveOutputTokens: 4000, maxContextTokens: 10000 } }).budget).toBe(10000);
+        expect(getContextBudget({ ...settings, contextBudget: { enabled: false, reserveOutputTokens: 4000, maxContextTokens: 0 } }).budget).toBe(Infinity);
+    });
+});
+
+describe('truncateToTokens', () => {
+    test('should cut at a paragraph boundary and list omitted headings', () => {
+        const text = `# Intro\n\n${'a'.repeat(2000)}\n\n# Details\n\n${'b'.repeat(4000)}`;
+        const truncated = truncateToTokens(text, 700);
+        expect(estimateTokens(truncated)).toBeLessThanOrEqual(700);
+        expect(truncated).toContain('# Intro');
+        expect(truncated).not.toContain('bbb');
+        expect(truncated).toMatch(/tokens truncated to fit the context window\. Omitted sections: Details\]$/);
+    });
+});
+
+describe('ContextBudgetAllocator', () => {
+    test('should include sources in priority order, truncating and dropping as the budget runs out', () => {
+        const allocator = new ContextBudgetAllocator(1000, 'openai:gpt-4o');
+        allocator.require('systemPrompt', 'System prompt', 'x'.repeat(400));
+        expect(allocator.fit('currentNote', 'note.md', 'y'.repeat(2000), { truncatable: true })).toBe('y'.repeat(2000));
+        const context = allocator.fit('contextNotes', 'Context notes', 'z'.repeat(4000), { truncatable: true });
+        expect(context.length).toBeLessThan(4000);
+        expect(allocator.fit('recentFiles', 'Recently opened files', 'r'.repeat(1000))).toBe('');
+
+        const report = allocator.getReport();
+        expect(report.items.map(item => item.status)).toEqual(['included', 'included', 'truncated', 'dropped']);
+        expect(report.used).toBeLessThanOrEqual(1000);
+    });
+
+    test('should keep the most recent messages that fit', () => {
+        const allocator = new ContextBudgetAllocator(250, 'ollama:llama3');
+        const messages = [
+            { role: 'user' as const, content: 'a'.repeat(400) },
+            { role: 'assistant' as const, content: 'b'.repeat(400) },
+            { role: 'user' as const, content: 'c'.repeat(400) }
+        ];
+        expect(allocator.fitMessages('chatHistory', 'Chat history', messages)).toEqual(messages.slice(1));
+        expect(allocator.getReport().items[0]).toMatchObject({ status: 'truncated', tokens: 200, originalTokens: 300, detail: 'kept 2 of 3 messages' });
+    });
+});
@@ -0,0 +1,25 @@
+import { applyHunks, diffSegments } from '../src/utils/diffHunks';
+
+const current = 'title\nkeep one\nchanged later\nkeep two\nnew line\n';
+const backup = 'title\nkeep one\noriginal line\nkeep two\n';
+
+describe('diffHunks', () => {
+    test('should group removed and added lines into numbered hunks', () => {
+        const segments = diffSegments(current, backup);
+        const hunks = segments.filter(segment => segment.type === 'changed');
+
+        expect(hunks).toEqual([
+            { type: 'changed', hunk: 0, fromLine: 3, removed: 'changed later\n', added: 'original line\n' },
+            { type: 'changed', hunk: 1, fromLine: 5, removed: 'new line\n', added: '' }
+        ]);
+    });
+
+    test('should restore only the selected hunks', () => {
+        const segments = diffSegments(current, backup);
+
+        expect(applyHunks(segments, new Set())).toBe(current);
+        expect(applyHunks(segments, new Set([0, 1]))).toBe(backup);
+        expect(applyHunks(segments, new Set([0]))).toBe('title\nkeep one\noriginal line\nkeep two\nnew line\n');
+        expect(applyHunks(segments, new Set([1]))).toBe('title\nkeep one\nchanged later\nkeep two\n');
+    });
+});
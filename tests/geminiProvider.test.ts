@@ -0,0 +1,96 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { GeminiProvider } from '../providers/gemini';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+// jsdom does not expose the encoding APIs used for stream decoding
+Object.assign(globalThis, { TextDecoder, TextEncoder });
+
+/**
+ * Builds a fetch response whose body yields the given string chunks.
+ */
+function streamResponse(chunks: string[], onRead?: (index: number) => void) {
+    const encoder = new TextEncoder();
+    let index = 0;
+    const cancel = jest.fn();
+    return {
+        ok: true,
+        status: 200,
+        cancel,
+        body: {
+            getReader: () => ({
+                read: async () => {
+                    onRead?.(index);
+                    return index < chunks.length
+                        ? { done: false, value: encoder.encode(chunks[index++]) }
+                        : { done: true, value: undefined };
+                },
+                cancel
+            })
+        }
+    };
+}
+
+const sse = (text: string, finishReason?: string) =>
+    `data: ${JSON.stringify({ candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason, index: 0 }] })}\r\n\r\n`;
+
+describe('GeminiProvider streaming', () => {
+    let fetchMock: jest.Mock;
+
+    beforeEach(() => {
+        fetchMock = jest.fn();
+        (globalThis as any).fetch = fetchMock;
+    });
+
+    test('should call streamGenerateContent with SSE and emit incremental chunks', async () => {
+        const event = sse('world');
+        fetchMock.mockResolvedValue(streamResponse([
+            sse('Hello '),
+            event.slice(0, 20),
+            event.slice(20),
+            sse('!', 'STOP')
+        ]));
+
+        const provider = new GeminiProvider('key', 'gemini-2.0-flash');
+        const chunks: string[] = [];
+        await provider.getCompletion([{ role: 'user', content: 'Hi' }], {
+            streamCallback: chunk => chunks.push(chunk)
+        });
+
+        expect(chunks).toEqual(['Hello ', 'world', '!']);
+        expect(fetchMock.mock.calls[0][0]).toBe(
+            'https://generativelanguage.googleapis.com/v1/models/gemini-2.0-flash:streamGenerateContent?alt=sse&key=key'
+        );
+    });
+
+    test('should stop reading once the abort controller fires', async () => {
+        const abortController = new AbortController();
+        const response = streamResponse([sse('one'), sse('two'), sse('three')], index => {
+            if (index === 1) abortController.abort();
+        });
+        fetchMock.mockResolvedValue(response);
+
+        const provider = new GeminiProvider('key', 'gemini-2.0-flash');
+        const chunks: string[] = [];
+        await provider.getCompletion([{ role: 'user', content: 'Hi' }], {
+            abortController,
+            streamCallback: chunk => chunks.push(chunk)
+        });
+
+        expect(chunks).toEqual(['one', 'two']);
+        expect(response.cancel).toHaveBeenCalled();
+    });
+
+    test('should reject when the prompt is blocked', async () => {
+        fetchMock.mockResolvedValue(streamResponse([
+            `data: ${JSON.stringify({ promptFeedback: { blockReason: 'SAFETY', safetyRatings: [] } })}\n\n`
+        ]));
+
+        const provider = new GeminiProvider('key', 'gemini-2.0-flash');
+        await expect(provider.getCompletion([{ role: 'user', content: 'Hi' }], {}))
+            .rejects.toThrow('SAFETY');
+    });
+});
@@ -0,0 +1,43 @@
+import { buildGhostTextMessages, cleanGhostTextSuggestion, GHOST_TEXT_CONTEXT_CHARS, isGhostTextEnabledFor } from '../src/utils/ghostText';
+import { GHOST_TEXT_SYSTEM_PROMPT } from '../src/promptConstants';
+
+describe('isGhostTextEnabledFor', () => {
+    test('should apply the enabled flag and the include and exclude folders', () => {
+        const settings = { enabled: true, model: '', delayMs: 800, includePaths: [], excludePaths: ['Journal'] };
+
+        expect(isGhostTextEnabledFor('Notes/Idea.md', settings)).toBe(true);
+        expect(isGhostTextEnabledFor('Journal/2024/Day.md', settings)).toBe(false);
+        expect(isGhostTextEnabledFor('Notes/Idea.md', { ...settings, enabled: false })).toBe(false);
+        expect(isGhostTextEnabledFor('Notes/Idea.md', undefined)).toBe(false);
+
+        const drafts = { ...settings, includePaths: ['Drafts', 'Blog/*.md'] };
+        expect(isGhostTextEnabledFor('Drafts/Post.md', drafts)).toBe(true);
+        expect(isGhostTextEnabledFor('Blog/Post.md', drafts)).toBe(true);
+        expect(isGhostTextEnabledFor('Blog/Old/Post.md', drafts)).toBe(false);
+        expect(isGhostTextEnabledFor('Notes/Idea.md', drafts)).toBe(false);
+    });
+});
+
+describe('buildGhostTextMessages', () => {
+    test('should send the recent text and skip an empty paragraph', () => {
+        const messages = buildGhostTextMessages('# Title\n\nThe plan is to');
+        expect(messages?.[0]).toEqual({ role: 'system', content: GHOST_TEXT_SYSTEM_PROMPT });
+        expect(messages?.[1].content).toMatch(/# Title\n\nThe plan is to$/);
+
+        expect(buildGhostTextMessages('First paragraph.\n\n')).toBeNull();
+        expect(buildGhostTextMessages('')).toBeNull();
+
+        const long = 'word '.repeat(1000);
+        expect(buildGhostTextMessages(long)![1].content.length).toBeLessThan(GHOST_TEXT_CONTEXT_CHARS + 100);
+    });
+});
+
+describe('cleanGhostTextSuggestion', () => {
+    test('should keep the suggestion within the paragraph and drop repeated text', () => {
+        expect(cleanGhostTextSuggestion(' ship it on Friday.\n\nNext steps:', 'The plan is to')).toBe(' ship it on Friday.');
+        expect(cleanGhostTextSuggestion('The plan is to ship it.', 'Intro\n\nThe plan is to')).toBe(' ship it.');
+        expect(cleanGhostTextSuggestion(' ship it.', 'The plan is to ')).toBe('ship it.');
+        expect(cleanGhostTextSuggestion('```\nship it.\n```', 'The plan is to ')).toBe('ship it.');
+        expect(cleanGhostTextSuggestion('\n\nUnrelated', 'The plan is to')).toBe('');
+    });
+});
@@ -0,0 +1,106 @@
+import { TFile } from 'obsidian';
+import { GetBacklinksTool } from '../src/components/agent/tools/GetBacklinksTool';
+import { GetOutgoingLinksTool } from '../src/components/agent/tools/GetOutgoingLinksTool';
+import { FindOrphansTool } from '../src/components/agent/tools/FindOrphansTool';
+import { FindUnresolvedLinksTool } from '../src/components/agent/tools/FindUnresolvedLinksTool';
+import { setVaultAccessProvider } from '../src/components/agent/tools/pathValidation';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+/**
+ * Creates an app with a small vault and the link graph Obsidian would have for it.
+ */
+function createApp() {
+    const paths = ['Index.md', 'Projects/Plan.md', 'Projects/Ideas.md', 'Projects/Old.md', 'Private/Diary.md', 'Loose.md', 'Images/diagram.png', 'Images/unused.png'];
+    const files = paths.map(path => {
+        const file = new (TFile as any)(path);
+        file.extension = path.split('.').pop();
+        return file;
+    });
+    const app: any = {
+        vault: {
+            adapter: { basePath: '/test/vault' },
+            getAbstractFileByPath: (path: string) => files.find(file => file.path === path) ?? null,
+            getFiles: () => files,
+            getMarkdownFiles: () => files.filter(file => file.extension === 'md')
+        },
+        metadataCache: {
+            resolvedLinks: {
+                'Index.md': { 'Projects/Plan.md': 2, 'Projects/Ideas.md': 1 },
+                'Projects/Plan.md': { 'Projects/Ideas.md': 1, 'Images/diagram.png': 1, 'Private/Diary.md': 1 },
+                'Projects/Old.md': { 'Projects/Old.md': 1 },
+                'Private/Diary.md': { 'Projects/Plan.md': 1 },
+                'Loose.md': {}
+            },
+            unresolvedLinks: {
+                'Index.md': { 'Someday': 1 },
+                'Projects/Plan.md': { 'Someday': 2, 'Budget': 1 },
+                'Private/Diary.md': { 'Secret': 1 },
+                'Loose.md': {}
+            }
+        }
+    };
+    return app;
+}
+
+describe('Link graph tools', () => {
+    beforeEach(() => setVaultAccessProvider(() => ({ includePaths: [], excludePaths: ['Private'], readOnlyPaths: [] })));
+    afterEach(() => setVaultAccessProvider(() => undefined));
+
+    test('should list backlinks and outgoing links, leaving out hidden notes', async () => {
+        const app = createApp();
+
+        const backlinks = await new GetBacklinksTool(app).execute({ path: 'Projects/Plan.md' }, {});
+        expect(backlinks).toEqual({
+            success: true,
+            data: { filePath: 'Projects/Plan.md', backlinks: [{ path: 'Index.md', count: 2 }], count: 1 }
+        });
+
+        const outgoing = await new GetOutgoingLinksTool(app).execute({ path: 'Projects/Plan.md' }, {});
+        expect(outgoing.data).toEqual({
+            filePath: 'Projects/Plan.md',
+            links: [{ path: 'Projects/Ideas.md', count: 1 }, { path: 'Images/diagram.png', count: 1 }],
+            unresolved: [{ link: 'Someday', count: 2 }, { link: 'Budget', count: 1 }],
+            count: 4
+        });
+
+        expect((await new GetBacklinksTool(app).execute({ path: 'Private/Diary.md' }, {})).success).toBe(false);
+    });
+
+    test('should find orphans, isolated notes and unused attachments', async () => {
+        const app = createApp();
+        const tool = new FindOrphansTool(app);
+
+        expect((await tool.execute({}, {})).data).toEqual({
+            path: '', orphans: ['Index.md', 'Loose.md', 'Projects/Old.md'], count: 3, truncated: false
+        });
+        expect((await tool.execute({ noOutgoingLinks: true }, {})).data.orphans).toEqual(['Loose.md']);
+        expect((await tool.execute({ path: 'Projects', maxResults: 1 }, {})).data).toEqual({
+            path: 'Projects', orphans: ['Projects/Old.md'], count: 1, truncated: false
+        });
+        expect((await tool.execute({ includeAttachments: true }, {})).data.orphans).toContain('Images/unused.png');
+    });
+
+    test('should group unresolved links by target', async () => {
+        const app = createApp();
+        const tool = new FindUnresolvedLinksTool(app);
+
+        expect((await tool.execute({}, {})).data).toEqual({
+            path: '',
+            links: [
+                { link: 'Someday', count: 3, sources: ['Index.md', 'Projects/Plan.md'] },
+                { link: 'Budget', count: 1, sources: ['Projects/Plan.md'] }
+            ],
+            count: 2,
+            truncated: false
+        });
+        expect((await tool.execute({ path: 'Projects', maxResults: 1 }, {})).data).toMatchObject({
+            links: [{ link: 'Someday', count: 2, sources: ['Projects/Plan.md'] }],
+            count: 2,
+            truncated: true
+        });
+    });
+});
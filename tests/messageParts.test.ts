@@ -0,0 +1,102 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { OpenAIProvider } from '../providers/openai';
+import { AnthropicProvider } from '../providers/anthropic';
+import { GeminiProvider } from '../providers/gemini';
+import { OllamaProvider } from '../providers/ollama';
+import { Message } from '../src/types';
+import { createAttachmentPart, getAttachmentMimeType, getMessageParts } from '../src/utils/messageParts';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+// Capture the request parameters sent through the Anthropic SDK
+const anthropicCreate = jest.fn(async () => ({ [Symbol.asyncIterator]: async function* () {} }));
+jest.mock('@anthropic-ai/sdk', () => jest.fn(() => ({ messages: { create: anthropicCreate } })));
+
+// jsdom does not expose the encoding APIs used for stream decoding
+Object.assign(globalThis, { TextDecoder, TextEncoder });
+
+/**
+ * A fetch response with an empty body.
+ */
+const emptyResponse = () => ({
+    ok: true,
+    status: 200,
+    body: { getReader: () => ({ read: async () => ({ done: true, value: undefined }) }) }
+});
+
+const PNG_DATA = 'iVBORw0KGgo=';
+const PDF_DATA = 'JVBERi0xLjQ=';
+
+const attachedMessage: Message = {
+    role: 'user',
+    content: 'Describe ![[chart.png]]',
+    parts: [
+        { type: 'image', mimeType: 'image/png', data: PNG_DATA, name: 'chart.png' },
+        { type: 'file', mimeType: 'application/pdf', data: PDF_DATA, name: 'report.pdf' }
+    ]
+};
+
+describe('Message content parts', () => {
+    let fetchMock: jest.Mock;
+
+    beforeEach(() => {
+        fetchMock = jest.fn().mockResolvedValue(emptyResponse());
+        (globalThis as any).fetch = fetchMock;
+    });
+
+    test('should build base64 attachment parts for images and PDFs only', () => {
+        const bytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer;
+
+        expect(getAttachmentMimeType('JPG')).toBe('image/jpeg');
+        expect(getAttachmentMimeType('md')).toBeUndefined();
+        expect(createAttachmentPart('a.png', 'image/png', bytes)).toEqual({ type: 'image', mimeType: 'image/png', data: 'iVBORw==', name: 'a.png' });
+        expect(createAttachmentPart('b.pdf', 'application/pdf', bytes).type).toBe('file');
+        expect(getMessageParts(attachedMessage).map(part => part.type)).toEqual(['text', 'image', 'file']);
+    });
+
+    test('should send OpenAI content arrays with data URLs', async () => {
+        await new OpenAIProvider('key', 'gpt-4o').getCompletion([{ role: 'system', content: 'Be brief.' }, attachedMessage], {});
+
+        const { messages } = JSON.parse(fetchMock.mock.calls[0][1].body);
+        expect(messages[0]).toEqual({ role: 'system', content: 'Be brief.' });
+        expect(messages[1].content).toEqual([
+            { type: 'text', text: 'Describe ![[chart.png]]' },
+            { type: 'image_url', image_url: { url: `data:image/png;base64,${PNG_DATA}` } },
+            { type: 'file', file: { filename: 'report.pdf', file_data: `data:application/pdf;base64,${PDF_DATA}` } }
+        ]);
+    });
+
+    test('should send Anthropic image and document blocks', async () => {
+        await new AnthropicProvider('key', 'claude-3-5-sonnet-20241022').getCompletion([attachedMessage], {});
+
+        const [params] = anthropicCreate.mock.calls[0] as any[];
+        expect(params.messages[0].content).toEqual([
+            { type: 'text', text: 'Describe ![[chart.png]]' },
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: PNG_DATA } },
+            { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: PDF_DATA } }
+        ]);
+    });
+
+    test('should send Gemini inlineData parts', async () => {
+        await new GeminiProvider('key', 'gemini-2.0-flash').getCompletion([attachedMessage], {});
+
+        const { contents } = JSON.parse(fetchMock.mock.calls[0][1].body);
+        expect(contents[0].parts).toEqual([
+            { text: 'Describe ![[chart.png]]' },
+            { inlineData: { mimeType: 'image/png', data: PNG_DATA } },
+            { inlineData: { mimeType: 'application/pdf', data: PDF_DATA } }
+        ]);
+    });
+
+    test('should send Ollama images and describe unsupported files in the text', async () => {
+        await new OllamaProvider('http://localhost:11434', 'llava').getCompletion([attachedMessage], {});
+
+        const { messages } = JSON.parse(fetchMock.mock.calls[0][1].body);
+        expect(messages[0].images).toEqual([PNG_DATA]);
+        expect(messages[0].content).toContain('Describe ![[chart.png]]');
+        expect(messages[0].content).toContain('report.pdf (application/pdf) omitted');
+    });
+});
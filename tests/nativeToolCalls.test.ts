@@ -0,0 +1,118 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { CommandParser } from '../src/components/agent/CommandParser';
+import { NativeToolCapture } from '../src/components/agent/NativeToolCapture';
+import { getToolDefinitions } from '../src/components/agent/tools/toolcollect';
+import { OpenAIProvider } from '../providers/openai';
+import { AGENT_SYSTEM_PROMPT_TEMPLATE, buildAgentSystemPrompt } from '../src/promptConstants';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+// jsdom does not expose the encoding APIs used for stream decoding
+Object.assign(globalThis, { TextDecoder, TextEncoder });
+
+/**
+ * Builds a fetch response whose body yields the given string chunks.
+ */
+function streamResponse(chunks: string[]) {
+    const encoder = new TextEncoder();
+    let index = 0;
+    return {
+        ok: true,
+        status: 200,
+        body: {
+            getReader: () => ({
+                read: async () => index < chunks.length
+                    ? { done: false, value: encoder.encode(chunks[index++]) }
+                    : { done: true, value: undefined }
+            })
+        }
+    };
+}
+
+const toolCallDelta = (toolCall: Record<string, any>) =>
+    `data: ${JSON.stringify({ choices: [{ delta: { tool_calls: [toolCall] } }] })}\n\n`;
+
+describe('Native tool calls', () => {
+    describe('getToolDefinitions', () => {
+        test('should convert tool metadata into JSON schemas and respect enabled tools', () => {
+            const definitions = getToolDefinitions({ file_read: false });
+            const names = definitions.map(definition => definition.name);
+
+            expect(names).toContain('thought');
+            expect(names).not.toContain('file_read');
+
+            const thought = definitions.find(definition => definition.name === 'thought')!;
+            expect(thought.parameters.type).toBe('object');
+            expect(thought.parameters.required).toContain('thought');
+        });
+    });
+
+    describe('CommandParser.parseNativeToolCalls', () => {
+        test('should convert valid calls and drop unknown tools', () => {
+            const parser = new CommandParser();
+            const commands = parser.parseNativeToolCalls([
+                { id: 'call_1', name: 'thought', arguments: { thought: 'Done', nextTool: 'finished' } },
+                { id: 'call_2', name: 'not_a_tool', arguments: {} }
+            ]);
+
+            expect(commands).toHaveLength(1);
+            expect(commands[0]).toMatchObject({ action: 'thought', requestId: 'call_1', finished: true });
+        });
+    });
+
+    describe('NativeToolCapture', () => {
+        test('should report no commands until the provider calls back', () => {
+            const capture = new NativeToolCapture(new CommandParser(), []);
+            expect(capture.getCommands()).toBeUndefined();
+            expect(capture.appendToResponse('text')).toBe('text');
+
+            capture.getCompletionOptions().toolCallCallback!([
+                { id: 'call_1', name: 'thought', arguments: { thought: 'Hi', nextTool: 'finished' } }
+            ]);
+
+            const commands = capture.getCommands()!;
+            expect(commands).toHaveLength(1);
+            expect(capture.appendToResponse('Thinking')).toBe(`Thinking\n\n${CommandParser.formatCommand(commands[0])}`);
+        });
+    });
+
+    describe('buildAgentSystemPrompt', () => {
+        test('should ask for native tool calls only with the native transport, also in saved custom prompts', () => {
+            const jsonFormat = 'Respond with consecutive JSON objects';
+            expect(buildAgentSystemPrompt(undefined, undefined, undefined, 'text')).toContain(jsonFormat);
+
+            for (const template of [undefined, AGENT_SYSTEM_PROMPT_TEMPLATE]) {
+                const prompt = buildAgentSystemPrompt(undefined, template, undefined, 'native');
+                expect(prompt).toContain('tool-calling interface');
+                expect(prompt).not.toContain(jsonFormat);
+            }
+        });
+    });
+
+    describe('OpenAIProvider', () => {
+        test('should send tools and assemble streamed tool call fragments', async () => {
+            const fetchMock = jest.fn().mockResolvedValue(streamResponse([
+                toolCallDelta({ index: 0, id: 'call_1', function: { name: 'thought', arguments: '{"thought":' } }),
+                toolCallDelta({ index: 0, function: { arguments: '"Hi"}' } }),
+                'data: [DONE]\n\n'
+            ]));
+            (globalThis as any).fetch = fetchMock;
+
+            const toolCallCallback = jest.fn();
+            const provider = new OpenAIProvider('key', 'gpt-4o');
+            await provider.getCompletion([{ role: 'user', content: 'Hi' }], {
+                tools: [{ name: 'thought', description: 'Think', parameters: { type: 'object', properties: {}, required: [] } }],
+                toolCallCallback
+            });
+
+            const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+            expect(body.tools[0]).toMatchObject({ type: 'function', function: { name: 'thought' } });
+            expect(toolCallCallback).toHaveBeenCalledWith([
+                { id: 'call_1', name: 'thought', arguments: { thought: 'Hi' } }
+            ]);
+        });
+    });
+});
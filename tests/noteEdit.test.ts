@@ -0,0 +1,90 @@
+import { TFile } from 'obsidian';
+import { applyNoteEdit, NoteEditTool } from '../src/components/agent/tools/NoteEditTool';
+import { setVaultAccessProvider } from '../src/components/agent/tools/pathValidation';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+const NOTE = [
+    '---',
+    'status: draft',
+    '---',
+    '# Projects',
+    'Intro',
+    '## Ideas',
+    '- first idea',
+    '  - detail',
+    '- second idea',
+    '',
+    '## Done',
+    'A finished paragraph',
+    'that ends here ^summary',
+    ''
+].join('\n');
+
+describe('applyNoteEdit', () => {
+    test('should edit sections under a heading path', () => {
+        expect(applyNoteEdit(NOTE, 'append', { heading: 'Projects#Ideas' }, '- third idea'))
+            .toContain('- second idea\n- third idea\n\n## Done');
+        expect(applyNoteEdit(NOTE, 'prepend', { heading: 'ideas' }, 'Some ideas:'))
+            .toContain('## Ideas\nSome ideas:\n- first idea');
+        expect(applyNoteEdit(NOTE, 'replace', { heading: 'Projects#Ideas' }, '- only idea'))
+            .toContain('## Ideas\n- only idea\n\n## Done');
+        expect(applyNoteEdit(NOTE, 'insert_after', { heading: 'Ideas' }, '## Later\n'))
+            .toContain('- second idea\n\n## Later\n## Done');
+        expect(() => applyNoteEdit(NOTE, 'append', { heading: 'Projects#Missing' }, 'x')).toThrow('Heading not found: Missing');
+    });
+
+    test('should edit blocks, list items, line ranges and the whole note', () => {
+        expect(applyNoteEdit(NOTE, 'replace', { block: '^summary' }, 'A new summary'))
+            .toContain('## Done\nA new summary ^summary\n');
+        expect(applyNoteEdit(NOTE, 'insert_before', { block: 'summary' }, 'Before'))
+            .toContain('## Done\nBefore\nA finished paragraph');
+        expect(applyNoteEdit(NOTE, 'insert_after', { listItem: 'first' }, '- between'))
+            .toContain('  - detail\n- between\n- second idea');
+        expect(applyNoteEdit(NOTE, 'replace', { startLine: 12, endLine: 13 }, 'Replaced'))
+            .toContain('## Done\nReplaced\n');
+        expect(applyNoteEdit(NOTE, 'prepend', {}, 'Top')).toMatch(/^---\nstatus: draft\n---\nTop\n# Projects/);
+        expect(applyNoteEdit(NOTE, 'append', {}, 'Bottom')).toMatch(/\^summary\nBottom\n$/);
+        expect(() => applyNoteEdit(NOTE, 'replace', { startLine: 10, endLine: 30 }, 'x')).toThrow('Invalid line range');
+        expect(() => applyNoteEdit(NOTE, 'replace', { block: '^missing' }, 'x')).toThrow('Block not found');
+    });
+});
+
+describe('NoteEditTool', () => {
+    afterEach(() => setVaultAccessProvider(() => undefined));
+
+    test('should apply edits with a backup and journal entry, and refuse read-only notes', async () => {
+        const file = new (TFile as any)('Projects/Plan.md');
+        const files: Record<string, string> = { 'Projects/Plan.md': NOTE };
+        const app: any = {
+            vault: {
+                configDir: '.obsidian',
+                adapter: { basePath: '/test/vault' },
+                getAbstractFileByPath: (path: string) => path === file.path ? file : null,
+                read: jest.fn(async (target: any) => files[target.path]),
+                modify: jest.fn(async (target: any, data: string) => { files[target.path] = data; })
+            }
+        };
+        const backupManager = { shouldCreateBackup: jest.fn(async () => true), createBackup: jest.fn() };
+        const runJournal = { record: jest.fn(), getActiveRun: jest.fn(() => null) };
+        const tool = new NoteEditTool(app, backupManager as any, runJournal as any);
+
+        const result = await tool.execute({ path: 'Projects/Plan.md', operation: 'append', heading: 'Done', content: 'More', preview: false }, {});
+        expect(result).toMatchObject({ success: true, data: { action: 'applied', diff: '+More' } });
+        expect(files['Projects/Plan.md']).toContain('that ends here ^summary\nMore\n');
+        expect(backupManager.createBackup).toHaveBeenCalledWith('Projects/Plan.md', NOTE);
+        expect(runJournal.record).toHaveBeenCalledWith(expect.objectContaining({ type: 'edit', previousContent: NOTE, tool: 'note_edit' }), null);
+
+        const missing = await tool.execute({ path: 'Projects/Plan.md', operation: 'append', heading: 'Nope', content: 'x', preview: false }, {});
+        expect(missing).toEqual({ success: false, error: 'Heading not found: Nope' });
+
+        setVaultAccessProvider(() => ({ includePaths: [], excludePaths: [], readOnlyPaths: ['Projects'] }));
+        const readOnly = await tool.execute({ path: 'Projects/Plan.md', operation: 'append', content: 'x', preview: false }, {});
+        expect(readOnly.success).toBe(false);
+        expect(readOnly.error).toContain('read-only');
+        expect(runJournal.record).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,110 @@
+import { TFile } from 'obsidian';
+import { NoteMetadataTool } from '../src/components/agent/tools/NoteMetadataTool';
+import { setVaultAccessProvider } from '../src/components/agent/tools/pathValidation';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+// YAMLHandler imports the dispatcher, which loads every provider SDK
+jest.mock('../src/utils/aiDispatcher', () => ({}));
+
+/**
+ * Creates an app with one note and the metadata cache Obsidian would have for it.
+ */
+function createApp(content: string) {
+    const file = new (TFile as any)('Projects/Plan.md');
+    const files: Record<string, string> = { 'Projects/Plan.md': content };
+    const app: any = {
+        vault: {
+            configDir: '.obsidian',
+            adapter: { basePath: '/test/vault' },
+            getAbstractFileByPath: (path: string) => path === file.path ? file : null,
+            read: jest.fn(async (target: any) => files[target.path]),
+            modify: jest.fn(async (target: any, data: string) => { files[target.path] = data; })
+        },
+        metadataCache: {
+            getFileCache: () => ({
+                frontmatter: { status: 'draft', tags: ['project', '#work'], position: {} },
+                tags: [{ tag: '#work' }, { tag: '#todo' }],
+                headings: [{ heading: 'Goals', level: 2 }],
+                links: [{ link: 'Ideas#Later', displayText: 'Ideas' }],
+                embeds: [{ link: 'missing.png', displayText: 'missing.png' }]
+            }),
+            getFirstLinkpathDest: (link: string) => link === 'Ideas' ? { path: 'Ideas.md' } : null,
+            resolvedLinks: {
+                'Journal/Today.md': { 'Projects/Plan.md': 1 },
+                'Private/Notes.md': { 'Projects/Plan.md': 2 },
+                'Ideas.md': { 'Other.md': 1 }
+            }
+        }
+    };
+    return { app, file, files };
+}
+
+describe('NoteMetadataTool', () => {
+    afterEach(() => setVaultAccessProvider(() => undefined));
+
+    test('should read frontmatter, tags, headings, links and visible backlinks', async () => {
+        setVaultAccessProvider(() => ({ includePaths: [], excludePaths: ['Private'], readOnlyPaths: [] }));
+        const { app } = createApp('---\nstatus: draft\n---\nBody');
+        const tool = new NoteMetadataTool(app, { shouldCreateBackup: jest.fn(), createBackup: jest.fn() } as any);
+
+        const result = await tool.execute({ path: 'Projects/Plan.md' }, {});
+
+        expect(result.success).toBe(true);
+        expect(result.data).toEqual({
+            filePath: 'Projects/Plan.md',
+            frontmatter: { status: 'draft', tags: ['project', '#work'] },
+            tags: ['#project', '#work', '#todo'],
+            headings: [{ heading: 'Goals', level: 2 }],
+            links: [
+                { link: 'Ideas#Later', displayText: 'Ideas', resolvedPath: 'Ideas.md' },
+                { link: 'missing.png', displayText: 'missing.png', resolvedPath: null }
+            ],
+            backlinks: ['Journal/Today.md']
+        });
+    });
+
+    test('should set and remove single fields, keeping the body and journaling the edits', async () => {
+        const { app, files } = createApp('---\nstatus: draft\ntitle: Plan\n---\n# Plan\nBody\n');
+        const backupManager = { shouldCreateBackup: jest.fn(async () => true), createBackup: jest.fn() };
+        const runJournal = { record: jest.fn() };
+        const tool = new NoteMetadataTool(app, backupManager as any, runJournal as any);
+
+        const set = await tool.execute({ path: 'Projects/Plan.md', action: 'set', field: 'tags', value: '["a", "b"]' }, {});
+        expect(set).toMatchObject({ success: true, data: { action: 'field_set', value: ['a', 'b'] } });
+        expect(files['Projects/Plan.md']).toBe('---\nstatus: draft\ntitle: Plan\ntags:\n  - a\n  - b\n---\n# Plan\nBody\n');
+        expect(backupManager.createBackup).toHaveBeenCalledWith('Projects/Plan.md', '---\nstatus: draft\ntitle: Plan\n---\n# Plan\nBody\n');
+        expect(runJournal.record).toHaveBeenCalledWith(expect.objectContaining({ type: 'edit', path: 'Projects/Plan.md', tool: 'note_metadata' }));
+
+        await tool.execute({ path: 'Projects/Plan.md', action: 'set', field: 'due', value: '2024-05-01' }, {});
+        expect(files['Projects/Plan.md']).toContain("due: '2024-05-01'");
+
+        const missing = await tool.execute({ path: 'Projects/Plan.md', action: 'remove', field: 'owner' }, {});
+        expect(missing).toMatchObject({ success: true, data: { action: 'unchanged' } });
+
+        for (const field of ['status', 'title', 'tags', 'due']) {
+            await tool.execute({ path: 'Projects/Plan.md', action: 'remove', field }, {});
+        }
+        expect(files['Projects/Plan.md']).toBe('# Plan\nBody\n');
+        expect(runJournal.record).toHaveBeenCalledTimes(6);
+    });
+
+    test('should refuse invalid frontmatter and read-only notes', async () => {
+        const { app, files } = createApp('---\nstatus: [unclosed\n---\nBody');
+        const tool = new NoteMetadataTool(app, { shouldCreateBackup: jest.fn(), createBackup: jest.fn() } as any);
+
+        const invalid = await tool.execute({ path: 'Projects/Plan.md', action: 'set', field: 'status', value: 'done' }, {});
+        expect(invalid.success).toBe(false);
+        expect(invalid.error).toContain('not valid YAML');
+        expect(files['Projects/Plan.md']).toBe('---\nstatus: [unclosed\n---\nBody');
+
+        setVaultAccessProvider(() => ({ includePaths: [], excludePaths: [], readOnlyPaths: ['Projects'] }));
+        const readOnly = await tool.execute({ path: 'Projects/Plan.md', action: 'remove', field: 'status' }, {});
+        expect(readOnly.success).toBe(false);
+        expect(readOnly.error).toContain('read-only');
+        expect((await tool.execute({ path: 'Projects/Plan.md', action: 'set' }, {})).success).toBe(false);
+    });
+});
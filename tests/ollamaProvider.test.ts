@@ -0,0 +1,168 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { OllamaProvider } from '../providers/ollama';
+import { createProvider, createProviderFromUnifiedModel, getAllAvailableModels, getModelIdFromUnifiedModel } from '../providers';
+import { DEFAULT_SETTINGS, MyPluginSettings } from '../src/types';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+// The Anthropic SDK needs a fetch shim at import time; it is not exercised here
+jest.mock('@anthropic-ai/sdk', () => jest.fn());
+
+// jsdom does not expose the encoding APIs used for stream decoding
+Object.assign(globalThis, { TextDecoder, TextEncoder });
+
+/**
+ * Builds a fetch response whose body yields the given string chunks.
+ */
+function streamResponse(chunks: string[]) {
+    const encoder = new TextEncoder();
+    let index = 0;
+    return {
+        ok: true,
+        status: 200,
+        body: {
+            getReader: () => ({
+                read: async () => index < chunks.length
+                    ? { done: false, value: encoder.encode(chunks[index++]) }
+                    : { done: true, value: undefined }
+            })
+        }
+    };
+}
+
+function makeSettings(overrides: Partial<MyPluginSettings['ollamaSettings']> = {}): MyPluginSettings {
+    return {
+        ...DEFAULT_SETTINGS,
+        provider: 'ollama',
+        ollamaSettings: { ...DEFAULT_SETTINGS.ollamaSettings, ...overrides }
+    };
+}
+
+describe('OllamaProvider', () => {
+    let fetchMock: jest.Mock;
+
+    beforeEach(() => {
+        fetchMock = jest.fn();
+        (globalThis as any).fetch = fetchMock;
+    });
+
+    describe('getCompletion', () => {
+        test('should stream content from NDJSON chunks, including lines split across reads', async () => {
+            fetchMock.mockResolvedValue(streamResponse([
+                '{"model":"llama3","message":{"role":"assistant","content":"Hel"},"done":false}\n{"model":"lla',
+                'ma3","message":{"role":"assistant","content":"lo"},"done":false}\n',
+                '{"model":"llama3","message":{"role":"assistant","content":""},"done":true}'
+            ]));
+
+            const provider = new OllamaProvider('http://localhost:11434/', 'llama3');
+            const chunks: string[] = [];
+            await provider.getCompletion([{ role: 'user', content: 'Hi' }], {
+                temperature: 0.3,
+                streamCallback: chunk => chunks.push(chunk)
+            });
+
+            expect(chunks.join('')).toBe('Hello');
+            expect(fetchMock).toHaveBeenCalledWith('http://localhost:11434/api/chat', expect.objectContaining({ method: 'POST' }));
+            const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+            expect(body).toEqual({
+                model: 'llama3',
+                messages: [{ role: 'user', content: 'Hi' }],
+                stream: true,
+                options: { temperature: 0.3 }
+            });
+        });
+
+        test('should send the response schema as the format', async () => {
+            fetchMock.mockResolvedValue(streamResponse([
+                '{"model":"llama3","message":{"role":"assistant","content":"{}"},"done":true}'
+            ]));
+            const schema = { type: 'object', properties: { status: { type: 'string' } }, required: ['status'], additionalProperties: false };
+
+            const provider = new OllamaProvider('http://localhost:11434/', 'llama3');
+            await provider.getCompletion([{ role: 'user', content: 'Hi' }], {
+                responseSchema: { name: 'yaml_fields', schema },
+                streamCallback: () => {}
+            });
+
+            expect(JSON.parse(fetchMock.mock.calls[0][1].body).format).toEqual(schema);
+        });
+
+        test('should report token usage from the final chunk', async () => {
+            fetchMock.mockResolvedValue(streamResponse([
+                '{"model":"llama3","message":{"role":"assistant","content":"Hi"},"done":false}\n',
+                '{"model":"llama3","message":{"role":"assistant","content":""},"done":true,"prompt_eval_count":12,"eval_count":3}\n'
+            ]));
+
+            const provider = new OllamaProvider('http://localhost:11434', 'llama3');
+            const usageCallback = jest.fn();
+            await provider.getCompletion([{ role: 'user', content: 'Hi' }], { usageCallback });
+
+            expect(usageCallback).toHaveBeenCalledWith({ inputTokens: 12, outputTokens: 3 });
+        });
+
+        test('should surface errors reported inside the stream', async () => {
+            fetchMock.mockResolvedValue(streamResponse(['{"error":"model not found"}\n']));
+
+            const provider = new OllamaProvider('http://localhost:11434', 'missing');
+            await expect(provider.getCompletion([{ role: 'user', content: 'Hi' }], {}))
+                .rejects.toThrow('model not found');
+        });
+
+        test('should swallow abort errors', async () => {
+            const abortError = new Error('aborted');
+            abortError.name = 'AbortError';
+            fetchMock.mockRejectedValue(abortError);
+
+            const provider = new OllamaProvider('http://localhost:11434', 'llama3');
+            await expect(provider.getCompletion([{ role: 'user', content: 'Hi' }], {})).resolves.toBeUndefined();
+        });
+    });
+
+    describe('getAvailableModels / testConnection', () => {
+        test('should list models from /api/tags', async () => {
+            fetchMock.mockResolvedValue({
+                ok: true,
+                json: async () => ({ models: [{ name: 'llama3:8b' }, { name: 'mistral:latest' }] })
+            });
+
+            const provider = new OllamaProvider('http://localhost:11434', 'llama3');
+            await expect(provider.getAvailableModels()).resolves.toEqual(['llama3:8b', 'mistral:latest']);
+            expect(fetchMock).toHaveBeenCalledWith('http://localhost:11434/api/tags', expect.any(Object));
+        });
+
+        test('should report an unreachable server', async () => {
+            fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+            const provider = new OllamaProvider('http://localhost:11434', 'llama3');
+            const result = await provider.testConnection();
+            expect(result.success).toBe(false);
+            expect(result.message).toContain('http://localhost:11434');
+        });
+    });
+});
+
+describe('Ollama provider wiring', () => {
+    test('createProvider should return an OllamaProvider', () => {
+        expect(createProvider(makeSettings())).toBeInstanceOf(OllamaProvider);
+    });
+
+    test('createProviderFromUnifiedModel should keep tagged model IDs intact', () => {
+        const provider = createProviderFromUnifiedModel(makeSettings(), 'ollama:llama3:8b');
+        expect(provider).toBeInstanceOf(OllamaProvider);
+        expect((provider as any).model).toBe('llama3:8b');
+        expect(getModelIdFromUnifiedModel('ollama:llama3:8b')).toBe('llama3:8b');
+    });
+
+    test('getAllAvailableModels should include Ollama models', async () => {
+        const models = await getAllAvailableModels(makeSettings({ availableModels: ['llama3:8b'] }));
+        expect(models).toEqual([{
+            id: 'ollama:llama3:8b',
+            name: 'llama3:8b (Ollama)',
+            provider: 'ollama',
+            modelId: 'llama3:8b'
+        }]);
+    });
+});
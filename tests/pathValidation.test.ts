@@ -1,4 +1,17 @@
-import { PathValidator } from '../src/components/agent/tools/pathValidation';
+import { TFile, TFolder } from 'obsidian';
+import { PathValidator, setVaultAccessProvider } from '../src/components/agent/tools/pathValidation';
+import { FileListTool } from '../src/components/agent/tools/FileListTool';
+import { FileReadTool } from '../src/components/agent/tools/FileReadTool';
+import { FileSearchTool } from '../src/components/agent/tools/FileSearchTool';
+import { FileWriteTool } from '../src/components/agent/tools/FileWriteTool';
+import { FileDeleteTool } from '../src/components/agent/tools/FileDeleteTool';
+import { FileMoveTool } from '../src/components/agent/tools/FileMoveTool';
+import { VaultAccessSettings } from '../src/types';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+  debugLog: jest.fn()
+}));
 
 // Mock Obsidian App
 const mockApp = {
@@ -188,4 +201,117 @@ describe('PathValidator factory functions', () => {
     const result = validateAndNormalizePath(mockApp, 'folder/file.md');
     expect(result).toBe('folder/file.md');
   });
-});
\ No newline at end of file
+});
+
+describe('PathValidator vault access', () => {
+  const access: VaultAccessSettings = {
+    includePaths: ['Projects/Work/**', 'Inbox'],
+    excludePaths: ['Projects/Work/Secret', '**/*.private.md'],
+    readOnlyPaths: ['Inbox/Archive']
+  };
+
+  afterEach(() => setVaultAccessProvider(() => undefined));
+
+  test('should hide paths outside the included and inside the excluded globs', () => {
+    const validator = new PathValidator(mockApp, () => access);
+
+    expect(validator.isHidden('')).toBe(false);
+    // Folders leading to included paths stay visible
+    expect(validator.isHidden('Projects')).toBe(false);
+    expect(validator.isHidden('Projects/Work/plan.md')).toBe(false);
+    expect(validator.isHidden('Projects/Home/plan.md')).toBe(true);
+    expect(validator.isHidden('Inbox/Archive/old.md')).toBe(false);
+    expect(validator.isHidden('Journal/today.md')).toBe(true);
+    expect(validator.isHidden('Projects/Work/Secret/salaries.md')).toBe(true);
+    expect(validator.isHidden('Inbox/notes.private.md')).toBe(true);
+
+    expect(validator.isReadOnly('Inbox/Archive/old.md')).toBe(true);
+    expect(() => validator.assertWritable('Inbox/new.md')).not.toThrow();
+    expect(() => validator.assertWritable('Inbox/Archive/old.md')).toThrow('read-only');
+    expect(() => validator.assertWritable('Journal/today.md')).toThrow('outside the folders');
+    // Without settings nothing is restricted
+    expect(new PathValidator(mockApp).isHidden('Journal/today.md')).toBe(false);
+  });
+
+  test('should keep hidden files out of tool results and refuse read-only writes', async () => {
+    const notes: Record<string, string> = {
+      'Inbox/todo.md': 'todo',
+      'Inbox/Archive/old.md': 'old',
+      'Journal/today.md': 'dear diary'
+    };
+    const folder = (path: string, children: Array<TFile | TFolder>) =>
+      Object.assign(new (TFolder as any)(path), { children, isRoot: () => path === '' });
+    const file = (path: string): TFile => new (TFile as any)(path);
+    const root = folder('', [
+      folder('Inbox', [file('Inbox/todo.md'), folder('Inbox/Archive', [file('Inbox/Archive/old.md')])]),
+      folder('Journal', [file('Journal/today.md')])
+    ]);
+    const app = {
+      vault: {
+        adapter: { basePath: '/test/vault/path' },
+        getRoot: () => root,
+        getAbstractFileByPath: (path: string) => (path in notes ? file(path) : null),
+        getMarkdownFiles: () => Object.keys(notes).map(file),
+        read: async (target: TFile) => notes[target.path],
+        modify: async (target: TFile, content: string) => { notes[target.path] = content; }
+      }
+    } as any;
+    setVaultAccessProvider(() => ({ includePaths: [], excludePaths: ['Journal'], readOnlyPaths: ['Inbox/Archive'] }));
+
+    const listing = await new FileListTool(app).execute({ path: '', recursive: true }, {});
+    expect(listing.data.items).toContain('todo.md');
+    expect(listing.data.items).not.toContain('Journal');
+
+    const search = await new FileSearchTool(app).execute({ query: 'md', maxResults: 10 }, {});
+    expect(search.data.files.map((match: any) => match.path)).toEqual(['Inbox/todo.md', 'Inbox/Archive/old.md']);
+
+    const read = await new FileReadTool(app).execute({ path: 'Journal/today.md' }, {});
+    expect(read).toEqual({ success: false, error: 'File not found: Journal/today.md' });
+
+    const write = await new FileWriteTool(app).execute({ path: 'Inbox/Archive/old.md', content: 'changed' }, {});
+    expect(write.success).toBe(false);
+    expect(write.error).toContain('read-only');
+    expect(notes['Inbox/Archive/old.md']).toBe('old');
+  });
+
+  test('should refuse to delete or move a folder holding hidden or read-only files', async () => {
+    const folder = (path: string, children: Array<TFile | TFolder>) => Object.assign(new (TFolder as any)(path), { children });
+    const file = (path: string): TFile => new (TFile as any)(path);
+    const entries: Record<string, TFile | TFolder> = {};
+    const register = (entry: any): any => {
+      entries[entry.path] = entry;
+      (entry.children ?? []).forEach(register);
+      return entry;
+    };
+    register(folder('Projects', [file('Projects/plan.md'), folder('Projects/Private', [file('Projects/Private/pay.md')])]));
+    register(folder('Inbox', [file('Inbox/todo.md'), folder('Inbox/Archive', [file('Inbox/Archive/old.md')])]));
+    register(folder('Notes', [file('Notes/a.md')]));
+    const app = {
+      vault: {
+        configDir: '.obsidian',
+        adapter: { basePath: '/test/vault/path' },
+        getAbstractFileByPath: (path: string) => entries[path] ?? null,
+        delete: jest.fn(),
+        trash: jest.fn()
+      },
+      fileManager: { renameFile: jest.fn() }
+    } as any;
+    setVaultAccessProvider(() => ({ includePaths: [], excludePaths: ['Projects/Private'], readOnlyPaths: ['Inbox/Archive'] }));
+    const validator = new PathValidator(app);
+
+    expect(() => validator.assertTreeWritable('Projects')).toThrow("Folder 'Projects' contains files agent tools may not change.");
+    expect(() => validator.assertTreeWritable('Inbox')).toThrow('contains files');
+    expect(() => validator.assertTreeWritable('Notes')).not.toThrow();
+    expect(() => validator.assertTreeWritable('Projects/plan.md')).not.toThrow();
+
+    const deletion = await new FileDeleteTool(app, {} as any).execute({ path: 'Projects', confirmDeletion: true }, {});
+    expect(deletion.success).toBe(false);
+    expect(deletion.error).toContain('contains files');
+    const move = await new FileMoveTool(app).execute({ sourcePath: './Inbox', destinationPath: 'Elsewhere' }, {});
+    expect(move.success).toBe(false);
+    expect(move.error).toContain('contains files');
+    expect(app.vault.delete).not.toHaveBeenCalled();
+    expect(app.vault.trash).not.toHaveBeenCalled();
+    expect(app.fileManager.renameFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,71 @@
+import { getPromptInputFields, parsePromptNote, PromptLibrary, renderPromptTemplate } from '../src/components/chat/PromptLibrary';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+describe('parsePromptNote', () => {
+    test('should read the command, description and overrides from the frontmatter', () => {
+        const content = '---\ncommand: /Tl;dr\ndescription: Short summary\nmodel: openai:gpt-4o-mini\ntemperature: 0.3\n---\nSummarize {{selection}}\n';
+        expect(parsePromptNote('AI Prompts/Summary.md', content)).toEqual({
+            path: 'AI Prompts/Summary.md',
+            command: 'tldr',
+            description: 'Short summary',
+            template: 'Summarize {{selection}}',
+            model: 'openai:gpt-4o-mini',
+            temperature: 0.3
+        });
+
+        expect(parsePromptNote('AI Prompts/Fix Grammar.md', 'Fix the grammar.\n---\ntemperature: 5')).toMatchObject({ command: 'fix-grammar', temperature: undefined });
+        expect(parsePromptNote('AI Prompts/Empty.md', '---\ndescription: nothing\n---\n')).toBeNull();
+        expect(parsePromptNote('AI Prompts/Broken.md', '---\ncommand: [\n---\nText')).toBeNull();
+    });
+});
+
+describe('renderPromptTemplate', () => {
+    test('should fill in variables and input fields, keeping unknown variables', () => {
+        const template = 'Translate into {{input:Language|French}} for {{ input:Audience }}:\n{{selection}}\n{{unknown}} {{input:Language}}';
+
+        expect(getPromptInputFields(template)).toEqual([
+            { name: 'Language', defaultValue: 'French' },
+            { name: 'Audience', defaultValue: '' }
+        ]);
+        expect(renderPromptTemplate(template, { selection: 'Hello' }, { Audience: 'kids' }))
+            .toBe('Translate into French for kids:\nHello\n{{unknown}} French');
+        expect(renderPromptTemplate(template, { selection: '' }, { Language: 'German', Audience: 'adults' }))
+            .toBe('Translate into German for adults:\n\n{{unknown}} German');
+    });
+});
+
+describe('PromptLibrary', () => {
+    test('should load prompts from the folder, skipping built-in and duplicate commands', async () => {
+        const notes: Record<string, string> = {
+            'AI Prompts/Summarize.md': 'Summarize {{current_note}}',
+            'AI Prompts/Nested/Daily.md': '---\ndescription: Plan the day\n---\nPlan {{date}}',
+            'AI Prompts/Clear.md': 'Shadows /clear',
+            'AI Prompts/Other.md': '---\ncommand: summarize\n---\nDuplicate',
+            'Notes/Elsewhere.md': 'Not a prompt'
+        };
+        const files = Object.keys(notes).map(path => ({ path }));
+        const plugin: any = {
+            settings: { promptLibraryFolder: 'AI Prompts/' },
+            app: {
+                vault: {
+                    getMarkdownFiles: () => files,
+                    read: async (file: any) => notes[file.path]
+                }
+            }
+        };
+        const library = new PromptLibrary(plugin);
+        await library.reload();
+
+        expect(library.getPrompts().map(prompt => prompt.command)).toEqual(['daily', 'summarize']);
+        expect(library.findPrompt('/Daily')?.description).toBe('Plan the day');
+        expect(library.findPrompt('clear')).toBeUndefined();
+
+        plugin.settings.promptLibraryFolder = '';
+        await library.reload();
+        expect(library.getPrompts()).toEqual([]);
+    });
+});
@@ -0,0 +1,116 @@
+import { chunkMarkdown, cosineSimilarity, LocalEmbeddingProvider } from '../src/components/semantic/EmbeddingService';
+import { VectorStore } from '../src/components/semantic/VectorStore';
+import { SemanticIndex } from '../src/components/semantic/SemanticIndex';
+import { setVaultAccessProvider } from '../src/components/agent/tools/pathValidation';
+import { SemanticSearchTool } from '../src/components/agent/tools/SemanticSearchTool';
+import { parseSemanticSearchBlock } from '../src/components/semantic/SemanticSearchCodeBlock';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+describe('chunkMarkdown', () => {
+    test('should drop frontmatter and track heading paths', () => {
+        const content = '---\ntags: [a]\n---\nIntro text\n\n# Project\n\n## Goals\n\nShip it.';
+        expect(chunkMarkdown(content, 1000, 0)).toEqual([
+            { text: 'Intro text', heading: undefined },
+            { text: 'Ship it.', heading: 'Project > Goals' }
+        ]);
+    });
+
+    test('should split long sections into chunks within the size limit', () => {
+        const paragraph = 'This is a sentence about notes. '.repeat(10).trim();
+        const chunks = chunkMarkdown(Array(6).fill(paragraph).join('\n\n'), 500, 50);
+        expect(chunks.length).toBeGreaterThan(1);
+        chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(500 + 50 + 2));
+    });
+});
+
+describe('LocalEmbeddingProvider', () => {
+    test('should rank texts sharing vocabulary above unrelated ones', async () => {
+        const provider = new LocalEmbeddingProvider();
+        const [query, related, unrelated] = await provider.embed([
+            'quarterly budget planning',
+            'Notes from the quarterly budget planning meeting',
+            'Recipe for sourdough bread'
+        ]);
+        expect(query).toHaveLength(512);
+        expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+    });
+});
+
+describe('VectorStore', () => {
+    const entry = (path: string, embedding: number[]) => ({ path, chunkIndex: 0, text: path, embedding, mtime: 1 });
+
+    test('should search, rename and remove entries', () => {
+        const store = new VectorStore({} as any, 'index.json');
+        store.clear('local:hash-512');
+        store.setFileEntries('a/one.md', [entry('a/one.md', [1, 0])]);
+        store.setFileEntries('b/two.md', [entry('b/two.md', [0.6, 0.8])]);
+
+        expect(store.search([1, 0], 5, 0.5).map(r => r.path)).toEqual(['a/one.md', 'b/two.md']);
+        expect(store.search([1, 0], 5, 0.5, 'b/').map(r => r.path)).toEqual(['b/two.md']);
+        // Paths are checked before the results are limited
+        expect(store.search([1, 0], 1, 0.5, undefined, path => path !== 'a/one.md').map(r => r.path)).toEqual(['b/two.md']);
+
+        expect(store.renameFile('a/one.md', 'c/one.md')).toBe(true);
+        expect(store.getIndexedPaths().sort()).toEqual(['b/two.md', 'c/one.md']);
+        expect(store.removeFile('b/two.md')).toBe(true);
+        expect(store.getStats()).toEqual({ files: 1, chunks: 1, embeddingModel: 'local:hash-512' });
+    });
+});
+
+describe('SemanticIndex', () => {
+    afterEach(() => setVaultAccessProvider(() => undefined));
+
+    test('should not embed notes hidden from agent tools', async () => {
+        setVaultAccessProvider(() => ({ includePaths: [], excludePaths: ['Private'], readOnlyPaths: [] }));
+        const file = (path: string) => ({ path, basename: path, extension: 'md', stat: { mtime: 1 } });
+        const app: any = {
+            vault: {
+                adapter: { basePath: '/vault', exists: async () => false, write: jest.fn() },
+                getMarkdownFiles: () => [file('Notes/a.md'), file('Private/b.md')],
+                cachedRead: async () => 'Some text'
+            }
+        };
+        const index = new SemanticIndex(app, 'data', () => ({ semanticSearch: { enabled: true, embeddingProvider: 'local' } }) as any);
+
+        expect(await index.updateAll()).toBe(1);
+        expect(await index.getStats()).toMatchObject({ files: 1 });
+        await index.dispose();
+    });
+});
+
+describe('SemanticSearchTool', () => {
+    test('should report when the semantic index is disabled', async () => {
+        const tool = new SemanticSearchTool({} as any, { isEnabled: () => false } as any);
+        const result = await tool.execute({ query: 'budget' }, {});
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('disabled');
+    });
+
+    test('should return passages restricted to a folder', async () => {
+        const search = jest.fn().mockResolvedValue([{ path: 'work/plan.md', chunkIndex: 0, heading: 'Budget', text: 'Q3 budget', score: 0.91234 }]);
+        const tool = new SemanticSearchTool({} as any, { isEnabled: () => true, search } as any);
+        const result = await tool.execute({ query: 'budget', folder: '/work/' }, {});
+        expect(search).toHaveBeenCalledWith('budget', { maxResults: undefined, threshold: undefined, pathPrefix: 'work/', includePath: expect.any(Function) });
+        expect(result.data.results[0]).toEqual({ path: 'work/plan.md', heading: 'Budget', score: 0.912, text: 'Q3 budget' });
+    });
+});
+
+describe('parseSemanticSearchBlock', () => {
+    test('should separate option lines from the query', () => {
+        expect(parseSemanticSearchBlock('machine learning\nconcepts\nlimit: 3\nfolder: /Research/\ntags: #ml, ideas\nthreshold: 0.7')).toEqual({
+            query: 'machine learning concepts',
+            limit: 3,
+            threshold: 0.7,
+            folder: 'Research',
+            tags: ['ml', 'ideas']
+        });
+    });
+
+    test('should treat a plain body as the query', () => {
+        expect(parseSemanticSearchBlock('project management techniques\n')).toEqual({ query: 'project management techniques', tags: [] });
+    });
+});
@@ -0,0 +1,117 @@
+import { ToolPermissionPolicy, resolveToolPermission } from '../src/components/agent/ToolPermissionPolicy';
+import { ToolRegistry } from '../src/components/agent/ToolRegistry';
+import { ToolPermissionRule } from '../src/types';
+import { matchesPathGlob } from '../src/utils/pathGlob';
+import { PathValidator } from '../src/components/agent/tools/pathValidation';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+/**
+ * Tool stub that records the parameters it was run with.
+ */
+function createTool(name: string) {
+    return {
+        name,
+        description: `${name} stub`,
+        parameters: {},
+        execute: jest.fn(async (params: any) => ({ success: true, data: params }))
+    };
+}
+
+describe('resolveToolPermission', () => {
+    test('should match path globs and prefer the most specific rule', () => {
+        expect(matchesPathGlob('Journal/2024/today.md', 'Journal/**')).toBe(true);
+        expect(matchesPathGlob('Journal/today.md', 'Journal/')).toBe(true);
+        expect(matchesPathGlob('notes/today.md', '*.md')).toBe(false);
+        expect(matchesPathGlob('today.md', '**/*.md')).toBe(true);
+
+        const rules: ToolPermissionRule[] = [
+            { tool: '*', permission: 'ask' },
+            { tool: 'file_read', permission: 'allow' },
+            { tool: '*', pathGlob: 'Private/**', permission: 'deny' },
+            { tool: 'file_write', pathGlob: 'Inbox/*.md', permission: 'allow' }
+        ];
+        const permissionFor = (action: string, parameters: Record<string, any>) =>
+            resolveToolPermission(rules, { action, parameters });
+
+        expect(permissionFor('file_read', { path: 'notes/a.md' })).toBe('allow');
+        expect(permissionFor('file_read', { path: 'Private/diary.md' })).toBe('deny');
+        expect(permissionFor('file_write', { path: 'Inbox/idea.md' })).toBe('allow');
+        expect(permissionFor('file_write', { path: 'Inbox/sub/idea.md' })).toBe('ask');
+        // The strictest permission applies across all paths of a command
+        expect(permissionFor('file_move', { sourcePath: 'Inbox/idea.md', destinationPath: 'Private/idea.md' })).toBe('deny');
+        expect(resolveToolPermission([], { action: 'file_delete', parameters: { path: 'a.md' } })).toBe('allow');
+    });
+
+    test('should normalize paths and let folder rules cover their contents', () => {
+        const pathValidator = new PathValidator({ vault: { adapter: { basePath: '/vault' } } } as any);
+        const rules: ToolPermissionRule[] = [
+            { tool: '*', pathGlob: 'Journal/**', permission: 'deny' },
+            { tool: '*', pathGlob: 'Private', permission: 'deny' }
+        ];
+        const permissionFor = (path: string) =>
+            resolveToolPermission(rules, { action: 'file_write', parameters: { path } }, pathValidator);
+
+        expect(permissionFor('./Journal/x.md')).toBe('deny');
+        expect(permissionFor('/vault/Journal/x.md')).toBe('deny');
+        expect(permissionFor('Notes/../Journal/x.md')).toBe('deny');
+        expect(permissionFor('Private/2024/diary.md')).toBe('deny');
+        expect(permissionFor('PrivateNotes/a.md')).toBe('allow');
+    });
+});
+
+describe('ToolRegistry permissions', () => {
+    test('should ask before running, remember session allowances and report denials', async () => {
+        const settings = {
+            activeSessionId: 'session-1',
+            toolPermissions: [
+                { tool: 'file_write', permission: 'ask' },
+                { tool: 'file_delete', permission: 'deny' }
+            ] as ToolPermissionRule[]
+        };
+        const plugin = {
+            settings,
+            toolPermissionPolicy: new ToolPermissionPolicy(() => settings.toolPermissions, () => settings.activeSessionId)
+        };
+        const registry = new ToolRegistry(plugin);
+        const writeTool = createTool('file_write');
+        const deleteTool = createTool('file_delete');
+        registry.register(writeTool);
+        registry.register(deleteTool);
+
+        // Without an approval handler, tools that ask are denied
+        const unattended = await registry.execute({ action: 'file_write', parameters: { path: 'a.md' }, requestId: 'r0' });
+        expect(unattended).toMatchObject({ success: false, requestId: 'r0' });
+
+        const approvals = jest.fn()
+            .mockResolvedValueOnce('deny')
+            .mockResolvedValueOnce('once')
+            .mockResolvedValueOnce('session');
+        registry.setApprovalHandler(approvals);
+
+        const denied = await registry.execute({ action: 'file_write', parameters: { path: 'a.md' } });
+        expect(denied).toEqual({ success: false, error: 'The user denied running file_write', requestId: undefined });
+        expect(writeTool.execute).not.toHaveBeenCalled();
+
+        await registry.execute({ action: 'file_write', parameters: { path: 'a.md', content: 'x' } });
+        expect(approvals).toHaveBeenLastCalledWith({ action: 'file_write', parameters: { path: 'a.md', content: 'x' } });
+        await registry.execute({ action: 'file_write', parameters: { path: 'b.md' } });
+        await registry.execute({ action: 'file_write', parameters: { path: 'c.md' } });
+        expect(approvals).toHaveBeenCalledTimes(3);
+        expect(writeTool.execute).toHaveBeenCalledTimes(3);
+
+        // Session allowances do not carry over to another chat session, and never override a deny rule
+        settings.activeSessionId = 'session-2';
+        approvals.mockResolvedValueOnce('once');
+        await registry.execute({ action: 'file_write', parameters: { path: 'd.md' } });
+        expect(approvals).toHaveBeenCalledTimes(4);
+
+        const forbidden = await registry.execute({ action: 'file_delete', parameters: { path: 'a.md' } });
+        expect(forbidden.success).toBe(false);
+        expect(forbidden.error).toContain('not permitted');
+        expect(deleteTool.execute).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,92 @@
+import { UsageTracker, calculateCost, estimateUsage, findModelPricing, formatUsageDay } from '../src/utils/usageTracker';
+import { MetricsCollector } from '../src/services/core/MetricsCollector';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+const pricing = {
+    'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    'anthropic:claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 }
+};
+
+describe('usage pricing', () => {
+    test('should match unified ids, bare ids and the longest prefix', () => {
+        expect(findModelPricing('openai:gpt-4o', pricing)).toBe(pricing['gpt-4o']);
+        expect(findModelPricing('openai:gpt-4o-mini-2024-07-18', pricing)).toBe(pricing['gpt-4o-mini']);
+        expect(findModelPricing('anthropic:claude-3-5-sonnet', pricing)).toBe(pricing['anthropic:claude-3-5-sonnet']);
+        expect(findModelPricing('ollama:llama3:8b', pricing)).toBeUndefined();
+    });
+
+    test('should calculate cost per million tokens and default to 0 for unpriced models', () => {
+        expect(calculateCost('openai:gpt-4o', { inputTokens: 1_000_000, outputTokens: 500_000 }, pricing)).toBeCloseTo(7.5);
+        expect(calculateCost('ollama:llama3', { inputTokens: 1000, outputTokens: 1000 }, pricing)).toBe(0);
+    });
+
+    test('should estimate usage from character counts', () => {
+        const usage = estimateUsage([{ role: 'user', content: '12345678' }], '1234');
+        expect(usage).toEqual({ inputTokens: 2, outputTokens: 1, estimated: true });
+    });
+});
+
+describe('UsageTracker', () => {
+    const timestamp = new Date(2025, 0, 15, 12).getTime();
+
+    test('should keep totals per provider, day and session', () => {
+        const tracker = new UsageTracker();
+        tracker.record({ provider: 'openai', model: 'openai:gpt-4o', sessionId: 's1', usage: { inputTokens: 100, outputTokens: 50 }, cost: 0.01, timestamp });
+        tracker.record({ provider: 'ollama', model: 'ollama:llama3', usage: { inputTokens: 10, outputTokens: 5, estimated: true }, cost: 0, timestamp });
+
+        const snapshot = tracker.getSnapshot();
+        expect(snapshot.total).toEqual({ requests: 2, inputTokens: 110, outputTokens: 55, cost: 0.01, estimatedRequests: 1 });
+        expect(snapshot.byProvider.openai.requests).toBe(1);
+        expect(snapshot.byDay['2025-01-15'].requests).toBe(2);
+        expect(Object.keys(snapshot.bySession)).toEqual(['s1']);
+        expect(formatUsageDay(timestamp)).toBe('2025-01-15');
+    });
+
+    test('should export a CSV row per bucket', () => {
+        const tracker = new UsageTracker();
+        tracker.record({ provider: 'openai', model: 'openai:gpt-4o', usage: { inputTokens: 100, outputTokens: 50 }, cost: 0.01, timestamp });
+
+        const lines = tracker.export('csv').split('\n');
+        expect(lines[0]).toBe('scope,key,requests,input_tokens,output_tokens,cost_usd,estimated_requests');
+        expect(lines).toContain('provider,openai,1,100,50,0.010000,0');
+        expect(lines).toContain('day,2025-01-15,1,100,50,0.010000,0');
+    });
+
+    test('should load and persist totals through the vault adapter', async () => {
+        const files: Record<string, string> = {
+            'usage.json': JSON.stringify({ total: { requests: 3, inputTokens: 1, outputTokens: 2, cost: 0.5, estimatedRequests: 0 } })
+        };
+        const adapter = {
+            exists: jest.fn(async (path: string) => path in files),
+            read: jest.fn(async (path: string) => files[path]),
+            write: jest.fn(async (path: string, data: string) => { files[path] = data; })
+        };
+        const tracker = new UsageTracker({ vault: { adapter } } as any, 'usage.json');
+        await tracker.initialize();
+        expect(tracker.getSnapshot().total.requests).toBe(3);
+        expect(tracker.getSnapshot().byProvider).toEqual({});
+
+        tracker.record({ provider: 'openai', model: 'gpt-4o', usage: { inputTokens: 1, outputTokens: 1 }, cost: 0, timestamp });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(JSON.parse(files['usage.json']).total.requests).toBe(4);
+    });
+
+    test('should keep usage when the metrics collector is disposed and clear it on reset', () => {
+        jest.useFakeTimers(); // The collector reports on an interval
+        const tracker = new UsageTracker();
+        const collector = new MetricsCollector({ publish: jest.fn() } as any, tracker);
+        collector.recordUsage('openai', 'gpt-4o', { inputTokens: 1, outputTokens: 1 }, 0.01);
+
+        collector.dispose();
+        expect(tracker.getSnapshot().total.requests).toBe(1);
+
+        collector.resetMetrics();
+        expect(tracker.getSnapshot().total.requests).toBe(0);
+        jest.useRealTimers();
+    });
+});
@@ -0,0 +1,116 @@
+import { TFile } from 'obsidian';
+import { YamlBatchRunner } from '../src/components/YamlBatchRunner';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+// Keep the AI SDKs out of the test
+jest.mock('../src/utils/aiDispatcher', () => ({}));
+
+function createPlugin(notes: Record<string, string>, frontmatter: Record<string, Record<string, any>> = {}, tags: Record<string, string[]> = {}) {
+    const files = Object.keys(notes).map(path => new (TFile as any)(path));
+    const storage: Record<string, string> = {};
+    const getCompletion = jest.fn(async (messages: any[], options: any) => {
+        const name = messages[1].content.split('\n').pop();
+        options.streamCallback(`Summary of ${name}\n`);
+    });
+    const app: any = {
+        vault: {
+            getMarkdownFiles: () => files,
+            getAbstractFileByPath: (path: string) => files.find(file => file.path === path) ?? null,
+            cachedRead: async (file: any) => notes[file.path],
+            read: async (file: any) => notes[file.path],
+            modify: jest.fn(async (file: any, content: string) => { notes[file.path] = content; }),
+            adapter: {
+                exists: async (path: string) => path in storage,
+                read: async (path: string) => storage[path],
+                write: async (path: string, data: string) => { storage[path] = data; }
+            }
+        },
+        metadataCache: {
+            getFileCache: (file: any) => ({
+                frontmatter: frontmatter[file.path],
+                tags: (tags[file.path] ?? []).map(tag => ({ tag }))
+            })
+        }
+    };
+    const plugin: any = {
+        app,
+        settings: {},
+        aiDispatcher: {
+            getCompletion,
+            // Runs the tasks one after another, like the dispatcher does with a concurrency of one
+            runBatch: async (tasks: Array<() => Promise<void>>) => {
+                for (const task of tasks) await task();
+                return [];
+            }
+        }
+    };
+    return { plugin, getCompletion, storage };
+}
+
+describe('YamlBatchRunner', () => {
+    test('should select notes by folder, tag and search', async () => {
+        const { plugin } = createPlugin({
+            'Projects/Alpha.md': 'About rockets',
+            'Projects/Sub/Beta.md': 'About boats',
+            'Inbox/Gamma.md': '---\ntags: [project/idea]\n---\nRockets again',
+            'ProjectsArchive/Delta.md': 'Old'
+        }, { 'Inbox/Gamma.md': { tags: ['project/idea'] } }, { 'Projects/Alpha.md': ['#Project'] });
+        const runner = new YamlBatchRunner(plugin, 'data/yaml-batch-run.json', async messages => messages);
+        const paths = async (target: any) => (await runner.selectNotes(target)).map(file => file.path);
+
+        expect(await paths({ type: 'folder', value: '/Projects/' })).toEqual(['Projects/Alpha.md', 'Projects/Sub/Beta.md']);
+        expect(await paths({ type: 'folder', value: '' })).toHaveLength(4);
+        expect(await paths({ type: 'tag', value: '#project' })).toEqual(['Inbox/Gamma.md', 'Projects/Alpha.md']);
+        expect(await paths({ type: 'search', value: 'rocket' })).toEqual(['Inbox/Gamma.md', 'Projects/Alpha.md']);
+        expect(await paths({ type: 'search', value: ' ' })).toEqual([]);
+    });
+
+    test('should generate values, resume after a restart and write only approved values', async () => {
+        const notes: Record<string, string> = {
+            'Notes/A.md': 'First note',
+            'Notes/B.md': '---\nsummary: Old summary\n---\nSecond note',
+            'Notes/C.md': 'Third note'
+        };
+        const { plugin, getCompletion } = createPlugin(notes, { 'Notes/B.md': { summary: 'Old summary' } });
+        plugin.settings.enableContextNotes = true;
+        const processMessages = jest.fn(async (messages: any[]) => messages);
+        const runner = new YamlBatchRunner(plugin, 'data/yaml-batch-run.json', processMessages);
+
+        await runner.start({ type: 'attribute', attributeName: 'summary', prompt: 'Summarize.' }, { type: 'folder', value: 'Notes' });
+        // Stop after the first note, as if Obsidian was closed
+        const unsubscribe = runner.onProgress(() => runner.stop());
+        await runner.generate();
+        unsubscribe();
+        expect(runner.getRun()!.items.map(item => item.status)).toEqual(['generated', 'pending', 'pending']);
+
+        const resumed = new YamlBatchRunner(plugin, 'data/yaml-batch-run.json', processMessages);
+        await resumed.initialize();
+        await resumed.generate();
+        expect(getCompletion).toHaveBeenCalledTimes(3);
+        // Context notes are left out per request, without touching the shared settings
+        expect(processMessages).toHaveBeenCalledWith(expect.any(Array), { includeContextNotes: false });
+        expect(plugin.settings.enableContextNotes).toBe(true);
+
+        const items = resumed.getRun()!.items;
+        expect(items.map(item => [item.value, item.currentValue, item.approved])).toEqual([
+            ['Summary of First note', undefined, true],
+            ['Summary of Second note', 'Old summary', false], // Would replace an existing value
+            ['Summary of Third note', undefined, true]
+        ]);
+
+        resumed.updateItem('Notes/C.md', { value: 'Edited summary' });
+        expect(await resumed.apply()).toEqual({ written: 2, failed: 0 });
+        expect(notes['Notes/A.md']).toBe('---\nsummary: Summary of First note\n---\nFirst note');
+        expect(notes['Notes/B.md']).toContain('summary: Old summary');
+        expect(notes['Notes/C.md']).toBe('---\nsummary: Edited summary\n---\nThird note');
+
+        // Values already written are not written again
+        expect(await resumed.apply()).toEqual({ written: 0, failed: 0 });
+        await resumed.discard();
+        expect(resumed.getRun()).toBeNull();
+    });
+});
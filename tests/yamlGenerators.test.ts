@@ -0,0 +1,126 @@
+import { TFile } from 'obsidian';
+import { generateStructuredYamlForContent, upsertYamlFields } from '../src/YAMLHandler';
+import {
+    buildGeneratorSchema,
+    getGeneratorFields,
+    isStructuredGenerator,
+    parseStructuredResponse,
+    resolveFieldValue
+} from '../src/utils/yamlGeneratorSchema';
+import { YamlAttributeGenerator } from '../src/types';
+
+// Mock the logger
+jest.mock('../src/utils/logger', () => ({
+    debugLog: jest.fn()
+}));
+
+// YAMLHandler imports the dispatcher, which loads every provider SDK
+jest.mock('../src/utils/aiDispatcher', () => ({}));
+
+const generator: YamlAttributeGenerator = {
+    attributeName: 'status',
+    prompt: 'Classify this note.',
+    outputMode: 'metadata',
+    commandName: 'Generate YAML: status',
+    outputType: 'enum',
+    allowedValues: ['Draft', 'Done'],
+    additionalFields: [
+        { name: 'tags', type: 'list' },
+        { name: 'due', type: 'date' },
+        { name: 'project', type: 'link' },
+        { name: 'effort', type: 'number' },
+        { name: '', type: 'string' }
+    ]
+};
+
+describe('YAML generator schema', () => {
+    test('should build a strict schema for every named field', () => {
+        const fields = getGeneratorFields(generator);
+        expect(fields.map(field => field.name)).toEqual(['status', 'tags', 'due', 'project', 'effort']);
+        expect(isStructuredGenerator(generator)).toBe(true);
+        expect(isStructuredGenerator({ ...generator, outputType: undefined, additionalFields: [] })).toBe(false);
+
+        const { schema } = buildGeneratorSchema(fields);
+        expect(schema.required).toEqual(['status', 'tags', 'due', 'project', 'effort']);
+        expect(schema.additionalProperties).toBe(false);
+        expect(schema.properties.status).toEqual({ type: 'string', enum: ['Draft', 'Done'] });
+        expect(schema.properties.tags).toEqual({ type: 'array', items: { type: 'string' } });
+        expect(schema.properties.effort).toEqual({ type: 'number' });
+        expect(() => buildGeneratorSchema([{ name: 'kind', type: 'enum', allowedValues: [] }])).toThrow('no allowed values');
+    });
+
+    test('should validate and normalize values, reporting every problem', () => {
+        const fields = getGeneratorFields(generator);
+        const linkExists = (target: string) => target === 'Apollo';
+
+        expect(parseStructuredResponse(
+            '```json\n{"status":"done","tags":["a"," b","a",""],"due":"2024-02-29","project":"[[Apollo]]","effort":"3"}\n```',
+            fields,
+            linkExists
+        )).toEqual({ status: 'Done', tags: ['a', 'b'], due: '2024-02-29', project: '[[Apollo]]', effort: 3 });
+
+        // Empty values are left out rather than written
+        expect(parseStructuredResponse('{"status":"Draft","tags":[],"due":"","project":"Apollo","effort":1}', fields, linkExists))
+            .toEqual({ status: 'Draft', project: '[[Apollo]]', effort: 1 });
+
+        expect(() => parseStructuredResponse(
+            '{"status":"Later","tags":"x","due":"2023-02-29","project":"Hermes","effort":"many"}',
+            fields,
+            linkExists
+        )).toThrow('"status" must be one of: Draft, Done; "due" must be a date in YYYY-MM-DD format; ' +
+            '"project" must link to an existing note, got "Hermes"; "effort" must be a number');
+        expect(() => parseStructuredResponse('{"status":"Done"}', fields)).toThrow('"tags" is missing');
+        expect(() => parseStructuredResponse('Done', fields)).toThrow('not valid JSON');
+    });
+
+    test('should apply the existing value policy', () => {
+        expect(resolveFieldValue('skip', undefined, 'new')).toBe('new');
+        expect(resolveFieldValue('skip', 'old', 'new')).toBeUndefined();
+        expect(resolveFieldValue('replace', 'old', 'new')).toBe('new');
+        expect(resolveFieldValue('merge', 'old', 'new')).toBeUndefined();
+        expect(resolveFieldValue('merge', '', 'new')).toBe('new');
+        expect(resolveFieldValue('merge', ['a', 'b'], ['b', 'c'])).toEqual(['a', 'b', 'c']);
+        expect(resolveFieldValue('merge', 'a', ['a'])).toBeUndefined();
+    });
+});
+
+describe('Structured YAML generation', () => {
+    test('should request schema constrained output and return the validated values', async () => {
+        const getCompletion = jest.fn(async (_messages: any[], options: any) => {
+            options.streamCallback('{"status":"Done","tags":["x"],"due":"2024-01-05","project":"Apollo","effort":2}');
+        });
+        const values = await generateStructuredYamlForContent(
+            {} as any,
+            async messages => messages,
+            generator,
+            'Note content',
+            { getCompletion } as any,
+            () => true
+        );
+
+        expect(values).toEqual({ status: 'Done', tags: ['x'], due: '2024-01-05', project: '[[Apollo]]', effort: 2 });
+        const [messages, options] = getCompletion.mock.calls[0];
+        expect(options.responseSchema.schema.required).toContain('effort');
+        expect(messages[1].content).toContain('JSON schema:');
+        expect(messages[1].content).toContain('Note content');
+    });
+
+    test('should write several fields in one change following the policy', async () => {
+        const file = new (TFile as any)('Note.md');
+        let content = '---\ntags:\n  - a\nstatus: Draft\n---\nBody';
+        const app: any = {
+            vault: {
+                read: async () => content,
+                modify: jest.fn(async (_file: any, data: string) => { content = data; })
+            }
+        };
+
+        const written = await upsertYamlFields(app, file, { tags: ['a', 'b'], status: 'Done', due: '2024-01-05' }, 'merge');
+        expect(written).toEqual(['tags', 'due']);
+        expect(app.vault.modify).toHaveBeenCalledTimes(1);
+        expect(content).toBe("---\ntags:\n  - a\n  - b\nstatus: Draft\ndue: '2024-01-05'\n---\nBody");
+
+        expect(await upsertYamlFields(app, file, { status: 'Done' }, 'skip')).toEqual([]);
+        expect(app.vault.modify).toHaveBeenCalledTimes(1);
+    });
+});